@@ -58,6 +58,18 @@ setup("cleanup rate limit data before tests", async () => {
       console.log(`🗑️  Deleted ${generationsCount ?? 0} generation(s) to reset rate limit`);
     }
 
+    // Clean up AI request records counted by the rate limit
+    const { error: aiRequestsDeleteError, count: aiRequestsCount } = await supabase
+      .from("ai_requests")
+      .delete({ count: "exact" })
+      .neq("id", "00000000-0000-0000-0000-000000000000"); // Delete all (dummy condition for RLS)
+
+    if (aiRequestsDeleteError) {
+      console.error("❌ Error deleting AI requests:", aiRequestsDeleteError);
+    } else {
+      console.log(`🗑️  Deleted ${aiRequestsCount ?? 0} AI request(s) to reset rate limit`);
+    }
+
     // Clean up generation error logs
     const { error: errorLogsDeleteError, count: errorLogsCount } = await supabase
       .from("generation_error_logs")
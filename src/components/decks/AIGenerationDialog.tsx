@@ -1,12 +1,27 @@
-import { useState, useCallback, useMemo } from "react";
-import { Loader2, Sparkles, Check } from "lucide-react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { Loader2, Sparkles, Check, FileText, X, History, RefreshCw, Wand2 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Label } from "@/components/ui/label";
-import type { GeneratedSuggestionDto, AcceptFlashcardItem } from "../../types";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { DropZone } from "@/components/fluent/DropZone";
+import type {
+  GeneratedSuggestionDto,
+  AcceptFlashcardItem,
+  ExtractTextResponseDto,
+  UnfinishedGenerationDto,
+  RefineSuggestionCommand,
+  SuggestionRefineAction,
+  FlashcardType,
+} from "../../types";
 
 // ------------------------------------------------------------------
 // Types
@@ -14,6 +29,8 @@ import type { GeneratedSuggestionDto, AcceptFlashcardItem } from "../../types";
 
 interface SuggestionViewModel extends GeneratedSuggestionDto {
   tempId: string;
+  /** ID of the persisted suggestion, null until the generation completes */
+  suggestionId: string | null;
   isSelected: boolean;
   isEdited: boolean;
   originalFront: string;
@@ -22,13 +39,46 @@ interface SuggestionViewModel extends GeneratedSuggestionDto {
 
 type WizardStep = "input" | "review";
 
+interface SourceFileInfo {
+  name: string;
+  charCount: number;
+}
+
 interface AIGenerationDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onGenerate: (sourceText: string) => Promise<{ generationId: string; suggestions: GeneratedSuggestionDto[] }>;
+  /**
+   * Generates suggestions. Implementations that stream may call `onSuggestion` for every suggestion
+   * as soon as it is ready; the resolved value is the complete set. `cachedAt` is set when
+   * the suggestions of an earlier generation for the same text were reused; `forceRegenerate`
+   * asks for fresh suggestions. `cardType` selects basic or cloze suggestions.
+   */
+  onGenerate: (
+    sourceText: string,
+    onSuggestion: (suggestion: GeneratedSuggestionDto) => void,
+    options: { forceRegenerate: boolean; cardType: FlashcardType }
+  ) => Promise<{
+    generationId: string;
+    suggestions: (GeneratedSuggestionDto & { id: string })[];
+    cachedAt?: string | null;
+  }>;
   onAccept: (generationId: string, flashcards: AcceptFlashcardItem[]) => Promise<void>;
+  /**
+   * Rewrites a single persisted suggestion with AI; resolves with the refined suggestion
+   * (two suggestions for "split"). The AI actions of a suggestion are shown only when provided.
+   */
+  onRefine?: (
+    generationId: string,
+    suggestionId: string,
+    command: RefineSuggestionCommand
+  ) => Promise<(GeneratedSuggestionDto & { id: string })[]>;
+  /** Unfinished generation to resume: the dialog opens at the review of its pending suggestions */
+  resumeGeneration?: UnfinishedGenerationDto | null;
+  /** Extracts source text from an uploaded file; the file drop zone is shown only when provided */
+  onExtractFile?: (file: File) => Promise<ExtractTextResponseDto>;
   isGenerating: boolean;
   isAccepting: boolean;
+  isExtracting?: boolean;
 }
 
 // ------------------------------------------------------------------
@@ -36,7 +86,40 @@ interface AIGenerationDialogProps {
 // ------------------------------------------------------------------
 
 const MIN_CHARS = 1000;
-const MAX_CHARS = 10000;
+const MAX_CHARS = 100000;
+
+const ACCEPTED_FILE_TYPES = ".pdf,.docx,.epub,.md,.markdown,.html,.htm,.xhtml,.txt";
+
+const REFINE_ACTIONS: { action: SuggestionRefineAction; label: string }[] = [
+  { action: "regenerate", label: "Regenerate" },
+  { action: "shorten", label: "Make shorter" },
+  { action: "harden", label: "Make harder" },
+  { action: "split", label: "Split into two" },
+  { action: "add_example", label: "Add example" },
+];
+
+const CARD_TYPES: { cardType: FlashcardType; label: string }[] = [
+  { cardType: "basic", label: "Question & answer" },
+  { cardType: "cloze", label: "Cloze deletion" },
+];
+
+// ------------------------------------------------------------------
+// Helpers
+// ------------------------------------------------------------------
+
+function toViewModel(suggestion: GeneratedSuggestionDto & { id?: string }, index: number): SuggestionViewModel {
+  return {
+    front: suggestion.front,
+    back: suggestion.back,
+    tags: suggestion.tags,
+    tempId: `suggestion-${index}-${Date.now()}`,
+    suggestionId: suggestion.id ?? null,
+    isSelected: true,
+    isEdited: false,
+    originalFront: suggestion.front,
+    originalBack: suggestion.back,
+  };
+}
 
 // ------------------------------------------------------------------
 // Main Component
@@ -47,15 +130,26 @@ export function AIGenerationDialog({
   onOpenChange,
   onGenerate,
   onAccept,
+  onRefine,
+  resumeGeneration = null,
+  onExtractFile,
   isGenerating,
   isAccepting,
+  isExtracting = false,
 }: AIGenerationDialogProps) {
   const [step, setStep] = useState<WizardStep>("input");
   const [sourceText, setSourceText] = useState("");
+  const [sourceFile, setSourceFile] = useState<SourceFileInfo | null>(null);
+  const [cardType, setCardType] = useState<FlashcardType>("basic");
   const [generationId, setGenerationId] = useState<string | null>(null);
   const [suggestions, setSuggestions] = useState<SuggestionViewModel[]>([]);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [refiningId, setRefiningId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // Identifies the current generation run - results of stale runs (dialog closed, new run) are ignored
+  const generationRunRef = useRef(0);
+
   // Character count validation
   const charCount = sourceText.length;
   const isValidLength = charCount >= MIN_CHARS && charCount <= MAX_CHARS;
@@ -63,16 +157,33 @@ export function AIGenerationDialog({
   // Selected count for review step
   const selectedCount = useMemo(() => suggestions.filter((s) => s.isSelected).length, [suggestions]);
 
+  // Open an unfinished generation straight at the review step
+  useEffect(() => {
+    if (!open || !resumeGeneration) return;
+
+    generationRunRef.current++;
+    setGenerationId(resumeGeneration.generation_id);
+    setCardType(resumeGeneration.card_type);
+    setSuggestions(resumeGeneration.suggestions.map(toViewModel));
+    setCachedAt(null);
+    setError(null);
+    setStep("review");
+  }, [open, resumeGeneration]);
+
   // Reset state when dialog closes
   const handleOpenChange = useCallback(
     (newOpen: boolean) => {
       if (!newOpen) {
+        generationRunRef.current++;
         // Reset state after close animation
         setTimeout(() => {
           setStep("input");
           setSourceText("");
+          setSourceFile(null);
+          setCardType("basic");
           setGenerationId(null);
           setSuggestions([]);
+          setCachedAt(null);
           setError(null);
         }, 200);
       }
@@ -81,33 +192,81 @@ export function AIGenerationDialog({
     [onOpenChange]
   );
 
-  // Handle generate button click
-  const handleGenerate = useCallback(async () => {
-    if (!isValidLength) return;
+  // Handle generate button click (or regenerating cached suggestions)
+  const runGeneration = useCallback(
+    async (forceRegenerate: boolean) => {
+      if (!isValidLength) return;
+
+      const runId = ++generationRunRef.current;
+      setError(null);
+      setGenerationId(null);
+      setSuggestions([]);
+      setCachedAt(null);
+
+      try {
+        const result = await onGenerate(
+          sourceText,
+          (suggestion) => {
+            if (generationRunRef.current !== runId) return;
+
+            // Show the review step as soon as the first suggestion arrives
+            setSuggestions((prev) => [...prev, toViewModel(suggestion, prev.length)]);
+            setStep("review");
+          },
+          { forceRegenerate, cardType }
+        );
+
+        if (generationRunRef.current !== runId) return;
+
+        // Keep streamed suggestions (they may already be edited), add the ones that were not streamed
+        setSuggestions((prev) => [
+          ...prev.map((s, index) => ({ ...s, suggestionId: result.suggestions[index]?.id ?? null })),
+          ...result.suggestions.slice(prev.length).map((s, index) => toViewModel(s, prev.length + index)),
+        ]);
+        setGenerationId(result.generationId);
+        setCachedAt(result.cachedAt ?? null);
+        setStep("review");
+      } catch (err) {
+        if (generationRunRef.current !== runId) return;
+
+        // Partial results cannot be saved without a generation record
+        const message = err instanceof Error ? err.message : "Failed to generate flashcards";
+        setSuggestions([]);
+        setStep("input");
+        setError(message);
+      }
+    },
+    [sourceText, cardType, isValidLength, onGenerate]
+  );
 
-    setError(null);
+  const handleGenerate = useCallback(() => runGeneration(false), [runGeneration]);
 
-    try {
-      const result = await onGenerate(sourceText);
-
-      // Transform suggestions to view models
-      const viewModels: SuggestionViewModel[] = result.suggestions.map((s, index) => ({
-        ...s,
-        tempId: `suggestion-${index}-${Date.now()}`,
-        isSelected: true,
-        isEdited: false,
-        originalFront: s.front,
-        originalBack: s.back,
-      }));
-
-      setGenerationId(result.generationId);
-      setSuggestions(viewModels);
-      setStep("review");
-    } catch (err) {
-      const message = err instanceof Error ? err.message : "Failed to generate flashcards";
-      setError(message);
-    }
-  }, [sourceText, isValidLength, onGenerate]);
+  const handleRegenerate = useCallback(() => runGeneration(true), [runGeneration]);
+
+  // Handle file dropped/selected in the drop zone
+  const handleFileSelected = useCallback(
+    async (file: File) => {
+      if (!onExtractFile) return;
+
+      setError(null);
+
+      try {
+        const result = await onExtractFile(file);
+        setSourceText(result.text);
+        setSourceFile({ name: result.file_name, charCount: result.char_count });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to read file";
+        setError(message);
+      }
+    },
+    [onExtractFile]
+  );
+
+  // Handle removing the loaded file
+  const handleClearFile = useCallback(() => {
+    setSourceText("");
+    setSourceFile(null);
+  }, []);
 
   // Handle save selected cards
   const handleSaveSelected = useCallback(async () => {
@@ -118,11 +277,11 @@ export function AIGenerationDialog({
     try {
       const flashcardsToSave: AcceptFlashcardItem[] = suggestions
         .filter((s) => s.isSelected)
-        .map((s) => ({
-          front: s.front,
-          back: s.back,
-          was_edited: s.isEdited,
-        }));
+        .flatMap((s) =>
+          s.suggestionId
+            ? [{ suggestion_id: s.suggestionId, front: s.front, back: s.back, tags: s.tags, was_edited: s.isEdited }]
+            : []
+        );
 
       await onAccept(generationId, flashcardsToSave);
       handleOpenChange(false);
@@ -132,6 +291,50 @@ export function AIGenerationDialog({
     }
   }, [generationId, selectedCount, suggestions, onAccept, handleOpenChange]);
 
+  // Handle AI action on a single suggestion: the refined content replaces it, a split adds the second part after it
+  const handleRefineSuggestion = useCallback(
+    async (tempId: string, action: SuggestionRefineAction) => {
+      const suggestion = suggestions.find((s) => s.tempId === tempId);
+      if (!onRefine || !generationId || !suggestion?.suggestionId) return;
+
+      const runId = generationRunRef.current;
+      setError(null);
+      setRefiningId(tempId);
+
+      try {
+        const refined = await onRefine(generationId, suggestion.suggestionId, {
+          action,
+          front: suggestion.front,
+          back: suggestion.back,
+          tags: suggestion.tags,
+          source_text: sourceText || undefined,
+        });
+
+        if (generationRunRef.current !== runId) return;
+
+        setSuggestions((prev) =>
+          prev.flatMap((s) =>
+            s.tempId === tempId
+              ? refined.map((card, index) => ({
+                  ...toViewModel(card, index),
+                  tempId: index === 0 ? s.tempId : `${s.tempId}-${card.id}`,
+                  isSelected: s.isSelected,
+                }))
+              : [s]
+          )
+        );
+      } catch (err) {
+        if (generationRunRef.current !== runId) return;
+
+        const message = err instanceof Error ? err.message : "Failed to refine flashcard";
+        setError(message);
+      } finally {
+        setRefiningId(null);
+      }
+    },
+    [suggestions, onRefine, generationId, sourceText]
+  );
+
   // Handle suggestion selection toggle
   const handleToggleSelection = useCallback((tempId: string) => {
     setSuggestions((prev) => prev.map((s) => (s.tempId === tempId ? { ...s, isSelected: !s.isSelected } : s)));
@@ -151,6 +354,13 @@ export function AIGenerationDialog({
     );
   }, []);
 
+  // Handle removing a proposed tag (tags do not count as an edit of the card)
+  const handleRemoveTag = useCallback((tempId: string, tag: string) => {
+    setSuggestions((prev) =>
+      prev.map((s) => (s.tempId === tempId ? { ...s, tags: s.tags.filter((t) => t !== tag) } : s))
+    );
+  }, []);
+
   // Handle select all / deselect all
   const handleToggleAll = useCallback(() => {
     const allSelected = suggestions.every((s) => s.isSelected);
@@ -190,18 +400,32 @@ export function AIGenerationDialog({
             <InputStep
               sourceText={sourceText}
               onSourceTextChange={setSourceText}
+              cardType={cardType}
+              onCardTypeChange={setCardType}
               charCount={charCount}
               isValidLength={isValidLength}
               isGenerating={isGenerating}
               onGenerate={handleGenerate}
+              sourceFile={sourceFile}
+              canUploadFile={onExtractFile !== undefined}
+              isExtracting={isExtracting}
+              onFileSelected={handleFileSelected}
+              onClearFile={handleClearFile}
             />
           ) : (
             <ReviewStep
               suggestions={suggestions}
+              cardType={cardType}
               selectedCount={selectedCount}
+              isStreaming={generationId === null}
               isAccepting={isAccepting}
+              cachedAt={cachedAt}
+              onRegenerate={handleRegenerate}
               onToggleSelection={handleToggleSelection}
               onEditSuggestion={handleEditSuggestion}
+              onRemoveTag={handleRemoveTag}
+              onRefine={onRefine ? handleRefineSuggestion : undefined}
+              refiningId={refiningId}
               onToggleAll={handleToggleAll}
               onBack={handleBackToInput}
               onSave={handleSaveSelected}
@@ -220,19 +444,33 @@ export function AIGenerationDialog({
 interface InputStepProps {
   sourceText: string;
   onSourceTextChange: (text: string) => void;
+  cardType: FlashcardType;
+  onCardTypeChange: (cardType: FlashcardType) => void;
   charCount: number;
   isValidLength: boolean;
   isGenerating: boolean;
   onGenerate: () => void;
+  sourceFile: SourceFileInfo | null;
+  canUploadFile: boolean;
+  isExtracting: boolean;
+  onFileSelected: (file: File) => void;
+  onClearFile: () => void;
 }
 
 function InputStep({
   sourceText,
   onSourceTextChange,
+  cardType,
+  onCardTypeChange,
   charCount,
   isValidLength,
   isGenerating,
   onGenerate,
+  sourceFile,
+  canUploadFile,
+  isExtracting,
+  onFileSelected,
+  onClearFile,
 }: InputStepProps) {
   const getCharCountColor = () => {
     if (charCount === 0) return "text-muted-foreground";
@@ -243,6 +481,57 @@ function InputStep({
 
   return (
     <div className="flex h-full flex-col space-y-4" data-testid="ai-input-step">
+      {/* File upload */}
+      {canUploadFile &&
+        (sourceFile ? (
+          <div
+            className="flex shrink-0 items-center justify-between gap-2 rounded-md border bg-muted/50 px-3 py-2 text-sm"
+            data-testid="source-file-info"
+          >
+            <span className="flex min-w-0 items-center gap-2">
+              <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className="truncate font-medium">{sourceFile.name}</span>
+              <span className="shrink-0 text-muted-foreground">{sourceFile.charCount.toLocaleString()} characters</span>
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 shrink-0"
+              onClick={onClearFile}
+              disabled={isGenerating}
+              aria-label="Remove file"
+              data-testid="clear-source-file-button"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <DropZone
+            accept={ACCEPTED_FILE_TYPES}
+            multiple={false}
+            disabled={isGenerating || isExtracting}
+            onFilesSelected={(files) => onFileSelected(files[0])}
+            className="min-h-[90px] shrink-0 p-4"
+            aria-label="Upload a source file"
+            data-testid="source-file-dropzone"
+          >
+            {isExtracting ? (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Extracting text...
+              </p>
+            ) : (
+              <>
+                <FileText className="mb-1 h-6 w-6 text-muted-foreground" />
+                <p className="text-sm text-muted-foreground">
+                  Drop a PDF, DOCX, EPUB, Markdown, HTML or TXT file, or{" "}
+                  <span className="font-medium text-primary hover:underline">browse</span>
+                </p>
+              </>
+            )}
+          </DropZone>
+        ))}
+
       <div className="flex min-h-0 flex-1 flex-col space-y-2">
         <Label htmlFor="source-text">Source Text</Label>
         <Textarea
@@ -264,7 +553,24 @@ function InputStep({
         </div>
       </div>
 
-      <div className="flex shrink-0 justify-end">
+      <div className="flex shrink-0 items-center justify-between gap-2">
+        <div className="flex gap-1" role="radiogroup" aria-label="Card type">
+          {CARD_TYPES.map((option) => (
+            <Button
+              key={option.cardType}
+              type="button"
+              variant={cardType === option.cardType ? "secondary" : "ghost"}
+              size="sm"
+              role="radio"
+              aria-checked={cardType === option.cardType}
+              onClick={() => onCardTypeChange(option.cardType)}
+              disabled={isGenerating}
+              data-testid={`card-type-${option.cardType}`}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
         <Button onClick={onGenerate} disabled={!isValidLength || isGenerating} data-testid="generate-flashcards-button">
           {isGenerating ? (
             <>
@@ -289,10 +595,21 @@ function InputStep({
 
 interface ReviewStepProps {
   suggestions: SuggestionViewModel[];
+  cardType: FlashcardType;
   selectedCount: number;
+  /** Suggestions are still being generated */
+  isStreaming: boolean;
   isAccepting: boolean;
+  /** Creation time of the earlier generation the suggestions were reused from */
+  cachedAt: string | null;
+  onRegenerate: () => void;
   onToggleSelection: (tempId: string) => void;
   onEditSuggestion: (tempId: string, field: "front" | "back", value: string) => void;
+  onRemoveTag: (tempId: string, tag: string) => void;
+  /** Runs an AI action on a suggestion; AI actions are hidden when not provided */
+  onRefine?: (tempId: string, action: SuggestionRefineAction) => void;
+  /** Suggestion being refined (tempId) */
+  refiningId: string | null;
   onToggleAll: () => void;
   onBack: () => void;
   onSave: () => void;
@@ -300,10 +617,17 @@ interface ReviewStepProps {
 
 function ReviewStep({
   suggestions,
+  cardType,
   selectedCount,
+  isStreaming,
   isAccepting,
+  cachedAt,
+  onRegenerate,
   onToggleSelection,
   onEditSuggestion,
+  onRemoveTag,
+  onRefine,
+  refiningId,
   onToggleAll,
   onBack,
   onSave,
@@ -312,6 +636,29 @@ function ReviewStep({
 
   return (
     <div className="space-y-4" data-testid="ai-review-step">
+      {/* Suggestions reused from an earlier generation of the same text */}
+      {cachedAt && (
+        <div
+          className="flex items-center justify-between gap-4 rounded-md bg-muted p-3 text-sm"
+          data-testid="cached-result-notice"
+        >
+          <span className="flex items-center gap-2 text-muted-foreground">
+            <History className="h-4 w-4 shrink-0" />
+            These suggestions were generated earlier for the same text ({new Date(cachedAt).toLocaleString()}).
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onRegenerate}
+            disabled={isAccepting}
+            data-testid="regenerate-button"
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Regenerate
+          </Button>
+        </div>
+      )}
+
       {/* Header with select all */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
@@ -337,19 +684,43 @@ function ReviewStep({
             <ReviewItem
               key={suggestion.tempId}
               suggestion={suggestion}
+              cardType={cardType}
               onToggleSelection={onToggleSelection}
               onEditSuggestion={onEditSuggestion}
+              onRemoveTag={onRemoveTag}
+              onRefine={onRefine}
+              isRefining={refiningId === suggestion.tempId}
+              canRefine={!!suggestion.suggestionId && refiningId === null && !isAccepting}
             />
           ))}
+          {isStreaming && (
+            <div
+              className="flex items-center justify-center gap-2 py-2 text-sm text-muted-foreground"
+              aria-live="polite"
+              data-testid="streaming-indicator"
+            >
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Generating more flashcards...
+            </div>
+          )}
         </div>
       </ScrollArea>
 
       {/* Actions */}
       <div className="flex justify-between">
-        <Button variant="outline" onClick={onBack} disabled={isAccepting} data-testid="back-to-input-button">
+        <Button
+          variant="outline"
+          onClick={onBack}
+          disabled={isAccepting || isStreaming}
+          data-testid="back-to-input-button"
+        >
           Back
         </Button>
-        <Button onClick={onSave} disabled={selectedCount === 0 || isAccepting} data-testid="save-flashcards-button">
+        <Button
+          onClick={onSave}
+          disabled={selectedCount === 0 || isAccepting || isStreaming || refiningId !== null}
+          data-testid="save-flashcards-button"
+        >
           {isAccepting ? (
             <>
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -373,11 +744,26 @@ function ReviewStep({
 
 interface ReviewItemProps {
   suggestion: SuggestionViewModel;
+  cardType: FlashcardType;
   onToggleSelection: (tempId: string) => void;
   onEditSuggestion: (tempId: string, field: "front" | "back", value: string) => void;
+  onRemoveTag: (tempId: string, tag: string) => void;
+  onRefine?: (tempId: string, action: SuggestionRefineAction) => void;
+  isRefining: boolean;
+  /** The suggestion is persisted and no other AI action is running */
+  canRefine: boolean;
 }
 
-function ReviewItem({ suggestion, onToggleSelection, onEditSuggestion }: ReviewItemProps) {
+function ReviewItem({
+  suggestion,
+  cardType,
+  onToggleSelection,
+  onEditSuggestion,
+  onRemoveTag,
+  onRefine,
+  isRefining,
+  canRefine,
+}: ReviewItemProps) {
   return (
     <div
       className={`rounded-md border p-3 transition-opacity ${!suggestion.isSelected ? "opacity-50" : ""}`}
@@ -391,29 +777,79 @@ function ReviewItem({ suggestion, onToggleSelection, onEditSuggestion }: ReviewI
           data-testid="suggestion-checkbox"
         />
         {suggestion.isEdited && <span className="text-xs text-amber-500">(edited)</span>}
+        {onRefine && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto h-7"
+                disabled={!canRefine || !suggestion.isSelected}
+                aria-label="AI actions for this card"
+                data-testid="suggestion-ai-actions"
+              >
+                {isRefining ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wand2 className="h-4 w-4" />}
+                AI
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {REFINE_ACTIONS.map(({ action, label }) => (
+                <DropdownMenuItem
+                  key={action}
+                  onSelect={() => onRefine(suggestion.tempId, action)}
+                  data-testid={`refine-${action}`}
+                >
+                  {label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
       </div>
 
       <div className="space-y-2">
         <div>
-          <Label className="text-xs text-muted-foreground">Front</Label>
+          <Label className="text-xs text-muted-foreground">{cardType === "cloze" ? "Text" : "Front"}</Label>
           <Textarea
             value={suggestion.front}
             onChange={(e) => onEditSuggestion(suggestion.tempId, "front", e.target.value)}
             className="mt-1 min-h-[60px] resize-none text-sm"
-            disabled={!suggestion.isSelected}
+            disabled={!suggestion.isSelected || isRefining}
             data-testid="suggestion-front-input"
           />
         </div>
         <div>
-          <Label className="text-xs text-muted-foreground">Back</Label>
+          <Label className="text-xs text-muted-foreground">{cardType === "cloze" ? "Extra" : "Back"}</Label>
           <Textarea
             value={suggestion.back}
             onChange={(e) => onEditSuggestion(suggestion.tempId, "back", e.target.value)}
             className="mt-1 min-h-[60px] resize-none text-sm"
-            disabled={!suggestion.isSelected}
+            disabled={!suggestion.isSelected || isRefining}
             data-testid="suggestion-back-input"
           />
         </div>
+        {suggestion.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1" data-testid="suggestion-tags">
+            {suggestion.tags.map((tag) => (
+              <span
+                key={tag}
+                className="inline-flex items-center gap-0.5 rounded bg-muted py-0.5 pl-1.5 pr-0.5 text-xs text-muted-foreground"
+              >
+                #{tag}
+                <button
+                  type="button"
+                  onClick={() => onRemoveTag(suggestion.tempId, tag)}
+                  disabled={!suggestion.isSelected || isRefining}
+                  className="rounded p-0.5 hover:bg-background hover:text-foreground disabled:pointer-events-none"
+                  aria-label={`Remove tag ${tag}`}
+                  data-testid="suggestion-tag-remove"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
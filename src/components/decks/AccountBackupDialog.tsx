@@ -0,0 +1,234 @@
+import { useState, useEffect } from "react";
+import { Download, FileJson, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { DropZone } from "@/components/fluent/DropZone";
+import { ApiRequestError, getAccountBackupUrl } from "../../lib/api/decks";
+import { ACCOUNT_BACKUP_FORMAT, ACCOUNT_BACKUP_VERSION } from "../../lib/validators/backup.validator";
+import type { AccountBackupCountsDto, AccountBackupV3, BackupConflictStrategy } from "../../types";
+
+const CONFLICT_STRATEGIES: { value: BackupConflictStrategy; label: string; description: string }[] = [
+  { value: "rename", label: "Keep both", description: 'Restore as a new deck named "… (restored)"' },
+  { value: "merge", label: "Merge", description: "Add missing cards to the existing deck" },
+  { value: "skip", label: "Skip", description: "Keep the existing deck, skip the backed up one" },
+];
+
+interface BackupSummary {
+  exportedAt: string;
+  counts: AccountBackupCountsDto;
+}
+
+/**
+ * Reads the header and record counts of a backup file for the summary shown before restoring.
+ * The file is fully validated by the server.
+ */
+function readBackupSummary(text: string): BackupSummary | { error: string } {
+  let backup: Partial<AccountBackupV3>;
+  try {
+    backup = JSON.parse(text);
+  } catch {
+    return { error: "The file is not valid JSON" };
+  }
+
+  if (backup?.format !== ACCOUNT_BACKUP_FORMAT) {
+    return { error: "The file is not a 10xCards account backup" };
+  }
+
+  if (typeof backup.version === "number" && backup.version > ACCOUNT_BACKUP_VERSION) {
+    return { error: "This backup was created by a newer version of 10xCards" };
+  }
+
+  return {
+    exportedAt: backup.exported_at ?? "",
+    counts: {
+      decks: backup.decks?.length ?? 0,
+      flashcards: backup.flashcards?.length ?? 0,
+      generations: backup.generations?.length ?? 0,
+      review_logs: backup.review_logs?.length ?? 0,
+    },
+  };
+}
+
+interface AccountBackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (file: File, conflictStrategy: BackupConflictStrategy) => Promise<void>;
+  isRestoring: boolean;
+}
+
+/**
+ * Dialog for downloading a backup of the whole account and restoring a backup file into it.
+ * Before restoring, the user sees what the backup contains and chooses what happens with decks
+ * whose name is already taken.
+ */
+export function AccountBackupDialog({ open, onOpenChange, onRestore, isRestoring }: AccountBackupDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [summary, setSummary] = useState<BackupSummary | null>(null);
+  const [conflictStrategy, setConflictStrategy] = useState<BackupConflictStrategy>("rename");
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset state when dialog closes
+  useEffect(() => {
+    if (!open) {
+      setFile(null);
+      setSummary(null);
+      setConflictStrategy("rename");
+      setError(null);
+    }
+  }, [open]);
+
+  const handleFileSelected = async (selectedFile: File) => {
+    setError(null);
+
+    try {
+      const result = readBackupSummary(await selectedFile.text());
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+      setFile(selectedFile);
+      setSummary(result);
+    } catch {
+      setError("Failed to read the file");
+    }
+  };
+
+  const handleClearFile = () => {
+    setFile(null);
+    setSummary(null);
+    setError(null);
+  };
+
+  const handleRestore = async () => {
+    if (!file) return;
+    setError(null);
+
+    try {
+      await onRestore(file, conflictStrategy);
+    } catch (err) {
+      setError(err instanceof ApiRequestError ? err.message : "Failed to restore the backup");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg" data-testid="account-backup-dialog">
+        <DialogHeader>
+          <DialogTitle>Backup &amp; Restore</DialogTitle>
+          <DialogDescription>
+            Download all your decks, flashcards with review progress, generation history and review logs as a single
+            JSON file, or restore a backup into this account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <Button variant="outline" className="w-full" asChild>
+            <a href={getAccountBackupUrl()} download data-testid="download-backup-button">
+              <Download className="mr-2 h-4 w-4" />
+              Download backup
+            </a>
+          </Button>
+
+          <div className="space-y-3">
+            <Label>Restore from a backup</Label>
+
+            {file && summary ? (
+              <div className="space-y-2 rounded-md border bg-muted/40 px-3 py-2 text-sm" data-testid="backup-summary">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="flex min-w-0 items-center gap-2">
+                    <FileJson className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <span className="truncate font-medium">{file.name}</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 shrink-0"
+                    onClick={handleClearFile}
+                    disabled={isRestoring}
+                    aria-label="Remove file"
+                    data-testid="clear-backup-file-button"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-muted-foreground">
+                  {summary.counts.decks} decks · {summary.counts.flashcards} flashcards · {summary.counts.generations}{" "}
+                  generations · {summary.counts.review_logs} reviews
+                  {summary.exportedAt && <> · created {new Date(summary.exportedAt).toLocaleDateString()}</>}
+                </p>
+              </div>
+            ) : (
+              <DropZone
+                accept=".json,application/json"
+                multiple={false}
+                disabled={isRestoring}
+                onFilesSelected={(files) => handleFileSelected(files[0])}
+                className="min-h-[80px] p-4"
+                aria-label="Upload a backup file"
+                data-testid="backup-file-dropzone"
+              >
+                <FileJson className="mb-1 h-6 w-6 text-muted-foreground" />
+                <p className="text-sm text-muted-foreground">
+                  Drop a backup file (.json), or{" "}
+                  <span className="font-medium text-primary hover:underline">browse</span>
+                </p>
+              </DropZone>
+            )}
+
+            {file && summary && (
+              <div className="space-y-2">
+                <Label>When a deck with the same name exists</Label>
+                <div className="grid gap-1" role="radiogroup" aria-label="When a deck with the same name exists">
+                  {CONFLICT_STRATEGIES.map((strategy) => (
+                    <Button
+                      key={strategy.value}
+                      type="button"
+                      variant={conflictStrategy === strategy.value ? "secondary" : "ghost"}
+                      role="radio"
+                      aria-checked={conflictStrategy === strategy.value}
+                      onClick={() => setConflictStrategy(strategy.value)}
+                      disabled={isRestoring}
+                      className="h-auto justify-start py-2 text-left"
+                      data-testid={`conflict-strategy-${strategy.value}`}
+                    >
+                      <span>
+                        <span className="block font-medium">{strategy.label}</span>
+                        <span className="block text-xs font-normal text-muted-foreground">{strategy.description}</span>
+                      </span>
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isRestoring}>
+            Close
+          </Button>
+          <Button onClick={handleRestore} disabled={!file || isRestoring} data-testid="restore-backup-submit">
+            {isRestoring ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Restoring...
+              </>
+            ) : (
+              "Restore backup"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
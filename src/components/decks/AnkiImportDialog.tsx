@@ -0,0 +1,274 @@
+import { useState, useEffect } from "react";
+import { AlertTriangle, FileArchive, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { DropZone } from "@/components/fluent/DropZone";
+import { ApiRequestError } from "../../lib/api/decks";
+import { renderClozeText } from "../../lib/utils/cloze";
+import type { AnkiDeckPreviewDto, AnkiImportPreviewDto, ImportSampleCardDto } from "../../types";
+
+interface AnkiImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Reads the package without importing it */
+  onPreview: (file: File) => Promise<AnkiImportPreviewDto>;
+  /** Imports the selected decks of the package */
+  onImport: (file: File, deckIds: string[]) => Promise<void>;
+  isPreviewing: boolean;
+  isImporting: boolean;
+}
+
+/**
+ * Dialog for importing an Anki package (.apkg): the dropped file is read first and its decks
+ * are previewed with example cards, the selected decks are imported on confirmation.
+ */
+export function AnkiImportDialog({
+  open,
+  onOpenChange,
+  onPreview,
+  onImport,
+  isPreviewing,
+  isImporting,
+}: AnkiImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<AnkiImportPreviewDto | null>(null);
+  const [selectedDeckIds, setSelectedDeckIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset state when dialog closes
+  useEffect(() => {
+    if (!open) {
+      setFile(null);
+      setPreview(null);
+      setSelectedDeckIds(new Set());
+      setError(null);
+    }
+  }, [open]);
+
+  const handleFileSelected = async (selectedFile: File) => {
+    setError(null);
+
+    if (!selectedFile.name.toLowerCase().endsWith(".apkg")) {
+      setError("Select an Anki package (.apkg file)");
+      return;
+    }
+
+    try {
+      const result = await onPreview(selectedFile);
+      setFile(selectedFile);
+      setPreview(result);
+      setSelectedDeckIds(new Set(result.decks.map((deck) => deck.anki_deck_id)));
+    } catch (err) {
+      setError(err instanceof ApiRequestError ? err.message : "Failed to read the Anki package");
+    }
+  };
+
+  const handleClearFile = () => {
+    setFile(null);
+    setPreview(null);
+    setSelectedDeckIds(new Set());
+    setError(null);
+  };
+
+  const toggleDeck = (deckId: string) => {
+    setSelectedDeckIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(deckId)) {
+        next.delete(deckId);
+      } else {
+        next.add(deckId);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!file || selectedDeckIds.size === 0) return;
+    setError(null);
+
+    try {
+      await onImport(file, [...selectedDeckIds]);
+    } catch (err) {
+      setError(err instanceof ApiRequestError ? err.message : "Failed to import the Anki package");
+    }
+  };
+
+  const selectedCardCount =
+    preview?.decks
+      .filter((deck) => selectedDeckIds.has(deck.anki_deck_id))
+      .reduce((sum, deck) => sum + deck.card_count, 0) ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl" data-testid="anki-import-dialog">
+        <DialogHeader>
+          <DialogTitle>Import from Anki</DialogTitle>
+          <DialogDescription>
+            Import decks from an Anki package (.apkg). Review progress is kept; images and audio are not imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview && file ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-2 rounded-md border bg-muted/40 px-3 py-2 text-sm">
+              <span className="flex min-w-0 items-center gap-2">
+                <FileArchive className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="truncate font-medium">{preview.file_name}</span>
+                <span className="shrink-0 text-muted-foreground">{preview.total_cards.toLocaleString()} cards</span>
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                onClick={handleClearFile}
+                disabled={isImporting}
+                aria-label="Remove file"
+                data-testid="clear-anki-file-button"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {preview.warnings.length > 0 && (
+              <ul className="space-y-1 text-sm text-amber-700 dark:text-amber-500" data-testid="anki-import-warnings">
+                {preview.warnings.map((warning) => (
+                  <li key={warning} className="flex items-start gap-2">
+                    <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                    {warning}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="space-y-3">
+              {preview.decks.map((deck) => (
+                <DeckPreview
+                  key={deck.anki_deck_id}
+                  deck={deck}
+                  selected={selectedDeckIds.has(deck.anki_deck_id)}
+                  onToggle={() => toggleDeck(deck.anki_deck_id)}
+                  disabled={isImporting}
+                />
+              ))}
+            </div>
+          </div>
+        ) : (
+          <DropZone
+            accept=".apkg"
+            multiple={false}
+            disabled={isPreviewing}
+            onFilesSelected={(files) => handleFileSelected(files[0])}
+            aria-label="Upload an Anki package"
+            data-testid="anki-file-dropzone"
+          >
+            {isPreviewing ? (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Reading package...
+              </p>
+            ) : (
+              <>
+                <FileArchive className="mb-2 h-8 w-8 text-muted-foreground" />
+                <p className="text-sm text-muted-foreground">
+                  Drop an .apkg file exported from Anki, or{" "}
+                  <span className="font-medium text-primary hover:underline">browse</span>
+                </p>
+              </>
+            )}
+          </DropZone>
+        )}
+
+        {error && (
+          <p className="text-sm text-destructive" data-testid="anki-import-error">
+            {error}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!preview || selectedDeckIds.size === 0 || isImporting}
+            data-testid="anki-import-submit"
+          >
+            {isImporting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              `Import ${selectedCardCount.toLocaleString()} ${selectedCardCount === 1 ? "card" : "cards"}`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ------------------------------------------------------------------
+// Deck Preview
+// ------------------------------------------------------------------
+
+interface DeckPreviewProps {
+  deck: AnkiDeckPreviewDto;
+  selected: boolean;
+  onToggle: () => void;
+  disabled: boolean;
+}
+
+function DeckPreview({ deck, selected, onToggle, disabled }: DeckPreviewProps) {
+  const checkboxId = `anki-deck-${deck.anki_deck_id}`;
+
+  return (
+    <div className="rounded-md border p-3" data-testid="anki-deck-preview">
+      <div className="flex items-center gap-3">
+        <Checkbox id={checkboxId} checked={selected} onCheckedChange={onToggle} disabled={disabled} />
+        <label htmlFor={checkboxId} className="min-w-0 flex-1 cursor-pointer">
+          <span className="block truncate font-medium">{deck.name}</span>
+          <span className="text-xs text-muted-foreground">
+            {deck.card_count} {deck.card_count === 1 ? "card" : "cards"} · {deck.new_count} new · {deck.scheduled_count}{" "}
+            with review history
+          </span>
+        </label>
+      </div>
+
+      {deck.samples.length > 0 && (
+        <ul className="mt-3 space-y-1 border-t pt-2 text-sm">
+          {deck.samples.map((sample, index) => (
+            <SampleCard key={index} sample={sample} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function SampleCard({ sample }: { sample: ImportSampleCardDto }) {
+  const question =
+    sample.card_type === "cloze" ? renderClozeText(sample.front, sample.cloze_index ?? 1, false) : sample.front;
+  const answer =
+    sample.card_type === "cloze" ? renderClozeText(sample.front, sample.cloze_index ?? 1, true) : sample.back;
+
+  return (
+    <li className="flex items-start gap-2">
+      {sample.card_type === "cloze" && <Badge variant="secondary">Cloze</Badge>}
+      {sample.reversed && <Badge variant="secondary">Back → Front</Badge>}
+      <span className="min-w-0 flex-1 truncate">
+        {sample.reversed ? sample.back : question}
+        <span className="text-muted-foreground"> → {sample.reversed ? sample.front : answer}</span>
+      </span>
+    </li>
+  );
+}
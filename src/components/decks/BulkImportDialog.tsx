@@ -0,0 +1,349 @@
+import { useState, useEffect, useMemo } from "react";
+import { AlertCircle, FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { DropZone } from "@/components/fluent/DropZone";
+import { parseDelimitedCards, type ParsedImport } from "../../lib/utils/delimited-import";
+import { MAX_BULK_IMPORT_CARDS } from "../../lib/validators/flashcard.validator";
+import type { BulkImportFlashcardsCommand } from "../../types";
+
+type TermSeparator = "tab" | "comma" | "custom";
+type RowSeparator = "newline" | "semicolon" | "custom";
+
+// Same choices as the Quizlet export
+const TERM_SEPARATORS: { value: TermSeparator; label: string; separator: string }[] = [
+  { value: "tab", label: "Tab", separator: "\t" },
+  { value: "comma", label: "Comma", separator: "," },
+  { value: "custom", label: "Custom", separator: "" },
+];
+
+const ROW_SEPARATORS: { value: RowSeparator; label: string; separator: string }[] = [
+  { value: "newline", label: "New line", separator: "\n" },
+  { value: "semicolon", label: "Semicolon", separator: ";" },
+  { value: "custom", label: "Custom", separator: "" },
+];
+
+/** Number of parsed rows shown in the preview */
+const PREVIEW_ROW_LIMIT = 200;
+
+interface BulkImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: BulkImportFlashcardsCommand) => Promise<void>;
+  isSubmitting: boolean;
+}
+
+/**
+ * Dialog for importing many basic cards at once from a CSV/TSV file or pasted text
+ * (e.g. a Quizlet export). The text is parsed as you type, every row is validated and
+ * shown in a preview; valid rows are imported in one batch.
+ */
+export function BulkImportDialog({ open, onOpenChange, onSubmit, isSubmitting }: BulkImportDialogProps) {
+  const [text, setText] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [termSeparator, setTermSeparator] = useState<TermSeparator>("tab");
+  const [customTermSeparator, setCustomTermSeparator] = useState("");
+  const [rowSeparator, setRowSeparator] = useState<RowSeparator>("newline");
+  const [customRowSeparator, setCustomRowSeparator] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset state when dialog closes
+  useEffect(() => {
+    if (!open) {
+      setText("");
+      setFileName(null);
+      setTermSeparator("tab");
+      setCustomTermSeparator("");
+      setRowSeparator("newline");
+      setCustomRowSeparator("");
+      setError(null);
+    }
+  }, [open]);
+
+  const termSeparatorValue =
+    termSeparator === "custom"
+      ? customTermSeparator
+      : TERM_SEPARATORS.find((option) => option.value === termSeparator)?.separator;
+  const rowSeparatorValue =
+    rowSeparator === "custom"
+      ? customRowSeparator
+      : ROW_SEPARATORS.find((option) => option.value === rowSeparator)?.separator;
+
+  const parsed = useMemo((): ParsedImport | { error: string } | null => {
+    if (!text.trim()) return null;
+
+    try {
+      return parseDelimitedCards(text, {
+        termSeparator: termSeparatorValue ?? "",
+        rowSeparator: rowSeparatorValue ?? "",
+      });
+    } catch {
+      return { error: "Choose two different, non-empty separators" };
+    }
+  }, [text, termSeparatorValue, rowSeparatorValue]);
+
+  const rows = parsed && "rows" in parsed ? parsed.rows : [];
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const invalidCount = rows.length - validRows.length;
+  const isTooMany = validRows.length > MAX_BULK_IMPORT_CARDS;
+
+  const handleFileSelected = async (file: File) => {
+    setError(null);
+
+    try {
+      const content = await file.text();
+      const lowerName = file.name.toLowerCase();
+      if (lowerName.endsWith(".csv")) {
+        setTermSeparator("comma");
+        setRowSeparator("newline");
+      } else if (lowerName.endsWith(".tsv")) {
+        setTermSeparator("tab");
+        setRowSeparator("newline");
+      }
+      setText(content);
+      setFileName(file.name);
+    } catch {
+      setError("Failed to read the file");
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (validRows.length === 0 || isTooMany) return;
+    setError(null);
+
+    try {
+      await onSubmit({ cards: validRows.map(({ front, back }) => ({ front, back })) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import flashcards");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl" data-testid="bulk-import-dialog">
+        <DialogHeader>
+          <DialogTitle>Import Flashcards</DialogTitle>
+          <DialogDescription>
+            Upload a CSV/TSV file or paste terms and definitions, e.g. exported from Quizlet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <DropZone
+            accept=".csv,.tsv,.txt"
+            multiple={false}
+            disabled={isSubmitting}
+            onFilesSelected={(files) => handleFileSelected(files[0])}
+            className="min-h-[80px] p-4"
+            aria-label="Upload a CSV or TSV file"
+            data-testid="bulk-import-dropzone"
+          >
+            <FileText className="mb-1 h-6 w-6 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              {fileName ? (
+                <span className="font-medium text-foreground">{fileName}</span>
+              ) : (
+                <>
+                  Drop a CSV, TSV or TXT file, or{" "}
+                  <span className="font-medium text-primary hover:underline">browse</span>
+                </>
+              )}
+            </p>
+          </DropZone>
+
+          <div className="space-y-2">
+            <Label htmlFor="bulk-import-text">Cards</Label>
+            <Textarea
+              id="bulk-import-text"
+              placeholder={"term\tdefinition\nterm\tdefinition"}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              className="max-h-[30vh] min-h-[120px] font-mono text-sm"
+              disabled={isSubmitting}
+              data-testid="bulk-import-text"
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <SeparatorPicker
+              label="Between term and definition"
+              options={TERM_SEPARATORS}
+              value={termSeparator}
+              onChange={setTermSeparator}
+              customValue={customTermSeparator}
+              onCustomChange={setCustomTermSeparator}
+              disabled={isSubmitting}
+              testId="term-separator"
+            />
+            <SeparatorPicker
+              label="Between cards"
+              options={ROW_SEPARATORS}
+              value={rowSeparator}
+              onChange={setRowSeparator}
+              customValue={customRowSeparator}
+              onCustomChange={setCustomRowSeparator}
+              disabled={isSubmitting}
+              testId="row-separator"
+            />
+          </div>
+
+          {parsed && "error" in parsed && <p className="text-sm text-destructive">{parsed.error}</p>}
+
+          {rows.length > 0 && (
+            <div className="space-y-2" data-testid="bulk-import-preview">
+              <p className="text-sm text-muted-foreground">
+                {validRows.length} {validRows.length === 1 ? "card" : "cards"} ready to import
+                {invalidCount > 0 && (
+                  <span className="text-destructive">
+                    {" "}
+                    · {invalidCount} {invalidCount === 1 ? "row has" : "rows have"} errors and will be skipped
+                  </span>
+                )}
+              </p>
+              {isTooMany && (
+                <p className="text-sm text-destructive">
+                  At most {MAX_BULK_IMPORT_CARDS} cards can be imported at once. Split the file into smaller parts.
+                </p>
+              )}
+              <div className="max-h-[40vh] overflow-y-auto rounded-md border">
+                <table className="w-full table-fixed text-left text-sm">
+                  <thead className="sticky top-0 bg-muted">
+                    <tr>
+                      <th className="w-14 px-2 py-1 font-medium">Row</th>
+                      <th className="px-2 py-1 font-medium">Front</th>
+                      <th className="px-2 py-1 font-medium">Back</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.slice(0, PREVIEW_ROW_LIMIT).map((row) => (
+                      <tr
+                        key={row.row}
+                        className={row.errors.length > 0 ? "bg-destructive/5" : undefined}
+                        data-testid="bulk-import-row"
+                      >
+                        <td className="px-2 py-1 align-top text-muted-foreground">{row.row}</td>
+                        <td className="px-2 py-1 align-top">
+                          <p className="line-clamp-2 whitespace-pre-wrap break-words">{row.front}</p>
+                        </td>
+                        <td className="px-2 py-1 align-top">
+                          <p className="line-clamp-2 whitespace-pre-wrap break-words">{row.back}</p>
+                          {row.errors.map((rowError) => (
+                            <p
+                              key={rowError}
+                              className="mt-1 flex items-center gap-1 text-xs text-destructive"
+                              data-testid="bulk-import-row-error"
+                            >
+                              <AlertCircle className="h-3 w-3 shrink-0" />
+                              {rowError}
+                            </p>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {rows.length > PREVIEW_ROW_LIMIT && (
+                <p className="text-xs text-muted-foreground">
+                  Showing the first {PREVIEW_ROW_LIMIT} of {rows.length} rows
+                </p>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={validRows.length === 0 || isTooMany || isSubmitting}
+            data-testid="bulk-import-submit"
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              `Import ${validRows.length} ${validRows.length === 1 ? "card" : "cards"}`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ------------------------------------------------------------------
+// Separator Picker
+// ------------------------------------------------------------------
+
+interface SeparatorPickerProps<T extends string> {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+  customValue: string;
+  onCustomChange: (value: string) => void;
+  disabled: boolean;
+  testId: string;
+}
+
+function SeparatorPicker<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+  customValue,
+  onCustomChange,
+  disabled,
+  testId,
+}: SeparatorPickerProps<T>) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <div className="flex flex-wrap items-center gap-1" role="radiogroup" aria-label={label}>
+        {options.map((option) => (
+          <Button
+            key={option.value}
+            type="button"
+            variant={value === option.value ? "secondary" : "ghost"}
+            size="sm"
+            role="radio"
+            aria-checked={value === option.value}
+            onClick={() => onChange(option.value)}
+            disabled={disabled}
+            data-testid={`${testId}-${option.value}`}
+          >
+            {option.label}
+          </Button>
+        ))}
+        {value === "custom" && (
+          <Input
+            value={customValue}
+            onChange={(e) => onCustomChange(e.target.value)}
+            placeholder="e.g. ::"
+            className="h-8 w-24"
+            disabled={disabled}
+            aria-label={`${label} (custom)`}
+            data-testid={`${testId}-custom-input`}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
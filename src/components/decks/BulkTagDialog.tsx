@@ -0,0 +1,112 @@
+import { useState, useEffect } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { parseTagList } from "../../lib/utils/tags";
+
+interface BulkTagDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Number of selected flashcards, shown in the title */
+  count: number;
+  onSubmit: (changes: { add: string[]; remove: string[] }) => Promise<void>;
+  isSubmitting: boolean;
+}
+
+/**
+ * Dialog for adding tags to and removing tags from the selected flashcards
+ */
+export function BulkTagDialog({ open, onOpenChange, count, onSubmit, isSubmitting }: BulkTagDialogProps) {
+  const [add, setAdd] = useState("");
+  const [remove, setRemove] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      setAdd("");
+      setRemove("");
+      setError(null);
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const changes = { add: parseTagList(add), remove: parseTagList(remove) };
+    if (changes.add.length === 0 && changes.remove.length === 0) {
+      setError("Enter tags to add or remove");
+      return;
+    }
+
+    try {
+      await onSubmit(changes);
+    } catch {
+      // Error is handled by the caller
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md" data-testid="bulk-tag-dialog">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>
+              Edit tags of {count} flashcard{count === 1 ? "" : "s"}
+            </DialogTitle>
+            <DialogDescription>Separate tags with commas. Tags are stored in lowercase.</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-tags-add">Add tags</Label>
+              <Input
+                id="bulk-tags-add"
+                value={add}
+                onChange={(e) => setAdd(e.target.value)}
+                placeholder="e.g. verbs, chapter-3"
+                disabled={isSubmitting}
+                data-testid="bulk-tags-add-input"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-tags-remove">Remove tags</Label>
+              <Input
+                id="bulk-tags-remove"
+                value={remove}
+                onChange={(e) => setRemove(e.target.value)}
+                disabled={isSubmitting}
+                data-testid="bulk-tags-remove-input"
+              />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} data-testid="bulk-tags-submit">
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save tags"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
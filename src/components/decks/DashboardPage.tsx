@@ -1,7 +1,23 @@
 import { useState, useEffect, useCallback } from "react";
 import { QueryClient, QueryClientProvider, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Toaster, toast } from "sonner";
-import { Plus, BookOpen, Clock, ArrowRight, Loader2 } from "lucide-react";
+import {
+  Plus,
+  BookOpen,
+  Clock,
+  ArrowRight,
+  Loader2,
+  Layers,
+  History,
+  MoreVertical,
+  Pencil,
+  Trash2,
+  Upload,
+  DatabaseBackup,
+  ChevronDown,
+  ChevronRight,
+  FolderPlus,
+} from "lucide-react";
 import { Button } from "../ui/button";
 import {
   Dialog,
@@ -16,14 +32,39 @@ import { Input } from "../ui/input";
 import { Textarea } from "../ui/textarea";
 import { Label } from "../ui/label";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "../ui/card";
-import type { DeckDto, CreateDeckCommand, PaginatedResponse, ApiError } from "../../types";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "../ui/dropdown-menu";
+import { StatsOverview } from "./StatsOverview";
+import { EditDeckDialog } from "./EditDeckDialog";
+import { DeleteDeckAlert } from "./DeleteDeckAlert";
+import { AnkiImportDialog } from "./AnkiImportDialog";
+import { AccountBackupDialog } from "./AccountBackupDialog";
+import { ParentDeckSelect } from "./ParentDeckSelect";
+import {
+  useUpdateDeck,
+  useDeleteDeck,
+  useAnkiImportPreview,
+  useImportAnkiPackage,
+  useRestoreAccountBackup,
+} from "../hooks/useDeck";
+import { ApiRequestError } from "../../lib/api/decks";
+import { buildDeckTree, getSubtreeDeckIds, type DeckTreeNode } from "../../lib/utils/deck-tree";
+import type {
+  DeckDto,
+  CreateDeckCommand,
+  UpdateDeckCommand,
+  PaginatedResponse,
+  ApiError,
+  UserStatsDto,
+  BackupConflictStrategy,
+} from "../../types";
 
 // ------------------------------------------------------------------
 // API Functions
 // ------------------------------------------------------------------
 
 async function fetchDecks(): Promise<PaginatedResponse<DeckDto>> {
-  const response = await fetch("/api/decks");
+  // All decks at once - sub-decks are shown under their parent decks
+  const response = await fetch("/api/decks?limit=100");
   if (!response.ok) {
     const error: ApiError = await response.json().catch(() => ({
       error: { code: "UNKNOWN", message: "Failed to fetch decks" },
@@ -33,6 +74,18 @@ async function fetchDecks(): Promise<PaginatedResponse<DeckDto>> {
   return response.json();
 }
 
+async function fetchUserStats(): Promise<UserStatsDto> {
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const response = await fetch(`/api/stats?tz=${encodeURIComponent(timezone)}`);
+  if (!response.ok) {
+    const error: ApiError = await response.json().catch(() => ({
+      error: { code: "UNKNOWN", message: "Failed to fetch statistics" },
+    }));
+    throw new Error(error.error.message);
+  }
+  return response.json();
+}
+
 async function createDeck(data: CreateDeckCommand): Promise<DeckDto> {
   const response = await fetch("/api/decks", {
     method: "POST",
@@ -81,16 +134,27 @@ export function DashboardPage() {
 function DashboardContent() {
   const queryClient = useQueryClient();
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [newDeckParentId, setNewDeckParentId] = useState<string | null>(null);
+  const [editingDeck, setEditingDeck] = useState<DeckDto | null>(null);
+  const [deletingDeck, setDeletingDeck] = useState<DeckDto | null>(null);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [backupDialogOpen, setBackupDialogOpen] = useState(false);
 
   const { data, isLoading, error } = useQuery({
     queryKey: ["decks"],
     queryFn: fetchDecks,
   });
 
+  const { data: stats, isLoading: isStatsLoading } = useQuery({
+    queryKey: ["stats"],
+    queryFn: fetchUserStats,
+  });
+
   const createMutation = useMutation({
     mutationFn: createDeck,
     onSuccess: (newDeck) => {
       queryClient.invalidateQueries({ queryKey: ["decks"] });
+      queryClient.invalidateQueries({ queryKey: ["stats"] });
       toast.success(`Deck "${newDeck.name}" created successfully`);
       setCreateDialogOpen(false);
     },
@@ -99,6 +163,22 @@ function DashboardContent() {
     },
   });
 
+  const updateMutation = useUpdateDeck();
+  const deleteMutation = useDeleteDeck();
+  const ankiPreviewMutation = useAnkiImportPreview();
+  const ankiImportMutation = useImportAnkiPackage();
+  const restoreMutation = useRestoreAccountBackup();
+
+  const handleOpenCreateDialog = useCallback((open: boolean) => {
+    if (open) setNewDeckParentId(null);
+    setCreateDialogOpen(open);
+  }, []);
+
+  const handleAddSubDeck = useCallback((parent: DeckDto) => {
+    setNewDeckParentId(parent.id);
+    setCreateDialogOpen(true);
+  }, []);
+
   const handleCreateDeck = useCallback(
     async (data: CreateDeckCommand) => {
       await createMutation.mutateAsync(data);
@@ -106,6 +186,68 @@ function DashboardContent() {
     [createMutation]
   );
 
+  const handleUpdateDeck = useCallback(
+    async (data: UpdateDeckCommand) => {
+      if (!editingDeck) return;
+
+      try {
+        await updateMutation.mutateAsync({ deckId: editingDeck.id, data });
+        toast.success("Deck updated successfully");
+        setEditingDeck(null);
+      } catch (error) {
+        toast.error(error instanceof ApiRequestError ? error.message : "Failed to update deck");
+        throw error;
+      }
+    },
+    [editingDeck, updateMutation]
+  );
+
+  const handleConfirmDeleteDeck = useCallback(async () => {
+    if (!deletingDeck) return;
+
+    try {
+      await deleteMutation.mutateAsync(deletingDeck.id);
+      toast.success(`Deck "${deletingDeck.name}" deleted`);
+      setDeletingDeck(null);
+    } catch (error) {
+      toast.error(error instanceof ApiRequestError ? error.message : "Failed to delete deck");
+    }
+  }, [deletingDeck, deleteMutation]);
+
+  const handleAnkiImport = useCallback(
+    async (file: File, deckIds: string[]) => {
+      const result = await ankiImportMutation.mutateAsync({ file, deckIds });
+      toast.success(
+        `Imported ${result.imported_count} ${result.imported_count === 1 ? "flashcard" : "flashcards"} into ${
+          result.decks.length
+        } ${result.decks.length === 1 ? "deck" : "decks"}`
+      );
+      setImportDialogOpen(false);
+    },
+    [ankiImportMutation]
+  );
+
+  const handleRestoreBackup = useCallback(
+    async (file: File, conflictStrategy: BackupConflictStrategy) => {
+      const result = await restoreMutation.mutateAsync({ file, conflictStrategy });
+      const { decks, flashcards } = result.restored;
+      toast.success(
+        `Restored ${flashcards} ${flashcards === 1 ? "flashcard" : "flashcards"} in ${decks} ${
+          decks === 1 ? "deck" : "decks"
+        }`
+      );
+      if (result.skipped.decks > 0 || result.skipped.flashcards > 0) {
+        toast.info(
+          `Skipped ${result.skipped.decks} ${result.skipped.decks === 1 ? "deck" : "decks"} and ${
+            result.skipped.flashcards
+          } ${result.skipped.flashcards === 1 ? "flashcard" : "flashcards"} that already exist`
+        );
+      }
+      setBackupDialogOpen(false);
+    },
+    [restoreMutation]
+  );
+
   if (isLoading) {
     return (
       <div className="container mx-auto max-w-6xl px-4 py-8">
@@ -129,6 +271,8 @@ function DashboardContent() {
   }
 
   const decks = data?.data || [];
+  const deckTree = buildDeckTree(decks);
+  const deletingSubDeckCount = deletingDeck ? getSubtreeDeckIds(decks, deletingDeck.id).length - 1 : 0;
 
   return (
     <div className="container mx-auto max-w-6xl px-4 py-8">
@@ -138,24 +282,97 @@ function DashboardContent() {
           <h1 className="text-3xl font-bold tracking-tight">My Decks</h1>
           <p className="text-muted-foreground">Manage your flashcard decks</p>
         </div>
-        <CreateDeckDialog
-          open={createDialogOpen}
-          onOpenChange={setCreateDialogOpen}
-          onSubmit={handleCreateDeck}
-          isLoading={createMutation.isPending}
-        />
+        <div className="flex gap-2">
+          {stats && stats.total_due > 0 && (
+            <Button variant="secondary" asChild>
+              <a href="/review" data-testid="review-all-button">
+                <Layers className="mr-2 h-4 w-4" />
+                Review All ({stats.total_due})
+              </a>
+            </Button>
+          )}
+          {stats && stats.total_generations > 0 && (
+            <Button variant="outline" asChild>
+              <a href="/generations" data-testid="generation-history-button">
+                <History className="mr-2 h-4 w-4" />
+                History
+              </a>
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => setImportDialogOpen(true)} data-testid="import-anki-button">
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+          <Button variant="outline" onClick={() => setBackupDialogOpen(true)} data-testid="account-backup-button">
+            <DatabaseBackup className="mr-2 h-4 w-4" />
+            Backup
+          </Button>
+          <CreateDeckDialog
+            open={createDialogOpen}
+            onOpenChange={handleOpenCreateDialog}
+            defaultParentId={newDeckParentId}
+            onSubmit={handleCreateDeck}
+            isLoading={createMutation.isPending}
+          />
+        </div>
       </div>
 
-      {/* Decks Grid */}
+      {/* Statistics */}
+      <StatsOverview stats={stats} isLoading={isStatsLoading} />
+
+      {/* Decks Grid - top-level decks, each with its sub-deck tree */}
       {decks.length === 0 ? (
-        <EmptyState onCreateClick={() => setCreateDialogOpen(true)} />
+        <EmptyState onCreateClick={() => handleOpenCreateDialog(true)} />
       ) : (
-        <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
-          {decks.map((deck) => (
-            <DeckCard key={deck.id} deck={deck} />
+        <div className="grid items-start gap-6 sm:grid-cols-2 lg:grid-cols-3">
+          {deckTree.map((node) => (
+            <DeckCard
+              key={node.deck.id}
+              node={node}
+              onEdit={setEditingDeck}
+              onDelete={setDeletingDeck}
+              onAddSubDeck={handleAddSubDeck}
+            />
           ))}
         </div>
       )}
+
+      {/* Edit Deck Dialog */}
+      <EditDeckDialog
+        open={editingDeck !== null}
+        onOpenChange={(open) => !open && setEditingDeck(null)}
+        deck={editingDeck}
+        onSubmit={handleUpdateDeck}
+        isSubmitting={updateMutation.isPending}
+      />
+
+      {/* Delete Deck Confirmation Dialog */}
+      <DeleteDeckAlert
+        open={deletingDeck !== null}
+        onOpenChange={(open) => !open && setDeletingDeck(null)}
+        deck={deletingDeck}
+        subDeckCount={deletingSubDeckCount}
+        onConfirm={handleConfirmDeleteDeck}
+        isDeleting={deleteMutation.isPending}
+      />
+
+      {/* Anki Import Dialog */}
+      <AnkiImportDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        onPreview={ankiPreviewMutation.mutateAsync}
+        onImport={handleAnkiImport}
+        isPreviewing={ankiPreviewMutation.isPending}
+        isImporting={ankiImportMutation.isPending}
+      />
+
+      {/* Account Backup Dialog */}
+      <AccountBackupDialog
+        open={backupDialogOpen}
+        onOpenChange={setBackupDialogOpen}
+        onRestore={handleRestoreBackup}
+        isRestoring={restoreMutation.isPending}
+      />
     </div>
   );
 }
@@ -164,46 +381,209 @@ function DashboardContent() {
 // Deck Card
 // ------------------------------------------------------------------
 
-interface DeckCardProps {
+interface DeckActionsProps {
   deck: DeckDto;
+  onEdit: (deck: DeckDto) => void;
+  onDelete: (deck: DeckDto) => void;
+  onAddSubDeck: (deck: DeckDto) => void;
+}
+
+interface DeckCardProps extends Omit<DeckActionsProps, "deck"> {
+  node: DeckTreeNode<DeckDto>;
 }
 
-function DeckCard({ deck }: DeckCardProps) {
+/**
+ * Card of a top-level deck, with its sub-decks listed as a collapsible tree below it.
+ * Counts include the cards of all sub-decks.
+ */
+function DeckCard({ node, onEdit, onDelete, onAddSubDeck }: DeckCardProps) {
+  const { deck, children } = node;
+  const [isExpanded, setIsExpanded] = useState(true);
+
   return (
-    <a href={`/decks/${deck.id}`} className="block" data-testid="deck-card">
-      <Card className="group cursor-pointer transition-shadow hover:shadow-md" data-testid={`deck-${deck.name}`}>
-        <CardHeader>
-          <CardTitle className="line-clamp-1">{deck.name}</CardTitle>
-          {deck.description && <CardDescription className="line-clamp-2">{deck.description}</CardDescription>}
-        </CardHeader>
-        <CardContent>
-          <div className="flex items-center gap-4 text-sm text-muted-foreground">
-            <div className="flex items-center gap-1">
-              <BookOpen className="h-4 w-4" />
-              <span>
-                {deck.flashcard_count} {deck.flashcard_count === 1 ? "flashcard" : "flashcards"}
-              </span>
-            </div>
-            {deck.due_flashcard_count > 0 && (
-              <div className="flex items-center gap-1 text-orange-600">
-                <Clock className="h-4 w-4" />
-                <span>{deck.due_flashcard_count} due</span>
+    <div className="relative">
+      <a href={`/decks/${deck.id}`} className="block" data-testid="deck-card">
+        <Card className="group cursor-pointer transition-shadow hover:shadow-md" data-testid={`deck-${deck.name}`}>
+          <CardHeader className="pr-14">
+            <CardTitle className="line-clamp-1">{deck.name}</CardTitle>
+            {deck.description && <CardDescription className="line-clamp-2">{deck.description}</CardDescription>}
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center gap-4 text-sm text-muted-foreground">
+              <div className="flex items-center gap-1">
+                <BookOpen className="h-4 w-4" />
+                <span>
+                  {deck.flashcard_count} {deck.flashcard_count === 1 ? "flashcard" : "flashcards"}
+                </span>
               </div>
-            )}
-          </div>
-        </CardContent>
-        <CardFooter>
+              {deck.due_flashcard_count > 0 && (
+                <div className="flex items-center gap-1 text-orange-600">
+                  <Clock className="h-4 w-4" />
+                  <span>{deck.due_flashcard_count} due</span>
+                </div>
+              )}
+            </div>
+          </CardContent>
+          <CardFooter>
+            <Button
+              variant="outline"
+              className="w-full group-hover:bg-primary group-hover:text-primary-foreground"
+              data-testid="open-deck-button"
+            >
+              <span>Open Deck</span>
+              <ArrowRight className="ml-2 h-4 w-4" />
+            </Button>
+          </CardFooter>
+        </Card>
+      </a>
+
+      {/* Actions menu - kept outside the link so it does not trigger navigation */}
+      <DeckActionsMenu
+        deck={deck}
+        onEdit={onEdit}
+        onDelete={onDelete}
+        onAddSubDeck={onAddSubDeck}
+        className="absolute right-4 top-4"
+      />
+
+      {/* Sub-decks - kept outside the link, links cannot be nested */}
+      {children.length > 0 && (
+        <div className="mt-2 rounded-lg border bg-card p-1" data-testid="sub-deck-tree">
+          <button
+            type="button"
+            onClick={() => setIsExpanded((expanded) => !expanded)}
+            className="flex w-full items-center gap-1 rounded-md px-1 py-1 text-sm text-muted-foreground hover:text-foreground"
+            aria-expanded={isExpanded}
+            data-testid="sub-decks-toggle"
+          >
+            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            {children.length} {children.length === 1 ? "sub-deck" : "sub-decks"}
+          </button>
+          {isExpanded && (
+            <ul role="group">
+              {children.map((child) => (
+                <SubDeckItem
+                  key={child.deck.id}
+                  node={child}
+                  depth={0}
+                  onEdit={onEdit}
+                  onDelete={onDelete}
+                  onAddSubDeck={onAddSubDeck}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ------------------------------------------------------------------
+// Sub-deck Item
+// ------------------------------------------------------------------
+
+interface SubDeckItemProps extends DeckCardProps {
+  /** Nesting level below the top-level deck card (0 for its direct sub-decks) */
+  depth: number;
+}
+
+function SubDeckItem({ node, depth, onEdit, onDelete, onAddSubDeck }: SubDeckItemProps) {
+  const { deck, children } = node;
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <li>
+      <div
+        className="flex items-center gap-1 rounded-md py-0.5 pr-1 hover:bg-accent"
+        style={{ paddingLeft: `${depth * 1.25}rem` }}
+        data-testid={`sub-deck-${deck.name}`}
+      >
+        {children.length > 0 ? (
           <Button
-            variant="outline"
-            className="w-full group-hover:bg-primary group-hover:text-primary-foreground"
-            data-testid="open-deck-button"
+            variant="ghost"
+            size="icon-xs"
+            onClick={() => setIsExpanded((expanded) => !expanded)}
+            aria-expanded={isExpanded}
+            aria-label={`${isExpanded ? "Collapse" : "Expand"} sub-decks of ${deck.name}`}
           >
-            <span>Open Deck</span>
-            <ArrowRight className="ml-2 h-4 w-4" />
+            {isExpanded ? <ChevronDown /> : <ChevronRight />}
           </Button>
-        </CardFooter>
-      </Card>
-    </a>
+        ) : (
+          <span className="size-6 shrink-0" />
+        )}
+        <a href={`/decks/${deck.id}`} className="min-w-0 flex-1 truncate text-sm hover:underline">
+          {deck.name}
+        </a>
+        <span className="shrink-0 text-xs text-muted-foreground">{deck.flashcard_count}</span>
+        {deck.due_flashcard_count > 0 && (
+          <span className="shrink-0 text-xs text-orange-600">{deck.due_flashcard_count} due</span>
+        )}
+        <DeckActionsMenu
+          deck={deck}
+          onEdit={onEdit}
+          onDelete={onDelete}
+          onAddSubDeck={onAddSubDeck}
+          className="size-6"
+        />
+      </div>
+      {isExpanded && children.length > 0 && (
+        <ul role="group">
+          {children.map((child) => (
+            <SubDeckItem
+              key={child.deck.id}
+              node={child}
+              depth={depth + 1}
+              onEdit={onEdit}
+              onDelete={onDelete}
+              onAddSubDeck={onAddSubDeck}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+// ------------------------------------------------------------------
+// Deck Actions Menu
+// ------------------------------------------------------------------
+
+function DeckActionsMenu({
+  deck,
+  onEdit,
+  onDelete,
+  onAddSubDeck,
+  className,
+}: DeckActionsProps & { className?: string }) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={className}
+          aria-label={`Actions for deck ${deck.name}`}
+          data-testid="deck-actions-button"
+        >
+          <MoreVertical className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => onAddSubDeck(deck)} data-testid="add-sub-deck-menu-item">
+          <FolderPlus />
+          Add sub-deck
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => onEdit(deck)} data-testid="edit-deck-menu-item">
+          <Pencil />
+          Edit
+        </DropdownMenuItem>
+        <DropdownMenuItem variant="destructive" onSelect={() => onDelete(deck)} data-testid="delete-deck-menu-item">
+          <Trash2 />
+          Delete
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
   );
 }
 
@@ -241,13 +621,16 @@ function EmptyState({ onCreateClick }: EmptyStateProps) {
 interface CreateDeckDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  /** Parent deck preselected when the dialog opens (adding a sub-deck) */
+  defaultParentId: string | null;
   onSubmit: (data: CreateDeckCommand) => Promise<void>;
   isLoading: boolean;
 }
 
-function CreateDeckDialog({ open, onOpenChange, onSubmit, isLoading }: CreateDeckDialogProps) {
+function CreateDeckDialog({ open, onOpenChange, defaultParentId, onSubmit, isLoading }: CreateDeckDialogProps) {
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
+  const [parentId, setParentId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // Reset form when dialog closes
@@ -259,6 +642,13 @@ function CreateDeckDialog({ open, onOpenChange, onSubmit, isLoading }: CreateDec
     }
   }, [open]);
 
+  // Preselect the parent deck when the dialog opens
+  useEffect(() => {
+    if (open) {
+      setParentId(defaultParentId);
+    }
+  }, [open, defaultParentId]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -277,6 +667,7 @@ function CreateDeckDialog({ open, onOpenChange, onSubmit, isLoading }: CreateDec
       await onSubmit({
         name: name.trim(),
         description: description.trim() || null,
+        parent_id: parentId,
       });
     } catch {
       // Error is handled by mutation
@@ -322,6 +713,7 @@ function CreateDeckDialog({ open, onOpenChange, onSubmit, isLoading }: CreateDec
                 rows={3}
               />
             </div>
+            <ParentDeckSelect id="parent-deck" value={parentId} onChange={setParentId} disabled={isLoading} />
             {error && <p className="text-sm text-destructive">{error}</p>}
           </div>
           <DialogFooter>
@@ -1,21 +1,50 @@
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo, useEffect, useRef } from "react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { Toaster, toast } from "sonner";
 import { DeckHeader } from "./DeckHeader";
 import { FlashcardList } from "./FlashcardList";
 import { AIGenerationDialog } from "./AIGenerationDialog";
 import { ManualFlashcardDialog } from "./ManualFlashcardDialog";
+import { BulkImportDialog } from "./BulkImportDialog";
 import { DeleteFlashcardAlert } from "./DeleteFlashcardAlert";
+import { EditDeckDialog } from "./EditDeckDialog";
+import { DeleteDeckAlert } from "./DeleteDeckAlert";
+import { UnfinishedReviewBanner } from "./UnfinishedReviewBanner";
+import { FlashcardBulkActionBar } from "./FlashcardBulkActionBar";
+import { DeckPickerDialog } from "./DeckPickerDialog";
+import { BulkTagDialog } from "./BulkTagDialog";
+import { TagFilterBar } from "./TagFilterBar";
 import {
   useDeck,
+  useUpdateDeck,
+  useDeleteDeck,
   useFlashcards,
   useCreateFlashcard,
+  useBulkImportFlashcards,
   useUpdateFlashcard,
   useDeleteFlashcard,
-  useGenerateFlashcards,
+  useStreamGenerateFlashcards,
+  useExtractSourceText,
   useAcceptFlashcards,
+  useMoveFlashcard,
+  useCopyFlashcard,
+  useBulkFlashcardOperation,
+  useTags,
 } from "../hooks/useDeck";
-import type { FlashcardDto, CreateFlashcardCommand, AcceptFlashcardItem } from "../../types";
+import { useUnfinishedGenerations, useRejectSuggestions, useRefineSuggestion } from "../hooks/useGenerations";
+import type {
+  FlashcardDto,
+  CreateFlashcardCommand,
+  BulkImportFlashcardsCommand,
+  AcceptFlashcardItem,
+  GeneratedSuggestionDto,
+  UpdateDeckCommand,
+  UnfinishedGenerationDto,
+  RefineSuggestionCommand,
+  FlashcardType,
+  BulkFlashcardAction,
+  BulkFlashcardOperation,
+} from "../../types";
 import { ApiRequestError } from "../../lib/api/decks";
 
 // ------------------------------------------------------------------
@@ -37,6 +66,23 @@ interface DeleteDialogState {
   flashcard: FlashcardDto | null;
 }
 
+type BulkDialog = "tags" | "delete" | null;
+
+interface DeckPickerState {
+  mode: "move" | "copy";
+  /** Single card from its menu, or null for the selected cards */
+  flashcard: FlashcardDto | null;
+}
+
+const BULK_SUCCESS_MESSAGES: Record<BulkFlashcardAction, string> = {
+  delete: "Deleted",
+  move: "Moved",
+  copy: "Copied",
+  reset_scheduling: "Reset progress of",
+  suspend: "Updated",
+  tag: "Updated tags of",
+};
+
 // ------------------------------------------------------------------
 // Query Client
 // ------------------------------------------------------------------
@@ -73,13 +119,19 @@ function DeckDetailsContent({ deckId }: DeckDetailsPageProps) {
   // ------------------------------------------------------------------
   const { data: deck, isLoading: isDeckLoading, error: deckError } = useDeck(deckId);
 
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const { data: tagsData } = useTags(deckId);
+
   const {
     data: flashcardsData,
     isLoading: isFlashcardsLoading,
     isFetchingNextPage,
     hasNextPage,
     fetchNextPage,
-  } = useFlashcards(deckId);
+  } = useFlashcards(deckId, tagFilter ? { tag: tagFilter } : undefined);
+
+  const { data: unfinishedData } = useUnfinishedGenerations(deckId);
+  const unfinishedGeneration = unfinishedData?.data[0] ?? null;
 
   // Flatten paginated data
   const flashcards = useMemo(() => {
@@ -87,19 +139,66 @@ function DeckDetailsContent({ deckId }: DeckDetailsPageProps) {
     return flashcardsData.pages.flatMap((page) => page.data);
   }, [flashcardsData]);
 
+  // Drop the filter when no card has the tag anymore
+  useEffect(() => {
+    if (tagFilter && tagsData && !tagsData.data.some((tag) => tag.tag === tagFilter)) {
+      setTagFilter(null);
+    }
+  }, [tagFilter, tagsData]);
+
+  // Scroll to the flashcard linked from search results (#flashcard-<id>), loading more pages until it is found.
+  // The hash is followed, so that a search result of the same deck scrolls to its card too.
+  const [locationHash, setLocationHash] = useState(() => window.location.hash);
+
+  useEffect(() => {
+    const handleHashChange = () => setLocationHash(window.location.hash);
+
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, []);
+
+  const linkedFlashcardId = useMemo(() => locationHash.match(/^#flashcard-(.+)$/)?.[1] ?? null, [locationHash]);
+  const scrolledToLinkedId = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!linkedFlashcardId || scrolledToLinkedId.current === linkedFlashcardId || isFlashcardsLoading) return;
+
+    if (flashcards.some((flashcard) => flashcard.id === linkedFlashcardId)) {
+      scrolledToLinkedId.current = linkedFlashcardId;
+      requestAnimationFrame(() => {
+        document.getElementById(`flashcard-${linkedFlashcardId}`)?.scrollIntoView({ block: "center" });
+      });
+    } else if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [linkedFlashcardId, flashcards, isFlashcardsLoading, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
   // ------------------------------------------------------------------
   // Mutations
   // ------------------------------------------------------------------
+  const updateDeck = useUpdateDeck();
+  const deleteDeck = useDeleteDeck();
   const createFlashcard = useCreateFlashcard(deckId);
+  const bulkImportFlashcards = useBulkImportFlashcards(deckId);
   const updateFlashcard = useUpdateFlashcard(deckId);
   const deleteFlashcard = useDeleteFlashcard(deckId);
-  const generateFlashcards = useGenerateFlashcards(deckId);
+  const generateFlashcards = useStreamGenerateFlashcards(deckId);
+  const extractSourceText = useExtractSourceText();
   const acceptFlashcards = useAcceptFlashcards(deckId);
+  const rejectSuggestions = useRejectSuggestions();
+  const refineSuggestion = useRefineSuggestion();
+  const moveFlashcard = useMoveFlashcard();
+  const copyFlashcard = useCopyFlashcard();
+  const bulkOperation = useBulkFlashcardOperation();
 
   // ------------------------------------------------------------------
   // UI State
   // ------------------------------------------------------------------
   const [aiDialogOpen, setAiDialogOpen] = useState(false);
+  const [resumeGeneration, setResumeGeneration] = useState<UnfinishedGenerationDto | null>(null);
+  const [editDeckOpen, setEditDeckOpen] = useState(false);
+  const [deleteDeckOpen, setDeleteDeckOpen] = useState(false);
+  const [bulkImportOpen, setBulkImportOpen] = useState(false);
   const [manualDialog, setManualDialog] = useState<ManualDialogState>({
     isOpen: false,
     mode: "create",
@@ -109,6 +208,9 @@ function DeckDetailsContent({ deckId }: DeckDetailsPageProps) {
     isOpen: false,
     flashcard: null,
   });
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkDialog, setBulkDialog] = useState<BulkDialog>(null);
+  const [deckPicker, setDeckPicker] = useState<DeckPickerState | null>(null);
 
   // ------------------------------------------------------------------
   // Handlers
@@ -116,9 +218,40 @@ function DeckDetailsContent({ deckId }: DeckDetailsPageProps) {
 
   // Open AI Generation dialog
   const handleOpenAiDialog = useCallback(() => {
+    setResumeGeneration(null);
+    setAiDialogOpen(true);
+  }, []);
+
+  // Open AI Generation dialog at the review of an unfinished generation
+  const handleResumeReview = useCallback((generation: UnfinishedGenerationDto) => {
+    setResumeGeneration(generation);
     setAiDialogOpen(true);
   }, []);
 
+  // Discard an unfinished review (rejects its pending suggestions)
+  const handleDiscardReview = useCallback(
+    async (generation: UnfinishedGenerationDto) => {
+      try {
+        await rejectSuggestions.mutateAsync({ generationId: generation.generation_id });
+        toast.success("Suggestions discarded");
+      } catch (error) {
+        const message = error instanceof ApiRequestError ? error.message : "Failed to discard suggestions";
+        toast.error(message);
+      }
+    },
+    [rejectSuggestions]
+  );
+
+  // Open Edit Deck dialog
+  const handleOpenEditDeck = useCallback(() => {
+    setEditDeckOpen(true);
+  }, []);
+
+  // Open Delete Deck confirmation dialog
+  const handleOpenDeleteDeck = useCallback(() => {
+    setDeleteDeckOpen(true);
+  }, []);
+
   // Open Manual dialog for creating new card
   const handleOpenCreateDialog = useCallback(() => {
     setManualDialog({ isOpen: true, mode: "create", flashcard: null });
@@ -150,15 +283,25 @@ function DeckDetailsContent({ deckId }: DeckDetailsPageProps) {
 
   // Handle AI generation
   const handleGenerate = useCallback(
-    async (sourceText: string) => {
+    async (
+      sourceText: string,
+      onSuggestion: (suggestion: GeneratedSuggestionDto) => void,
+      { forceRegenerate, cardType }: { forceRegenerate: boolean; cardType: FlashcardType }
+    ) => {
       const result = await generateFlashcards.mutateAsync({
-        source_text: sourceText,
-        count: 10,
+        data: {
+          source_text: sourceText,
+          count: 10,
+          force_regenerate: forceRegenerate,
+          card_type: cardType,
+        },
+        onSuggestion,
       });
 
       return {
         generationId: result.generation_id,
         suggestions: result.suggestions,
+        cachedAt: result.cached_at,
       };
     },
     [generateFlashcards]
@@ -177,6 +320,15 @@ function DeckDetailsContent({ deckId }: DeckDetailsPageProps) {
     [acceptFlashcards]
   );
 
+  // Handle AI action on a single suggestion
+  const handleRefineSuggestion = useCallback(
+    async (generationId: string, suggestionId: string, command: RefineSuggestionCommand) => {
+      const result = await refineSuggestion.mutateAsync({ generationId, suggestionId, data: command });
+      return result.suggestions;
+    },
+    [refineSuggestion]
+  );
+
   // Handle manual card submission (create or update)
   const handleManualSubmit = useCallback(
     async (data: CreateFlashcardCommand) => {
@@ -201,6 +353,16 @@ function DeckDetailsContent({ deckId }: DeckDetailsPageProps) {
     [manualDialog, createFlashcard, updateFlashcard]
   );
 
+  // Handle bulk import (errors are shown in the dialog)
+  const handleBulkImport = useCallback(
+    async (data: BulkImportFlashcardsCommand) => {
+      const result = await bulkImportFlashcards.mutateAsync(data);
+      toast.success(`Imported ${result.imported_count} flashcard${result.imported_count === 1 ? "" : "s"}`);
+      setBulkImportOpen(false);
+    },
+    [bulkImportFlashcards]
+  );
+
   // Handle delete confirmation
   const handleConfirmDelete = useCallback(async () => {
     if (!deleteDialog.flashcard) return;
@@ -215,6 +377,149 @@ function DeckDetailsContent({ deckId }: DeckDetailsPageProps) {
     }
   }, [deleteDialog.flashcard, deleteFlashcard]);
 
+  // Handle deck update
+  const handleUpdateDeck = useCallback(
+    async (data: UpdateDeckCommand) => {
+      try {
+        await updateDeck.mutateAsync({ deckId, data });
+        toast.success("Deck updated successfully");
+        setEditDeckOpen(false);
+      } catch (error) {
+        const message = error instanceof ApiRequestError ? error.message : "Failed to update deck";
+        toast.error(message);
+        throw error;
+      }
+    },
+    [deckId, updateDeck]
+  );
+
+  // Handle deck delete confirmation
+  const handleConfirmDeleteDeck = useCallback(async () => {
+    try {
+      await deleteDeck.mutateAsync(deckId);
+      window.location.href = "/dashboard";
+    } catch (error) {
+      const message = error instanceof ApiRequestError ? error.message : "Failed to delete deck";
+      toast.error(message);
+    }
+  }, [deckId, deleteDeck]);
+
+  // Toggle selection of a card for bulk actions
+  const handleToggleSelect = useCallback((flashcard: FlashcardDto) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(flashcard.id)) {
+        next.delete(flashcard.id);
+      } else {
+        next.add(flashcard.id);
+      }
+      return next;
+    });
+  }, []);
+
+  // Select all loaded cards
+  const handleSelectAll = useCallback(() => {
+    setSelectedIds(new Set(flashcards.map((flashcard) => flashcard.id)));
+  }, [flashcards]);
+
+  // Clear the selection
+  const handleClearSelection = useCallback(() => {
+    setSelectedIds(new Set());
+  }, []);
+
+  // Handle an operation on the selected cards
+  const handleBulkOperation = useCallback(
+    async (operation: BulkFlashcardOperation) => {
+      try {
+        const result = await bulkOperation.mutateAsync({ ...operation, ids: [...selectedIds] });
+
+        if (result.succeeded > 0) {
+          toast.success(
+            `${BULK_SUCCESS_MESSAGES[result.action]} ${result.succeeded} flashcard${result.succeeded === 1 ? "" : "s"}`
+          );
+        }
+        if (result.failed > 0) {
+          toast.error(`${result.failed} flashcard${result.failed === 1 ? "" : "s"} could not be changed`);
+        }
+
+        setSelectedIds(new Set());
+        setBulkDialog(null);
+        setDeckPicker(null);
+      } catch (error) {
+        const message = error instanceof ApiRequestError ? error.message : "Failed to update flashcards";
+        toast.error(message);
+      }
+    },
+    [bulkOperation, selectedIds]
+  );
+
+  // Open the deck picker for moving a single card
+  const handleMoveFlashcard = useCallback((flashcard: FlashcardDto) => {
+    setDeckPicker({ mode: "move", flashcard });
+  }, []);
+
+  // Open the deck picker for copying a single card
+  const handleCopyFlashcard = useCallback((flashcard: FlashcardDto) => {
+    setDeckPicker({ mode: "copy", flashcard });
+  }, []);
+
+  // Close the deck picker
+  const handleCloseDeckPicker = useCallback((open: boolean) => {
+    if (!open) {
+      setDeckPicker(null);
+    }
+  }, []);
+
+  // Handle move or copy to the deck chosen in the picker (a single card or the selection)
+  const handleConfirmDeckPicker = useCallback(
+    async (targetDeckId: string, resetScheduling: boolean) => {
+      if (!deckPicker) return;
+
+      if (!deckPicker.flashcard) {
+        await handleBulkOperation(
+          deckPicker.mode === "copy"
+            ? { action: "copy", deck_id: targetDeckId, reset_scheduling: resetScheduling }
+            : { action: "move", deck_id: targetDeckId }
+        );
+        return;
+      }
+
+      const flashcardId = deckPicker.flashcard.id;
+
+      try {
+        if (deckPicker.mode === "move") {
+          const result = await moveFlashcard.mutateAsync({ flashcardId, data: { deck_id: targetDeckId } });
+          const count = result.flashcards.length;
+          toast.success(`Moved ${count} flashcard${count === 1 ? "" : "s"}`);
+          // Moved cards leave this deck - drop them from the selection
+          setSelectedIds((prev) => {
+            const next = new Set(prev);
+            result.flashcards.forEach((flashcard) => next.delete(flashcard.id));
+            return next;
+          });
+        } else {
+          const result = await copyFlashcard.mutateAsync({
+            flashcardId,
+            data: { deck_id: targetDeckId, reset_scheduling: resetScheduling },
+          });
+          const count = result.flashcards.length;
+          toast.success(`Copied ${count} flashcard${count === 1 ? "" : "s"}`);
+        }
+        setDeckPicker(null);
+      } catch (error) {
+        const message = error instanceof ApiRequestError ? error.message : `Failed to ${deckPicker.mode} flashcard`;
+        toast.error(message);
+      }
+    },
+    [deckPicker, handleBulkOperation, moveFlashcard, copyFlashcard]
+  );
+
+  // Filter the list by tag; selected cards may no longer be visible, so the selection is cleared
+  const handleSelectTag = useCallback((tag: string | null) => {
+    setTagFilter(tag);
+    setSelectedIds(new Set());
+  }, []);
+
   // Handle load more
   const handleLoadMore = useCallback(() => {
     fetchNextPage();
@@ -265,9 +570,25 @@ function DeckDetailsContent({ deckId }: DeckDetailsPageProps) {
         deck={deck}
         isLoading={isDeckLoading}
         onAddManual={handleOpenCreateDialog}
+        onImport={() => setBulkImportOpen(true)}
         onGenerateAI={handleOpenAiDialog}
+        onEditDeck={handleOpenEditDeck}
+        onDeleteDeck={handleOpenDeleteDeck}
       />
 
+      {/* Unfinished AI Review */}
+      {unfinishedGeneration && !aiDialogOpen && (
+        <UnfinishedReviewBanner
+          generation={unfinishedGeneration}
+          onResume={handleResumeReview}
+          onDiscard={handleDiscardReview}
+          isDiscarding={rejectSuggestions.isPending}
+        />
+      )}
+
+      {/* Tag Filter */}
+      <TagFilterBar deckId={deckId} tags={tagsData?.data ?? []} selectedTag={tagFilter} onSelectTag={handleSelectTag} />
+
       {/* Flashcard List */}
       <FlashcardList
         flashcards={flashcards}
@@ -277,6 +598,56 @@ function DeckDetailsContent({ deckId }: DeckDetailsPageProps) {
         onLoadMore={handleLoadMore}
         onEdit={handleEditFlashcard}
         onDelete={handleDeleteFlashcard}
+        selectedIds={selectedIds}
+        onToggleSelect={handleToggleSelect}
+        onMove={handleMoveFlashcard}
+        onCopy={handleCopyFlashcard}
+      />
+
+      {/* Bulk Actions */}
+      {selectedIds.size > 0 && (
+        <FlashcardBulkActionBar
+          selectedCount={selectedIds.size}
+          loadedCount={flashcards.length}
+          onSelectAll={handleSelectAll}
+          onClearSelection={handleClearSelection}
+          onMove={() => setDeckPicker({ mode: "move", flashcard: null })}
+          onCopy={() => setDeckPicker({ mode: "copy", flashcard: null })}
+          onEditTags={() => setBulkDialog("tags")}
+          onResetScheduling={() => handleBulkOperation({ action: "reset_scheduling" })}
+          onSuspend={(suspended) => handleBulkOperation({ action: "suspend", suspended })}
+          onDelete={() => setBulkDialog("delete")}
+          isProcessing={bulkOperation.isPending}
+        />
+      )}
+
+      {/* Move/Copy Dialog (single card or selection) */}
+      <DeckPickerDialog
+        open={deckPicker !== null}
+        onOpenChange={handleCloseDeckPicker}
+        mode={deckPicker?.mode ?? "move"}
+        count={deckPicker?.flashcard ? 1 : selectedIds.size}
+        currentDeckId={deckId}
+        onConfirm={handleConfirmDeckPicker}
+        isSubmitting={bulkOperation.isPending || moveFlashcard.isPending || copyFlashcard.isPending}
+      />
+
+      {/* Bulk Tag Dialog */}
+      <BulkTagDialog
+        open={bulkDialog === "tags"}
+        onOpenChange={(open) => !open && setBulkDialog(null)}
+        count={selectedIds.size}
+        onSubmit={(changes) => handleBulkOperation({ action: "tag", ...changes })}
+        isSubmitting={bulkOperation.isPending}
+      />
+
+      {/* Bulk Delete Confirmation Dialog */}
+      <DeleteFlashcardAlert
+        open={bulkDialog === "delete"}
+        onOpenChange={(open) => !open && setBulkDialog(null)}
+        onConfirm={() => handleBulkOperation({ action: "delete" })}
+        isDeleting={bulkOperation.isPending}
+        count={selectedIds.size}
       />
 
       {/* AI Generation Dialog */}
@@ -285,8 +656,12 @@ function DeckDetailsContent({ deckId }: DeckDetailsPageProps) {
         onOpenChange={setAiDialogOpen}
         onGenerate={handleGenerate}
         onAccept={handleAcceptFlashcards}
+        onRefine={handleRefineSuggestion}
+        resumeGeneration={resumeGeneration}
+        onExtractFile={extractSourceText.mutateAsync}
         isGenerating={generateFlashcards.isPending}
         isAccepting={acceptFlashcards.isPending}
+        isExtracting={extractSourceText.isPending}
       />
 
       {/* Manual Create/Edit Dialog */}
@@ -299,12 +674,39 @@ function DeckDetailsContent({ deckId }: DeckDetailsPageProps) {
         isSubmitting={createFlashcard.isPending || updateFlashcard.isPending}
       />
 
+      {/* Bulk Import Dialog */}
+      <BulkImportDialog
+        open={bulkImportOpen}
+        onOpenChange={setBulkImportOpen}
+        onSubmit={handleBulkImport}
+        isSubmitting={bulkImportFlashcards.isPending}
+      />
+
       {/* Delete Confirmation Dialog */}
       <DeleteFlashcardAlert
         open={deleteDialog.isOpen}
         onOpenChange={handleCloseDeleteDialog}
         onConfirm={handleConfirmDelete}
         isDeleting={deleteFlashcard.isPending}
+        hasSiblings={!!deleteDialog.flashcard?.note_id}
+      />
+
+      {/* Edit Deck Dialog */}
+      <EditDeckDialog
+        open={editDeckOpen}
+        onOpenChange={setEditDeckOpen}
+        deck={deck ?? null}
+        onSubmit={handleUpdateDeck}
+        isSubmitting={updateDeck.isPending}
+      />
+
+      {/* Delete Deck Confirmation Dialog */}
+      <DeleteDeckAlert
+        open={deleteDeckOpen}
+        onOpenChange={setDeleteDeckOpen}
+        deck={deck ?? null}
+        onConfirm={handleConfirmDeleteDeck}
+        isDeleting={deleteDeck.isPending}
       />
     </div>
   );
@@ -1,21 +1,47 @@
 import { memo } from "react";
-import { BookOpen, Plus, Sparkles, ArrowLeft } from "lucide-react";
+import { BookOpen, Plus, Sparkles, ArrowLeft, Pencil, Trash2, Download, Upload } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { DeckDto } from "../../types";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getDeckExportUrl } from "../../lib/api/decks";
+import type { DeckDto, DeckExportFormat } from "../../types";
+
+const EXPORT_FORMATS: { value: DeckExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "tsv", label: "TSV" },
+  { value: "json", label: "JSON" },
+  { value: "apkg", label: "Anki package (.apkg)" },
+];
 
 interface DeckHeaderProps {
   deck: DeckDto | undefined;
   isLoading: boolean;
   onAddManual: () => void;
+  onImport: () => void;
   onGenerateAI: () => void;
+  onEditDeck: () => void;
+  onDeleteDeck: () => void;
 }
 
 /**
  * Displays deck title, description, stats, and action buttons.
  */
-export const DeckHeader = memo(function DeckHeader({ deck, isLoading, onAddManual, onGenerateAI }: DeckHeaderProps) {
+export const DeckHeader = memo(function DeckHeader({
+  deck,
+  isLoading,
+  onAddManual,
+  onImport,
+  onGenerateAI,
+  onEditDeck,
+  onDeleteDeck,
+}: DeckHeaderProps) {
   if (isLoading || !deck) {
     return <DeckHeaderSkeleton />;
   }
@@ -70,10 +96,58 @@ export const DeckHeader = memo(function DeckHeader({ deck, isLoading, onAddManua
             Add Flashcard
           </Button>
 
+          <Button variant="outline" onClick={onImport} data-testid="bulk-import-button">
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+
           <Button variant="secondary" onClick={onGenerateAI} data-testid="generate-ai-button">
             <Sparkles className="mr-2 h-4 w-4" />
             Generate with AI
           </Button>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" aria-label="Export deck" data-testid="export-deck-button">
+                <Download className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Export as</DropdownMenuLabel>
+              {EXPORT_FORMATS.map((format) => (
+                <DropdownMenuItem key={format.value} asChild>
+                  <a
+                    href={getDeckExportUrl(deck.id, format.value)}
+                    download
+                    data-testid={`export-deck-${format.value}`}
+                  >
+                    {format.label}
+                  </a>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onEditDeck}
+            aria-label="Edit deck"
+            data-testid="edit-deck-button"
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onDeleteDeck}
+            aria-label="Delete deck"
+            className="text-destructive hover:text-destructive"
+            data-testid="delete-deck-button"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
         </div>
       </div>
     </header>
@@ -101,7 +175,11 @@ function DeckHeaderSkeleton() {
         <div className="flex gap-2">
           <Skeleton className="h-10 w-28" />
           <Skeleton className="h-10 w-24" />
+          <Skeleton className="h-10 w-24" />
           <Skeleton className="h-10 w-36" />
+          <Skeleton className="h-10 w-10" />
+          <Skeleton className="h-10 w-10" />
+          <Skeleton className="h-10 w-10" />
         </div>
       </div>
     </header>
@@ -0,0 +1,149 @@
+import { useState, useEffect } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useDecks } from "../hooks/useDeck";
+
+interface DeckPickerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mode: "move" | "copy";
+  /** Number of selected flashcards, shown in the title */
+  count: number;
+  /** Deck the flashcards are in - not offered as a target */
+  currentDeckId: string;
+  onConfirm: (deckId: string, resetScheduling: boolean) => Promise<void>;
+  isSubmitting: boolean;
+}
+
+/**
+ * Dialog for choosing the deck flashcards are moved or copied to.
+ * Copies keep the review progress unless the user chooses to start them as new cards.
+ */
+export function DeckPickerDialog({
+  open,
+  onOpenChange,
+  mode,
+  count,
+  currentDeckId,
+  onConfirm,
+  isSubmitting,
+}: DeckPickerDialogProps) {
+  const { data: decksData, isLoading } = useDecks();
+  const [deckId, setDeckId] = useState<string | null>(null);
+  const [resetScheduling, setResetScheduling] = useState(false);
+
+  // Reset state when dialog opens
+  useEffect(() => {
+    if (open) {
+      setDeckId(null);
+      setResetScheduling(false);
+    }
+  }, [open]);
+
+  const decks = (decksData?.data ?? []).filter((deck) => deck.id !== currentDeckId);
+  const noun = count === 1 ? "flashcard" : "flashcards";
+
+  const handleConfirm = async () => {
+    if (!deckId) return;
+
+    try {
+      await onConfirm(deckId, resetScheduling);
+    } catch {
+      // Error is handled by the caller
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md" data-testid="deck-picker-dialog">
+        <DialogHeader>
+          <DialogTitle>
+            {mode === "move" ? "Move" : "Copy"} {count} {noun}
+          </DialogTitle>
+          <DialogDescription>
+            {mode === "move"
+              ? "Choose the deck to move the flashcards to. Their review progress is kept; linked cards of the same note move with them."
+              : "Choose the deck to copy the flashcards to. Linked cards of the same note are copied with them."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : decks.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">You have no other decks.</p>
+          ) : (
+            <ScrollArea className="max-h-64">
+              <div className="grid gap-1" role="radiogroup" aria-label="Target deck">
+                {decks.map((deck) => (
+                  <Button
+                    key={deck.id}
+                    type="button"
+                    variant={deckId === deck.id ? "secondary" : "ghost"}
+                    role="radio"
+                    aria-checked={deckId === deck.id}
+                    onClick={() => setDeckId(deck.id)}
+                    disabled={isSubmitting}
+                    className="h-auto justify-between py-2 text-left"
+                    data-testid={`deck-picker-option-${deck.id}`}
+                  >
+                    <span className="truncate font-medium">{deck.name}</span>
+                    <span className="shrink-0 text-xs font-normal text-muted-foreground">
+                      {deck.flashcard_count} cards
+                    </span>
+                  </Button>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+
+          {mode === "copy" && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="deck-picker-reset"
+                checked={resetScheduling}
+                onCheckedChange={(checked) => setResetScheduling(checked === true)}
+                disabled={isSubmitting}
+                data-testid="deck-picker-reset-checkbox"
+              />
+              <Label htmlFor="deck-picker-reset" className="font-normal">
+                Start the copies as new cards (reset review progress)
+              </Label>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!deckId || isSubmitting} data-testid="deck-picker-submit">
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {mode === "move" ? "Moving..." : "Copying..."}
+              </>
+            ) : mode === "move" ? (
+              "Move"
+            ) : (
+              "Copy"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+import { Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { DeckDto } from "../../types";
+
+interface DeleteDeckAlertProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  deck: DeckDto | null;
+  /** Number of sub-decks deleted with the deck (at any depth) */
+  subDeckCount?: number;
+  onConfirm: () => void;
+  isDeleting: boolean;
+}
+
+/**
+ * Confirmation dialog for deleting a deck together with its sub-decks and flashcards
+ */
+export function DeleteDeckAlert({
+  open,
+  onOpenChange,
+  deck,
+  subDeckCount = 0,
+  onConfirm,
+  isDeleting,
+}: DeleteDeckAlertProps) {
+  // Counts include the cards of the sub-decks
+  const cardCount = deck?.flashcard_count ?? 0;
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent data-testid="delete-deck-dialog">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete Deck</AlertDialogTitle>
+          <AlertDialogDescription>
+            Are you sure you want to delete {deck ? <strong>&quot;{deck.name}&quot;</strong> : "this deck"}
+            {subDeckCount > 0 && `, its ${subDeckCount} ${subDeckCount === 1 ? "sub-deck" : "sub-decks"}`}
+            {cardCount > 0 && ` and its ${cardCount} ${cardCount === 1 ? "flashcard" : "flashcards"}`}? This action
+            cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              onConfirm();
+            }}
+            disabled={isDeleting}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            data-testid="confirm-delete-deck-button"
+          >
+            {isDeleting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Deleting...
+              </>
+            ) : (
+              "Delete"
+            )}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -15,19 +15,38 @@ interface DeleteFlashcardAlertProps {
   onOpenChange: (open: boolean) => void;
   onConfirm: () => void;
   isDeleting: boolean;
+  /** The flashcard belongs to a note (cloze or both directions) - all cards of the note are deleted */
+  hasSiblings?: boolean;
+  /** Number of selected flashcards when deleting a selection */
+  count?: number;
 }
 
 /**
- * Confirmation dialog for deleting a flashcard
+ * Confirmation dialog for deleting a flashcard or a selection of flashcards
  */
-export function DeleteFlashcardAlert({ open, onOpenChange, onConfirm, isDeleting }: DeleteFlashcardAlertProps) {
+export function DeleteFlashcardAlert({
+  open,
+  onOpenChange,
+  onConfirm,
+  isDeleting,
+  hasSiblings = false,
+  count,
+}: DeleteFlashcardAlertProps) {
+  const isSelection = count !== undefined;
+
   return (
     <AlertDialog open={open} onOpenChange={onOpenChange}>
       <AlertDialogContent>
         <AlertDialogHeader>
-          <AlertDialogTitle>Delete Flashcard</AlertDialogTitle>
+          <AlertDialogTitle>
+            {isSelection ? `Delete ${count} Flashcard${count === 1 ? "" : "s"}` : "Delete Flashcard"}
+          </AlertDialogTitle>
           <AlertDialogDescription>
-            Are you sure you want to delete this flashcard? This action cannot be undone.
+            {isSelection
+              ? "Linked cards of the same note (cloze deletions or the reverse direction) are deleted too. This action cannot be undone."
+              : hasSiblings
+                ? "This card is linked with other cards of the same note (cloze deletions or the reverse direction) - deleting it deletes all of them. This action cannot be undone."
+                : "Are you sure you want to delete this flashcard? This action cannot be undone."}
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter>
@@ -0,0 +1,137 @@
+import { useState, useEffect } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { ParentDeckSelect } from "./ParentDeckSelect";
+import type { DeckDto, UpdateDeckCommand } from "../../types";
+
+interface EditDeckDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  deck: DeckDto | null;
+  onSubmit: (data: UpdateDeckCommand) => Promise<void>;
+  isSubmitting: boolean;
+}
+
+/**
+ * Dialog for renaming a deck, editing its description and moving it under another deck
+ */
+export function EditDeckDialog({ open, onOpenChange, deck, onSubmit, isSubmitting }: EditDeckDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [parentId, setParentId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Populate form with current deck data when dialog opens
+  useEffect(() => {
+    if (open && deck) {
+      setName(deck.name);
+      setDescription(deck.description ?? "");
+      setParentId(deck.parent_id);
+      setError(null);
+    }
+  }, [open, deck]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!name.trim()) {
+      setError("Name is required");
+      return;
+    }
+
+    if (name.trim().length > 100) {
+      setError("Name must be 100 characters or less");
+      return;
+    }
+
+    if (description.length > 500) {
+      setError("Description must be 500 characters or less");
+      return;
+    }
+
+    try {
+      await onSubmit({
+        name: name.trim(),
+        description: description.trim() || null,
+        parent_id: parentId,
+      });
+    } catch {
+      // Error is handled by the caller
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="edit-deck-dialog">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Edit Deck</DialogTitle>
+            <DialogDescription>
+              Change the name or description of this deck, or move it under another deck.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-deck-name">Name</Label>
+              <Input
+                id="edit-deck-name"
+                name="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={isSubmitting}
+                data-testid="edit-deck-name-input"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-deck-description">Description (optional)</Label>
+              <Textarea
+                id="edit-deck-description"
+                name="description"
+                placeholder="A brief description of this deck..."
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                disabled={isSubmitting}
+                rows={3}
+              />
+            </div>
+            <ParentDeckSelect
+              id="edit-deck-parent"
+              value={parentId}
+              onChange={setParentId}
+              deckId={deck?.id}
+              disabled={isSubmitting}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} data-testid="edit-deck-submit">
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Changes"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+import { Copy, FolderInput, Loader2, MoreHorizontal, Pause, Play, RotateCcw, Tags, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+// ------------------------------------------------------------------
+// Types
+// ------------------------------------------------------------------
+
+interface FlashcardBulkActionBarProps {
+  selectedCount: number;
+  /** Number of loaded flashcards, used for the "select all" toggle */
+  loadedCount: number;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onMove: () => void;
+  onCopy: () => void;
+  onEditTags: () => void;
+  onResetScheduling: () => void;
+  onSuspend: (suspended: boolean) => void;
+  onDelete: () => void;
+  isProcessing: boolean;
+}
+
+// ------------------------------------------------------------------
+// Component
+// ------------------------------------------------------------------
+
+/**
+ * Toolbar with the actions available for the selected flashcards.
+ * Sticks to the bottom of the screen while the list is scrolled.
+ */
+export function FlashcardBulkActionBar({
+  selectedCount,
+  loadedCount,
+  onSelectAll,
+  onClearSelection,
+  onMove,
+  onCopy,
+  onEditTags,
+  onResetScheduling,
+  onSuspend,
+  onDelete,
+  isProcessing,
+}: FlashcardBulkActionBarProps) {
+  return (
+    <div
+      className="sticky bottom-4 z-10 mt-6 flex flex-col gap-3 rounded-md border bg-background p-3 shadow-lg sm:flex-row sm:items-center sm:justify-between"
+      data-testid="flashcard-bulk-action-bar"
+    >
+      <div className="flex items-center gap-2 text-sm">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={onClearSelection}
+          disabled={isProcessing}
+          aria-label="Clear selection"
+          data-testid="bulk-clear-selection-button"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+        <span className="font-medium" data-testid="bulk-selected-count">
+          {selectedCount} selected
+        </span>
+        {selectedCount < loadedCount && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0"
+            onClick={onSelectAll}
+            disabled={isProcessing}
+            data-testid="bulk-select-all-button"
+          >
+            Select all {loadedCount}
+          </Button>
+        )}
+        {isProcessing && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={onMove} disabled={isProcessing} data-testid="bulk-move-button">
+          <FolderInput className="mr-1 h-4 w-4" />
+          Move
+        </Button>
+        <Button variant="outline" size="sm" onClick={onCopy} disabled={isProcessing} data-testid="bulk-copy-button">
+          <Copy className="mr-1 h-4 w-4" />
+          Copy
+        </Button>
+        <Button variant="outline" size="sm" onClick={onEditTags} disabled={isProcessing} data-testid="bulk-tags-button">
+          <Tags className="mr-1 h-4 w-4" />
+          Tags
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={isProcessing} data-testid="bulk-more-button">
+              <MoreHorizontal className="h-4 w-4" />
+              <span className="sr-only">More actions</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={onResetScheduling} data-testid="bulk-reset-button">
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Reset progress
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onSuspend(true)} data-testid="bulk-suspend-button">
+              <Pause className="mr-2 h-4 w-4" />
+              Suspend
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onSuspend(false)} data-testid="bulk-unsuspend-button">
+              <Play className="mr-2 h-4 w-4" />
+              Unsuspend
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onDelete}
+          disabled={isProcessing}
+          className="text-destructive hover:text-destructive"
+          data-testid="bulk-delete-button"
+        >
+          <Trash2 className="mr-1 h-4 w-4" />
+          Delete
+        </Button>
+      </div>
+    </div>
+  );
+}
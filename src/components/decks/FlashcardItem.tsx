@@ -1,21 +1,45 @@
 import { memo, useCallback } from "react";
-import { Pencil, Trash2 } from "lucide-react";
+import { Copy, FolderInput, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import type { FlashcardDto } from "../../types";
+import { ClozeText } from "../study/ClozeText";
 
 interface FlashcardItemProps {
   flashcard: FlashcardDto;
   onEdit: (flashcard: FlashcardDto) => void;
   onDelete: (flashcard: FlashcardDto) => void;
+  /** Selection for bulk actions; the checkbox is hidden without onToggleSelect */
+  isSelected?: boolean;
+  onToggleSelect?: (flashcard: FlashcardDto) => void;
+  /** Move or copy to another deck; the menu is hidden without these handlers */
+  onMove?: (flashcard: FlashcardDto) => void;
+  onCopy?: (flashcard: FlashcardDto) => void;
 }
 
 /**
  * Displays a single flashcard with front/back content and action buttons.
+ * A cloze card shows its note text with the card's deletions highlighted and the extra info,
+ * a reversed card is marked with a badge (it is studied back→front), a suspended card is dimmed.
  * Uses memo to prevent unnecessary re-renders.
  */
-export const FlashcardItem = memo(function FlashcardItem({ flashcard, onEdit, onDelete }: FlashcardItemProps) {
+export const FlashcardItem = memo(function FlashcardItem({
+  flashcard,
+  onEdit,
+  onDelete,
+  isSelected = false,
+  onToggleSelect,
+  onMove,
+  onCopy,
+}: FlashcardItemProps) {
   const handleEdit = useCallback(() => {
     onEdit(flashcard);
   }, [flashcard, onEdit]);
@@ -24,6 +48,18 @@ export const FlashcardItem = memo(function FlashcardItem({ flashcard, onEdit, on
     onDelete(flashcard);
   }, [flashcard, onDelete]);
 
+  const handleToggleSelect = useCallback(() => {
+    onToggleSelect?.(flashcard);
+  }, [flashcard, onToggleSelect]);
+
+  const handleMove = useCallback(() => {
+    onMove?.(flashcard);
+  }, [flashcard, onMove]);
+
+  const handleCopy = useCallback(() => {
+    onCopy?.(flashcard);
+  }, [flashcard, onCopy]);
+
   // Map source to display label and variant
   const sourceConfig: Record<string, { label: string; variant: "default" | "secondary" | "outline" }> = {
     "ai-full": { label: "AI", variant: "default" },
@@ -32,15 +68,46 @@ export const FlashcardItem = memo(function FlashcardItem({ flashcard, onEdit, on
   };
 
   const { label, variant } = sourceConfig[flashcard.source] ?? { label: "Unknown", variant: "outline" as const };
+  const isCloze = flashcard.card_type === "cloze" && flashcard.cloze_index !== null;
 
   return (
-    <Card className="group relative transition-shadow hover:shadow-md">
-      <CardContent className="p-4">
+    <Card
+      id={`flashcard-${flashcard.id}`}
+      className={`group relative scroll-mt-20 transition-shadow hover:shadow-md target:ring-2 target:ring-primary ${isSelected ? "ring-2 ring-primary" : ""}`}
+      data-testid="flashcard-item"
+    >
+      <CardContent className={`p-4 ${flashcard.suspended ? "opacity-60" : ""}`}>
         <div className="mb-3 flex items-start justify-between gap-2">
-          <Badge variant={variant} className="shrink-0">
-            {label}
-          </Badge>
-          <div className="flex gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+          <div className="flex flex-wrap items-center gap-1">
+            {onToggleSelect && (
+              <Checkbox
+                checked={isSelected}
+                onCheckedChange={handleToggleSelect}
+                className="mr-1"
+                aria-label="Select flashcard"
+                data-testid="flashcard-select-checkbox"
+              />
+            )}
+            <Badge variant={variant} className="shrink-0">
+              {label}
+            </Badge>
+            {isCloze && (
+              <Badge variant="outline" className="shrink-0" data-testid="cloze-badge">
+                Cloze c{flashcard.cloze_index}
+              </Badge>
+            )}
+            {flashcard.reversed && (
+              <Badge variant="outline" className="shrink-0" data-testid="reversed-badge">
+                Back → Front
+              </Badge>
+            )}
+            {flashcard.suspended && (
+              <Badge variant="secondary" className="shrink-0" data-testid="suspended-badge">
+                Suspended
+              </Badge>
+            )}
+          </div>
+          <div className="flex gap-1 opacity-0 transition-opacity group-hover:opacity-100 has-[[data-state=open]]:opacity-100">
             <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleEdit} aria-label="Edit flashcard">
               <Pencil className="h-4 w-4" />
             </Button>
@@ -53,19 +120,66 @@ export const FlashcardItem = memo(function FlashcardItem({ flashcard, onEdit, on
             >
               <Trash2 className="h-4 w-4" />
             </Button>
+            {onMove && onCopy && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    aria-label="More actions"
+                    data-testid="flashcard-menu-button"
+                  >
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={handleMove} data-testid="flashcard-move-button">
+                    <FolderInput className="mr-2 h-4 w-4" />
+                    Move to deck…
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleCopy} data-testid="flashcard-copy-button">
+                    <Copy className="mr-2 h-4 w-4" />
+                    Copy to deck…
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
           </div>
         </div>
 
         <div className="space-y-3">
           <div>
-            <p className="mb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">Front</p>
-            <p className="text-sm">{flashcard.front}</p>
+            <p className="mb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+              {isCloze ? "Text" : "Front"}
+            </p>
+            <p className="text-sm">
+              {isCloze ? (
+                <ClozeText text={flashcard.front} clozeIndex={flashcard.cloze_index ?? 1} isRevealed />
+              ) : (
+                flashcard.front
+              )}
+            </p>
           </div>
 
-          <div className="border-t pt-3">
-            <p className="mb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">Back</p>
-            <p className="text-sm text-muted-foreground">{flashcard.back}</p>
-          </div>
+          {(!isCloze || flashcard.back) && (
+            <div className="border-t pt-3">
+              <p className="mb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                {isCloze ? "Extra" : "Back"}
+              </p>
+              <p className="text-sm text-muted-foreground">{flashcard.back}</p>
+            </div>
+          )}
+
+          {flashcard.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1" data-testid="flashcard-tags">
+              {flashcard.tags.map((tag) => (
+                <span key={tag} className="rounded bg-muted px-1.5 py-0.5 text-xs text-muted-foreground">
+                  #{tag}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
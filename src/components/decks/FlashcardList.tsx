@@ -13,6 +13,11 @@ interface FlashcardListProps {
   onLoadMore: () => void;
   onEdit: (flashcard: FlashcardDto) => void;
   onDelete: (flashcard: FlashcardDto) => void;
+  /** IDs of cards selected for bulk actions; selection is disabled without onToggleSelect */
+  selectedIds?: Set<string>;
+  onToggleSelect?: (flashcard: FlashcardDto) => void;
+  onMove?: (flashcard: FlashcardDto) => void;
+  onCopy?: (flashcard: FlashcardDto) => void;
 }
 
 /**
@@ -27,6 +32,10 @@ export function FlashcardList({
   onLoadMore,
   onEdit,
   onDelete,
+  selectedIds,
+  onToggleSelect,
+  onMove,
+  onCopy,
 }: FlashcardListProps) {
   const handleLoadMore = useCallback(() => {
     onLoadMore();
@@ -57,7 +66,16 @@ export function FlashcardList({
     <div className="space-y-6">
       <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
         {flashcards.map((flashcard) => (
-          <FlashcardItem key={flashcard.id} flashcard={flashcard} onEdit={onEdit} onDelete={onDelete} />
+          <FlashcardItem
+            key={flashcard.id}
+            flashcard={flashcard}
+            onEdit={onEdit}
+            onDelete={onDelete}
+            isSelected={selectedIds?.has(flashcard.id) ?? false}
+            onToggleSelect={onToggleSelect}
+            onMove={onMove}
+            onCopy={onCopy}
+          />
         ))}
       </div>
 
@@ -13,28 +13,58 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import type { FlashcardDto, CreateFlashcardCommand } from "../../types";
+import type { FlashcardDto, CreateFlashcardCommand, FlashcardType, FlashcardDirection } from "../../types";
+import { validateClozeText } from "../../lib/utils/cloze";
+import { parseTagList } from "../../lib/utils/tags";
 
 // ------------------------------------------------------------------
 // Validation Schema
 // ------------------------------------------------------------------
 
-const flashcardSchema = z.object({
-  front: z
-    .string()
-    .min(1, "Front side is required")
-    .max(1000, "Front side must be less than 1000 characters")
-    .transform((val) => val.trim()),
-  back: z
-    .string()
-    .min(1, "Back side is required")
-    .max(2000, "Back side must be less than 2000 characters")
-    .transform((val) => val.trim()),
-});
+// For cloze notes, front is the note text and back the optional extra info
+const flashcardSchema = z
+  .object({
+    card_type: z.enum(["basic", "cloze"]),
+    // Basic cards only
+    direction: z.enum(["forward", "reverse", "both"]),
+    front: z
+      .string()
+      .min(1, "Front side is required")
+      .max(1000, "Front side must be less than 1000 characters")
+      .transform((val) => val.trim()),
+    back: z
+      .string()
+      .max(2000, "Back side must be less than 2000 characters")
+      .transform((val) => val.trim()),
+    // Comma-separated
+    tags: z.string(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.card_type === "cloze") {
+      const clozeError = validateClozeText(data.front);
+      if (clozeError) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["front"], message: clozeError });
+      }
+    } else if (!data.back) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["back"], message: "Back side is required" });
+    }
+  });
 
 type FlashcardFormData = z.infer<typeof flashcardSchema>;
 
+const CARD_TYPES: { cardType: FlashcardType; label: string }[] = [
+  { cardType: "basic", label: "Basic" },
+  { cardType: "cloze", label: "Cloze" },
+];
+
+const DIRECTIONS: { direction: FlashcardDirection; label: string }[] = [
+  { direction: "forward", label: "Front → Back" },
+  { direction: "reverse", label: "Back → Front" },
+  { direction: "both", label: "Both directions" },
+];
+
 // ------------------------------------------------------------------
 // Component Props
 // ------------------------------------------------------------------
@@ -64,12 +94,17 @@ export function ManualFlashcardDialog({
     register,
     handleSubmit,
     reset,
+    watch,
+    setValue,
     formState: { errors, isDirty },
   } = useForm<FlashcardFormData>({
     resolver: zodResolver(flashcardSchema),
     defaultValues: {
+      card_type: "basic",
+      direction: "forward",
       front: "",
       back: "",
+      tags: "",
     },
   });
 
@@ -77,14 +112,18 @@ export function ManualFlashcardDialog({
   useEffect(() => {
     if (open) {
       reset({
+        card_type: initialData?.card_type ?? "basic",
+        direction: initialData?.reversed ? "reverse" : "forward",
         front: initialData?.front ?? "",
         back: initialData?.back ?? "",
+        tags: initialData?.tags.join(", ") ?? "",
       });
     }
   }, [open, initialData, reset]);
 
-  const handleFormSubmit = async (data: FlashcardFormData) => {
-    await onSubmit(data);
+  const handleFormSubmit = async ({ direction, tags, ...data }: FlashcardFormData) => {
+    const command = { ...data, tags: parseTagList(tags) };
+    await onSubmit(data.card_type === "basic" ? { ...command, direction } : command);
   };
 
   const handleOpenChange = (newOpen: boolean) => {
@@ -94,10 +133,17 @@ export function ManualFlashcardDialog({
   };
 
   const isEdit = mode === "edit";
+  const isCloze = watch("card_type") === "cloze";
   const title = isEdit ? "Edit Flashcard" : "Add New Flashcard";
   const description = isEdit
-    ? "Update the content of this flashcard."
-    : "Create a new flashcard by filling in the front and back sides.";
+    ? isCloze
+      ? "Update the cloze note. Changes apply to all of its cards."
+      : initialData?.note_id
+        ? "Update the content of this flashcard. Changes apply to both directions."
+        : "Update the content of this flashcard."
+    : isCloze
+      ? "Write a text and mark the answers as {{c1::answer}} - each number becomes a separate card."
+      : "Create a new flashcard by filling in the front and back sides.";
   const submitLabel = isEdit ? "Save Changes" : "Save";
 
   return (
@@ -109,14 +155,61 @@ export function ManualFlashcardDialog({
         </DialogHeader>
 
         <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
+          {/* Card Type (fixed once created) */}
+          {!isEdit && (
+            <div className="flex gap-1" role="radiogroup" aria-label="Card type">
+              {CARD_TYPES.map((option) => (
+                <Button
+                  key={option.cardType}
+                  type="button"
+                  variant={watch("card_type") === option.cardType ? "secondary" : "ghost"}
+                  size="sm"
+                  role="radio"
+                  aria-checked={watch("card_type") === option.cardType}
+                  onClick={() => setValue("card_type", option.cardType, { shouldDirty: true })}
+                  disabled={isSubmitting}
+                  data-testid={`manual-card-type-${option.cardType}`}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {/* Direction (basic cards, fixed once created) */}
+          {!isEdit && !isCloze && (
+            <div className="space-y-2">
+              <Label>Study direction</Label>
+              <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="Study direction">
+                {DIRECTIONS.map((option) => (
+                  <Button
+                    key={option.direction}
+                    type="button"
+                    variant={watch("direction") === option.direction ? "secondary" : "ghost"}
+                    size="sm"
+                    role="radio"
+                    aria-checked={watch("direction") === option.direction}
+                    onClick={() => setValue("direction", option.direction, { shouldDirty: true })}
+                    disabled={isSubmitting}
+                    data-testid={`manual-direction-${option.direction}`}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Front Field */}
           <div className="space-y-2">
             <Label htmlFor="front">
-              Front <span className="text-destructive">*</span>
+              {isCloze ? "Text" : "Front"} <span className="text-destructive">*</span>
             </Label>
             <Textarea
               id="front"
-              placeholder="Enter the question or prompt..."
+              placeholder={
+                isCloze ? "e.g. {{c1::Warsaw}} is the capital of {{c2::Poland}}" : "Enter the question or prompt..."
+              }
               className="min-h-[100px] resize-none"
               {...register("front")}
               disabled={isSubmitting}
@@ -133,11 +226,11 @@ export function ManualFlashcardDialog({
           {/* Back Field */}
           <div className="space-y-2">
             <Label htmlFor="back">
-              Back <span className="text-destructive">*</span>
+              {isCloze ? "Extra (optional)" : "Back"} {!isCloze && <span className="text-destructive">*</span>}
             </Label>
             <Textarea
               id="back"
-              placeholder="Enter the answer or explanation..."
+              placeholder={isCloze ? "Additional info shown with the answer..." : "Enter the answer or explanation..."}
               className="min-h-[100px] resize-none"
               {...register("back")}
               disabled={isSubmitting}
@@ -151,6 +244,19 @@ export function ManualFlashcardDialog({
             )}
           </div>
 
+          {/* Tags Field */}
+          <div className="space-y-2">
+            <Label htmlFor="tags">Tags (optional)</Label>
+            <Input
+              id="tags"
+              placeholder="e.g. verbs, irregular"
+              {...register("tags")}
+              disabled={isSubmitting}
+              data-testid="manual-tags-input"
+            />
+            <p className="text-xs text-muted-foreground">Separate tags with commas. Tags are stored in lowercase.</p>
+          </div>
+
           <DialogFooter className="gap-2 sm:gap-0">
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
               Cancel
@@ -0,0 +1,51 @@
+import { useMemo } from "react";
+import { Label } from "@/components/ui/label";
+import { useDecks } from "../hooks/useDeck";
+import { buildDeckTree, canNestDeck, flattenDeckTree } from "../../lib/utils/deck-tree";
+
+const SELECT_CLASS_NAME =
+  "h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50";
+
+interface ParentDeckSelectProps {
+  id: string;
+  /** Selected parent deck ID, null for a top-level deck */
+  value: string | null;
+  onChange: (parentId: string | null) => void;
+  /** Deck being edited - it and its sub-decks are not offered as a parent */
+  deckId?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Select for the parent deck of a deck, listing the decks as an indented tree
+ */
+export function ParentDeckSelect({ id, value, onChange, deckId, disabled }: ParentDeckSelectProps) {
+  const { data: decksData } = useDecks();
+
+  const options = useMemo(() => {
+    const decks = decksData?.data ?? [];
+    return flattenDeckTree(buildDeckTree(decks)).filter(({ deck }) => !deckId || canNestDeck(decks, deckId, deck.id));
+  }, [decksData, deckId]);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Parent deck (optional)</Label>
+      <select
+        id={id}
+        className={SELECT_CLASS_NAME}
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value || null)}
+        disabled={disabled}
+        data-testid="parent-deck-select"
+      >
+        <option value="">None (top-level deck)</option>
+        {options.map(({ deck, depth }) => (
+          <option key={deck.id} value={deck.id}>
+            {/* Options cannot contain markup - sub-decks are indented with non-breaking spaces */}
+            {`${"\u00A0".repeat(depth * 3)}${deck.name}`}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
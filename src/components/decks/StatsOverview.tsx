@@ -0,0 +1,82 @@
+import { memo } from "react";
+import { Layers, BookOpen, Clock, Flame, Sparkles } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { UserStatsDto } from "../../types";
+
+interface StatsOverviewProps {
+  stats: UserStatsDto | undefined;
+  isLoading: boolean;
+}
+
+interface StatTileProps {
+  icon: React.ReactNode;
+  label: string;
+  value: string | number;
+  hint?: string;
+}
+
+/**
+ * Statistics section of the dashboard: decks, flashcards, due cards, streak and AI usage.
+ */
+export const StatsOverview = memo(function StatsOverview({ stats, isLoading }: StatsOverviewProps) {
+  if (isLoading || !stats) {
+    return (
+      <section className="mb-8 grid gap-4 sm:grid-cols-2 lg:grid-cols-5" aria-label="Statistics">
+        {Array.from({ length: 5 }).map((_, i) => (
+          <Skeleton key={i} className="h-24 rounded-xl" />
+        ))}
+      </section>
+    );
+  }
+
+  const bySource = stats.flashcards_by_source;
+  const aiShare =
+    stats.total_flashcards > 0
+      ? Math.round(((bySource["ai-full"] + bySource["ai-edited"]) / stats.total_flashcards) * 100)
+      : 0;
+  const avgSeconds = (stats.avg_generation_duration_ms / 1000).toFixed(1);
+
+  return (
+    <section
+      className="mb-8 grid gap-4 sm:grid-cols-2 lg:grid-cols-5"
+      aria-label="Statistics"
+      data-testid="stats-overview"
+    >
+      <StatTile icon={<Layers className="h-4 w-4" />} label="Decks" value={stats.total_decks} />
+      <StatTile
+        icon={<BookOpen className="h-4 w-4" />}
+        label="Flashcards"
+        value={stats.total_flashcards}
+        hint={`${bySource["ai-full"]} AI · ${bySource["ai-edited"]} edited · ${bySource.manual} manual`}
+      />
+      <StatTile icon={<Clock className="h-4 w-4" />} label="Due now" value={stats.total_due} />
+      <StatTile
+        icon={<Flame className="h-4 w-4" />}
+        label="Study streak"
+        value={`${stats.study_streak_days} ${stats.study_streak_days === 1 ? "day" : "days"}`}
+      />
+      <StatTile
+        icon={<Sparkles className="h-4 w-4" />}
+        label="AI generations"
+        value={stats.total_generations}
+        hint={stats.total_generations > 0 ? `avg ${avgSeconds}s · ${aiShare}% of cards from AI` : undefined}
+      />
+    </section>
+  );
+});
+
+function StatTile({ icon, label, value, hint }: StatTileProps) {
+  return (
+    <Card className="gap-2 py-4">
+      <CardContent className="space-y-1 px-4">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          {icon}
+          <span>{label}</span>
+        </div>
+        <p className="text-2xl font-bold">{value}</p>
+        {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,71 @@
+import { BookOpen, Layers, Tag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { TagCountDto } from "../../types";
+
+interface TagFilterBarProps {
+  deckId: string;
+  tags: TagCountDto[];
+  /** Tag the flashcard list is filtered by, or null for all cards */
+  selectedTag: string | null;
+  onSelectTag: (tag: string | null) => void;
+}
+
+/**
+ * Tags of a deck's flashcards, with card counts. Choosing a tag filters the flashcard list and
+ * offers studying only the cards with that tag (in this deck or in all decks).
+ */
+export function TagFilterBar({ deckId, tags, selectedTag, onSelectTag }: TagFilterBarProps) {
+  if (tags.length === 0) return null;
+
+  return (
+    <div className="mb-4 space-y-2" data-testid="tag-filter-bar">
+      <div className="flex flex-wrap items-center gap-1" role="radiogroup" aria-label="Filter by tag">
+        <Tag className="mr-1 h-4 w-4 text-muted-foreground" />
+        <Button
+          type="button"
+          variant={selectedTag === null ? "secondary" : "ghost"}
+          size="sm"
+          className="h-7"
+          role="radio"
+          aria-checked={selectedTag === null}
+          onClick={() => onSelectTag(null)}
+        >
+          All cards
+        </Button>
+        {tags.map(({ tag, flashcard_count }) => (
+          <Button
+            key={tag}
+            type="button"
+            variant={selectedTag === tag ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7"
+            role="radio"
+            aria-checked={selectedTag === tag}
+            onClick={() => onSelectTag(selectedTag === tag ? null : tag)}
+            data-testid={`tag-filter-${tag}`}
+          >
+            #{tag}
+            <span className="text-xs font-normal text-muted-foreground">{flashcard_count}</span>
+          </Button>
+        ))}
+      </div>
+
+      {selectedTag && (
+        <div className="flex flex-wrap gap-2">
+          <Button asChild size="sm" variant="outline">
+            <a href={`/decks/${deckId}/study?tag=${encodeURIComponent(selectedTag)}`} data-testid="study-tag-link">
+              <BookOpen className="mr-2 h-4 w-4" />
+              Study #{selectedTag}
+            </a>
+          </Button>
+          <Button asChild size="sm" variant="ghost">
+            <a href={`/review?tag=${encodeURIComponent(selectedTag)}`}>
+              <Layers className="mr-2 h-4 w-4" />
+              Review #{selectedTag} in all decks
+            </a>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
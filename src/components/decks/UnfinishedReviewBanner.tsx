@@ -0,0 +1,54 @@
+import { History, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { UnfinishedGenerationDto } from "../../types";
+
+// ------------------------------------------------------------------
+// Types
+// ------------------------------------------------------------------
+
+interface UnfinishedReviewBannerProps {
+  generation: UnfinishedGenerationDto;
+  onResume: (generation: UnfinishedGenerationDto) => void;
+  onDiscard: (generation: UnfinishedGenerationDto) => void;
+  isDiscarding: boolean;
+}
+
+// ------------------------------------------------------------------
+// Component
+// ------------------------------------------------------------------
+
+/**
+ * Notice about AI suggestions that were generated for the deck but not reviewed yet.
+ * Resuming opens the review of the pending suggestions, discarding rejects them.
+ */
+export function UnfinishedReviewBanner({ generation, onResume, onDiscard, isDiscarding }: UnfinishedReviewBannerProps) {
+  const count = generation.suggestions.length;
+
+  return (
+    <div
+      className="mb-6 flex flex-col gap-3 rounded-md border border-amber-500/40 bg-amber-500/10 p-4 sm:flex-row sm:items-center sm:justify-between"
+      data-testid="unfinished-review-banner"
+    >
+      <p className="flex items-center gap-2 text-sm">
+        <History className="h-4 w-4 shrink-0" />
+        You have {count} unreviewed AI suggestion{count === 1 ? "" : "s"} from{" "}
+        {new Date(generation.created_at).toLocaleString()}.
+      </p>
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onDiscard(generation)}
+          disabled={isDiscarding}
+          data-testid="discard-review-button"
+        >
+          {isDiscarding ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <X className="mr-1 h-4 w-4" />}
+          Discard
+        </Button>
+        <Button size="sm" onClick={() => onResume(generation)} data-testid="resume-review-button">
+          Resume review
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -8,23 +8,27 @@ import { screen, waitFor, fireEvent } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { renderWithQueryClient } from "@/test-utils/test-helpers";
 import { AIGenerationDialog } from "../AIGenerationDialog";
-import type { GeneratedSuggestionDto, AcceptFlashcardItem } from "../../../types";
+import type { GeneratedSuggestionDto, AcceptFlashcardItem, UnfinishedGenerationDto } from "../../../types";
 
 // ------------------------------------------------------------------
 // Test Fixtures & Helpers
 // ------------------------------------------------------------------
 
 const MIN_CHARS = 1000;
-const MAX_CHARS = 10000;
+const MAX_CHARS = 100000;
 
 function createValidSourceText(length = MIN_CHARS): string {
   return "a".repeat(length);
 }
 
-function createMockSuggestions(count = 3): GeneratedSuggestionDto[] {
+type MockSuggestion = GeneratedSuggestionDto & { id: string };
+
+function createMockSuggestions(count = 3): MockSuggestion[] {
   return Array.from({ length: count }, (_, i) => ({
+    id: `suggestion-${i + 1}`,
     front: `Question ${i + 1}`,
     back: `Answer ${i + 1}`,
+    tags: [],
   }));
 }
 
@@ -35,6 +39,8 @@ interface RenderDialogOptions {
   onOpenChange?: Mock;
   onGenerate?: Mock;
   onAccept?: Mock;
+  onRefine?: Mock;
+  resumeGeneration?: UnfinishedGenerationDto | null;
 }
 
 function renderDialog(options: RenderDialogOptions = {}) {
@@ -212,7 +218,7 @@ describe("InputStep", () => {
     it("should show character count range", () => {
       renderDialog();
 
-      expect(screen.getByText(/1,000 - 10,000 characters/)).toBeInTheDocument();
+      expect(screen.getByText(/1,000 - 100,000 characters/)).toBeInTheDocument();
     });
   });
 
@@ -268,7 +274,33 @@ describe("InputStep", () => {
 
       await user.click(screen.getByRole("button", { name: /generate flashcards/i }));
 
-      expect(onGenerate).toHaveBeenCalledWith(sourceText);
+      expect(onGenerate).toHaveBeenCalledWith(sourceText, expect.any(Function), {
+        forceRegenerate: false,
+        cardType: "basic",
+      });
+    });
+
+    it("should generate cloze suggestions when the cloze card type is selected", async () => {
+      const onGenerate = vi.fn().mockResolvedValue({
+        generationId: "gen-123",
+        suggestions: [{ id: "suggestion-1", front: "{{c1::Warsaw}} is the capital of Poland", back: "", tags: [] }],
+      });
+      renderDialog({ onGenerate });
+
+      const sourceText = createValidSourceText();
+      setTextareaValue(screen.getByLabelText("Source Text"), sourceText);
+
+      await user.click(screen.getByTestId("card-type-cloze"));
+      await user.click(screen.getByRole("button", { name: /generate flashcards/i }));
+
+      expect(onGenerate).toHaveBeenCalledWith(sourceText, expect.any(Function), {
+        forceRegenerate: false,
+        cardType: "cloze",
+      });
+      await waitFor(() => {
+        expect(screen.getByText("Text")).toBeInTheDocument();
+        expect(screen.getByText("Extra")).toBeInTheDocument();
+      });
     });
 
     it("should show loading state when isGenerating is true", () => {
@@ -286,6 +318,133 @@ describe("InputStep", () => {
     });
   });
 
+  describe("Streaming Generation", () => {
+    it("should show streamed suggestions before generation completes", async () => {
+      let resolveGeneration: (value: { generationId: string; suggestions: GeneratedSuggestionDto[] }) => void = () =>
+        undefined;
+      const suggestions = createMockSuggestions(2);
+      const onGenerate = vi.fn((_sourceText: string, onSuggestion: (s: GeneratedSuggestionDto) => void) => {
+        onSuggestion(suggestions[0]);
+        return new Promise((resolve) => {
+          resolveGeneration = resolve;
+        });
+      });
+      renderDialog({ onGenerate });
+
+      setTextareaValue(screen.getByLabelText("Source Text"), createValidSourceText());
+      await user.click(screen.getByRole("button", { name: /generate flashcards/i }));
+
+      await waitFor(() => {
+        expect(screen.getByTestId("ai-review-step")).toBeInTheDocument();
+      });
+      expect(screen.getAllByTestId("suggestion-item")).toHaveLength(1);
+      expect(screen.getByTestId("streaming-indicator")).toBeInTheDocument();
+      expect(screen.getByTestId("save-flashcards-button")).toBeDisabled();
+
+      resolveGeneration({ generationId: "gen-123", suggestions });
+
+      await waitFor(() => {
+        expect(screen.getAllByTestId("suggestion-item")).toHaveLength(2);
+      });
+      expect(screen.queryByTestId("streaming-indicator")).not.toBeInTheDocument();
+      expect(screen.getByTestId("save-flashcards-button")).toBeEnabled();
+    });
+
+    it("should return to input step with error when streaming fails midway", async () => {
+      const onGenerate = vi.fn(async (_sourceText: string, onSuggestion: (s: GeneratedSuggestionDto) => void) => {
+        onSuggestion(createMockSuggestions(1)[0]);
+        throw new Error("Stream failed");
+      });
+      renderDialog({ onGenerate });
+
+      setTextareaValue(screen.getByLabelText("Source Text"), createValidSourceText());
+      await user.click(screen.getByRole("button", { name: /generate flashcards/i }));
+
+      await waitFor(() => {
+        expect(screen.getByRole("alert")).toHaveTextContent("Stream failed");
+      });
+      expect(screen.getByTestId("ai-input-step")).toBeInTheDocument();
+    });
+  });
+
+  describe("Cached Results", () => {
+    it("should show a notice and regenerate with forceRegenerate when suggestions come from the cache", async () => {
+      const onGenerate = vi
+        .fn()
+        .mockResolvedValueOnce({
+          generationId: "gen-cached",
+          suggestions: createMockSuggestions(2),
+          cachedAt: "2026-02-18T10:00:00Z",
+        })
+        .mockResolvedValueOnce({
+          generationId: "gen-fresh",
+          suggestions: createMockSuggestions(3),
+          cachedAt: null,
+        });
+      renderDialog({ onGenerate });
+
+      const sourceText = createValidSourceText();
+      setTextareaValue(screen.getByLabelText("Source Text"), sourceText);
+      await user.click(screen.getByRole("button", { name: /generate flashcards/i }));
+
+      await waitFor(() => {
+        expect(screen.getByTestId("cached-result-notice")).toBeInTheDocument();
+      });
+
+      await user.click(screen.getByTestId("regenerate-button"));
+
+      await waitFor(() => {
+        expect(screen.getAllByTestId("suggestion-item")).toHaveLength(3);
+      });
+      expect(onGenerate).toHaveBeenLastCalledWith(sourceText, expect.any(Function), {
+        forceRegenerate: true,
+        cardType: "basic",
+      });
+      expect(screen.queryByTestId("cached-result-notice")).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Resumed Review", () => {
+    it("should open at the review step with the pending suggestions of an unfinished generation", async () => {
+      const onGenerate = vi.fn();
+      const onAccept = vi.fn().mockResolvedValue(undefined);
+      const suggestions = createMockSuggestions(2).map((suggestion, position) => ({
+        ...suggestion,
+        generation_id: "gen-unfinished",
+        position,
+        status: "pending" as const,
+        flashcard_id: null,
+        refinement_count: 0,
+        created_at: "2026-02-20T10:00:00Z",
+        reviewed_at: null,
+      }));
+      renderDialog({
+        onGenerate,
+        onAccept,
+        resumeGeneration: {
+          generation_id: "gen-unfinished",
+          deck_id: "deck-1",
+          model: "openai/gpt-4o-mini",
+          card_type: "basic",
+          created_at: "2026-02-20T10:00:00Z",
+          suggestions,
+        },
+      });
+
+      await waitFor(() => {
+        expect(screen.getAllByTestId("suggestion-item")).toHaveLength(2);
+      });
+
+      await user.click(screen.getByRole("button", { name: /save 2 cards/i }));
+
+      expect(onGenerate).not.toHaveBeenCalled();
+      expect(onAccept).toHaveBeenCalledWith("gen-unfinished", [
+        { suggestion_id: "suggestion-1", front: "Question 1", back: "Answer 1", tags: [], was_edited: false },
+        { suggestion_id: "suggestion-2", front: "Question 2", back: "Answer 2", tags: [], was_edited: false },
+      ]);
+    });
+  });
+
   describe("Character Count Colors (Visual Feedback)", () => {
     it("should apply appropriate color class for empty text", () => {
       renderDialog();
@@ -320,7 +479,7 @@ describe("InputStep", () => {
       const textarea = screen.getByLabelText("Source Text");
       setTextareaValue(textarea, createValidSourceText(MAX_CHARS + 1));
 
-      const charCount = screen.getByText(/10,001 \//);
+      const charCount = screen.getByText(/100,001 \//);
       expect(charCount).toHaveClass("text-destructive");
     });
   });
@@ -333,7 +492,7 @@ describe("InputStep", () => {
 describe("ReviewStep", () => {
   const user = userEvent.setup();
 
-  async function navigateToReviewStep(suggestions: GeneratedSuggestionDto[] = createMockSuggestions()) {
+  async function navigateToReviewStep(suggestions: MockSuggestion[] = createMockSuggestions()) {
     const onGenerate = vi.fn().mockResolvedValue({
       generationId: "gen-123",
       suggestions,
@@ -504,9 +663,9 @@ describe("ReviewStep", () => {
       await user.click(saveButton);
 
       expect(onAccept).toHaveBeenCalledWith("gen-123", [
-        { front: "Question 1", back: "Answer 1", was_edited: false },
-        { front: "Question 2", back: "Answer 2", was_edited: false },
-        { front: "Question 3", back: "Answer 3", was_edited: false },
+        { suggestion_id: "suggestion-1", front: "Question 1", back: "Answer 1", tags: [], was_edited: false },
+        { suggestion_id: "suggestion-2", front: "Question 2", back: "Answer 2", tags: [], was_edited: false },
+        { suggestion_id: "suggestion-3", front: "Question 3", back: "Answer 3", tags: [], was_edited: false },
       ]);
     });
 
@@ -520,8 +679,8 @@ describe("ReviewStep", () => {
       await user.click(saveButton);
 
       expect(onAccept).toHaveBeenCalledWith("gen-123", [
-        { front: "Question 1", back: "Answer 1", was_edited: false },
-        { front: "Question 3", back: "Answer 3", was_edited: false },
+        { suggestion_id: "suggestion-1", front: "Question 1", back: "Answer 1", tags: [], was_edited: false },
+        { suggestion_id: "suggestion-3", front: "Question 3", back: "Answer 3", tags: [], was_edited: false },
       ]);
     });
 
@@ -535,9 +694,21 @@ describe("ReviewStep", () => {
       await user.click(saveButton);
 
       expect(onAccept).toHaveBeenCalledWith("gen-123", [
-        { front: "Modified Question", back: "Answer 1", was_edited: true },
-        { front: "Question 2", back: "Answer 2", was_edited: false },
-        { front: "Question 3", back: "Answer 3", was_edited: false },
+        { suggestion_id: "suggestion-1", front: "Modified Question", back: "Answer 1", tags: [], was_edited: true },
+        { suggestion_id: "suggestion-2", front: "Question 2", back: "Answer 2", tags: [], was_edited: false },
+        { suggestion_id: "suggestion-3", front: "Question 3", back: "Answer 3", tags: [], was_edited: false },
+      ]);
+    });
+
+    it("should save the proposed tags without the removed ones", async () => {
+      const suggestions = [{ id: "suggestion-1", front: "Q1", back: "A1", tags: ["biology", "cells"] }];
+      const { onAccept } = await navigateToReviewStep(suggestions);
+
+      await user.click(screen.getByRole("button", { name: "Remove tag cells" }));
+      await user.click(screen.getByRole("button", { name: /save 1 card$/i }));
+
+      expect(onAccept).toHaveBeenCalledWith("gen-123", [
+        { suggestion_id: "suggestion-1", front: "Q1", back: "A1", tags: ["biology"], was_edited: false },
       ]);
     });
 
@@ -553,7 +724,7 @@ describe("ReviewStep", () => {
     });
 
     it("should show correct button text for single card", async () => {
-      const suggestions = [{ front: "Q1", back: "A1" }];
+      const suggestions = [{ id: "suggestion-1", front: "Q1", back: "A1", tags: [] }];
       await navigateToReviewStep(suggestions);
 
       expect(screen.getByRole("button", { name: /save 1 card$/i })).toBeInTheDocument();
@@ -679,11 +850,63 @@ describe("Business Rules & Edge Cases", () => {
     });
   });
 
+  describe("AI Actions", () => {
+    it("should replace a split suggestion with both refined parts", async () => {
+      const onRefine = vi.fn().mockResolvedValue([
+        { id: "suggestion-1", front: "Question 1a", back: "Answer 1a", tags: [] },
+        { id: "suggestion-4", front: "Question 1b", back: "Answer 1b", tags: [] },
+      ]);
+      const onGenerate = vi.fn().mockResolvedValue({
+        generationId: "gen-123",
+        suggestions: createMockSuggestions(),
+      });
+      renderDialog({ onGenerate, onRefine });
+
+      const sourceText = createValidSourceText();
+      setTextareaValue(screen.getByLabelText("Source Text"), sourceText);
+      await user.click(screen.getByRole("button", { name: /generate flashcards/i }));
+
+      await waitFor(() => {
+        expect(screen.getAllByTestId("suggestion-item")).toHaveLength(3);
+      });
+
+      await user.click(screen.getAllByTestId("suggestion-ai-actions")[0]);
+      await user.click(await screen.findByTestId("refine-split"));
+
+      await waitFor(() => {
+        expect(screen.getAllByTestId("suggestion-item")).toHaveLength(4);
+      });
+      expect(onRefine).toHaveBeenCalledWith("gen-123", "suggestion-1", {
+        action: "split",
+        front: "Question 1",
+        back: "Answer 1",
+        tags: [],
+        source_text: sourceText,
+      });
+      expect(screen.getByDisplayValue("Question 1a")).toBeInTheDocument();
+      expect(screen.getByDisplayValue("Question 1b")).toBeInTheDocument();
+      expect(screen.queryByText("(edited)")).not.toBeInTheDocument();
+    });
+
+    it("should not show AI actions when refining is not available", async () => {
+      renderDialog();
+
+      setTextareaValue(screen.getByLabelText("Source Text"), createValidSourceText());
+      await user.click(screen.getByRole("button", { name: /generate flashcards/i }));
+
+      await waitFor(() => {
+        expect(screen.getAllByTestId("suggestion-item")).toHaveLength(3);
+      });
+
+      expect(screen.queryByTestId("suggestion-ai-actions")).not.toBeInTheDocument();
+    });
+  });
+
   describe("Data Integrity", () => {
     it("should preserve original values for was_edited comparison", async () => {
       const onGenerate = vi.fn().mockResolvedValue({
         generationId: "gen-123",
-        suggestions: [{ front: "Original Q", back: "Original A" }],
+        suggestions: [{ id: "suggestion-1", front: "Original Q", back: "Original A", tags: [] }],
       });
       const onAccept = vi.fn().mockResolvedValue(undefined);
       renderDialog({ onGenerate, onAccept });
@@ -5,3 +5,15 @@ export { FlashcardItem } from "./FlashcardItem";
 export { AIGenerationDialog } from "./AIGenerationDialog";
 export { ManualFlashcardDialog } from "./ManualFlashcardDialog";
 export { DeleteFlashcardAlert } from "./DeleteFlashcardAlert";
+export { StatsOverview } from "./StatsOverview";
+export { EditDeckDialog } from "./EditDeckDialog";
+export { DeleteDeckAlert } from "./DeleteDeckAlert";
+export { UnfinishedReviewBanner } from "./UnfinishedReviewBanner";
+export { AnkiImportDialog } from "./AnkiImportDialog";
+export { BulkImportDialog } from "./BulkImportDialog";
+export { AccountBackupDialog } from "./AccountBackupDialog";
+export { FlashcardBulkActionBar } from "./FlashcardBulkActionBar";
+export { DeckPickerDialog } from "./DeckPickerDialog";
+export { BulkTagDialog } from "./BulkTagDialog";
+export { TagFilterBar } from "./TagFilterBar";
+export { ParentDeckSelect } from "./ParentDeckSelect";
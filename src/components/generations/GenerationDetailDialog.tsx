@@ -0,0 +1,136 @@
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useGeneration } from "../hooks/useGenerations";
+import { formatDuration, formatGenerationDate } from "./format";
+import type { GenerationDetailDto } from "../../types";
+
+interface GenerationDetailDialogProps {
+  generationId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog with the details of a past generation: review outcome, chunk runs and accepted flashcards.
+ */
+export function GenerationDetailDialog({ generationId, onOpenChange }: GenerationDetailDialogProps) {
+  const { data: generation, isLoading, error } = useGeneration(generationId);
+
+  return (
+    <Dialog open={generationId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl" data-testid="generation-detail-dialog">
+        <DialogHeader>
+          <DialogTitle>Generation details</DialogTitle>
+          <DialogDescription>
+            {generation
+              ? `${formatGenerationDate(generation.created_at)} · ${generation.deck_name ?? "Deleted deck"}`
+              : "Loading generation..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+        {generation && <GenerationDetailContent generation={generation} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function GenerationDetailContent({ generation }: { generation: GenerationDetailDto }) {
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <dl className="grid grid-cols-2 gap-4 text-sm sm:grid-cols-4">
+        <SummaryItem label="Model" value={generation.model} />
+        <SummaryItem label="Source" value={`${generation.source_text_length.toLocaleString()} chars`} />
+        <SummaryItem label="Suggestions" value={generation.generated_count} />
+        <SummaryItem label="Duration" value={formatDuration(generation.generation_duration)} />
+      </dl>
+
+      {/* Review outcome */}
+      <div className="grid grid-cols-3 gap-4 text-center" data-testid="generation-outcome">
+        <OutcomeTile label="Accepted" value={generation.accepted_unedited_count} className="text-green-600" />
+        <OutcomeTile label="Edited" value={generation.accepted_edited_count} className="text-blue-600" />
+        <OutcomeTile label="Rejected" value={generation.rejected_count} className="text-muted-foreground" />
+      </div>
+      {generation.pending_count > 0 && (
+        <p className="text-center text-sm text-amber-600" data-testid="generation-pending-notice">
+          {generation.pending_count} suggestion{generation.pending_count === 1 ? " is" : "s are"} still waiting for
+          review - resume it from the deck page.
+        </p>
+      )}
+
+      {/* Chunk runs (long source texts only) */}
+      {generation.chunks.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Processed in {generation.chunks.length} parts</h3>
+          <ul className="space-y-1 text-sm text-muted-foreground" data-testid="generation-chunks">
+            {generation.chunks.map((chunk) => (
+              <li key={chunk.id} className="flex justify-between gap-4">
+                <span>
+                  Part {chunk.chunk_index + 1} · {chunk.source_text_length.toLocaleString()} chars
+                </span>
+                {chunk.error_message ? (
+                  <span className="text-destructive">Failed</span>
+                ) : (
+                  <span>
+                    {chunk.generated_count} of {chunk.requested_count} · {formatDuration(chunk.generation_duration)}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Accepted flashcards */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Accepted flashcards</h3>
+        {generation.flashcards.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No flashcards were accepted from this generation.</p>
+        ) : (
+          <ScrollArea className="max-h-64">
+            <ul className="space-y-2 pr-3" data-testid="generation-flashcards">
+              {generation.flashcards.map((flashcard) => (
+                <li key={flashcard.id} className="rounded-md border p-3 text-sm">
+                  <div className="mb-1 flex items-start justify-between gap-2">
+                    <p className="font-medium">{flashcard.front}</p>
+                    {flashcard.source === "ai-edited" && <Badge variant="secondary">Edited</Badge>}
+                  </div>
+                  <p className="text-muted-foreground">{flashcard.back}</p>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SummaryItem({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div>
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="truncate font-medium" title={String(value)}>
+        {value}
+      </dd>
+    </div>
+  );
+}
+
+function OutcomeTile({ label, value, className }: { label: string; value: number; className: string }) {
+  return (
+    <div className="rounded-md border p-3">
+      <p className={`text-2xl font-bold ${className}`}>{value}</p>
+      <p className="text-xs text-muted-foreground">{label}</p>
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+import { useState } from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { Toaster } from "sonner";
+import { ArrowLeft, ChevronLeft, ChevronRight, History, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { GenerationDetailDialog } from "./GenerationDetailDialog";
+import { formatDuration, formatGenerationDate, formatPercent } from "./format";
+import { useGenerations, useModelAcceptanceStats } from "../hooks/useGenerations";
+import { useDecks } from "../hooks/useDeck";
+import { ALLOWED_MODELS } from "../../lib/validators/generation.validator";
+import type { GenerationHistoryItemDto, ModelAcceptanceStatsDto } from "../../types";
+
+// ------------------------------------------------------------------
+// Constants
+// ------------------------------------------------------------------
+
+const PAGE_SIZE = 20;
+
+const SELECT_CLASS_NAME =
+  "h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50";
+
+// ------------------------------------------------------------------
+// Query Client
+// ------------------------------------------------------------------
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 5 * 60 * 1000, // 5 minutes
+      retry: 1,
+    },
+  },
+});
+
+// ------------------------------------------------------------------
+// Main Component (with Provider)
+// ------------------------------------------------------------------
+
+/**
+ * Generation history page: past AI generations with filters and per-generation details.
+ */
+export function GenerationHistoryPage() {
+  return (
+    <QueryClientProvider client={queryClient}>
+      <GenerationHistoryContent />
+      <Toaster position="bottom-right" richColors />
+    </QueryClientProvider>
+  );
+}
+
+// ------------------------------------------------------------------
+// Content Component (uses hooks)
+// ------------------------------------------------------------------
+
+function GenerationHistoryContent() {
+  // Deck filter can be preselected via ?deck_id= (e.g. links from a deck page)
+  const [deckId, setDeckId] = useState(() => new URLSearchParams(window.location.search).get("deck_id") ?? "");
+  const [model, setModel] = useState("");
+  const [offset, setOffset] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data, isLoading, isFetching, error } = useGenerations({
+    limit: PAGE_SIZE,
+    offset,
+    deckId: deckId || undefined,
+    model: model || undefined,
+  });
+  const { data: decks } = useDecks();
+
+  const generations = data?.data ?? [];
+  const total = data?.pagination.total ?? 0;
+
+  const handleDeckChange = (value: string) => {
+    setDeckId(value);
+    setOffset(0);
+  };
+
+  const handleModelChange = (value: string) => {
+    setModel(value);
+    setOffset(0);
+  };
+
+  return (
+    <div className="container mx-auto max-w-4xl px-4 py-8">
+      {/* Header */}
+      <div className="mb-6">
+        <a
+          href="/dashboard"
+          className="mb-4 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Dashboard
+        </a>
+        <h1 className="text-3xl font-bold tracking-tight">Generation History</h1>
+        <p className="text-muted-foreground">Revisit your past AI generations and how their suggestions were used</p>
+      </div>
+
+      {/* Acceptance per model */}
+      <ModelAcceptanceSection />
+
+      {/* Filters */}
+      <div className="mb-6 flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="history-deck-filter">Deck</Label>
+          <select
+            id="history-deck-filter"
+            className={SELECT_CLASS_NAME}
+            value={deckId}
+            onChange={(e) => handleDeckChange(e.target.value)}
+            data-testid="history-deck-filter"
+          >
+            <option value="">All decks</option>
+            {decks?.data.map((deck) => (
+              <option key={deck.id} value={deck.id}>
+                {deck.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="history-model-filter">Model</Label>
+          <select
+            id="history-model-filter"
+            className={SELECT_CLASS_NAME}
+            value={model}
+            onChange={(e) => handleModelChange(e.target.value)}
+            data-testid="history-model-filter"
+          >
+            <option value="">All models</option>
+            {ALLOWED_MODELS.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {isFetching && !isLoading && <Loader2 className="mb-2 h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {/* List */}
+      {error ? (
+        <p className="text-destructive">{error.message}</p>
+      ) : isLoading ? (
+        <div className="space-y-3">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <Skeleton key={i} className="h-20 rounded-xl" />
+          ))}
+        </div>
+      ) : generations.length === 0 ? (
+        <EmptyState isFiltered={!!deckId || !!model} />
+      ) : (
+        <ul className="space-y-3" data-testid="generation-history-list">
+          {generations.map((generation) => (
+            <li key={generation.id}>
+              <GenerationRow generation={generation} onSelect={setSelectedId} />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Pagination */}
+      {total > PAGE_SIZE && (
+        <div className="mt-6 flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={offset === 0}
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= total}
+            >
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <GenerationDetailDialog generationId={selectedId} onOpenChange={(open) => !open && setSelectedId(null)} />
+    </div>
+  );
+}
+
+// ------------------------------------------------------------------
+// Model Acceptance
+// ------------------------------------------------------------------
+
+function ModelAcceptanceSection() {
+  const { data } = useModelAcceptanceStats();
+  const models = data?.data ?? [];
+
+  if (models.length === 0) return null;
+
+  return (
+    <section className="mb-6" data-testid="model-acceptance">
+      <h2 className="mb-3 text-lg font-semibold">Acceptance by model</h2>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {models.map((stats) => (
+          <ModelAcceptanceCard key={stats.model} stats={stats} />
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function ModelAcceptanceCard({ stats }: { stats: ModelAcceptanceStatsDto }) {
+  return (
+    <Card className="py-4" data-testid="model-acceptance-item">
+      <CardContent className="space-y-1 px-4">
+        <div className="flex items-baseline justify-between gap-2">
+          <p className="truncate font-medium">{stats.model}</p>
+          <p className="text-xl font-bold">{formatPercent(stats.acceptance_rate)}</p>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {stats.accepted_count} accepted · {stats.edited_count} edited · {stats.rejected_count} rejected
+          {stats.pending_count > 0 && ` · ${stats.pending_count} pending`}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {stats.suggestion_count} suggestions from {stats.generation_count} generation
+          {stats.generation_count === 1 ? "" : "s"}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ------------------------------------------------------------------
+// Generation Row
+// ------------------------------------------------------------------
+
+interface GenerationRowProps {
+  generation: GenerationHistoryItemDto;
+  onSelect: (generationId: string) => void;
+}
+
+function GenerationRow({ generation, onSelect }: GenerationRowProps) {
+  const accepted = generation.accepted_unedited_count + generation.accepted_edited_count;
+
+  return (
+    <button
+      type="button"
+      className="w-full text-left"
+      onClick={() => onSelect(generation.id)}
+      data-testid="generation-history-item"
+    >
+      <Card className="py-4 transition-shadow hover:shadow-md">
+        <CardContent className="flex flex-wrap items-center justify-between gap-4 px-4">
+          <div className="min-w-0">
+            <p className="truncate font-medium">{generation.deck_name ?? "Deleted deck"}</p>
+            <p className="truncate text-sm text-muted-foreground">
+              {formatGenerationDate(generation.created_at)} · {generation.model}
+            </p>
+          </div>
+          <div className="flex gap-4 text-sm text-muted-foreground">
+            <span>{generation.source_text_length.toLocaleString()} chars</span>
+            <span>{formatDuration(generation.generation_duration)}</span>
+            <span className="font-medium text-foreground">
+              {accepted} / {generation.generated_count} accepted
+            </span>
+            {generation.pending_count > 0 && (
+              <span className="text-amber-600" data-testid="generation-pending-count">
+                {generation.pending_count} to review
+              </span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </button>
+  );
+}
+
+// ------------------------------------------------------------------
+// Empty State
+// ------------------------------------------------------------------
+
+function EmptyState({ isFiltered }: { isFiltered: boolean }) {
+  return (
+    <div className="flex flex-col items-center justify-center py-16 text-center" data-testid="generation-history-empty">
+      <History className="mb-4 h-12 w-12 text-muted-foreground" />
+      <h2 className="mb-2 text-xl font-semibold">{isFiltered ? "No matching generations" : "No generations yet"}</h2>
+      <p className="text-muted-foreground">
+        {isFiltered
+          ? "Try a different deck or model."
+          : "Generate flashcards with AI from any deck and they will show up here."}
+      </p>
+    </div>
+  );
+}
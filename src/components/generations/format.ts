@@ -0,0 +1,20 @@
+/**
+ * Formats a duration in milliseconds as seconds with one decimal place (e.g. "3.2s").
+ */
+export function formatDuration(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Formats a generation timestamp in the user's locale (date and time).
+ */
+export function formatGenerationDate(value: string): string {
+  return new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+/**
+ * Formats a 0-1 ratio as a whole percentage (e.g. "67%").
+ */
+export function formatPercent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
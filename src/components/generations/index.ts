@@ -0,0 +1,2 @@
+export { GenerationHistoryPage } from "./GenerationHistoryPage";
+export { GenerationDetailDialog } from "./GenerationDetailDialog";
@@ -1,30 +1,80 @@
 import { useQuery, useMutation, useQueryClient, useInfiniteQuery } from "@tanstack/react-query";
 import {
+  fetchDecks,
   fetchDeck,
+  updateDeck,
+  deleteDeck,
   fetchFlashcards,
+  fetchDueFlashcards,
+  fetchReviewQueue,
   createFlashcard,
+  bulkImportFlashcards,
   updateFlashcard,
   deleteFlashcard,
+  moveFlashcard,
+  copyFlashcard,
+  updateFlashcardTags,
+  bulkFlashcardOperation,
+  reviewFlashcard,
   generateFlashcards,
+  streamGenerateFlashcards,
+  extractSourceText,
   acceptFlashcards,
+  previewAnkiImport,
+  importAnkiPackage,
+  restoreAccountBackup,
+  fetchTags,
   type FetchFlashcardsParams,
+  type FetchDueFlashcardsParams,
+  type FetchReviewQueueParams,
 } from "../../lib/api/decks";
+import { generationKeys } from "./useGenerations";
 import type {
+  UpdateDeckCommand,
   CreateFlashcardCommand,
+  BulkImportFlashcardsCommand,
   UpdateFlashcardCommand,
+  MoveFlashcardCommand,
+  CopyFlashcardCommand,
+  UpdateFlashcardTagsCommand,
+  BulkFlashcardOperationCommand,
+  ReviewFlashcardCommand,
   GenerateFlashcardsCommand,
+  GenerationStreamSuggestionDto,
   AcceptFlashcardsCommand,
+  BackupConflictStrategy,
 } from "../../types";
 
 // Query keys factory for consistent key management
 export const deckKeys = {
   all: ["decks"] as const,
+  list: () => [...deckKeys.all, "list"] as const,
   detail: (id: string) => [...deckKeys.all, id] as const,
   flashcards: (deckId: string) => [...deckKeys.detail(deckId), "flashcards"] as const,
   flashcardsList: (deckId: string, params?: Partial<FetchFlashcardsParams>) =>
     [...deckKeys.flashcards(deckId), params] as const,
+  due: (deckId: string, params?: Partial<FetchDueFlashcardsParams>) =>
+    [...deckKeys.flashcards(deckId), "due", params] as const,
+  reviewQueue: (params?: FetchReviewQueueParams) => [...deckKeys.all, "review-queue", params] as const,
 };
 
+// Tags span decks - any change of flashcards invalidates all tag lists
+export const tagKeys = {
+  all: ["tags"] as const,
+  list: (deckId?: string) => [...tagKeys.all, deckId] as const,
+};
+
+/**
+ * Hook to fetch the user's decks (e.g. for deck pickers)
+ */
+export function useDecks() {
+  return useQuery({
+    queryKey: deckKeys.list(),
+    queryFn: () => fetchDecks(),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
 /**
  * Hook to fetch a single deck by ID
  */
@@ -37,6 +87,40 @@ export function useDeck(deckId: string) {
   });
 }
 
+/**
+ * Hook to update a deck's name, description and/or parent deck
+ */
+export function useUpdateDeck() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ deckId, data }: { deckId: string; data: UpdateDeckCommand }) => updateDeck(deckId, data),
+    onSuccess: (deck) => {
+      queryClient.setQueryData(deckKeys.detail(deck.id), deck);
+      // Refresh deck lists (dashboard)
+      queryClient.invalidateQueries({ queryKey: deckKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to delete a deck
+ */
+export function useDeleteDeck() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (deckId: string) => deleteDeck(deckId),
+    onSuccess: (_, deckId) => {
+      queryClient.removeQueries({ queryKey: deckKeys.detail(deckId) });
+      // Refresh deck lists and statistics (dashboard)
+      queryClient.invalidateQueries({ queryKey: deckKeys.all });
+      queryClient.invalidateQueries({ queryKey: ["stats"] });
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+    },
+  });
+}
+
 /**
  * Hook to fetch flashcards with infinite scroll support
  */
@@ -64,6 +148,38 @@ export function useFlashcards(deckId: string, params?: Omit<FetchFlashcardsParam
   });
 }
 
+/**
+ * Hook to fetch flashcards due for review
+ */
+export function useDueFlashcards(deckId: string, params?: Omit<FetchDueFlashcardsParams, "deckId">) {
+  return useQuery({
+    queryKey: deckKeys.due(deckId, params),
+    queryFn: () => fetchDueFlashcards({ deckId, ...params }),
+    enabled: !!deckId,
+  });
+}
+
+/**
+ * Hook to fetch the cross-deck review queue
+ */
+export function useReviewQueue(params: FetchReviewQueueParams = {}) {
+  return useQuery({
+    queryKey: deckKeys.reviewQueue(params),
+    queryFn: () => fetchReviewQueue(params),
+  });
+}
+
+/**
+ * Hook to fetch the user's tags with card counts (of all decks, or one deck)
+ */
+export function useTags(deckId?: string) {
+  return useQuery({
+    queryKey: tagKeys.list(deckId),
+    queryFn: () => fetchTags(deckId),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
 /**
  * Hook to create a new flashcard manually
  */
@@ -72,6 +188,23 @@ export function useCreateFlashcard(deckId: string) {
 
   return useMutation({
     mutationFn: (data: CreateFlashcardCommand) => createFlashcard(deckId, data),
+    onSuccess: () => {
+      // Invalidate flashcards list and deck (for count update)
+      queryClient.invalidateQueries({ queryKey: deckKeys.flashcards(deckId) });
+      queryClient.invalidateQueries({ queryKey: deckKeys.detail(deckId) });
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to import basic cards into a deck in one batch
+ */
+export function useBulkImportFlashcards(deckId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: BulkImportFlashcardsCommand) => bulkImportFlashcards(deckId, data),
     onSuccess: () => {
       // Invalidate flashcards list and deck (for count update)
       queryClient.invalidateQueries({ queryKey: deckKeys.flashcards(deckId) });
@@ -90,7 +223,10 @@ export function useUpdateFlashcard(deckId: string) {
     mutationFn: ({ flashcardId, data }: { flashcardId: string; data: UpdateFlashcardCommand }) =>
       updateFlashcard(flashcardId, data),
     onSuccess: () => {
+      // Cloze notes may gain or lose cards - refresh deck (for count update)
       queryClient.invalidateQueries({ queryKey: deckKeys.flashcards(deckId) });
+      queryClient.invalidateQueries({ queryKey: deckKeys.detail(deckId) });
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
     },
   });
 }
@@ -107,6 +243,95 @@ export function useDeleteFlashcard(deckId: string) {
       // Invalidate flashcards list and deck (for count update)
       queryClient.invalidateQueries({ queryKey: deckKeys.flashcards(deckId) });
       queryClient.invalidateQueries({ queryKey: deckKeys.detail(deckId) });
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to move a flashcard to another deck
+ */
+export function useMoveFlashcard() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ flashcardId, data }: { flashcardId: string; data: MoveFlashcardCommand }) =>
+      moveFlashcard(flashcardId, data),
+    onSuccess: (result) => {
+      // Both decks change - refresh their flashcards and counts (and the deck list)
+      queryClient.invalidateQueries({ queryKey: deckKeys.detail(result.source_deck_id) });
+      queryClient.invalidateQueries({ queryKey: deckKeys.detail(result.deck_id) });
+      queryClient.invalidateQueries({ queryKey: deckKeys.list() });
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to copy a flashcard to a deck
+ */
+export function useCopyFlashcard() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ flashcardId, data }: { flashcardId: string; data: CopyFlashcardCommand }) =>
+      copyFlashcard(flashcardId, data),
+    onSuccess: (result) => {
+      // Refresh the target deck's flashcards and counts (and the deck list)
+      queryClient.invalidateQueries({ queryKey: deckKeys.detail(result.deck_id) });
+      queryClient.invalidateQueries({ queryKey: deckKeys.list() });
+      queryClient.invalidateQueries({ queryKey: ["stats"] });
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to add and/or remove tags of a flashcard
+ */
+export function useUpdateFlashcardTags(deckId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ flashcardId, data }: { flashcardId: string; data: UpdateFlashcardTagsCommand }) =>
+      updateFlashcardTags(flashcardId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: deckKeys.flashcards(deckId) });
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to run an operation on selected flashcards
+ */
+export function useBulkFlashcardOperation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: BulkFlashcardOperationCommand) => bulkFlashcardOperation(data),
+    onSuccess: () => {
+      // Cards may have been moved or copied to other decks - refresh all lists and counts
+      queryClient.invalidateQueries({ queryKey: deckKeys.all });
+      queryClient.invalidateQueries({ queryKey: ["stats"] });
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to submit a spaced repetition review
+ */
+export function useReviewFlashcard() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ flashcardId, data }: { flashcardId: string; data: ReviewFlashcardCommand }) =>
+      reviewFlashcard(flashcardId, data),
+    onSuccess: (flashcard) => {
+      // Scheduling changed - refresh list and deck (for due count update)
+      queryClient.invalidateQueries({ queryKey: deckKeys.flashcards(flashcard.deck_id) });
+      queryClient.invalidateQueries({ queryKey: deckKeys.detail(flashcard.deck_id) });
     },
   });
 }
@@ -120,6 +345,80 @@ export function useGenerateFlashcards(deckId: string) {
   });
 }
 
+/**
+ * Hook to generate AI flashcard suggestions as a stream (suggestions arrive one by one)
+ */
+export function useStreamGenerateFlashcards(deckId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      data,
+      onSuggestion,
+    }: {
+      data: GenerateFlashcardsCommand;
+      onSuggestion: (suggestion: GenerationStreamSuggestionDto) => void;
+    }) => streamGenerateFlashcards(deckId, data, onSuggestion),
+    onSuccess: () => {
+      // New pending suggestions - the review can be resumed until they are accepted or rejected
+      queryClient.invalidateQueries({ queryKey: generationKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to extract source text for AI generation from an uploaded file
+ */
+export function useExtractSourceText() {
+  return useMutation({
+    mutationFn: (file: File) => extractSourceText(file),
+  });
+}
+
+/**
+ * Hook to read an Anki package for the import preview
+ */
+export function useAnkiImportPreview() {
+  return useMutation({
+    mutationFn: (file: File) => previewAnkiImport(file),
+  });
+}
+
+/**
+ * Hook to import decks of an Anki package
+ */
+export function useImportAnkiPackage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ file, deckIds }: { file: File; deckIds?: string[] }) => importAnkiPackage(file, deckIds),
+    onSuccess: () => {
+      // New decks with flashcards (some of them due)
+      queryClient.invalidateQueries({ queryKey: deckKeys.all });
+      queryClient.invalidateQueries({ queryKey: ["stats"] });
+    },
+  });
+}
+
+/**
+ * Hook to restore an account backup into the current account
+ */
+export function useRestoreAccountBackup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ file, conflictStrategy }: { file: File; conflictStrategy: BackupConflictStrategy }) =>
+      restoreAccountBackup(file, conflictStrategy),
+    onSuccess: () => {
+      // Restored decks, flashcards, generation history and review logs
+      queryClient.invalidateQueries({ queryKey: deckKeys.all });
+      queryClient.invalidateQueries({ queryKey: generationKeys.all });
+      queryClient.invalidateQueries({ queryKey: ["stats"] });
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+    },
+  });
+}
+
 /**
  * Hook to accept and save AI-generated flashcards
  */
@@ -133,6 +432,9 @@ export function useAcceptFlashcards(deckId: string) {
       // Invalidate flashcards list and deck (for count update)
       queryClient.invalidateQueries({ queryKey: deckKeys.flashcards(deckId) });
       queryClient.invalidateQueries({ queryKey: deckKeys.detail(deckId) });
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+      // The review of the generation is finished (no longer resumable)
+      queryClient.invalidateQueries({ queryKey: generationKeys.all });
     },
   });
 }
@@ -0,0 +1,95 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import {
+  fetchGenerations,
+  fetchGeneration,
+  fetchUnfinishedGenerations,
+  fetchModelAcceptanceStats,
+  rejectSuggestions,
+  refineSuggestion,
+  type FetchGenerationsParams,
+} from "../../lib/api/decks";
+import type { RejectSuggestionsCommand, RefineSuggestionCommand } from "../../types";
+
+// Query keys factory for consistent key management
+export const generationKeys = {
+  all: ["generations"] as const,
+  list: (params?: FetchGenerationsParams) => [...generationKeys.all, "list", params] as const,
+  detail: (id: string) => [...generationKeys.all, "detail", id] as const,
+  unfinished: (deckId?: string) => [...generationKeys.all, "unfinished", deckId] as const,
+  metrics: () => [...generationKeys.all, "metrics"] as const,
+};
+
+/**
+ * Hook to fetch a page of the generation history
+ */
+export function useGenerations(params: FetchGenerationsParams = {}) {
+  return useQuery({
+    queryKey: generationKeys.list(params),
+    queryFn: () => fetchGenerations(params),
+    // Keep the current page visible while the next one loads
+    placeholderData: keepPreviousData,
+  });
+}
+
+/**
+ * Hook to fetch details of a single generation
+ */
+export function useGeneration(generationId: string | null) {
+  return useQuery({
+    queryKey: generationKeys.detail(generationId ?? ""),
+    queryFn: () => fetchGeneration(generationId as string),
+    enabled: !!generationId,
+  });
+}
+
+/**
+ * Hook to fetch generations whose review can be resumed
+ */
+export function useUnfinishedGenerations(deckId?: string) {
+  return useQuery({
+    queryKey: generationKeys.unfinished(deckId),
+    queryFn: () => fetchUnfinishedGenerations(deckId),
+  });
+}
+
+/**
+ * Hook to fetch acceptance metrics of AI suggestions per model
+ */
+export function useModelAcceptanceStats() {
+  return useQuery({
+    queryKey: generationKeys.metrics(),
+    queryFn: fetchModelAcceptanceStats,
+  });
+}
+
+/**
+ * Hook to reject pending suggestions of a generation (e.g. discarding an unfinished review)
+ */
+export function useRejectSuggestions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ generationId, data }: { generationId: string; data?: RejectSuggestionsCommand }) =>
+      rejectSuggestions(generationId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: generationKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to rewrite a single suggestion with AI during the review
+ */
+export function useRefineSuggestion() {
+  return useMutation({
+    mutationFn: ({
+      generationId,
+      suggestionId,
+      data,
+    }: {
+      generationId: string;
+      suggestionId: string;
+      data: RefineSuggestionCommand;
+    }) => refineSuggestion(generationId, suggestionId, data),
+  });
+}
@@ -0,0 +1,229 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { PASSING_QUALITY } from "../../lib/utils/sm2";
+import type { FlashcardDto } from "../../types";
+
+// ------------------------------------------------------------------
+// Types
+// ------------------------------------------------------------------
+
+/**
+ * Single graded answer recorded during a study session.
+ */
+export interface StudyResult {
+  flashcardId: string;
+  quality: number;
+  durationMs: number;
+}
+
+/**
+ * Serializable study session state (persisted in localStorage for resume after reload).
+ */
+interface StudySessionState {
+  version: 1;
+  queue: FlashcardDto[];
+  currentIndex: number;
+  results: StudyResult[];
+  startedAt: number;
+  finishedAt: number | null;
+}
+
+export interface StudySummary {
+  cardsStudied: number;
+  totalReviews: number;
+  correctCount: number;
+  againCount: number;
+  averageQuality: number;
+  durationMs: number;
+}
+
+export type StudyStatus = "loading" | "empty" | "studying" | "finished";
+
+interface UseStudySessionOptions {
+  /** Unique key of the session (e.g. deck ID), used for persistence */
+  storageKey: string;
+  /** Cards due for review, `undefined` while still loading */
+  cards: FlashcardDto[] | undefined;
+}
+
+// ------------------------------------------------------------------
+// Constants
+// ------------------------------------------------------------------
+
+const STORAGE_PREFIX = "10xcards:study-session:";
+
+// ------------------------------------------------------------------
+// Persistence Helpers
+// ------------------------------------------------------------------
+
+function isSameDay(a: number, b: number): boolean {
+  return new Date(a).toDateString() === new Date(b).toDateString();
+}
+
+function loadSession(storageKey: string): StudySessionState | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + storageKey);
+    if (!raw) return null;
+
+    const session = JSON.parse(raw) as StudySessionState;
+
+    // Discard sessions from an older format, previous days or already finished
+    if (session.version !== 1 || !Array.isArray(session.queue)) return null;
+    if (!isSameDay(session.startedAt, Date.now())) return null;
+    if (session.finishedAt !== null || session.currentIndex >= session.queue.length) return null;
+
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(storageKey: string, session: StudySessionState) {
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + storageKey, JSON.stringify(session));
+  } catch {
+    // Storage full or unavailable - session still works, it just won't survive a reload
+  }
+}
+
+function clearSession(storageKey: string) {
+  try {
+    window.localStorage.removeItem(STORAGE_PREFIX + storageKey);
+  } catch {
+    // Ignore - nothing to clean up
+  }
+}
+
+function createSession(cards: FlashcardDto[]): StudySessionState {
+  return {
+    version: 1,
+    queue: cards,
+    currentIndex: 0,
+    results: [],
+    startedAt: Date.now(),
+    finishedAt: null,
+  };
+}
+
+function buildSummary(session: StudySessionState): StudySummary {
+  const { results } = session;
+  const cardsStudied = new Set(results.map((r) => r.flashcardId)).size;
+  const correctCount = results.filter((r) => r.quality >= PASSING_QUALITY).length;
+  const qualitySum = results.reduce((acc, r) => acc + r.quality, 0);
+
+  return {
+    cardsStudied,
+    totalReviews: results.length,
+    correctCount,
+    againCount: results.length - correctCount,
+    averageQuality: results.length > 0 ? qualitySum / results.length : 0,
+    durationMs: (session.finishedAt ?? Date.now()) - session.startedAt,
+  };
+}
+
+// ------------------------------------------------------------------
+// Hook
+// ------------------------------------------------------------------
+
+/**
+ * Manages a study session: card queue, answer reveal, grading progress and summary.
+ * Failed cards (quality < 3) are re-queued at the end of the session, as in SM-2.
+ * The session is persisted in localStorage so it can be resumed after a page reload.
+ */
+export function useStudySession({ storageKey, cards }: UseStudySessionOptions) {
+  const [session, setSession] = useState<StudySessionState | null>(null);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [shownAt, setShownAt] = useState(() => Date.now());
+
+  // Restore a saved session or start a new one once due cards are loaded
+  useEffect(() => {
+    if (session !== null || cards === undefined) return;
+
+    setSession(loadSession(storageKey) ?? createSession(cards));
+    setShownAt(Date.now());
+  }, [session, cards, storageKey]);
+
+  // Persist progress after every change
+  useEffect(() => {
+    if (session === null) return;
+
+    if (session.finishedAt !== null || session.queue.length === 0) {
+      clearSession(storageKey);
+    } else {
+      saveSession(storageKey, session);
+    }
+  }, [session, storageKey]);
+
+  const currentCard =
+    session && session.currentIndex < session.queue.length ? session.queue[session.currentIndex] : null;
+
+  const status: StudyStatus = useMemo(() => {
+    if (session === null) return "loading";
+    if (session.queue.length === 0) return "empty";
+    if (session.finishedAt !== null) return "finished";
+    return "studying";
+  }, [session]);
+
+  const progress = useMemo(
+    () => ({
+      completed: session?.currentIndex ?? 0,
+      total: session?.queue.length ?? 0,
+    }),
+    [session]
+  );
+
+  const summary = useMemo(() => (session ? buildSummary(session) : null), [session]);
+
+  const reveal = useCallback(() => {
+    setIsRevealed(true);
+  }, []);
+
+  /**
+   * Records a grade for the current card and advances the queue.
+   */
+  const recordGrade = useCallback((quality: number, durationMs: number) => {
+    setSession((prev) => {
+      if (!prev || prev.currentIndex >= prev.queue.length) return prev;
+
+      const card = prev.queue[prev.currentIndex];
+      const queue = quality < PASSING_QUALITY ? [...prev.queue, card] : prev.queue;
+      const currentIndex = prev.currentIndex + 1;
+
+      return {
+        ...prev,
+        queue,
+        currentIndex,
+        results: [...prev.results, { flashcardId: card.id, quality, durationMs }],
+        finishedAt: currentIndex >= queue.length ? Date.now() : null,
+      };
+    });
+    setIsRevealed(false);
+    setShownAt(Date.now());
+  }, []);
+
+  /**
+   * Returns how long the current card has been shown (review duration).
+   */
+  const getElapsedMs = useCallback(() => Date.now() - shownAt, [shownAt]);
+
+  /**
+   * Drops the current session so a new one is started from the current cards - call it once
+   * fresh cards are loaded, the session is rebuilt right away.
+   */
+  const restart = useCallback(() => {
+    clearSession(storageKey);
+    setSession(null);
+    setIsRevealed(false);
+  }, [storageKey]);
+
+  return {
+    status,
+    currentCard,
+    isRevealed,
+    progress,
+    summary,
+    reveal,
+    recordGrade,
+    getElapsedMs,
+    restart,
+  };
+}
@@ -0,0 +1,227 @@
+import { useState, useEffect, useRef, useId } from "react";
+import { Loader2, Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ApiRequestError, searchFlashcards } from "../../lib/api/decks";
+import { isFeatureEnabled } from "@/features";
+import type { FlashcardSearchResultDto, HighlightSegmentDto } from "../../types";
+
+// ------------------------------------------------------------------
+// Constants
+// ------------------------------------------------------------------
+
+/** Shortest search text sent to the API */
+const MIN_QUERY_LENGTH = 2;
+
+/** Delay between the last keystroke and the search request */
+const SEARCH_DEBOUNCE_MS = 300;
+
+const RESULT_LIMIT = 8;
+
+// ------------------------------------------------------------------
+// Helper Functions
+// ------------------------------------------------------------------
+
+/**
+ * Link to a flashcard in its deck; the deck page scrolls to the card.
+ */
+function getFlashcardUrl(result: FlashcardSearchResultDto): string {
+  return `/decks/${result.deck_id}#flashcard-${result.id}`;
+}
+
+function HighlightedText({ segments }: { segments: HighlightSegmentDto[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+// ------------------------------------------------------------------
+// Main Component
+// ------------------------------------------------------------------
+
+/**
+ * Search box in the page header: full-text search across all flashcards of the user,
+ * with highlighted matches and links to the flashcards in their decks.
+ * Arrow keys move through the results, Enter opens one, Escape closes the list.
+ */
+export function FlashcardSearchBox() {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<FlashcardSearchResultDto[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listId = useId();
+
+  const trimmedQuery = query.trim();
+
+  // Search after the user stops typing; a newer search cancels the previous one
+  useEffect(() => {
+    if (trimmedQuery.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setTotal(0);
+      setError(null);
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsSearching(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await searchFlashcards({
+          query: trimmedQuery,
+          limit: RESULT_LIMIT,
+          signal: controller.signal,
+        });
+        setResults(response.data);
+        setTotal(response.pagination.total);
+        setError(null);
+        setActiveIndex(-1);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof ApiRequestError ? err.message : "Search failed");
+        setResults([]);
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [trimmedQuery]);
+
+  // Close the results when clicking outside
+  useEffect(() => {
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("pointerdown", handlePointerDown);
+    return () => document.removeEventListener("pointerdown", handlePointerDown);
+  }, []);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Escape") {
+      setIsOpen(false);
+      return;
+    }
+
+    if (results.length === 0) return;
+
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setIsOpen(true);
+      setActiveIndex((index) => (index + 1) % results.length);
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? results.length - 1 : index - 1));
+    } else if (event.key === "Enter" && activeIndex >= 0) {
+      event.preventDefault();
+      window.location.href = getFlashcardUrl(results[activeIndex]);
+    }
+  };
+
+  if (!isFeatureEnabled("collections")) {
+    return null;
+  }
+
+  const showResults = isOpen && trimmedQuery.length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div ref={containerRef} className="relative w-full max-w-sm" data-testid="flashcard-search">
+      <Search className="pointer-events-none absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search flashcards..."
+        className="h-9 pl-8"
+        role="combobox"
+        aria-label="Search flashcards"
+        aria-expanded={showResults}
+        aria-controls={listId}
+        aria-activedescendant={activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        data-testid="flashcard-search-input"
+      />
+
+      {showResults && (
+        <div
+          className="absolute left-0 right-0 top-full z-50 mt-1 max-h-[70vh] overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-lg sm:w-[28rem]"
+          data-testid="flashcard-search-results"
+        >
+          {isSearching && results.length === 0 ? (
+            <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Searching...
+            </div>
+          ) : error ? (
+            <p className="px-3 py-6 text-center text-sm text-destructive">{error}</p>
+          ) : results.length === 0 ? (
+            <p className="px-3 py-6 text-center text-sm text-muted-foreground">No flashcards found</p>
+          ) : (
+            <>
+              <ul id={listId} role="listbox" aria-label="Search results">
+                {results.map((result, index) => (
+                  <li key={result.id} id={`${listId}-${index}`} role="option" aria-selected={index === activeIndex}>
+                    <a
+                      href={getFlashcardUrl(result)}
+                      className={`block rounded-sm px-3 py-2 text-sm hover:bg-accent ${
+                        index === activeIndex ? "bg-accent" : ""
+                      }`}
+                      data-testid="flashcard-search-result"
+                    >
+                      <div className="mb-1 flex items-center gap-2">
+                        <span className="truncate text-xs font-medium text-muted-foreground">{result.deck_name}</span>
+                        {result.card_type === "cloze" && (
+                          <Badge variant="outline" className="shrink-0 px-1 py-0 text-[10px]">
+                            Cloze
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="line-clamp-2">
+                        <HighlightedText segments={result.front} />
+                      </p>
+                      {result.back.length > 0 && (
+                        <p className="line-clamp-1 text-muted-foreground">
+                          <HighlightedText segments={result.back} />
+                        </p>
+                      )}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+              {total > results.length && (
+                <p className="px-3 py-2 text-xs text-muted-foreground">
+                  Showing {results.length} of {total} matches - refine the search to narrow them down
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
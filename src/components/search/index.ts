@@ -0,0 +1 @@
+export { FlashcardSearchBox } from "./FlashcardSearchBox";
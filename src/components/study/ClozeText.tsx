@@ -0,0 +1,40 @@
+import { memo } from "react";
+import { cn } from "@/lib/utils";
+import { parseClozeText } from "../../lib/utils/cloze";
+
+interface ClozeTextProps {
+  /** Cloze note text */
+  text: string;
+  /** Number of the card's deletions */
+  clozeIndex: number;
+  /** Whether the deletions of the card are shown */
+  isRevealed: boolean;
+  className?: string;
+}
+
+/**
+ * Renders a cloze note for a single card: the card's deletions are hidden as `[...]`
+ * (or `[hint]`) and highlighted once revealed, other deletions are shown as plain text.
+ */
+export const ClozeText = memo(function ClozeText({ text, clozeIndex, isRevealed, className }: ClozeTextProps) {
+  return (
+    <span className={cn("whitespace-pre-wrap", className)}>
+      {parseClozeText(text, clozeIndex, isRevealed).map((segment, index) =>
+        segment.kind === "text" ? (
+          <span key={index}>{segment.text}</span>
+        ) : (
+          <span
+            key={index}
+            className={cn(
+              "rounded px-1 font-semibold",
+              segment.kind === "hidden" ? "bg-muted text-muted-foreground" : "bg-primary/15 text-primary"
+            )}
+            data-testid={`cloze-${segment.kind}`}
+          >
+            {segment.kind === "hidden" ? `[${segment.text}]` : segment.text}
+          </span>
+        )
+      )}
+    </span>
+  );
+});
@@ -0,0 +1,72 @@
+import { memo } from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface GradeOption {
+  quality: number;
+  label: string;
+  description: string;
+  className: string;
+}
+
+/**
+ * SM-2 quality scale (0-5) as described in the API plan.
+ */
+export const GRADE_OPTIONS: GradeOption[] = [
+  { quality: 0, label: "Blackout", description: "Complete blackout", className: "border-red-500 text-red-600" },
+  {
+    quality: 1,
+    label: "Wrong",
+    description: "Incorrect, but recognized the answer",
+    className: "border-red-400 text-red-500",
+  },
+  {
+    quality: 2,
+    label: "Almost",
+    description: "Incorrect, but the answer seemed easy",
+    className: "border-orange-400 text-orange-500",
+  },
+  {
+    quality: 3,
+    label: "Hard",
+    description: "Correct, with significant effort",
+    className: "border-amber-400 text-amber-600",
+  },
+  {
+    quality: 4,
+    label: "Good",
+    description: "Correct, after some hesitation",
+    className: "border-green-400 text-green-600",
+  },
+  { quality: 5, label: "Easy", description: "Perfect recall", className: "border-green-600 text-green-700" },
+];
+
+interface GradeButtonsProps {
+  onGrade: (quality: number) => void;
+  disabled: boolean;
+}
+
+/**
+ * Row of buttons for grading recall on the 0-5 scale.
+ * Keyboard shortcuts (0-5) are handled by the parent session component.
+ */
+export const GradeButtons = memo(function GradeButtons({ onGrade, disabled }: GradeButtonsProps) {
+  return (
+    <div className="grid grid-cols-3 gap-2 sm:grid-cols-6" role="group" aria-label="Grade your recall">
+      {GRADE_OPTIONS.map((option) => (
+        <Button
+          key={option.quality}
+          variant="outline"
+          className={cn("h-auto flex-col gap-0.5 py-2", option.className)}
+          onClick={() => onGrade(option.quality)}
+          disabled={disabled}
+          title={option.description}
+          data-testid={`grade-button-${option.quality}`}
+        >
+          <span className="text-base font-semibold">{option.quality}</span>
+          <span className="text-xs">{option.label}</span>
+        </Button>
+      ))}
+    </div>
+  );
+});
@@ -0,0 +1,108 @@
+import { useCallback, useMemo } from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { Toaster } from "sonner";
+import { StudySession } from "./StudySession";
+import { useReviewQueue, useReviewFlashcard } from "../hooks/useDeck";
+import type { FlashcardDto, ReviewFlashcardCommand } from "../../types";
+
+// ------------------------------------------------------------------
+// Constants
+// ------------------------------------------------------------------
+
+/** Maximum number of cards in a single "Review all" session */
+const SESSION_LIMIT = 200;
+
+/** Maximum number of cards taken from a single deck */
+const DECK_LIMIT = 100;
+
+/** Maximum number of never-reviewed cards introduced per deck */
+const NEW_CARDS_PER_DECK_LIMIT = 20;
+
+// ------------------------------------------------------------------
+// Query Client
+// ------------------------------------------------------------------
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 5 * 60 * 1000, // 5 minutes
+      retry: 1,
+    },
+  },
+});
+
+// ------------------------------------------------------------------
+// Main Component (with Provider)
+// ------------------------------------------------------------------
+
+interface ReviewQueuePageProps {
+  /** Only review cards labelled with this tag */
+  tag?: string;
+}
+
+/**
+ * "Review all" page: a single study session over due cards from all decks (optionally of one tag).
+ */
+export function ReviewQueuePage({ tag }: ReviewQueuePageProps) {
+  return (
+    <QueryClientProvider client={queryClient}>
+      <ReviewQueueContent tag={tag} />
+      <Toaster position="bottom-right" richColors />
+    </QueryClientProvider>
+  );
+}
+
+// ------------------------------------------------------------------
+// Content Component (uses hooks)
+// ------------------------------------------------------------------
+
+function ReviewQueueContent({ tag }: ReviewQueuePageProps) {
+  const {
+    data: queue,
+    error,
+    refetch,
+  } = useReviewQueue({ limit: SESSION_LIMIT, deckLimit: DECK_LIMIT, newLimit: NEW_CARDS_PER_DECK_LIMIT, tag });
+
+  const reviewFlashcard = useReviewFlashcard();
+
+  // Deck names for the card badge
+  const deckNames = useMemo(() => new Map((queue?.decks ?? []).map((deck) => [deck.deck_id, deck.deck_name])), [queue]);
+
+  const getDeckName = useCallback((flashcard: FlashcardDto) => deckNames.get(flashcard.deck_id), [deckNames]);
+
+  const handleGrade = useCallback(
+    async (flashcard: FlashcardDto, command: ReviewFlashcardCommand) => {
+      await reviewFlashcard.mutateAsync({ flashcardId: flashcard.id, data: command });
+    },
+    [reviewFlashcard]
+  );
+
+  const handleRestart = useCallback(() => refetch(), [refetch]);
+
+  if (error) {
+    return (
+      <div className="container mx-auto max-w-3xl px-4 py-8">
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <h1 className="mb-2 text-2xl font-bold text-destructive">Error Loading Cards</h1>
+          <p className="mb-4 text-muted-foreground">{error.message}</p>
+          <a href="/dashboard" className="text-primary underline hover:no-underline">
+            Return to Dashboard
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <StudySession
+      storageKey={tag ? `review-all:tag:${tag}` : "review-all"}
+      title={tag ? `Review All Decks #${tag}` : "Review All Decks"}
+      cards={queue?.data}
+      onGrade={handleGrade}
+      onRestart={handleRestart}
+      backHref="/dashboard"
+      backLabel="Back to Dashboard"
+      getDeckName={getDeckName}
+    />
+  );
+}
@@ -0,0 +1,65 @@
+import { CheckCircle2, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import type { StudySummary } from "../hooks/useStudySession";
+
+interface SessionSummaryProps {
+  summary: StudySummary;
+  backHref: string;
+  backLabel: string;
+  onRestart: () => void;
+  /** Fresh due cards are being loaded for the next session */
+  isRestarting?: boolean;
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+/**
+ * Summary shown when all cards of the session have been reviewed.
+ */
+export function SessionSummary({ summary, backHref, backLabel, onRestart, isRestarting }: SessionSummaryProps) {
+  const accuracy = summary.totalReviews > 0 ? Math.round((summary.correctCount / summary.totalReviews) * 100) : 0;
+
+  const stats = [
+    { label: "Cards studied", value: summary.cardsStudied },
+    { label: "Total reviews", value: summary.totalReviews },
+    { label: "Accuracy", value: `${accuracy}%` },
+    { label: "Average grade", value: summary.averageQuality.toFixed(1) },
+    { label: "Repeated", value: summary.againCount },
+    { label: "Time", value: formatDuration(summary.durationMs) },
+  ];
+
+  return (
+    <Card data-testid="session-summary">
+      <CardHeader className="text-center">
+        <CheckCircle2 className="mx-auto mb-2 h-12 w-12 text-green-500" />
+        <CardTitle className="text-2xl">Session complete!</CardTitle>
+        <CardDescription>Great work. Here is how it went.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <dl className="grid grid-cols-2 gap-4 sm:grid-cols-3">
+          {stats.map((stat) => (
+            <div key={stat.label} className="rounded-lg border p-3 text-center">
+              <dt className="text-xs text-muted-foreground">{stat.label}</dt>
+              <dd className="text-xl font-semibold">{stat.value}</dd>
+            </div>
+          ))}
+        </dl>
+      </CardContent>
+      <CardFooter className="flex justify-center gap-2">
+        <Button variant="outline" asChild>
+          <a href={backHref}>{backLabel}</a>
+        </Button>
+        <Button onClick={onRestart} disabled={isRestarting} data-testid="study-again-button">
+          {isRestarting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+          Check for more cards
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
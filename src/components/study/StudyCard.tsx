@@ -0,0 +1,77 @@
+import { memo } from "react";
+import { Eye } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { FlashcardDto } from "../../types";
+import { ClozeText } from "./ClozeText";
+
+interface StudyCardProps {
+  flashcard: FlashcardDto;
+  isRevealed: boolean;
+  onReveal: () => void;
+  /** Name of the card's deck, shown in cross-deck sessions */
+  deckName?: string;
+}
+
+/**
+ * Shows the front of a flashcard and, once revealed, its back.
+ * A cloze card shows its note text with the card's deletions hidden, then revealed
+ * together with the extra info. A reversed card asks with the back and answers with the front.
+ */
+export const StudyCard = memo(function StudyCard({ flashcard, isRevealed, onReveal, deckName }: StudyCardProps) {
+  const isCloze = flashcard.card_type === "cloze" && flashcard.cloze_index !== null;
+  const question = flashcard.reversed ? flashcard.back : flashcard.front;
+  const answer = flashcard.reversed ? flashcard.front : flashcard.back;
+
+  return (
+    <Card className="min-h-[280px]" data-testid="study-card">
+      <CardContent className="flex flex-col gap-6 p-6">
+        {deckName && (
+          <Badge variant="outline" className="self-start" data-testid="study-card-deck">
+            {deckName}
+          </Badge>
+        )}
+        <div>
+          <p className="mb-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+            {isCloze ? "Fill in the blank" : "Question"}
+          </p>
+          <p className="whitespace-pre-wrap text-lg" data-testid="study-card-front">
+            {isCloze ? (
+              <ClozeText text={flashcard.front} clozeIndex={flashcard.cloze_index ?? 1} isRevealed={isRevealed} />
+            ) : (
+              question
+            )}
+          </p>
+        </div>
+
+        {isRevealed ? (
+          isCloze ? (
+            flashcard.back && (
+              <div className="border-t pt-6" aria-live="polite">
+                <p className="mb-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">Extra</p>
+                <p className="whitespace-pre-wrap text-lg" data-testid="study-card-back">
+                  {flashcard.back}
+                </p>
+              </div>
+            )
+          ) : (
+            <div className="border-t pt-6" aria-live="polite">
+              <p className="mb-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">Answer</p>
+              <p className="whitespace-pre-wrap text-lg" data-testid="study-card-back">
+                {answer}
+              </p>
+            </div>
+          )
+        ) : (
+          <div className="flex justify-center border-t pt-6">
+            <Button onClick={onReveal} data-testid="reveal-answer-button">
+              <Eye className="mr-2 h-4 w-4" />
+              Show Answer
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
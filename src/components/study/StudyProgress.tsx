@@ -0,0 +1,32 @@
+interface StudyProgressProps {
+  completed: number;
+  total: number;
+}
+
+/**
+ * Progress bar showing how many reviews of the session are done.
+ */
+export function StudyProgress({ completed, total }: StudyProgressProps) {
+  const percent = total > 0 ? Math.round((completed / total) * 100) : 0;
+
+  return (
+    <div className="space-y-1" data-testid="study-progress">
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>
+          {completed} / {total} reviewed
+        </span>
+        <span>{percent}%</span>
+      </div>
+      <div
+        className="h-2 w-full overflow-hidden rounded-full bg-secondary"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={total}
+        aria-valuenow={completed}
+        aria-label="Study session progress"
+      >
+        <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+}
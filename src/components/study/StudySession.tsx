@@ -0,0 +1,178 @@
+import { useState, useEffect, useCallback } from "react";
+import { ArrowLeft, BookOpen, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { StudyCard } from "./StudyCard";
+import { GradeButtons } from "./GradeButtons";
+import { StudyProgress } from "./StudyProgress";
+import { SessionSummary } from "./SessionSummary";
+import { useStudySession } from "../hooks/useStudySession";
+import { ApiRequestError } from "../../lib/api/decks";
+import type { FlashcardDto, ReviewFlashcardCommand } from "../../types";
+
+// ------------------------------------------------------------------
+// Types
+// ------------------------------------------------------------------
+
+interface StudySessionProps {
+  /** Key used to persist the session (resume after reload) */
+  storageKey: string;
+  title: string;
+  /** Cards due for review, `undefined` while loading */
+  cards: FlashcardDto[] | undefined;
+  onGrade: (flashcard: FlashcardDto, command: ReviewFlashcardCommand) => Promise<void>;
+  /** Called when the user wants to start over; resolves once fresh due cards are loaded */
+  onRestart: () => Promise<unknown>;
+  backHref: string;
+  backLabel: string;
+  /** Resolves the deck name shown on the card (for sessions spanning multiple decks) */
+  getDeckName?: (flashcard: FlashcardDto) => string | undefined;
+}
+
+// ------------------------------------------------------------------
+// Main Component
+// ------------------------------------------------------------------
+
+/**
+ * Study session UI: shows due cards one by one, reveals the answer and lets the user
+ * grade recall on the 0-5 scale. Reusable for any source of due cards.
+ *
+ * Keyboard shortcuts: Space/Enter reveals the answer, 0-5 grades the card.
+ */
+export function StudySession({
+  storageKey,
+  title,
+  cards,
+  onGrade,
+  onRestart,
+  backHref,
+  backLabel,
+  getDeckName,
+}: StudySessionProps) {
+  const { status, currentCard, isRevealed, progress, summary, reveal, recordGrade, getElapsedMs, restart } =
+    useStudySession({ storageKey, cards });
+  const [isGrading, setIsGrading] = useState(false);
+  const [isRestarting, setIsRestarting] = useState(false);
+
+  const handleGrade = useCallback(
+    async (quality: number) => {
+      if (!currentCard || isGrading) return;
+
+      const durationMs = getElapsedMs();
+      setIsGrading(true);
+
+      try {
+        await onGrade(currentCard, { quality, review_duration_ms: durationMs });
+        recordGrade(quality, durationMs);
+      } catch (error) {
+        const message = error instanceof ApiRequestError ? error.message : "Failed to save review";
+        toast.error(message);
+      } finally {
+        setIsGrading(false);
+      }
+    },
+    [currentCard, isGrading, getElapsedMs, onGrade, recordGrade]
+  );
+
+  // The next session is built only from the refetched cards - restarting right away would
+  // rebuild it from the cached cards that were just reviewed
+  const handleRestart = useCallback(async () => {
+    setIsRestarting(true);
+
+    try {
+      await onRestart();
+      restart();
+    } finally {
+      setIsRestarting(false);
+    }
+  }, [restart, onRestart]);
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    if (status !== "studying") return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+      if (!isRevealed && (event.key === " " || event.key === "Enter")) {
+        event.preventDefault();
+        reveal();
+        return;
+      }
+
+      if (isRevealed && /^[0-5]$/.test(event.key)) {
+        event.preventDefault();
+        handleGrade(Number(event.key));
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [status, isRevealed, reveal, handleGrade]);
+
+  return (
+    <div className="container mx-auto max-w-3xl px-4 py-8" data-testid="study-session">
+      <header className="mb-6 space-y-4">
+        <a
+          href={backHref}
+          className="inline-flex items-center gap-1 text-sm text-muted-foreground transition-colors hover:text-foreground"
+          data-testid="study-back-link"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          {backLabel}
+        </a>
+        <h1 className="text-3xl font-bold tracking-tight" data-testid="study-title">
+          {title}
+        </h1>
+        {status === "studying" && <StudyProgress completed={progress.completed} total={progress.total} />}
+      </header>
+
+      {status === "loading" && (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {status === "empty" && (
+        <div
+          className="flex flex-col items-center justify-center rounded-lg border border-dashed py-16 text-center"
+          data-testid="study-empty-state"
+        >
+          <BookOpen className="mb-4 h-12 w-12 text-muted-foreground" />
+          <h2 className="mb-2 text-xl font-semibold">All caught up!</h2>
+          <p className="mb-6 max-w-sm text-muted-foreground">There are no cards due for review right now.</p>
+          <Button variant="outline" asChild>
+            <a href={backHref}>{backLabel}</a>
+          </Button>
+        </div>
+      )}
+
+      {status === "studying" && currentCard && (
+        <div className="space-y-6">
+          <StudyCard
+            flashcard={currentCard}
+            isRevealed={isRevealed}
+            onReveal={reveal}
+            deckName={getDeckName?.(currentCard)}
+          />
+          {isRevealed && (
+            <div className="space-y-2">
+              <p className="text-center text-sm text-muted-foreground">How well did you remember?</p>
+              <GradeButtons onGrade={handleGrade} disabled={isGrading} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {status === "finished" && summary && (
+        <SessionSummary
+          summary={summary}
+          backHref={backHref}
+          backLabel={backLabel}
+          onRestart={handleRestart}
+          isRestarting={isRestarting}
+        />
+      )}
+    </div>
+  );
+}
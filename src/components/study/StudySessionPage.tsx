@@ -0,0 +1,112 @@
+import { useCallback } from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { Toaster } from "sonner";
+import { StudySession } from "./StudySession";
+import { useDeck, useDueFlashcards, useReviewFlashcard } from "../hooks/useDeck";
+import { ApiRequestError } from "../../lib/api/decks";
+import type { FlashcardDto, ReviewFlashcardCommand } from "../../types";
+
+// ------------------------------------------------------------------
+// Types
+// ------------------------------------------------------------------
+
+interface StudySessionPageProps {
+  deckId: string;
+  /** Only study cards labelled with this tag */
+  tag?: string;
+}
+
+// ------------------------------------------------------------------
+// Constants
+// ------------------------------------------------------------------
+
+/** Maximum number of cards in a single session */
+const SESSION_LIMIT = 100;
+
+/** Maximum number of never-reviewed cards introduced per session */
+const NEW_CARDS_LIMIT = 20;
+
+// ------------------------------------------------------------------
+// Query Client
+// ------------------------------------------------------------------
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 5 * 60 * 1000, // 5 minutes
+      retry: 1,
+    },
+  },
+});
+
+// ------------------------------------------------------------------
+// Main Component (with Provider)
+// ------------------------------------------------------------------
+
+export function StudySessionPage({ deckId, tag }: StudySessionPageProps) {
+  return (
+    <QueryClientProvider client={queryClient}>
+      <StudySessionContent deckId={deckId} tag={tag} />
+      <Toaster position="bottom-right" richColors />
+    </QueryClientProvider>
+  );
+}
+
+// ------------------------------------------------------------------
+// Content Component (uses hooks)
+// ------------------------------------------------------------------
+
+function StudySessionContent({ deckId, tag }: StudySessionPageProps) {
+  const { data: deck, error: deckError } = useDeck(deckId);
+
+  const {
+    data: dueData,
+    error: dueError,
+    refetch,
+  } = useDueFlashcards(deckId, { limit: SESSION_LIMIT, newLimit: NEW_CARDS_LIMIT, tag });
+
+  const reviewFlashcard = useReviewFlashcard();
+
+  const handleGrade = useCallback(
+    async (flashcard: FlashcardDto, command: ReviewFlashcardCommand) => {
+      await reviewFlashcard.mutateAsync({ flashcardId: flashcard.id, data: command });
+    },
+    [reviewFlashcard]
+  );
+
+  const handleRestart = useCallback(() => refetch(), [refetch]);
+
+  const error = deckError ?? dueError;
+
+  if (error) {
+    const is404 = error instanceof ApiRequestError && error.status === 404;
+
+    return (
+      <div className="container mx-auto max-w-3xl px-4 py-8">
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <h1 className="mb-2 text-2xl font-bold text-destructive">
+            {is404 ? "Deck Not Found" : "Error Loading Cards"}
+          </h1>
+          <p className="mb-4 text-muted-foreground">
+            {is404 ? "The deck you're looking for doesn't exist." : error.message}
+          </p>
+          <a href="/dashboard" className="text-primary underline hover:no-underline">
+            Return to Dashboard
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <StudySession
+      storageKey={tag ? `deck:${deckId}:tag:${tag}` : `deck:${deckId}`}
+      title={`${deck ? `Study: ${deck.name}` : "Study"}${tag ? ` #${tag}` : ""}`}
+      cards={dueData?.data}
+      onGrade={handleGrade}
+      onRestart={handleRestart}
+      backHref={`/decks/${deckId}`}
+      backLabel="Back to Deck"
+    />
+  );
+}
@@ -0,0 +1,8 @@
+export { StudySessionPage } from "./StudySessionPage";
+export { StudySession } from "./StudySession";
+export { StudyCard } from "./StudyCard";
+export { ClozeText } from "./ClozeText";
+export { StudyProgress } from "./StudyProgress";
+export { GradeButtons } from "./GradeButtons";
+export { SessionSummary } from "./SessionSummary";
+export { ReviewQueuePage } from "./ReviewQueuePage";
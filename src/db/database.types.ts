@@ -20,12 +20,34 @@ export interface Database {
   };
   public: {
     Tables: {
+      ai_requests: {
+        Row: {
+          created_at: string;
+          id: string;
+          kind: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          kind: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          kind?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
       decks: {
         Row: {
           created_at: string;
           description: string | null;
           id: string;
           name: string;
+          parent_id: string | null;
           updated_at: string;
           user_id: string;
         };
@@ -34,6 +56,7 @@ export interface Database {
           description?: string | null;
           id?: string;
           name: string;
+          parent_id?: string | null;
           updated_at?: string;
           user_id: string;
         };
@@ -42,14 +65,26 @@ export interface Database {
           description?: string | null;
           id?: string;
           name?: string;
+          parent_id?: string | null;
           updated_at?: string;
           user_id?: string;
         };
-        Relationships: [];
+        Relationships: [
+          {
+            foreignKeyName: "decks_parent_id_fkey";
+            columns: ["parent_id"];
+            isOneToOne: false;
+            referencedRelation: "decks";
+            referencedColumns: ["id"];
+          },
+        ];
       };
       flashcards: {
         Row: {
           back: string;
+          buried_until: string | null;
+          card_type: string;
+          cloze_index: number | null;
           created_at: string;
           deck_id: string;
           ease_factor: number;
@@ -58,13 +93,20 @@ export interface Database {
           id: string;
           interval: number;
           next_review_at: string;
+          note_id: string | null;
           repetitions: number;
+          reversed: boolean;
           source: string;
+          suspended: boolean;
+          tags: string[];
           updated_at: string;
           user_id: string;
         };
         Insert: {
           back: string;
+          buried_until?: string | null;
+          card_type?: string;
+          cloze_index?: number | null;
           created_at?: string;
           deck_id: string;
           ease_factor?: number;
@@ -73,13 +115,20 @@ export interface Database {
           id?: string;
           interval?: number;
           next_review_at?: string;
+          note_id?: string | null;
           repetitions?: number;
+          reversed?: boolean;
           source: string;
+          suspended?: boolean;
+          tags?: string[];
           updated_at?: string;
           user_id: string;
         };
         Update: {
           back?: string;
+          buried_until?: string | null;
+          card_type?: string;
+          cloze_index?: number | null;
           created_at?: string;
           deck_id?: string;
           ease_factor?: number;
@@ -88,8 +137,12 @@ export interface Database {
           id?: string;
           interval?: number;
           next_review_at?: string;
+          note_id?: string | null;
           repetitions?: number;
+          reversed?: boolean;
           source?: string;
+          suspended?: boolean;
+          tags?: string[];
           updated_at?: string;
           user_id?: string;
         };
@@ -110,6 +163,53 @@ export interface Database {
           },
         ];
       };
+      generation_chunks: {
+        Row: {
+          chunk_index: number;
+          created_at: string;
+          error_message: string | null;
+          generated_count: number;
+          generation_duration: number;
+          generation_id: string;
+          id: string;
+          requested_count: number;
+          source_text_length: number;
+          user_id: string;
+        };
+        Insert: {
+          chunk_index: number;
+          created_at?: string;
+          error_message?: string | null;
+          generated_count?: number;
+          generation_duration: number;
+          generation_id: string;
+          id?: string;
+          requested_count: number;
+          source_text_length: number;
+          user_id: string;
+        };
+        Update: {
+          chunk_index?: number;
+          created_at?: string;
+          error_message?: string | null;
+          generated_count?: number;
+          generation_duration?: number;
+          generation_id?: string;
+          id?: string;
+          requested_count?: number;
+          source_text_length?: number;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "generation_chunks_generation_id_fkey";
+            columns: ["generation_id"];
+            isOneToOne: false;
+            referencedRelation: "generations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       generation_error_logs: {
         Row: {
           created_at: string;
@@ -137,42 +237,304 @@ export interface Database {
         };
         Relationships: [];
       };
+      generation_suggestions: {
+        Row: {
+          back: string;
+          created_at: string;
+          flashcard_id: string | null;
+          front: string;
+          generation_id: string;
+          id: string;
+          position: number;
+          refinement_count: number;
+          reviewed_at: string | null;
+          status: string;
+          tags: string[];
+          user_id: string;
+        };
+        Insert: {
+          back: string;
+          created_at?: string;
+          flashcard_id?: string | null;
+          front: string;
+          generation_id: string;
+          id?: string;
+          position: number;
+          refinement_count?: number;
+          reviewed_at?: string | null;
+          status?: string;
+          tags?: string[];
+          user_id: string;
+        };
+        Update: {
+          back?: string;
+          created_at?: string;
+          flashcard_id?: string | null;
+          front?: string;
+          generation_id?: string;
+          id?: string;
+          position?: number;
+          refinement_count?: number;
+          reviewed_at?: string | null;
+          status?: string;
+          tags?: string[];
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "generation_suggestions_flashcard_id_fkey";
+            columns: ["flashcard_id"];
+            isOneToOne: false;
+            referencedRelation: "flashcards";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "generation_suggestions_generation_id_fkey";
+            columns: ["generation_id"];
+            isOneToOne: false;
+            referencedRelation: "generations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       generations: {
         Row: {
+          card_type: string;
           created_at: string;
+          deck_id: string | null;
           generated_count: number;
           generation_duration: number;
           id: string;
           model: string;
+          requested_count: number | null;
           source_text_hash: string;
           source_text_length: number;
           user_id: string;
         };
         Insert: {
+          card_type?: string;
           created_at?: string;
+          deck_id?: string | null;
           generated_count: number;
           generation_duration: number;
           id?: string;
           model: string;
+          requested_count?: number | null;
           source_text_hash: string;
           source_text_length: number;
           user_id: string;
         };
         Update: {
+          card_type?: string;
           created_at?: string;
+          deck_id?: string | null;
           generated_count?: number;
           generation_duration?: number;
           id?: string;
           model?: string;
+          requested_count?: number | null;
           source_text_hash?: string;
           source_text_length?: number;
           user_id?: string;
         };
-        Relationships: [];
+        Relationships: [
+          {
+            foreignKeyName: "generations_deck_id_fkey";
+            columns: ["deck_id"];
+            isOneToOne: false;
+            referencedRelation: "decks";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      review_logs: {
+        Row: {
+          deck_id: string | null;
+          flashcard_id: string;
+          id: string;
+          new_ease_factor: number;
+          new_interval: number;
+          new_repetitions: number;
+          next_review_at: string;
+          previous_ease_factor: number;
+          previous_interval: number;
+          previous_repetitions: number;
+          quality: number;
+          review_duration_ms: number | null;
+          reviewed_at: string;
+          user_id: string;
+        };
+        Insert: {
+          deck_id?: string | null;
+          flashcard_id: string;
+          id?: string;
+          new_ease_factor: number;
+          new_interval: number;
+          new_repetitions: number;
+          next_review_at: string;
+          previous_ease_factor: number;
+          previous_interval: number;
+          previous_repetitions: number;
+          quality: number;
+          review_duration_ms?: number | null;
+          reviewed_at?: string;
+          user_id: string;
+        };
+        Update: {
+          deck_id?: string | null;
+          flashcard_id?: string;
+          id?: string;
+          new_ease_factor?: number;
+          new_interval?: number;
+          new_repetitions?: number;
+          next_review_at?: string;
+          previous_ease_factor?: number;
+          previous_interval?: number;
+          previous_repetitions?: number;
+          quality?: number;
+          review_duration_ms?: number | null;
+          reviewed_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "review_logs_deck_id_fkey";
+            columns: ["deck_id"];
+            isOneToOne: false;
+            referencedRelation: "decks";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "review_logs_flashcard_id_fkey";
+            columns: ["flashcard_id"];
+            isOneToOne: false;
+            referencedRelation: "flashcards";
+            referencedColumns: ["id"];
+          },
+        ];
       };
     };
     Views: Record<never, never>;
-    Functions: Record<never, never>;
+    Functions: {
+      flashcard_search_query: {
+        Args: {
+          p_query: string;
+        };
+        Returns: unknown;
+      };
+      flashcard_search_vector: {
+        Args: {
+          p_back: string;
+          p_front: string;
+        };
+        Returns: unknown;
+      };
+      get_deck_counts: {
+        Args: {
+          p_deck_id?: string;
+        };
+        Returns: {
+          deck_id: string;
+          due_flashcard_count: number;
+          flashcard_count: number;
+        }[];
+      };
+      get_due_counts: {
+        Args: {
+          p_now?: string;
+          p_tag?: string;
+        };
+        Returns: {
+          deck_id: string;
+          total_due: number;
+        }[];
+      };
+      get_model_acceptance_stats: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          accepted_count: number;
+          edited_count: number;
+          generation_count: number;
+          model: string;
+          pending_count: number;
+          rejected_count: number;
+          suggestion_count: number;
+        }[];
+      };
+      get_review_queue_cards: {
+        Args: {
+          p_deck_limit: number;
+          p_new_limit: number;
+          p_now?: string;
+          p_tag?: string;
+        };
+        Returns: Database["public"]["Tables"]["flashcards"]["Row"][];
+      };
+      get_user_stats: {
+        Args: {
+          p_timezone?: string;
+        };
+        Returns: {
+          ai_edited_count: number;
+          ai_full_count: number;
+          avg_generation_duration_ms: number;
+          manual_count: number;
+          study_streak_days: number;
+          total_decks: number;
+          total_due: number;
+          total_flashcards: number;
+          total_generations: number;
+        }[];
+      };
+      get_user_tags: {
+        Args: {
+          p_deck_id?: string;
+        };
+        Returns: {
+          flashcard_count: number;
+          tag: string;
+        }[];
+      };
+      record_flashcard_review: {
+        Args: {
+          p_ease_factor: number;
+          p_flashcard_id: string;
+          p_interval: number;
+          p_next_review_at: string;
+          p_previous_ease_factor: number;
+          p_previous_interval: number;
+          p_previous_repetitions: number;
+          p_quality: number;
+          p_repetitions: number;
+          p_review_duration_ms: number | null;
+        };
+        Returns: Database["public"]["Tables"]["flashcards"]["Row"][];
+      };
+      restore_review_logs: {
+        Args: {
+          p_logs: Json;
+        };
+        Returns: number;
+      };
+      search_flashcards: {
+        Args: {
+          p_deck_id?: string;
+          p_limit?: number;
+          p_offset?: number;
+          p_query: string;
+        };
+        Returns: {
+          back_snippet: string;
+          card_type: string;
+          deck_id: string;
+          deck_name: string;
+          front_snippet: string;
+          id: string;
+          rank: number;
+          total_count: number;
+        }[];
+      };
+    };
     Enums: Record<never, never>;
     CompositeTypes: Record<never, never>;
   };
@@ -1,15 +1,46 @@
 import type {
   DeckDto,
+  UpdateDeckCommand,
   FlashcardDto,
   PaginatedResponse,
+  DueFlashcardsResponseDto,
+  ReviewQueueResponseDto,
   CreateFlashcardCommand,
+  BulkImportFlashcardsCommand,
+  BulkImportFlashcardsResponseDto,
   UpdateFlashcardCommand,
+  BulkFlashcardOperationCommand,
+  BulkFlashcardOperationResponseDto,
+  MoveFlashcardCommand,
+  CopyFlashcardCommand,
+  TransferFlashcardResponseDto,
+  UpdateFlashcardTagsCommand,
+  TagsListResponseDto,
+  ReviewFlashcardCommand,
+  ReviewLogDto,
   GenerateFlashcardsCommand,
   GenerateFlashcardsResponseDto,
+  GenerationStreamSuggestionDto,
+  GenerationHistoryItemDto,
+  GenerationDetailDto,
+  ExtractTextResponseDto,
   AcceptFlashcardsCommand,
   AcceptFlashcardsResponseDto,
+  RejectSuggestionsCommand,
+  RefineSuggestionCommand,
+  RefineSuggestionResponseDto,
+  RejectSuggestionsResponseDto,
+  UnfinishedGenerationsResponseDto,
+  ModelAcceptanceStatsResponseDto,
+  AnkiImportPreviewDto,
+  AnkiImportResponseDto,
+  DeckExportFormat,
+  BackupConflictStrategy,
+  RestoreAccountBackupResponseDto,
+  FlashcardSearchResultDto,
   ApiError,
 } from "../../types";
+import { readSseEvents } from "../utils/sse";
 
 /**
  * Base fetch wrapper with error handling
@@ -61,6 +92,21 @@ export class ApiRequestError extends Error {
 // Deck API Functions
 // ------------------------------------------------------------------
 
+/**
+ * Fetch the user's decks (most recently updated first)
+ */
+export async function fetchDecks(
+  params: { limit?: number; offset?: number } = {}
+): Promise<PaginatedResponse<DeckDto>> {
+  const { limit = 100, offset = 0 } = params;
+
+  const searchParams = new URLSearchParams();
+  searchParams.set("limit", String(limit));
+  searchParams.set("offset", String(offset));
+
+  return apiFetch<PaginatedResponse<DeckDto>>(`/api/decks?${searchParams.toString()}`);
+}
+
 /**
  * Fetch a single deck by ID
  */
@@ -68,6 +114,23 @@ export async function fetchDeck(deckId: string): Promise<DeckDto> {
   return apiFetch<DeckDto>(`/api/decks/${deckId}`);
 }
 
+/**
+ * Update a deck's name and/or description
+ */
+export async function updateDeck(deckId: string, data: UpdateDeckCommand): Promise<DeckDto> {
+  return apiFetch<DeckDto>(`/api/decks/${deckId}`, {
+    method: "PATCH",
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Delete a deck together with its flashcards
+ */
+export async function deleteDeck(deckId: string): Promise<void> {
+  await apiFetch<undefined>(`/api/decks/${deckId}`, { method: "DELETE" });
+}
+
 /**
  * Fetch flashcards for a deck with pagination
  */
@@ -79,10 +142,11 @@ export interface FetchFlashcardsParams {
   due?: boolean;
   sort?: "created_at" | "next_review_at";
   order?: "asc" | "desc";
+  tag?: string;
 }
 
 export async function fetchFlashcards(params: FetchFlashcardsParams): Promise<PaginatedResponse<FlashcardDto>> {
-  const { deckId, limit = 50, offset = 0, source, due, sort, order } = params;
+  const { deckId, limit = 50, offset = 0, source, due, sort, order, tag } = params;
 
   const searchParams = new URLSearchParams();
   searchParams.set("limit", String(limit));
@@ -92,10 +156,68 @@ export async function fetchFlashcards(params: FetchFlashcardsParams): Promise<Pa
   if (due !== undefined) searchParams.set("due", String(due));
   if (sort) searchParams.set("sort", sort);
   if (order) searchParams.set("order", order);
+  if (tag) searchParams.set("tag", tag);
 
   return apiFetch<PaginatedResponse<FlashcardDto>>(`/api/decks/${deckId}/flashcards?${searchParams.toString()}`);
 }
 
+/**
+ * Fetch flashcards due for review, ordered by urgency
+ */
+export interface FetchDueFlashcardsParams {
+  deckId: string;
+  limit?: number;
+  newLimit?: number;
+  /** Only cards labelled with this tag */
+  tag?: string;
+}
+
+export async function fetchDueFlashcards(params: FetchDueFlashcardsParams): Promise<DueFlashcardsResponseDto> {
+  const { deckId, limit = 20, newLimit, tag } = params;
+
+  const searchParams = new URLSearchParams();
+  searchParams.set("limit", String(limit));
+
+  if (newLimit !== undefined) searchParams.set("new_limit", String(newLimit));
+  if (tag) searchParams.set("tag", tag);
+
+  return apiFetch<DueFlashcardsResponseDto>(`/api/decks/${deckId}/due?${searchParams.toString()}`);
+}
+
+/**
+ * Fetch the cross-deck review queue (due cards from all decks, interleaved by priority)
+ */
+export interface FetchReviewQueueParams {
+  limit?: number;
+  deckLimit?: number;
+  newLimit?: number;
+  /** Deck ID -> weight (1-10) */
+  priorities?: Record<string, number>;
+  /** Only cards labelled with this tag */
+  tag?: string;
+}
+
+export async function fetchReviewQueue(params: FetchReviewQueueParams = {}): Promise<ReviewQueueResponseDto> {
+  const { limit = 100, deckLimit, newLimit, priorities, tag } = params;
+
+  const searchParams = new URLSearchParams();
+  searchParams.set("limit", String(limit));
+
+  if (deckLimit !== undefined) searchParams.set("deck_limit", String(deckLimit));
+  if (newLimit !== undefined) searchParams.set("new_limit", String(newLimit));
+  if (tag) searchParams.set("tag", tag);
+  if (priorities && Object.keys(priorities).length > 0) {
+    searchParams.set(
+      "priorities",
+      Object.entries(priorities)
+        .map(([deckId, weight]) => `${deckId}:${weight}`)
+        .join(",")
+    );
+  }
+
+  return apiFetch<ReviewQueueResponseDto>(`/api/review/due?${searchParams.toString()}`);
+}
+
 // ------------------------------------------------------------------
 // Flashcard CRUD Functions
 // ------------------------------------------------------------------
@@ -110,6 +232,19 @@ export async function createFlashcard(deckId: string, data: CreateFlashcardComma
   });
 }
 
+/**
+ * Import basic cards into a deck in one batch
+ */
+export async function bulkImportFlashcards(
+  deckId: string,
+  data: BulkImportFlashcardsCommand
+): Promise<BulkImportFlashcardsResponseDto> {
+  return apiFetch<BulkImportFlashcardsResponseDto>(`/api/decks/${deckId}/import`, {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
 /**
  * Update an existing flashcard
  */
@@ -127,6 +262,132 @@ export async function deleteFlashcard(flashcardId: string): Promise<void> {
   await apiFetch<undefined>(`/api/flashcards/${flashcardId}`, { method: "DELETE" });
 }
 
+/**
+ * Move a flashcard (with the other cards of its note) to another deck
+ */
+export async function moveFlashcard(
+  flashcardId: string,
+  data: MoveFlashcardCommand
+): Promise<TransferFlashcardResponseDto> {
+  return apiFetch<TransferFlashcardResponseDto>(`/api/flashcards/${flashcardId}/move`, {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Copy a flashcard (with the other cards of its note) to a deck
+ */
+export async function copyFlashcard(
+  flashcardId: string,
+  data: CopyFlashcardCommand
+): Promise<TransferFlashcardResponseDto> {
+  return apiFetch<TransferFlashcardResponseDto>(`/api/flashcards/${flashcardId}/copy`, {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Add and/or remove tags of a flashcard (and the other cards of its note)
+ */
+export async function updateFlashcardTags(
+  flashcardId: string,
+  data: UpdateFlashcardTagsCommand
+): Promise<FlashcardDto> {
+  return apiFetch<FlashcardDto>(`/api/flashcards/${flashcardId}/tags`, {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Run an operation (delete, move, copy, reset, suspend, tag) on selected flashcards
+ */
+export async function bulkFlashcardOperation(
+  data: BulkFlashcardOperationCommand
+): Promise<BulkFlashcardOperationResponseDto> {
+  return apiFetch<BulkFlashcardOperationResponseDto>("/api/flashcards/bulk", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+// ------------------------------------------------------------------
+// Tag Functions
+// ------------------------------------------------------------------
+
+/**
+ * Fetch the user's tags with card counts (of all decks, or one deck)
+ */
+export async function fetchTags(deckId?: string): Promise<TagsListResponseDto> {
+  const searchParams = new URLSearchParams();
+
+  if (deckId) searchParams.set("deck_id", deckId);
+
+  return apiFetch<TagsListResponseDto>(`/api/tags?${searchParams.toString()}`);
+}
+
+// ------------------------------------------------------------------
+// Search Functions
+// ------------------------------------------------------------------
+
+/**
+ * Full-text search across all flashcards (or one deck)
+ */
+export interface SearchFlashcardsParams {
+  query: string;
+  deckId?: string;
+  limit?: number;
+  offset?: number;
+  signal?: AbortSignal;
+}
+
+export async function searchFlashcards(
+  params: SearchFlashcardsParams
+): Promise<PaginatedResponse<FlashcardSearchResultDto>> {
+  const { query, deckId, limit = 20, offset = 0, signal } = params;
+
+  const searchParams = new URLSearchParams();
+  searchParams.set("q", query);
+  searchParams.set("limit", String(limit));
+  searchParams.set("offset", String(offset));
+
+  if (deckId) searchParams.set("deck_id", deckId);
+
+  return apiFetch<PaginatedResponse<FlashcardSearchResultDto>>(`/api/search?${searchParams.toString()}`, { signal });
+}
+
+// ------------------------------------------------------------------
+// Study Functions
+// ------------------------------------------------------------------
+
+/**
+ * Submit a spaced repetition review for a flashcard (in the browser's timezone unless given)
+ */
+export async function reviewFlashcard(flashcardId: string, data: ReviewFlashcardCommand): Promise<FlashcardDto> {
+  return apiFetch<FlashcardDto>(`/api/flashcards/${flashcardId}/review`, {
+    method: "POST",
+    body: JSON.stringify({ tz: Intl.DateTimeFormat().resolvedOptions().timeZone, ...data }),
+  });
+}
+
+/**
+ * Fetch the review history of a flashcard (newest first)
+ */
+export async function fetchFlashcardReviews(
+  flashcardId: string,
+  params: { limit?: number; offset?: number } = {}
+): Promise<PaginatedResponse<ReviewLogDto>> {
+  const { limit = 50, offset = 0 } = params;
+
+  const searchParams = new URLSearchParams();
+  searchParams.set("limit", String(limit));
+  searchParams.set("offset", String(offset));
+
+  return apiFetch<PaginatedResponse<ReviewLogDto>>(`/api/flashcards/${flashcardId}/reviews?${searchParams.toString()}`);
+}
+
 // ------------------------------------------------------------------
 // AI Generation Functions
 // ------------------------------------------------------------------
@@ -144,6 +405,140 @@ export async function generateFlashcards(
   });
 }
 
+/**
+ * Generate flashcard suggestions using AI, receiving each suggestion as soon as it is ready.
+ * Resolves with the complete result once the generation record is saved.
+ */
+export async function streamGenerateFlashcards(
+  deckId: string,
+  data: GenerateFlashcardsCommand,
+  onSuggestion: (suggestion: GenerationStreamSuggestionDto) => void,
+  signal?: AbortSignal
+): Promise<GenerateFlashcardsResponseDto> {
+  const response = await fetch(`/api/decks/${deckId}/generate/stream`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+    },
+    body: JSON.stringify(data),
+    signal,
+  });
+
+  // Errors before generation started are returned as regular JSON
+  if (!response.ok || !response.body) {
+    const errorData: ApiError = await response.json().catch(() => ({
+      error: {
+        code: `HTTP_${response.status}`,
+        message: response.statusText || "An error occurred",
+      },
+    }));
+
+    throw new ApiRequestError(errorData.error.message, errorData.error.code, response.status, errorData.error.details);
+  }
+
+  for await (const event of readSseEvents(response.body)) {
+    switch (event.event) {
+      case "suggestion":
+        onSuggestion(JSON.parse(event.data) as GenerationStreamSuggestionDto);
+        break;
+      case "done":
+        return JSON.parse(event.data) as GenerateFlashcardsResponseDto;
+      case "error": {
+        const errorData = JSON.parse(event.data) as ApiError;
+        throw new ApiRequestError(errorData.error.message, errorData.error.code, 422, errorData.error.details);
+      }
+    }
+  }
+
+  throw new ApiRequestError("Generation was interrupted", "STREAM_INTERRUPTED", response.status);
+}
+
+/**
+ * POST a multipart form (file uploads) and parse the JSON response
+ */
+async function postFormData<T>(url: string, formData: FormData): Promise<T> {
+  // No explicit Content-Type - the browser sets the multipart boundary
+  const response = await fetch(url, {
+    method: "POST",
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorData: ApiError = await response.json().catch(() => ({
+      error: {
+        code: `HTTP_${response.status}`,
+        message: response.statusText || "An error occurred",
+      },
+    }));
+
+    throw new ApiRequestError(errorData.error.message, errorData.error.code, response.status, errorData.error.details);
+  }
+
+  return response.json();
+}
+
+/**
+ * Extract source text from an uploaded document (PDF, DOCX, EPUB, Markdown, HTML, TXT)
+ */
+export async function extractSourceText(file: File): Promise<ExtractTextResponseDto> {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  return postFormData<ExtractTextResponseDto>("/api/sources/extract", formData);
+}
+
+/**
+ * Read an Anki package (.apkg) without importing it
+ */
+export async function previewAnkiImport(file: File): Promise<AnkiImportPreviewDto> {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  return postFormData<AnkiImportPreviewDto>("/api/import/anki?preview=true", formData);
+}
+
+/**
+ * Import decks of an Anki package (.apkg); all decks when no IDs are given
+ */
+export async function importAnkiPackage(file: File, deckIds?: string[]): Promise<AnkiImportResponseDto> {
+  const formData = new FormData();
+  formData.append("file", file);
+  if (deckIds) {
+    formData.append("deck_ids", JSON.stringify(deckIds));
+  }
+
+  return postFormData<AnkiImportResponseDto>("/api/import/anki", formData);
+}
+
+/**
+ * URL downloading a deck export (the browser saves the file as an attachment)
+ */
+export function getDeckExportUrl(deckId: string, format: DeckExportFormat): string {
+  return `/api/decks/${deckId}/export?format=${format}`;
+}
+
+/**
+ * URL downloading a backup of the whole account (the browser saves the file as an attachment)
+ */
+export function getAccountBackupUrl(): string {
+  return "/api/account/backup";
+}
+
+/**
+ * Restore an account backup file into the current account
+ */
+export async function restoreAccountBackup(
+  file: File,
+  conflictStrategy: BackupConflictStrategy
+): Promise<RestoreAccountBackupResponseDto> {
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("conflict_strategy", conflictStrategy);
+
+  return postFormData<RestoreAccountBackupResponseDto>("/api/account/restore", formData);
+}
+
 /**
  * Accept and save selected AI-generated flashcards
  */
@@ -156,3 +551,83 @@ export async function acceptFlashcards(
     body: JSON.stringify(data),
   });
 }
+
+/**
+ * Reject pending suggestions of a generation (all of them when no IDs are given)
+ */
+export async function rejectSuggestions(
+  generationId: string,
+  data: RejectSuggestionsCommand = {}
+): Promise<RejectSuggestionsResponseDto> {
+  return apiFetch<RejectSuggestionsResponseDto>(`/api/generations/${generationId}/reject`, {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Rewrite a single suggestion with AI (regenerate, shorten, harden, split, add example)
+ */
+export async function refineSuggestion(
+  generationId: string,
+  suggestionId: string,
+  data: RefineSuggestionCommand
+): Promise<RefineSuggestionResponseDto> {
+  return apiFetch<RefineSuggestionResponseDto>(`/api/generations/${generationId}/suggestions/${suggestionId}/refine`, {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Fetch generations with pending suggestions, optionally only for a deck
+ */
+export async function fetchUnfinishedGenerations(deckId?: string): Promise<UnfinishedGenerationsResponseDto> {
+  const searchParams = new URLSearchParams();
+  if (deckId) searchParams.set("deck_id", deckId);
+
+  return apiFetch<UnfinishedGenerationsResponseDto>(`/api/generations/unfinished?${searchParams.toString()}`);
+}
+
+// ------------------------------------------------------------------
+// Generation History Functions
+// ------------------------------------------------------------------
+
+/**
+ * Fetch the generation history with pagination and optional filters
+ */
+export interface FetchGenerationsParams {
+  limit?: number;
+  offset?: number;
+  deckId?: string;
+  model?: string;
+}
+
+export async function fetchGenerations(
+  params: FetchGenerationsParams = {}
+): Promise<PaginatedResponse<GenerationHistoryItemDto>> {
+  const { limit = 20, offset = 0, deckId, model } = params;
+
+  const searchParams = new URLSearchParams();
+  searchParams.set("limit", String(limit));
+  searchParams.set("offset", String(offset));
+
+  if (deckId) searchParams.set("deck_id", deckId);
+  if (model) searchParams.set("model", model);
+
+  return apiFetch<PaginatedResponse<GenerationHistoryItemDto>>(`/api/generations?${searchParams.toString()}`);
+}
+
+/**
+ * Fetch a single generation with its outcome, chunk runs and accepted flashcards
+ */
+export async function fetchGeneration(generationId: string): Promise<GenerationDetailDto> {
+  return apiFetch<GenerationDetailDto>(`/api/generations/${generationId}`);
+}
+
+/**
+ * Fetch acceptance metrics of AI suggestions per model
+ */
+export async function fetchModelAcceptanceStats(): Promise<ModelAcceptanceStatsResponseDto> {
+  return apiFetch<ModelAcceptanceStatsResponseDto>("/api/generations/metrics");
+}
@@ -0,0 +1,369 @@
+/**
+ * Testy jednostkowe dla account-backup.service.ts
+ * Testują odczyt pliku kopii zapasowej (wersje, walidacja) i plan przywracania: mapowanie ID oraz konflikty nazw talii
+ */
+
+import { describe, it, expect } from "vitest";
+import { AccountBackupError, parseAccountBackup, planAccountRestore } from "../account-backup.service";
+import type { AccountBackupV3, BackupFlashcardV2 } from "../../../types";
+
+// ------------------------------------------------------------------
+// Test Fixtures & Helpers
+// ------------------------------------------------------------------
+
+const USER_ID = "00000000-0000-4000-8000-0000000000aa";
+const DECK_ID = "00000000-0000-4000-8000-000000000001";
+const NOTE_ID = "00000000-0000-4000-8000-000000000002";
+const SUB_DECK_ID = "00000000-0000-4000-8000-000000000004";
+const OTHER_DECK_ID = "00000000-0000-4000-8000-000000000005";
+const GENERATION_ID = "00000000-0000-4000-8000-000000000003";
+const CARD_IDS = ["00000000-0000-4000-8000-000000000011", "00000000-0000-4000-8000-000000000012"];
+const TIMESTAMP = "2026-02-01T10:00:00.123456+00:00";
+
+function createCard(overrides: Partial<BackupFlashcardV2> = {}): BackupFlashcardV2 {
+  return {
+    id: CARD_IDS[0],
+    deck_id: DECK_ID,
+    front: "perro",
+    back: "dog",
+    card_type: "basic",
+    reversed: false,
+    cloze_index: null,
+    note_id: NOTE_ID,
+    source: "ai-full",
+    generation_id: GENERATION_ID,
+    ease_factor: 2.36,
+    interval: 12,
+    repetitions: 3,
+    next_review_at: TIMESTAMP,
+    buried_until: null,
+    suspended: false,
+    tags: ["animals"],
+    created_at: TIMESTAMP,
+    updated_at: TIMESTAMP,
+    ...overrides,
+  };
+}
+
+function createBackup(): AccountBackupV3 {
+  return {
+    format: "10xcards-backup",
+    version: 3,
+    exported_at: "2026-03-01T12:00:00.000Z",
+    decks: [
+      {
+        id: DECK_ID,
+        parent_id: null,
+        name: "Spanish",
+        description: null,
+        created_at: TIMESTAMP,
+        updated_at: TIMESTAMP,
+      },
+    ],
+    flashcards: [createCard(), createCard({ id: CARD_IDS[1], front: "perro", back: "dog", reversed: true })],
+    generations: [
+      {
+        id: GENERATION_ID,
+        deck_id: DECK_ID,
+        model: "openai/gpt-4o-mini",
+        card_type: "basic",
+        requested_count: 10,
+        generated_count: 1,
+        generation_duration: 1200,
+        source_text_hash: "abc",
+        source_text_length: 1500,
+        created_at: TIMESTAMP,
+        chunks: [],
+        suggestions: [
+          {
+            position: 0,
+            front: "perro",
+            back: "dog",
+            status: "accepted",
+            refinement_count: 0,
+            flashcard_id: CARD_IDS[0],
+            tags: ["animals"],
+            created_at: TIMESTAMP,
+            reviewed_at: TIMESTAMP,
+          },
+        ],
+      },
+    ],
+    review_logs: [
+      {
+        id: "00000000-0000-4000-8000-000000000021",
+        flashcard_id: CARD_IDS[0],
+        deck_id: DECK_ID,
+        quality: 4,
+        review_duration_ms: 3000,
+        previous_interval: 6,
+        previous_ease_factor: 2.36,
+        previous_repetitions: 2,
+        new_interval: 12,
+        new_ease_factor: 2.36,
+        new_repetitions: 3,
+        next_review_at: TIMESTAMP,
+        reviewed_at: TIMESTAMP,
+      },
+    ],
+  };
+}
+
+function createIds() {
+  let count = 0;
+  return () => `new-${++count}`;
+}
+
+const EMPTY_ACCOUNT = { decks: [], flashcards: [], generationIds: new Set<string>() };
+
+// ------------------------------------------------------------------
+// parseAccountBackup
+// ------------------------------------------------------------------
+
+describe("parseAccountBackup", () => {
+  it("reads a valid backup", () => {
+    const backup = createBackup();
+
+    expect(parseAccountBackup(JSON.stringify(backup))).toEqual(backup);
+  });
+
+  it("rejects files that are not backups", () => {
+    expect(() => parseAccountBackup("not json")).toThrow(AccountBackupError);
+    expect(() => parseAccountBackup(JSON.stringify({ format: "10xcards-deck", version: 1 }))).toThrow(
+      "The file is not a 10xCards account backup"
+    );
+  });
+
+  it("reports backups of a newer version instead of validation errors", () => {
+    const text = JSON.stringify({ format: "10xcards-backup", version: 4, decks: "changed" });
+
+    expect(() => parseAccountBackup(text)).toThrow(expect.objectContaining({ errorCode: "UNSUPPORTED_VERSION" }));
+  });
+
+  it("upgrades version 1 backups", () => {
+    const backup = createBackup();
+    const v1 = {
+      ...backup,
+      version: 1,
+      flashcards: backup.flashcards.map((card) =>
+        Object.fromEntries(Object.entries(card).filter(([key]) => key !== "suspended" && key !== "tags"))
+      ),
+    };
+
+    const parsed = parseAccountBackup(JSON.stringify(v1));
+
+    expect(parsed.version).toBe(3);
+    expect(parsed.flashcards[0]).toMatchObject({ id: CARD_IDS[0], suspended: false, tags: [] });
+    expect(parsed.generations[0].suggestions[0].tags).toEqual([]);
+  });
+
+  it("upgrades version 2 backups", () => {
+    const backup = createBackup();
+    const v2 = {
+      ...backup,
+      version: 2,
+      decks: backup.decks.map((deck) =>
+        Object.fromEntries(Object.entries(deck).filter(([key]) => key !== "parent_id"))
+      ),
+      generations: backup.generations.map((generation) => ({
+        ...generation,
+        suggestions: generation.suggestions.map((suggestion) =>
+          Object.fromEntries(Object.entries(suggestion).filter(([key]) => key !== "tags"))
+        ),
+      })),
+    };
+
+    const parsed = parseAccountBackup(JSON.stringify(v2));
+
+    expect(parsed.version).toBe(3);
+    expect(parsed.decks[0].parent_id).toBeNull();
+    expect(parsed.flashcards[0].tags).toEqual(["animals"]);
+    expect(parsed.generations[0].suggestions[0]).toMatchObject({ flashcard_id: CARD_IDS[0], tags: [] });
+  });
+
+  it("rejects backups whose deck parents form a cycle", () => {
+    const backup = createBackup();
+    backup.decks = [
+      { ...backup.decks[0], parent_id: SUB_DECK_ID },
+      { ...backup.decks[0], id: SUB_DECK_ID, name: "Verbs", parent_id: DECK_ID },
+    ];
+
+    expect(() => parseAccountBackup(JSON.stringify(backup))).toThrow(
+      expect.objectContaining({ errorCode: "INVALID_BACKUP" })
+    );
+  });
+
+  it("rejects damaged backups", () => {
+    const backup = createBackup();
+    backup.flashcards[0].interval = -1;
+
+    expect(() => parseAccountBackup(JSON.stringify(backup))).toThrow(
+      expect.objectContaining({ errorCode: "INVALID_BACKUP" })
+    );
+  });
+});
+
+// ------------------------------------------------------------------
+// planAccountRestore
+// ------------------------------------------------------------------
+
+describe("planAccountRestore", () => {
+  it("remaps every ID and reference into an empty account", () => {
+    const plan = planAccountRestore(createBackup(), EMPTY_ACCOUNT, {
+      userId: USER_ID,
+      strategy: "rename",
+      createId: createIds(),
+    });
+
+    expect(plan.decks).toEqual([expect.objectContaining({ id: "new-1", name: "Spanish", user_id: USER_ID })]);
+    expect(plan.generations).toEqual([expect.objectContaining({ id: "new-2", deck_id: "new-1" })]);
+    expect(plan.flashcards).toEqual([
+      expect.objectContaining({ id: "new-4", deck_id: "new-1", note_id: "new-3", generation_id: "new-2" }),
+      expect.objectContaining({ id: "new-5", note_id: "new-3", reversed: true, interval: 12, repetitions: 3 }),
+    ]);
+    expect(plan.suggestions).toEqual([
+      expect.objectContaining({ generation_id: "new-2", flashcard_id: "new-4", tags: ["animals"] }),
+    ]);
+    expect(plan.reviewLogs).toEqual([
+      expect.objectContaining({ id: "new-6", flashcard_id: "new-4", deck_id: "new-1" }),
+    ]);
+    expect(plan.restoredDecks).toEqual([
+      { id: "new-1", name: "Spanish", original_name: "Spanish", resolution: "created", flashcard_count: 2 },
+    ]);
+  });
+
+  it("nests restored decks under their restored parents once all decks are inserted", () => {
+    const backup = createBackup();
+    const subDeck = { ...backup.decks[0], id: SUB_DECK_ID, name: "Verbs" };
+    backup.decks = [{ ...subDeck, parent_id: DECK_ID }, backup.decks[0]];
+
+    const plan = planAccountRestore(backup, EMPTY_ACCOUNT, {
+      userId: USER_ID,
+      strategy: "rename",
+      createId: createIds(),
+    });
+
+    expect(plan.decks.map((deck) => [deck.name, deck.parent_id])).toEqual([
+      ["Spanish", undefined],
+      ["Verbs", undefined],
+    ]);
+    expect(plan.deckParents).toEqual([{ id: "new-2", parent_id: "new-1" }]);
+  });
+
+  it("nests sub-decks of skipped and merged decks under the existing deck", () => {
+    const backup = createBackup();
+    backup.decks.push({ ...backup.decks[0], id: SUB_DECK_ID, name: "Verbs", parent_id: DECK_ID });
+    const existing = { ...EMPTY_ACCOUNT, decks: [{ id: "existing", parent_id: null, name: "Spanish" }] };
+
+    const skipped = planAccountRestore(backup, existing, { userId: USER_ID, strategy: "skip", createId: createIds() });
+    const merged = planAccountRestore(backup, existing, { userId: USER_ID, strategy: "merge", createId: createIds() });
+
+    expect(skipped.decks).toEqual([expect.objectContaining({ name: "Verbs" })]);
+    expect(skipped.deckParents).toEqual([{ id: "new-1", parent_id: "existing" }]);
+    expect(merged.deckParents).toEqual([{ id: "new-1", parent_id: "existing" }]);
+  });
+
+  it("matches decks by name under the same parent, not by name alone", () => {
+    const backup = createBackup();
+    backup.decks.push(
+      { ...backup.decks[0], id: SUB_DECK_ID, name: "Verbs", parent_id: DECK_ID },
+      { ...backup.decks[0], id: OTHER_DECK_ID, name: "Verbs", parent_id: null }
+    );
+    backup.flashcards[1].deck_id = SUB_DECK_ID;
+    const existing = {
+      ...EMPTY_ACCOUNT,
+      decks: [
+        { id: "spanish", parent_id: null, name: "Spanish" },
+        { id: "spanish-verbs", parent_id: "spanish", name: "Verbs" },
+        { id: "french", parent_id: null, name: "French" },
+        { id: "french-verbs", parent_id: "french", name: "Verbs" },
+      ],
+    };
+
+    const merged = planAccountRestore(backup, existing, { userId: USER_ID, strategy: "merge", createId: createIds() });
+    const renamed = planAccountRestore(backup, existing, {
+      userId: USER_ID,
+      strategy: "rename",
+      createId: createIds(),
+    });
+
+    expect(merged.restoredDecks).toEqual([
+      expect.objectContaining({ id: "spanish", resolution: "merged" }),
+      expect.objectContaining({ id: "spanish-verbs", resolution: "merged" }),
+      expect.objectContaining({ name: "Verbs", resolution: "created" }),
+    ]);
+    expect(merged.flashcards[1].deck_id).toBe("spanish-verbs");
+    expect(merged.deckParents).toEqual([]);
+    // The renamed Spanish deck is new, so its sub-deck cannot conflict with existing decks
+    expect(renamed.restoredDecks.map((deck) => [deck.name, deck.resolution])).toEqual([
+      ["Spanish (restored)", "renamed"],
+      ["Verbs", "created"],
+      ["Verbs", "created"],
+    ]);
+  });
+
+  it("renames decks whose name is taken", () => {
+    const existing = {
+      ...EMPTY_ACCOUNT,
+      decks: [
+        { id: "existing", parent_id: null, name: "Spanish" },
+        { id: "restored-before", parent_id: null, name: "Spanish (restored)" },
+      ],
+    };
+    const plan = planAccountRestore(createBackup(), existing, { userId: USER_ID, strategy: "rename" });
+
+    expect(plan.decks[0].name).toBe("Spanish (restored 2)");
+    expect(plan.restoredDecks[0].resolution).toBe("renamed");
+  });
+
+  it("skips decks whose name is taken with their flashcards and review logs", () => {
+    const existing = { ...EMPTY_ACCOUNT, decks: [{ id: "existing", parent_id: null, name: "Spanish" }] };
+    const plan = planAccountRestore(createBackup(), existing, { userId: USER_ID, strategy: "skip" });
+
+    expect(plan.decks).toEqual([]);
+    expect(plan.flashcards).toEqual([]);
+    expect(plan.generations[0].deck_id).toBeNull();
+    expect(plan.suggestions[0].flashcard_id).toBeNull();
+    expect(plan.skipped).toEqual({ decks: 1, flashcards: 2, generations: 0, review_logs: 1 });
+  });
+
+  it("merges into the existing deck, skipping cards it already has", () => {
+    const existing = {
+      ...EMPTY_ACCOUNT,
+      decks: [{ id: "existing", parent_id: null, name: "Spanish" }],
+      flashcards: [
+        {
+          deck_id: "existing",
+          front: "perro",
+          back: "dog",
+          card_type: "basic" as const,
+          reversed: false,
+          cloze_index: null,
+        },
+      ],
+    };
+    const plan = planAccountRestore(createBackup(), existing, {
+      userId: USER_ID,
+      strategy: "merge",
+      createId: createIds(),
+    });
+
+    expect(plan.decks).toEqual([]);
+    expect(plan.flashcards).toEqual([expect.objectContaining({ deck_id: "existing", reversed: true })]);
+    expect(plan.reviewLogs).toEqual([]);
+    expect(plan.restoredDecks).toEqual([
+      { id: "existing", name: "Spanish", original_name: "Spanish", resolution: "merged", flashcard_count: 1 },
+    ]);
+    expect(plan.skipped).toMatchObject({ flashcards: 1, review_logs: 1 });
+  });
+
+  it("reuses generations that still exist in the account", () => {
+    const existing = { ...EMPTY_ACCOUNT, generationIds: new Set([GENERATION_ID]) };
+    const plan = planAccountRestore(createBackup(), existing, { userId: USER_ID, strategy: "rename" });
+
+    expect(plan.generations).toEqual([]);
+    expect(plan.suggestions).toEqual([]);
+    expect(plan.flashcards[0].generation_id).toBe(GENERATION_ID);
+    expect(plan.skipped.generations).toBe(1);
+  });
+});
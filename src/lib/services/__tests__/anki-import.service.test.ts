@@ -0,0 +1,255 @@
+/**
+ * Testy jednostkowe dla anki-import.service.ts
+ * Testują odczyt paczek .apkg (talie, notatki basic/cloze, harmonogram SM-2) i podgląd importu
+ */
+
+import { describe, it, expect } from "vitest";
+import { zipSync, strToU8 } from "fflate";
+import initSqlJs from "sql.js";
+import {
+  AnkiImportError,
+  buildAnkiImportPreview,
+  mapAnkiSchedule,
+  MAX_COLLECTION_BYTES,
+  readAnkiPackage,
+} from "../anki-import.service";
+
+// ------------------------------------------------------------------
+// Test Fixtures & Helpers
+// ------------------------------------------------------------------
+
+const NOW = new Date("2026-03-01T12:00:00.000Z");
+/** 2026-01-01T00:00:00Z */
+const COLLECTION_CREATED_AT = 1767225600;
+
+interface FixtureCard {
+  nid: number;
+  did: number;
+  ord: number;
+  type?: number;
+  queue?: number;
+  due?: number;
+  ivl?: number;
+  factor?: number;
+  reps?: number;
+  lapses?: number;
+}
+
+async function createApkg(
+  notes: { id: number; mid: number; fields: string[] }[],
+  cards: FixtureCard[],
+  media: Record<string, string> = {}
+): Promise<Uint8Array> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+
+  db.run("CREATE TABLE col (id integer primary key, crt integer, models text, decks text)");
+  db.run("CREATE TABLE notes (id integer primary key, mid integer, flds text)");
+  db.run(
+    "CREATE TABLE cards (id integer primary key, nid integer, did integer, odid integer, ord integer, type integer, queue integer, due integer, odue integer, ivl integer, factor integer, reps integer, lapses integer)"
+  );
+  db.run("INSERT INTO col VALUES (1, ?, ?, ?)", [
+    COLLECTION_CREATED_AT,
+    JSON.stringify({ "100": { name: "Basic (and reversed card)", type: 0 }, "200": { name: "Cloze", type: 1 } }),
+    JSON.stringify({ "1": { name: "Default" }, "10": { name: "Languages::Spanish" } }),
+  ]);
+
+  for (const note of notes) {
+    db.run("INSERT INTO notes VALUES (?, ?, ?)", [note.id, note.mid, note.fields.join("\x1f")]);
+  }
+
+  cards.forEach((card, index) => {
+    db.run("INSERT INTO cards VALUES (?, ?, ?, 0, ?, ?, ?, ?, 0, ?, ?, ?, ?)", [
+      index + 1,
+      card.nid,
+      card.did,
+      card.ord,
+      card.type ?? 0,
+      card.queue ?? card.type ?? 0,
+      card.due ?? 0,
+      card.ivl ?? 0,
+      card.factor ?? 0,
+      card.reps ?? 0,
+      card.lapses ?? 0,
+    ]);
+  });
+
+  const collection = db.export();
+  db.close();
+
+  const files: Record<string, Uint8Array> = {
+    "collection.anki2": collection,
+    media: strToU8(JSON.stringify(Object.fromEntries(Object.keys(media).map((name, i) => [String(i), name])))),
+  };
+  Object.values(media).forEach((content, i) => {
+    files[String(i)] = strToU8(content);
+  });
+
+  return zipSync(files);
+}
+
+// ------------------------------------------------------------------
+// mapAnkiSchedule
+// ------------------------------------------------------------------
+
+describe("mapAnkiSchedule", () => {
+  const base = { due: 0, ivl: 0, factor: 0, reps: 0, lapses: 0 };
+
+  it("makes new cards due immediately with the default ease", () => {
+    expect(mapAnkiSchedule({ ...base, type: 0, due: 42 }, COLLECTION_CREATED_AT, NOW)).toEqual({
+      ease_factor: 2.5,
+      interval: 0,
+      repetitions: 0,
+      next_review_at: NOW.toISOString(),
+    });
+  });
+
+  it("keeps interval, ease and day-based due date of review cards", () => {
+    expect(
+      mapAnkiSchedule({ type: 2, due: 70, ivl: 21, factor: 2350, reps: 8, lapses: 1 }, COLLECTION_CREATED_AT, NOW)
+    ).toEqual({
+      ease_factor: 2.35,
+      interval: 21,
+      repetitions: 7,
+      next_review_at: "2026-03-12T00:00:00.000Z",
+    });
+  });
+
+  it("resets repetitions of learning cards and reads their due date as a timestamp", () => {
+    const due = Math.floor(NOW.getTime() / 1000) + 600;
+
+    expect(
+      mapAnkiSchedule({ type: 1, due, ivl: 0, factor: 1100, reps: 1, lapses: 0 }, COLLECTION_CREATED_AT, NOW)
+    ).toEqual({
+      ease_factor: 1.3,
+      interval: 0,
+      repetitions: 0,
+      next_review_at: "2026-03-01T12:10:00.000Z",
+    });
+  });
+});
+
+// ------------------------------------------------------------------
+// readAnkiPackage / buildAnkiImportPreview
+// ------------------------------------------------------------------
+
+describe("readAnkiPackage", () => {
+  it("maps basic notes with both templates to sibling forward and reversed cards", async () => {
+    const apkg = await createApkg(
+      [{ id: 1, mid: 100, fields: ["<b>perro</b>", "dog<br>(animal)"] }],
+      [
+        { nid: 1, did: 10, ord: 0, type: 2, due: 70, ivl: 10, factor: 2500, reps: 4 },
+        { nid: 1, did: 10, ord: 1 },
+      ]
+    );
+
+    const pkg = await readAnkiPackage(apkg, NOW);
+
+    expect(pkg.decks).toHaveLength(1);
+    expect(pkg.decks[0]).toMatchObject({ ankiId: "10", name: "Languages::Spanish" });
+    expect(pkg.decks[0].cards).toEqual([
+      expect.objectContaining({
+        ankiNoteId: "1",
+        front: "perro",
+        back: "dog\n(animal)",
+        card_type: "basic",
+        reversed: false,
+        interval: 10,
+        repetitions: 4,
+        isNew: false,
+      }),
+      expect.objectContaining({ ankiNoteId: "1", reversed: true, repetitions: 0, isNew: true }),
+    ]);
+  });
+
+  it("maps cloze notes to one card per deletion and skips unsupported cards", async () => {
+    const apkg = await createApkg(
+      [
+        { id: 1, mid: 200, fields: ["{{c1::Warsaw}} is the capital of {{c2::Poland}}", "Geography"] },
+        { id: 2, mid: 100, fields: ["Empty back", ""] },
+      ],
+      [
+        { nid: 1, did: 1, ord: 0 },
+        { nid: 1, did: 1, ord: 1 },
+        { nid: 1, did: 1, ord: 4 },
+        { nid: 2, did: 1, ord: 0 },
+      ]
+    );
+
+    const pkg = await readAnkiPackage(apkg, NOW);
+
+    expect(pkg.decks[0].cards.map((card) => [card.card_type, card.cloze_index])).toEqual([
+      ["cloze", 1],
+      ["cloze", 2],
+    ]);
+    expect(pkg.skippedCount).toBe(2);
+  });
+
+  it("warns about media, which is not imported", async () => {
+    const apkg = await createApkg(
+      [{ id: 1, mid: 100, fields: ['Cat <img src="cat.jpg">', "[sound:cat.mp3]kot"] }],
+      [{ nid: 1, did: 1, ord: 0 }],
+      { "cat.jpg": "jpg", "cat.mp3": "mp3" }
+    );
+
+    const preview = buildAnkiImportPreview(await readAnkiPackage(apkg, NOW), "animals.apkg");
+
+    expect(preview).toMatchObject({
+      file_name: "animals.apkg",
+      total_cards: 1,
+      media_count: 2,
+      decks: [{ anki_deck_id: "1", name: "Default", card_count: 1, new_count: 1, scheduled_count: 0 }],
+    });
+    expect(preview.decks[0].samples[0]).toMatchObject({ front: "Cat", back: "kot" });
+    expect(preview.warnings[0]).toMatch(/images or audio/);
+  });
+
+  it("keeps cards suspended or buried in Anki out of the study queue", async () => {
+    const apkg = await createApkg(
+      [
+        { id: 1, mid: 100, fields: ["uno", "one"] },
+        { id: 2, mid: 100, fields: ["dos", "two"] },
+        { id: 3, mid: 100, fields: ["tres", "three"] },
+      ],
+      [
+        { nid: 1, did: 1, ord: 0, type: 2, queue: -1, due: 70, ivl: 10, factor: 2500, reps: 4 },
+        { nid: 2, did: 1, ord: 0, type: 2, queue: -2, due: 70, ivl: 10, factor: 2500, reps: 4 },
+        { nid: 3, did: 1, ord: 0 },
+      ]
+    );
+
+    const pkg = await readAnkiPackage(apkg, NOW);
+
+    expect(pkg.decks[0].cards.map((card) => [card.front, card.suspended, card.buried])).toEqual([
+      ["uno", true, false],
+      ["dos", false, true],
+      ["tres", false, false],
+    ]);
+    expect(pkg.warnings).toContainEqual(expect.stringMatching(/1 card\(s\) are suspended/));
+  });
+
+  it("rejects packages whose collection unpacks to more than the limit", async () => {
+    const apkg = zipSync({ "collection.anki2": new Uint8Array(16) });
+    // Declare a larger uncompressed size in the central directory, as a ZIP bomb would
+    const view = new DataView(apkg.buffer);
+    const centralDirectory = apkg.findIndex((_, i) => i < apkg.length - 4 && view.getUint32(i, true) === 0x02014b50);
+    view.setUint32(centralDirectory + 24, MAX_COLLECTION_BYTES + 1, true);
+
+    await expect(readAnkiPackage(apkg, NOW)).rejects.toMatchObject({ errorCode: "PACKAGE_TOO_LARGE" });
+  });
+
+  it("rejects files that are not Anki packages", async () => {
+    await expect(readAnkiPackage(strToU8("not a zip"), NOW)).rejects.toMatchObject({
+      errorCode: "INVALID_PACKAGE",
+    });
+    await expect(readAnkiPackage(zipSync({ "notes.txt": strToU8("hello") }), NOW)).rejects.toBeInstanceOf(
+      AnkiImportError
+    );
+  });
+
+  it("rejects packages in the latest Anki format", async () => {
+    const apkg = zipSync({ "collection.anki21b": new Uint8Array([1, 2, 3]), "collection.anki2": new Uint8Array() });
+
+    await expect(readAnkiPackage(apkg, NOW)).rejects.toMatchObject({ errorCode: "UNSUPPORTED_VERSION" });
+  });
+});
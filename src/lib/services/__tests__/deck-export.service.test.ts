@@ -0,0 +1,164 @@
+/**
+ * Testy jednostkowe dla deck-export.service.ts i anki-export.service.ts
+ * Testują eksport talii do CSV/TSV, nazwy plików oraz paczki .apkg (odczyt zwrotny przez import)
+ */
+
+import { describe, it, expect } from "vitest";
+import { unzipSync } from "fflate";
+import initSqlJs from "sql.js";
+import { EXPORT_COLUMNS, getExportFileName, toDelimitedText } from "../deck-export.service";
+import { buildAnkiPackage } from "../anki-export.service";
+import { readAnkiPackage } from "../anki-import.service";
+import type { ExportedFlashcardDto } from "../../../types";
+
+// ------------------------------------------------------------------
+// Test Fixtures & Helpers
+// ------------------------------------------------------------------
+
+const NOW = new Date("2026-03-01T12:00:00.000Z");
+
+function createCard(overrides: Partial<ExportedFlashcardDto> = {}): ExportedFlashcardDto {
+  return {
+    front: "Question",
+    back: "Answer",
+    card_type: "basic",
+    reversed: false,
+    cloze_index: null,
+    note_id: null,
+    tags: [],
+    source: "manual",
+    generation_id: null,
+    suspended: false,
+    ease_factor: 2.5,
+    interval: 0,
+    repetitions: 0,
+    next_review_at: NOW.toISOString(),
+    created_at: "2026-02-01T10:00:00.000Z",
+    updated_at: "2026-02-01T10:00:00.000Z",
+    ...overrides,
+  };
+}
+
+// ------------------------------------------------------------------
+// toDelimitedText / getExportFileName
+// ------------------------------------------------------------------
+
+describe("toDelimitedText", () => {
+  it("writes a header row and one row per card", () => {
+    const csv = toDelimitedText([createCard({ source: "ai-full", generation_id: "gen-1", tags: ["verbs"] })], ",");
+    const [header, row] = csv.split("\r\n");
+
+    expect(header).toBe(EXPORT_COLUMNS.join(","));
+    expect(row).toBe(
+      "Question,Answer,basic,false,,,verbs,ai-full,gen-1,false,2.5,0,0,2026-03-01T12:00:00.000Z,2026-02-01T10:00:00.000Z,2026-02-01T10:00:00.000Z"
+    );
+  });
+
+  it("writes tags as a comma-separated list and the suspended flag", () => {
+    const row = toDelimitedText([createCard({ tags: ["verbs", "irregular"], suspended: true })], ",").split("\r\n")[1];
+
+    expect(row).toContain(',"verbs,irregular",manual,,true,');
+  });
+
+  it("quotes values with delimiters, quotes and line breaks", () => {
+    const card = createCard({ front: 'Say "hi", please', back: "Line 1\nLine 2" });
+
+    expect(toDelimitedText([card], ",").split("\r\n")[1]).toMatch(/^"Say ""hi"", please","Line 1\nLine 2",/);
+    expect(toDelimitedText([card], "\t").split("\r\n")[1]).toMatch(/^"Say ""hi"", please"\t"Line 1\nLine 2"\t/);
+  });
+});
+
+describe("getExportFileName", () => {
+  it("builds a file name from the deck name", () => {
+    expect(getExportFileName("Hiszpański: czasowniki!", "apkg")).toBe("hiszpanski-czasowniki.apkg");
+    expect(getExportFileName("???", "csv")).toBe("deck.csv");
+  });
+});
+
+// ------------------------------------------------------------------
+// buildAnkiPackage
+// ------------------------------------------------------------------
+
+describe("buildAnkiPackage", () => {
+  it("exports notes, siblings and schedules that the Anki import reads back", async () => {
+    const apkg = await buildAnkiPackage(
+      {
+        deck: { name: "Languages::Spanish", description: null },
+        flashcards: [
+          createCard({
+            front: "perro",
+            back: "dog <animal>",
+            note_id: "note-1",
+            ease_factor: 2.36,
+            interval: 12,
+            repetitions: 3,
+            next_review_at: "2026-03-10T08:00:00.000Z",
+          }),
+          createCard({ front: "perro", back: "dog <animal>", note_id: "note-1", reversed: true }),
+          createCard({
+            front: "{{c1::Madrid}} is in {{c2::Spain}}",
+            back: "",
+            card_type: "cloze",
+            note_id: "note-2",
+            cloze_index: 1,
+          }),
+          createCard({
+            front: "{{c1::Madrid}} is in {{c2::Spain}}",
+            back: "",
+            card_type: "cloze",
+            note_id: "note-2",
+            cloze_index: 2,
+          }),
+        ],
+      },
+      NOW
+    );
+
+    const pkg = await readAnkiPackage(apkg, NOW);
+
+    expect(pkg.skippedCount).toBe(0);
+    expect(pkg.decks).toHaveLength(1);
+    expect(pkg.decks[0].name).toBe("Languages::Spanish");
+
+    const [forward, reversed, cloze1, cloze2] = pkg.decks[0].cards;
+    expect(forward).toMatchObject({
+      front: "perro",
+      back: "dog <animal>",
+      reversed: false,
+      ease_factor: 2.36,
+      interval: 12,
+      repetitions: 3,
+      next_review_at: "2026-03-10T00:00:00.000Z",
+    });
+    expect(reversed).toMatchObject({ reversed: true, repetitions: 0, isNew: true });
+    expect(reversed.ankiNoteId).toBe(forward.ankiNoteId);
+    expect([cloze1.cloze_index, cloze2.cloze_index]).toEqual([1, 2]);
+    expect(cloze1).toMatchObject({ card_type: "cloze", front: "{{c1::Madrid}} is in {{c2::Spain}}" });
+  });
+
+  it("exports the tags of notes and keeps suspended cards suspended", async () => {
+    const apkg = await buildAnkiPackage(
+      {
+        deck: { name: "Spanish", description: null },
+        flashcards: [
+          createCard({ front: "ser", tags: ["verbs", "irregular"], suspended: true }),
+          createCard({ front: "casa" }),
+        ],
+      },
+      NOW
+    );
+
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(unzipSync(apkg)["collection.anki2"]);
+    const [notes] = db.exec("SELECT tags FROM notes ORDER BY id");
+    db.close();
+
+    expect(notes.values).toEqual([[" verbs irregular "], [""]]);
+
+    const pkg = await readAnkiPackage(apkg, NOW);
+    expect(pkg.decks[0].cards.map((card) => [card.front, card.suspended])).toEqual([
+      ["ser", true],
+      ["casa", false],
+    ]);
+  });
+});
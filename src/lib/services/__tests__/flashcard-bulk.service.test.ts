@@ -0,0 +1,101 @@
+/**
+ * Testy jednostkowe dla flashcard-bulk.service.ts
+ * Testują zmiany tagów, kopiowanie fiszek do innej talii (nowe ID, notatki, harmonogram) i reset postępów
+ */
+
+import { describe, it, expect } from "vitest";
+import { applyTagChanges, buildFlashcardCopies, getResetSchedule } from "../flashcard-bulk.service";
+import type { Tables } from "../../../db/database.types";
+
+// ------------------------------------------------------------------
+// Test Fixtures & Helpers
+// ------------------------------------------------------------------
+
+const NOW = new Date("2026-03-01T12:00:00.000Z");
+
+function createCard(overrides: Partial<Tables<"flashcards">> = {}): Tables<"flashcards"> {
+  return {
+    id: "card-1",
+    deck_id: "deck-1",
+    user_id: "user-1",
+    front: "perro",
+    back: "dog",
+    card_type: "basic",
+    reversed: false,
+    cloze_index: null,
+    note_id: null,
+    source: "manual",
+    generation_id: null,
+    ease_factor: 2.36,
+    interval: 12,
+    repetitions: 3,
+    next_review_at: "2026-03-10T12:00:00.000Z",
+    buried_until: null,
+    suspended: false,
+    tags: ["animals"],
+    created_at: "2026-02-01T10:00:00.000Z",
+    updated_at: "2026-02-01T10:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function createIds() {
+  let count = 0;
+  return () => `new-${++count}`;
+}
+
+// ------------------------------------------------------------------
+// applyTagChanges
+// ------------------------------------------------------------------
+
+describe("applyTagChanges", () => {
+  it("removes tags before adding new ones without duplicates", () => {
+    expect(applyTagChanges(["animals", "a1", "verbs"], { add: ["a2", "animals"], remove: ["a1", "verbs"] })).toEqual([
+      "animals",
+      "a2",
+    ]);
+  });
+});
+
+// ------------------------------------------------------------------
+// buildFlashcardCopies
+// ------------------------------------------------------------------
+
+describe("buildFlashcardCopies", () => {
+  it("gives copies new IDs and a shared new note ID, keeping the schedule", () => {
+    const cards = [
+      createCard({ note_id: "note-1" }),
+      createCard({ id: "card-2", note_id: "note-1", reversed: true, suspended: true }),
+    ];
+
+    const copies = buildFlashcardCopies(cards, { deckId: "deck-2", resetScheduling: false, createId: createIds() });
+
+    expect(copies).toEqual([
+      {
+        sourceId: "card-1",
+        row: expect.objectContaining({
+          id: "new-2",
+          deck_id: "deck-2",
+          note_id: "new-1",
+          interval: 12,
+          tags: ["animals"],
+        }),
+      },
+      {
+        sourceId: "card-2",
+        row: expect.objectContaining({ id: "new-3", note_id: "new-1", reversed: true, suspended: true }),
+      },
+    ]);
+  });
+
+  it("starts the copies as new cards when resetting the schedule", () => {
+    const [copy] = buildFlashcardCopies([createCard()], {
+      deckId: "deck-2",
+      resetScheduling: true,
+      now: NOW,
+      createId: createIds(),
+    });
+
+    expect(copy.row).toMatchObject({ ...getResetSchedule(NOW), note_id: null });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Testy jednostkowe dla flashcard-notes.service.ts
+ * Testują budowanie wierszy fiszek (kierunki, luki cloze) oraz czas zakopania rodzeństwa: buildFlashcardRows, getBuryUntil
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildFlashcardRows, getBuryUntil } from "../flashcard-notes.service";
+
+const OWNERSHIP = { deck_id: "deck-1", user_id: "user-1", source: "manual" as const };
+
+// ------------------------------------------------------------------
+// buildFlashcardRows
+// ------------------------------------------------------------------
+
+describe("buildFlashcardRows", () => {
+  it("builds a single forward card by default", () => {
+    const rows = buildFlashcardRows({ front: "dog", back: "pies", card_type: "basic" }, OWNERSHIP);
+
+    expect(rows).toEqual([{ ...OWNERSHIP, front: "dog", back: "pies", card_type: "basic", tags: [] }]);
+  });
+
+  it("builds a single reversed card without a note", () => {
+    const rows = buildFlashcardRows(
+      { front: "dog", back: "pies", card_type: "basic", direction: "reverse" },
+      OWNERSHIP
+    );
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ reversed: true });
+    expect(rows[0].note_id).toBeUndefined();
+  });
+
+  it("builds forward and reversed siblings sharing a note for both directions", () => {
+    const rows = buildFlashcardRows({ front: "dog", back: "pies", card_type: "basic", direction: "both" }, OWNERSHIP);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].reversed).toBeUndefined();
+    expect(rows[1].reversed).toBe(true);
+    expect(rows[0].note_id).toBeTruthy();
+    expect(rows[1].note_id).toBe(rows[0].note_id);
+  });
+
+  it("builds one card per cloze number of a cloze note", () => {
+    const rows = buildFlashcardRows(
+      { front: "{{c2::Warsaw}} is the capital of {{c1::Poland}}", back: "", card_type: "cloze" },
+      OWNERSHIP
+    );
+
+    expect(rows.map((row) => row.cloze_index)).toEqual([1, 2]);
+    expect(rows[1].note_id).toBe(rows[0].note_id);
+  });
+
+  it("gives every card of a note the same tags", () => {
+    const rows = buildFlashcardRows(
+      { front: "dog", back: "pies", card_type: "basic", direction: "both", tags: ["animals"] },
+      OWNERSHIP
+    );
+
+    expect(rows.map((row) => row.tags)).toEqual([["animals"], ["animals"]]);
+  });
+});
+
+// ------------------------------------------------------------------
+// getBuryUntil
+// ------------------------------------------------------------------
+
+describe("getBuryUntil", () => {
+  it("returns the start of the next UTC day", () => {
+    expect(getBuryUntil(new Date("2026-03-01T10:30:00.000Z"))).toBe("2026-03-02T00:00:00.000Z");
+    expect(getBuryUntil(new Date("2026-03-01T00:00:00.000Z"))).toBe("2026-03-02T00:00:00.000Z");
+  });
+
+  it("returns the start of the next day in the given timezone", () => {
+    expect(getBuryUntil(new Date("2026-03-01T10:30:00.000Z"), "Europe/Warsaw")).toBe("2026-03-01T23:00:00.000Z");
+    expect(getBuryUntil(new Date("2026-03-01T23:30:00.000Z"), "Europe/Warsaw")).toBe("2026-03-02T23:00:00.000Z");
+    expect(getBuryUntil(new Date("2026-03-01T20:00:00.000Z"), "America/New_York")).toBe("2026-03-02T05:00:00.000Z");
+  });
+
+  it("accounts for daylight saving time changes during the day", () => {
+    // Summer time in Poland starts at 2:00 on 2026-03-29: reviewed at 0:30 (UTC+1), buried until midnight at UTC+2
+    expect(getBuryUntil(new Date("2026-03-28T23:30:00.000Z"), "Europe/Warsaw")).toBe("2026-03-29T22:00:00.000Z");
+  });
+});
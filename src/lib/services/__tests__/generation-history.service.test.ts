@@ -0,0 +1,62 @@
+/**
+ * Testy jednostkowe dla generation-history.service.ts
+ * Testują podsumowanie wyniku przeglądu sugestii generacji: summarizeGenerationOutcome, summarizeSuggestionStatuses
+ * oraz wskaźnik akceptacji sugestii: calculateAcceptanceRate
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  calculateAcceptanceRate,
+  summarizeGenerationOutcome,
+  summarizeSuggestionStatuses,
+} from "../generation-history.service";
+
+describe("summarizeGenerationOutcome", () => {
+  it("should count accepted flashcards by source and treat the rest as rejected", () => {
+    expect(summarizeGenerationOutcome(10, ["ai-full", "ai-edited", "ai-full", "ai-full"])).toEqual({
+      accepted_unedited_count: 3,
+      accepted_edited_count: 1,
+      rejected_count: 6,
+      pending_count: 0,
+    });
+  });
+
+  it("should treat all suggestions as rejected when nothing was accepted", () => {
+    expect(summarizeGenerationOutcome(5, [])).toEqual({
+      accepted_unedited_count: 0,
+      accepted_edited_count: 0,
+      rejected_count: 5,
+      pending_count: 0,
+    });
+  });
+
+  it("should ignore manual flashcards and never report a negative rejected count", () => {
+    expect(summarizeGenerationOutcome(2, ["ai-full", "ai-edited", "ai-full", "manual"])).toEqual({
+      accepted_unedited_count: 2,
+      accepted_edited_count: 1,
+      rejected_count: 0,
+      pending_count: 0,
+    });
+  });
+});
+
+describe("summarizeSuggestionStatuses", () => {
+  it("should count suggestions by review status", () => {
+    expect(summarizeSuggestionStatuses(["accepted", "edited", "rejected", "pending", "accepted", "pending"])).toEqual({
+      accepted_unedited_count: 2,
+      accepted_edited_count: 1,
+      rejected_count: 1,
+      pending_count: 2,
+    });
+  });
+});
+
+describe("calculateAcceptanceRate", () => {
+  it("should count accepted and edited suggestions as saved", () => {
+    expect(calculateAcceptanceRate(3, 1, 4)).toBe(0.5);
+  });
+
+  it("should return 0 when nothing was reviewed", () => {
+    expect(calculateAcceptanceRate(0, 0, 0)).toBe(0);
+  });
+});
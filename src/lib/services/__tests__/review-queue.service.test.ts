@@ -0,0 +1,89 @@
+/**
+ * Testy jednostkowe dla review-queue.service.ts
+ * Testują przeplatanie kolejek z wielu talii według priorytetu: interleaveDeckQueues
+ */
+
+import { describe, it, expect } from "vitest";
+import { interleaveDeckQueues, type DeckQueue } from "../review-queue.service";
+import type { FlashcardDto } from "../../../types";
+
+// ------------------------------------------------------------------
+// Test Fixtures & Helpers
+// ------------------------------------------------------------------
+
+function createCard(deckId: string, index: number): FlashcardDto {
+  return {
+    id: `${deckId}-${index}`,
+    deck_id: deckId,
+    user_id: "user-1",
+    generation_id: null,
+    front: `Front ${index}`,
+    back: `Back ${index}`,
+    source: "manual",
+    card_type: "basic",
+    note_id: null,
+    cloze_index: null,
+    reversed: false,
+    buried_until: null,
+    suspended: false,
+    tags: [],
+    ease_factor: 2.5,
+    interval: 0,
+    repetitions: 0,
+    next_review_at: "2026-03-01T10:00:00.000Z",
+    created_at: "2026-03-01T10:00:00.000Z",
+    updated_at: "2026-03-01T10:00:00.000Z",
+  };
+}
+
+function createQueue(deckId: string, size: number, priority = 1): DeckQueue {
+  return {
+    deckId,
+    priority,
+    cards: Array.from({ length: size }, (_, i) => createCard(deckId, i)),
+  };
+}
+
+function ids(cards: FlashcardDto[]): string[] {
+  return cards.map((card) => card.id);
+}
+
+// ------------------------------------------------------------------
+// interleaveDeckQueues
+// ------------------------------------------------------------------
+
+describe("interleaveDeckQueues", () => {
+  it("returns an empty queue when there are no decks", () => {
+    expect(interleaveDeckQueues([], 10)).toEqual([]);
+  });
+
+  it("alternates cards between decks with equal priority", () => {
+    const result = interleaveDeckQueues([createQueue("a", 2), createQueue("b", 2)], 10);
+
+    expect(ids(result)).toEqual(["a-0", "b-0", "a-1", "b-1"]);
+  });
+
+  it("takes more cards per round from higher-priority decks", () => {
+    const result = interleaveDeckQueues([createQueue("a", 4, 2), createQueue("b", 4, 1)], 6);
+
+    expect(ids(result)).toEqual(["a-0", "a-1", "b-0", "a-2", "a-3", "b-1"]);
+  });
+
+  it("keeps taking from remaining decks once a deck is exhausted", () => {
+    const result = interleaveDeckQueues([createQueue("a", 1), createQueue("b", 3)], 10);
+
+    expect(ids(result)).toEqual(["a-0", "b-0", "b-1", "b-2"]);
+  });
+
+  it("respects the overall limit", () => {
+    const result = interleaveDeckQueues([createQueue("a", 5), createQueue("b", 5)], 3);
+
+    expect(ids(result)).toEqual(["a-0", "b-0", "a-1"]);
+  });
+
+  it("preserves the per-deck order of cards", () => {
+    const result = interleaveDeckQueues([createQueue("a", 3, 3)], 10);
+
+    expect(ids(result)).toEqual(["a-0", "a-1", "a-2"]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Testy jednostkowe dla text-extraction.service.ts
+ * Testują wykrywanie formatu pliku i ekstrakcję tekstu z DOCX, EPUB, HTML i TXT
+ */
+
+import { describe, it, expect } from "vitest";
+import { zipSync, strToU8 } from "fflate";
+import {
+  detectFileFormat,
+  extractTextFromFile,
+  MAX_UNZIPPED_BYTES,
+  TextExtractionError,
+} from "../text-extraction.service";
+
+// ------------------------------------------------------------------
+// Test Fixtures & Helpers
+// ------------------------------------------------------------------
+
+function createDocx(paragraphs: string[]): Uint8Array {
+  const body = paragraphs.map((p) => `<w:p><w:r><w:t xml:space="preserve">${p}</w:t></w:r></w:p>`).join("");
+
+  return zipSync({
+    "[Content_Types].xml": strToU8("<Types/>"),
+    "word/document.xml": strToU8(`<?xml version="1.0"?><w:document><w:body>${body}</w:body></w:document>`),
+  });
+}
+
+function createEpub(chapters: Record<string, string>): Uint8Array {
+  const ids = Object.keys(chapters);
+  const manifest = ids.map((id) => `<item id="${id}" href="text/${id}.xhtml" media-type="application/xhtml+xml"/>`);
+  const spine = [...ids].reverse().map((id) => `<itemref idref="${id}"/>`);
+  const files: Record<string, Uint8Array> = {
+    mimetype: strToU8("application/epub+zip"),
+    "META-INF/container.xml": strToU8(
+      '<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>'
+    ),
+    "OEBPS/content.opf": strToU8(
+      `<package><manifest>${manifest.join("")}</manifest><spine>${spine.join("")}</spine></package>`
+    ),
+  };
+
+  for (const [id, html] of Object.entries(chapters)) {
+    files[`OEBPS/text/${id}.xhtml`] = strToU8(`<html><body>${html}</body></html>`);
+  }
+
+  return zipSync(files);
+}
+
+// ------------------------------------------------------------------
+// detectFileFormat
+// ------------------------------------------------------------------
+
+describe("detectFileFormat", () => {
+  it.each([
+    ["notes.PDF", "", "pdf"],
+    ["essay.docx", "", "docx"],
+    ["book.epub", "", "epub"],
+    ["README.md", "", "markdown"],
+    ["page.htm", "", "html"],
+    ["plain.txt", "", "text"],
+    ["upload", "text/html", "html"],
+  ])("detects %s (%s) as %s", (name, type, expected) => {
+    expect(detectFileFormat(name, type)).toBe(expected);
+  });
+
+  it("returns null for unsupported files", () => {
+    expect(detectFileFormat("image.png", "image/png")).toBeNull();
+  });
+});
+
+// ------------------------------------------------------------------
+// extractTextFromFile
+// ------------------------------------------------------------------
+
+describe("extractTextFromFile", () => {
+  it("extracts paragraphs from DOCX", async () => {
+    const result = await extractTextFromFile({
+      name: "notes.docx",
+      type: "",
+      data: createDocx(["First &amp; foremost", "Second paragraph"]),
+    });
+
+    expect(result).toEqual({ format: "docx", text: "First & foremost\n\nSecond paragraph" });
+  });
+
+  it("extracts EPUB chapters in spine order", async () => {
+    const result = await extractTextFromFile({
+      name: "book.epub",
+      type: "",
+      data: createEpub({ ch1: "<p>Chapter one</p>", ch2: "<h1>Chapter two</h1>" }),
+    });
+
+    expect(result.text).toBe("Chapter two\n\nChapter one");
+  });
+
+  it("extracts and normalises plain text", async () => {
+    const result = await extractTextFromFile({
+      name: "a.txt",
+      type: "text/plain",
+      data: strToU8("  Hello \r\n world "),
+    });
+
+    expect(result).toEqual({ format: "text", text: "Hello\nworld" });
+  });
+
+  it("throws UNSUPPORTED_FILE_TYPE for unknown formats", async () => {
+    await expect(
+      extractTextFromFile({ name: "a.png", type: "image/png", data: new Uint8Array([1]) })
+    ).rejects.toMatchObject({ errorCode: "UNSUPPORTED_FILE_TYPE" });
+  });
+
+  it("throws EXTRACTION_FAILED for corrupt files", async () => {
+    const promise = extractTextFromFile({ name: "broken.docx", type: "", data: strToU8("not a zip") });
+
+    await expect(promise).rejects.toBeInstanceOf(TextExtractionError);
+    await expect(promise).rejects.toMatchObject({ errorCode: "EXTRACTION_FAILED" });
+  });
+
+  it("throws CONTENT_TOO_LARGE when the file unpacks to more than the limit", async () => {
+    const docx = zipSync({ "word/document.xml": strToU8(" ".repeat(MAX_UNZIPPED_BYTES + 1)) });
+
+    await expect(extractTextFromFile({ name: "bomb.docx", type: "", data: docx })).rejects.toMatchObject({
+      errorCode: "CONTENT_TOO_LARGE",
+    });
+  });
+
+  it("throws EMPTY_CONTENT when the file has no text", async () => {
+    await expect(
+      extractTextFromFile({ name: "empty.html", type: "", data: strToU8("<html><body> </body></html>") })
+    ).rejects.toMatchObject({ errorCode: "EMPTY_CONTENT" });
+  });
+});
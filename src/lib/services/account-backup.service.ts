@@ -0,0 +1,714 @@
+import type { ZodError } from "zod";
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { TablesInsert } from "../../db/database.types";
+import type {
+  AccountBackupCountsDto,
+  AccountBackupV1,
+  AccountBackupV2,
+  AccountBackupV3,
+  BackupConflictStrategy,
+  BackupDeckV3,
+  BackupFlashcardV2,
+  BackupGenerationChunkV1,
+  BackupGenerationSuggestionV3,
+  BackupGenerationV3,
+  BackupReviewLogV1,
+  RestoreAccountBackupResponseDto,
+  RestoredDeckDto,
+} from "../../types";
+import {
+  ACCOUNT_BACKUP_FORMAT,
+  ACCOUNT_BACKUP_VERSION,
+  accountBackupV1Schema,
+  accountBackupV2Schema,
+  accountBackupV3Schema,
+} from "../validators/backup.validator";
+import { buildDeckTree, flattenDeckTree } from "../utils/deck-tree";
+
+/** Rows are fetched in pages of this size */
+const FETCH_PAGE_SIZE = 1000;
+
+/** Rows are inserted in batches of this size */
+const INSERT_BATCH_SIZE = 500;
+
+/** Number of IDs per `in` filter, to keep request URLs short */
+const ID_FILTER_BATCH_SIZE = 100;
+
+/** Limit of the deck name column */
+const MAX_DECK_NAME_LENGTH = 100;
+
+const DECK_COLUMNS = "id, parent_id, name, description, created_at, updated_at";
+const FLASHCARD_COLUMNS =
+  "id, deck_id, front, back, card_type, reversed, cloze_index, note_id, source, generation_id, ease_factor, interval, repetitions, next_review_at, buried_until, suspended, tags, created_at, updated_at";
+const GENERATION_COLUMNS =
+  "id, deck_id, model, card_type, requested_count, generated_count, generation_duration, source_text_hash, source_text_length, created_at";
+const CHUNK_COLUMNS =
+  "generation_id, chunk_index, requested_count, generated_count, generation_duration, source_text_length, error_message, created_at";
+const SUGGESTION_COLUMNS =
+  "generation_id, position, front, back, status, refinement_count, flashcard_id, tags, created_at, reviewed_at";
+const REVIEW_LOG_COLUMNS =
+  "id, flashcard_id, deck_id, quality, review_duration_ms, previous_interval, previous_ease_factor, previous_repetitions, new_interval, new_ease_factor, new_repetitions, next_review_at, reviewed_at";
+
+/**
+ * Error thrown when a backup file cannot be restored.
+ */
+export class AccountBackupError extends Error {
+  constructor(
+    message: string,
+    public readonly errorCode: "INVALID_BACKUP" | "UNSUPPORTED_VERSION",
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "AccountBackupError";
+  }
+}
+
+type Page<T> = PromiseLike<{ data: T[] | null; error: { message: string } | null }>;
+
+/**
+ * Fetches all rows of a query page by page.
+ */
+async function fetchAll<T>(what: string, fetchPage: (from: number, to: number) => Page<T>): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let offset = 0; ; offset += FETCH_PAGE_SIZE) {
+    const { data, error } = await fetchPage(offset, offset + FETCH_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch ${what}: ${error.message}`);
+    }
+
+    rows.push(...(data ?? []));
+
+    if (!data || data.length < FETCH_PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Splits a list into batches of the given size.
+ */
+function toBatches<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    batches.push(items.slice(start, start + size));
+  }
+  return batches;
+}
+
+/**
+ * Groups rows of a generation's child table by generation ID (without the ID itself).
+ */
+function groupByGeneration<T extends { generation_id: string }>(rows: T[]): Map<string, Omit<T, "generation_id">[]> {
+  const groups = new Map<string, Omit<T, "generation_id">[]>();
+  for (const { generation_id: generationId, ...row } of rows) {
+    const group = groups.get(generationId);
+    if (group) group.push(row);
+    else groups.set(generationId, [row]);
+  }
+  return groups;
+}
+
+/**
+ * Collects every deck, flashcard (with its scheduling state), generation (with chunks and
+ * suggestions) and review log of a user into a backup of the current version.
+ *
+ * @throws {Error} When a query fails
+ */
+export async function getAccountBackup(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<AccountBackupV3> {
+  const decks = await fetchAll("decks", (from, to) =>
+    supabase
+      .from("decks")
+      .select(DECK_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, to)
+      .returns<BackupDeckV3[]>()
+  );
+
+  const flashcards = await fetchAll("flashcards", (from, to) =>
+    supabase
+      .from("flashcards")
+      .select(FLASHCARD_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, to)
+      // Source and card type are stored as text
+      .returns<BackupFlashcardV2[]>()
+  );
+
+  const generations = await fetchAll("generations", (from, to) =>
+    supabase
+      .from("generations")
+      .select(GENERATION_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, to)
+      .returns<Omit<BackupGenerationV3, "chunks" | "suggestions">[]>()
+  );
+
+  const chunks = await fetchAll("generation chunks", (from, to) =>
+    supabase
+      .from("generation_chunks")
+      .select(CHUNK_COLUMNS)
+      .eq("user_id", userId)
+      .order("generation_id", { ascending: true })
+      .order("chunk_index", { ascending: true })
+      .range(from, to)
+      .returns<(BackupGenerationChunkV1 & { generation_id: string })[]>()
+  );
+
+  const suggestions = await fetchAll("generation suggestions", (from, to) =>
+    supabase
+      .from("generation_suggestions")
+      .select(SUGGESTION_COLUMNS)
+      .eq("user_id", userId)
+      .order("generation_id", { ascending: true })
+      .order("position", { ascending: true })
+      .range(from, to)
+      .returns<(BackupGenerationSuggestionV3 & { generation_id: string })[]>()
+  );
+
+  const reviewLogs = await fetchAll("review logs", (from, to) =>
+    supabase
+      .from("review_logs")
+      .select(REVIEW_LOG_COLUMNS)
+      .eq("user_id", userId)
+      .order("reviewed_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, to)
+      .returns<BackupReviewLogV1[]>()
+  );
+
+  const chunksByGeneration = groupByGeneration(chunks);
+  const suggestionsByGeneration = groupByGeneration(suggestions);
+
+  return {
+    format: ACCOUNT_BACKUP_FORMAT,
+    version: ACCOUNT_BACKUP_VERSION,
+    exported_at: now.toISOString(),
+    decks,
+    flashcards,
+    generations: generations.map((generation) => ({
+      ...generation,
+      chunks: chunksByGeneration.get(generation.id) ?? [],
+      suggestions: suggestionsByGeneration.get(generation.id) ?? [],
+    })),
+    review_logs: reviewLogs,
+  };
+}
+
+/**
+ * Upgrades a version 1 backup: its flashcards were not suspended and had no tags.
+ */
+function upgradeAccountBackupV1(backup: AccountBackupV1): AccountBackupV2 {
+  return {
+    ...backup,
+    version: 2,
+    flashcards: backup.flashcards.map((card) => ({ ...card, suspended: false, tags: [] })),
+  };
+}
+
+/**
+ * Upgrades a version 2 backup: its AI suggestions had no tags and parents of decks were not
+ * recorded, so all decks are restored at the top level.
+ */
+function upgradeAccountBackupV2(backup: AccountBackupV2): AccountBackupV3 {
+  return {
+    ...backup,
+    version: 3,
+    decks: backup.decks.map((deck) => ({ ...deck, parent_id: null })),
+    generations: backup.generations.map((generation) => ({
+      ...generation,
+      suggestions: generation.suggestions.map((suggestion) => ({ ...suggestion, tags: [] })),
+    })),
+  };
+}
+
+/**
+ * Reads and validates a backup file; older versions are upgraded to the current one.
+ * Backups written by a newer version of the app are rejected with UNSUPPORTED_VERSION
+ * instead of a list of validation errors.
+ *
+ * @throws {AccountBackupError} When the file is not a valid backup
+ */
+export function parseAccountBackup(text: string): AccountBackupV3 {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new AccountBackupError("The file is not valid JSON", "INVALID_BACKUP", error);
+  }
+
+  const header = (typeof data === "object" && data !== null ? data : {}) as { format?: unknown; version?: unknown };
+
+  if (header.format !== ACCOUNT_BACKUP_FORMAT) {
+    throw new AccountBackupError("The file is not a 10xCards account backup", "INVALID_BACKUP");
+  }
+
+  if (typeof header.version === "number" && header.version > ACCOUNT_BACKUP_VERSION) {
+    throw new AccountBackupError(
+      `Backup version ${header.version} was created by a newer version of 10xCards`,
+      "UNSUPPORTED_VERSION"
+    );
+  }
+
+  const result =
+    header.version === 1
+      ? accountBackupV1Schema
+          .transform((backup) => upgradeAccountBackupV2(upgradeAccountBackupV1(backup)))
+          .safeParse(data)
+      : header.version === 2
+        ? accountBackupV2Schema.transform(upgradeAccountBackupV2).safeParse(data)
+        : accountBackupV3Schema.safeParse(data);
+
+  if (!result.success) {
+    throw new AccountBackupError("The backup file is invalid or damaged", "INVALID_BACKUP", result.error);
+  }
+
+  return result.data;
+}
+
+/**
+ * Validation issues of an invalid backup, as reported to the client (first 20).
+ */
+export function getBackupIssues(error: AccountBackupError): { path: string; message: string }[] {
+  const cause = error.cause as ZodError | undefined;
+  if (!cause || !Array.isArray(cause.issues)) return [];
+
+  return cause.issues.slice(0, 20).map((issue) => ({ path: issue.path.join("."), message: issue.message }));
+}
+
+/**
+ * Data of the current account needed to resolve conflicts with a backup.
+ */
+export interface ExistingAccountData {
+  decks: { id: string; parent_id: string | null; name: string }[];
+  /** Flashcards of existing decks that a backed up deck may be merged into */
+  flashcards: Pick<BackupFlashcardV2, "deck_id" | "front" | "back" | "card_type" | "reversed" | "cloze_index">[];
+  /** IDs of generations that already exist in the account (the backup comes from it) */
+  generationIds: Set<string>;
+}
+
+/**
+ * Rows to insert when restoring a backup, with every ID remapped to a new one.
+ */
+export interface AccountRestorePlan {
+  /** Decks without their parents - a parent must exist before a deck can be nested under it */
+  decks: TablesInsert<"decks">[];
+  /** Parents to set once all decks are inserted */
+  deckParents: { id: string; parent_id: string }[];
+  generations: TablesInsert<"generations">[];
+  chunks: TablesInsert<"generation_chunks">[];
+  flashcards: TablesInsert<"flashcards">[];
+  suggestions: TablesInsert<"generation_suggestions">[];
+  reviewLogs: TablesInsert<"review_logs">[];
+  restoredDecks: RestoredDeckDto[];
+  skipped: AccountBackupCountsDto;
+}
+
+/**
+ * Returns a name that is not taken yet: "Name (restored)", "Name (restored 2)", ...
+ */
+function getRestoredDeckName(name: string, isTaken: (name: string) => boolean): string {
+  for (let attempt = 1; ; attempt++) {
+    const suffix = attempt === 1 ? " (restored)" : ` (restored ${attempt})`;
+    const candidate = name.slice(0, MAX_DECK_NAME_LENGTH - suffix.length) + suffix;
+    if (!isTaken(candidate)) return candidate;
+  }
+}
+
+/**
+ * Identifies a deck by its name among the sub-decks of its parent (null = top level).
+ */
+function getDeckKey(parentId: string | null, name: string): string {
+  return JSON.stringify([parentId, name]);
+}
+
+/**
+ * Existing decks by their key; of decks with the same name and parent, the first one is used.
+ */
+function indexDecksByKey(decks: ExistingAccountData["decks"]): Map<string, string> {
+  const ids = new Map<string, string>();
+  for (const deck of decks) {
+    const key = getDeckKey(deck.parent_id, deck.name);
+    if (!ids.has(key)) ids.set(key, deck.id);
+  }
+  return ids;
+}
+
+/**
+ * Backed up decks ordered so that every parent comes before its sub-decks.
+ */
+function sortParentsFirst(decks: BackupDeckV3[]): BackupDeckV3[] {
+  return flattenDeckTree(buildDeckTree(decks)).map(({ deck }) => deck);
+}
+
+/**
+ * Matches backed up decks with existing decks at the same place in the hierarchy: the same
+ * name under the matched parent (or at the top level). Sub-decks of an unmatched deck are
+ * not matched.
+ *
+ * @returns Existing deck IDs by backed up deck ID
+ */
+function matchExistingDecks(
+  backupDecks: BackupDeckV3[],
+  existingDecks: ExistingAccountData["decks"]
+): Map<string, string> {
+  const existingIds = indexDecksByKey(existingDecks);
+  const matches = new Map<string, string>();
+
+  for (const deck of sortParentsFirst(backupDecks)) {
+    const parentId = deck.parent_id ? matches.get(deck.parent_id) : null;
+    if (parentId === undefined) continue;
+
+    const existingId = existingIds.get(getDeckKey(parentId, deck.name));
+    if (existingId) matches.set(deck.id, existingId);
+  }
+
+  return matches;
+}
+
+function getCardKey(card: ExistingAccountData["flashcards"][number]): string {
+  return JSON.stringify([card.deck_id, card.front, card.back, card.card_type, card.reversed, card.cloze_index]);
+}
+
+/**
+ * Plans a restore of a backup into an account. Records get new IDs and references between them
+ * (deck, note, generation, flashcard) are remapped, so that a backup can be restored into the
+ * account it came from, into another account, or several times.
+ *
+ * - Decks are matched by their place in the hierarchy: a deck conflicts with an existing deck of
+ *   the same name under the same parent (the parent it is restored or merged into, or skipped
+ *   in favour of). It is renamed, skipped or merged into the existing deck
+ *   (see BackupConflictStrategy); when merging, cards the deck already has are skipped
+ * - Restored decks are nested under that parent; merged decks keep their current parent
+ * - Generations that still exist in the account are reused instead of duplicated
+ * - Flashcards of skipped decks and review logs of skipped flashcards are skipped
+ *
+ * @param params.createId - Generator of new IDs (default: random UUIDs)
+ */
+export function planAccountRestore(
+  backup: AccountBackupV3,
+  existing: ExistingAccountData,
+  params: { userId: string; strategy: BackupConflictStrategy; createId?: () => string }
+): AccountRestorePlan {
+  const { userId, strategy, createId = () => crypto.randomUUID() } = params;
+  const skipped: AccountBackupCountsDto = { decks: 0, flashcards: 0, generations: 0, review_logs: 0 };
+
+  // Decks (parents first, so that sub-decks are matched under the deck their parent became)
+  const existingDeckIds = indexDecksByKey(existing.decks);
+  const takenKeys = new Set(existingDeckIds.keys());
+  // Decks receiving the flashcards of a backed up deck; as parents, skipped decks stand for the
+  // existing deck they were skipped in favour of
+  const deckIds = new Map<string, string>();
+  const parentIds = new Map<string, string>();
+  const mergedDeckIds = new Set<string>();
+  const decks: TablesInsert<"decks">[] = [];
+  const deckParents: AccountRestorePlan["deckParents"] = [];
+  const restoredDecks: RestoredDeckDto[] = [];
+
+  for (const deck of sortParentsFirst(backup.decks)) {
+    const parentId = deck.parent_id ? (parentIds.get(deck.parent_id) ?? null) : null;
+    const existingId = existingDeckIds.get(getDeckKey(parentId, deck.name));
+
+    if (existingId && strategy === "skip") {
+      parentIds.set(deck.id, existingId);
+      skipped.decks++;
+      continue;
+    }
+
+    if (existingId && strategy === "merge") {
+      deckIds.set(deck.id, existingId);
+      parentIds.set(deck.id, existingId);
+      mergedDeckIds.add(existingId);
+      restoredDecks.push({
+        id: existingId,
+        name: deck.name,
+        original_name: deck.name,
+        resolution: "merged",
+        flashcard_count: 0,
+      });
+      continue;
+    }
+
+    const id = createId();
+    const name = existingId
+      ? getRestoredDeckName(deck.name, (candidate) => takenKeys.has(getDeckKey(parentId, candidate)))
+      : deck.name;
+    takenKeys.add(getDeckKey(parentId, name));
+    deckIds.set(deck.id, id);
+    parentIds.set(deck.id, id);
+    if (parentId) deckParents.push({ id, parent_id: parentId });
+    decks.push({
+      id,
+      user_id: userId,
+      name,
+      description: deck.description,
+      created_at: deck.created_at,
+      updated_at: deck.updated_at,
+    });
+    restoredDecks.push({
+      id,
+      name,
+      original_name: deck.name,
+      resolution: existingId ? "renamed" : "created",
+      flashcard_count: 0,
+    });
+  }
+
+  // Generations with their chunks
+  const generationIds = new Map<string, string>();
+  const restoredGenerations: { generation: BackupGenerationV3; id: string }[] = [];
+  const generations: TablesInsert<"generations">[] = [];
+  const chunks: TablesInsert<"generation_chunks">[] = [];
+
+  for (const generation of backup.generations) {
+    if (existing.generationIds.has(generation.id)) {
+      generationIds.set(generation.id, generation.id);
+      skipped.generations++;
+      continue;
+    }
+
+    const id = createId();
+    generationIds.set(generation.id, id);
+    restoredGenerations.push({ generation, id });
+    generations.push({
+      id,
+      user_id: userId,
+      deck_id: generation.deck_id ? (deckIds.get(generation.deck_id) ?? null) : null,
+      model: generation.model,
+      card_type: generation.card_type,
+      requested_count: generation.requested_count,
+      generated_count: generation.generated_count,
+      generation_duration: generation.generation_duration,
+      source_text_hash: generation.source_text_hash,
+      source_text_length: generation.source_text_length,
+      created_at: generation.created_at,
+    });
+    chunks.push(...generation.chunks.map((chunk) => ({ ...chunk, generation_id: id, user_id: userId })));
+  }
+
+  // Flashcards
+  const existingCardKeys = new Set(existing.flashcards.map(getCardKey));
+  const flashcardIds = new Map<string, string>();
+  const noteIds = new Map<string, string>();
+  const flashcardCounts = new Map<string, number>();
+  const flashcards: TablesInsert<"flashcards">[] = [];
+
+  for (const card of backup.flashcards) {
+    const deckId = deckIds.get(card.deck_id);
+
+    if (!deckId || (mergedDeckIds.has(deckId) && existingCardKeys.has(getCardKey({ ...card, deck_id: deckId })))) {
+      skipped.flashcards++;
+      continue;
+    }
+
+    let noteId: string | null = null;
+    if (card.note_id) {
+      noteId = noteIds.get(card.note_id) ?? createId();
+      noteIds.set(card.note_id, noteId);
+    }
+
+    const id = createId();
+    flashcardIds.set(card.id, id);
+    flashcardCounts.set(deckId, (flashcardCounts.get(deckId) ?? 0) + 1);
+    flashcards.push({
+      ...card,
+      id,
+      user_id: userId,
+      deck_id: deckId,
+      note_id: noteId,
+      generation_id: card.generation_id ? (generationIds.get(card.generation_id) ?? null) : null,
+    });
+  }
+
+  // Suggestions of restored generations
+  const suggestions: TablesInsert<"generation_suggestions">[] = restoredGenerations.flatMap(({ generation, id }) =>
+    generation.suggestions.map((suggestion) => ({
+      ...suggestion,
+      generation_id: id,
+      user_id: userId,
+      flashcard_id: suggestion.flashcard_id ? (flashcardIds.get(suggestion.flashcard_id) ?? null) : null,
+    }))
+  );
+
+  // Review logs of restored flashcards
+  const reviewLogs: TablesInsert<"review_logs">[] = [];
+
+  for (const log of backup.review_logs) {
+    const flashcardId = flashcardIds.get(log.flashcard_id);
+
+    if (!flashcardId) {
+      skipped.review_logs++;
+      continue;
+    }
+
+    reviewLogs.push({
+      ...log,
+      id: createId(),
+      user_id: userId,
+      flashcard_id: flashcardId,
+      deck_id: log.deck_id ? (deckIds.get(log.deck_id) ?? null) : null,
+    });
+  }
+
+  return {
+    decks,
+    deckParents,
+    generations,
+    chunks,
+    flashcards,
+    suggestions,
+    reviewLogs,
+    restoredDecks: restoredDecks.map((deck) => ({ ...deck, flashcard_count: flashcardCounts.get(deck.id) ?? 0 })),
+    skipped,
+  };
+}
+
+/**
+ * Loads the data of the current account needed to plan a restore.
+ *
+ * @throws {Error} When a query fails
+ */
+async function getExistingAccountData(
+  supabase: SupabaseClient,
+  userId: string,
+  backup: AccountBackupV3,
+  strategy: BackupConflictStrategy
+): Promise<ExistingAccountData> {
+  const decks = await fetchAll("decks", (from, to) =>
+    supabase
+      .from("decks")
+      .select("id, parent_id, name")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true })
+      .range(from, to)
+  );
+
+  const flashcards: ExistingAccountData["flashcards"] = [];
+  if (strategy === "merge") {
+    const mergedDeckIds = [...new Set(matchExistingDecks(backup.decks, decks).values())];
+
+    for (const batch of toBatches(mergedDeckIds, ID_FILTER_BATCH_SIZE)) {
+      flashcards.push(
+        ...(await fetchAll("flashcards", (from, to) =>
+          supabase
+            .from("flashcards")
+            .select("deck_id, front, back, card_type, reversed, cloze_index")
+            .in("deck_id", batch)
+            .order("id", { ascending: true })
+            .range(from, to)
+            .returns<ExistingAccountData["flashcards"]>()
+        ))
+      );
+    }
+  }
+
+  const generationIds = new Set<string>();
+  for (const batch of toBatches(
+    backup.generations.map((generation) => generation.id),
+    ID_FILTER_BATCH_SIZE
+  )) {
+    const { data, error } = await supabase.from("generations").select("id").eq("user_id", userId).in("id", batch);
+
+    if (error) {
+      throw new Error(`Failed to fetch generations: ${error.message}`);
+    }
+
+    data?.forEach((generation) => generationIds.add(generation.id));
+  }
+
+  return { decks, flashcards, generationIds };
+}
+
+/**
+ * Restores a backup into the account of a user (see planAccountRestore for how IDs and name
+ * conflicts are handled). When an insert fails, the created decks and the flashcards added to
+ * merged decks are removed again; their review logs are removed with them. Created generation
+ * records are kept, because generations cannot be deleted.
+ *
+ * @throws {Error} When a database operation fails
+ */
+export async function restoreAccountBackup(
+  supabase: SupabaseClient,
+  params: { userId: string; backup: AccountBackupV3; strategy: BackupConflictStrategy }
+): Promise<RestoreAccountBackupResponseDto> {
+  const { userId, backup, strategy } = params;
+
+  const existing = await getExistingAccountData(supabase, userId, backup, strategy);
+  const plan = planAccountRestore(backup, existing, { userId, strategy });
+
+  const rollback = async () => {
+    for (const batch of toBatches(
+      plan.decks.map((deck) => deck.id as string),
+      ID_FILTER_BATCH_SIZE
+    )) {
+      // Flashcards and their review logs are removed with their decks (on delete cascade)
+      await supabase.from("decks").delete().in("id", batch);
+    }
+
+    const mergedDeckIds = new Set(
+      plan.restoredDecks.filter((deck) => deck.resolution === "merged").map((deck) => deck.id)
+    );
+    const mergedCardIds = plan.flashcards
+      .filter((card) => mergedDeckIds.has(card.deck_id))
+      .map((card) => card.id as string);
+
+    for (const batch of toBatches(mergedCardIds, ID_FILTER_BATCH_SIZE)) {
+      await supabase.from("flashcards").delete().in("id", batch);
+    }
+  };
+
+  const insertAll = async <T>(
+    what: string,
+    rows: T[],
+    insert: (batch: T[]) => PromiseLike<{ error: { message: string } | null }>
+  ) => {
+    for (const batch of toBatches(rows, INSERT_BATCH_SIZE)) {
+      const { error } = await insert(batch);
+
+      if (error) {
+        await rollback();
+        throw new Error(`Failed to restore ${what}: ${error.message}`);
+      }
+    }
+  };
+
+  await insertAll("decks", plan.decks, (batch) => supabase.from("decks").insert(batch));
+
+  for (const deck of plan.deckParents) {
+    const { error } = await supabase.from("decks").update({ parent_id: deck.parent_id }).eq("id", deck.id);
+
+    if (error) {
+      await rollback();
+      throw new Error(`Failed to restore deck parents: ${error.message}`);
+    }
+  }
+
+  await insertAll("generations", plan.generations, (batch) => supabase.from("generations").insert(batch));
+  await insertAll("generation chunks", plan.chunks, (batch) => supabase.from("generation_chunks").insert(batch));
+  await insertAll("flashcards", plan.flashcards, (batch) => supabase.from("flashcards").insert(batch));
+  await insertAll("generation suggestions", plan.suggestions, (batch) =>
+    supabase.from("generation_suggestions").insert(batch)
+  );
+  // Review logs can only be written through a database function (see restore_review_logs)
+  await insertAll("review logs", plan.reviewLogs, (batch) => supabase.rpc("restore_review_logs", { p_logs: batch }));
+
+  return {
+    decks: plan.restoredDecks,
+    restored: {
+      decks: plan.restoredDecks.length,
+      flashcards: plan.flashcards.length,
+      generations: plan.generations.length,
+      review_logs: plan.reviewLogs.length,
+    },
+    skipped: plan.skipped,
+  };
+}
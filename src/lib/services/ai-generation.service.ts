@@ -1,18 +1,117 @@
-import type { GeneratedSuggestionDto } from "../../types";
+import type { FlashcardType, GeneratedSuggestionDto, SuggestionRefineAction } from "../../types";
 import { OpenRouterService } from "./openrouter.service";
 import { OpenRouterError } from "./openrouter.types";
+import { JsonArrayStreamParser } from "../utils/json-stream";
+import { allocateCountBudget, splitIntoChunks } from "../utils/text-chunking";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { validateClozeText } from "../utils/cloze";
+import { tagSchema } from "../validators/flashcard.validator";
 
 interface GenerateFlashcardsParams {
   sourceText: string;
   model: string;
   count: number;
+  /** Type of the generated cards (default: "basic") */
+  cardType?: FlashcardType;
+}
+
+/**
+ * Outcome of generating flashcards from a single chunk of a long source text.
+ */
+export interface GenerationChunkResult {
+  chunkIndex: number;
+  sourceTextLength: number;
+  requestedCount: number;
+  generatedCount: number;
+  durationMs: number;
+  error?: string;
 }
 
 interface GenerateFlashcardsResult {
   suggestions: GeneratedSuggestionDto[];
   generationDuration: number;
+  /** Per-chunk runs - empty when the source text fitted in a single request */
+  chunks: GenerationChunkResult[];
+}
+
+interface RefineFlashcardParams {
+  model: string;
+  /** Current content of the flashcard */
+  card: GeneratedSuggestionDto;
+  action: SuggestionRefineAction;
+  /** Type of the flashcard (default: "basic") */
+  cardType?: FlashcardType;
+  /** Excerpt of the source text the flashcard was generated from, when available */
+  sourceContext?: string;
 }
 
+interface StreamFlashcardsOptions {
+  /** Called after each chunk of a long source text has been processed */
+  onChunkComplete?: (chunk: GenerationChunkResult) => void;
+  /** Aborts the requests to the AI provider, e.g. when the client has disconnected */
+  signal?: AbortSignal;
+}
+
+// Long source texts are split into chunks of at most this length, generated separately
+const CHUNK_MAX_LENGTH = 8000;
+
+// Maximum number of chunk requests running at the same time
+const CHUNK_CONCURRENCY = 3;
+
+// Maximum number of tags kept of those the model proposes for a flashcard
+const MAX_SUGGESTED_TAGS = 3;
+
+// Response format (JSON Schema) expected by the consumer
+// Note: strict mode requires additionalProperties: false at all object levels
+const FLASHCARDS_RESPONSE_FORMAT = {
+  type: "json_schema" as const,
+  json_schema: {
+    name: "flashcards",
+    strict: true,
+    schema: {
+      type: "object",
+      properties: {
+        flashcards: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              front: { type: "string" },
+              back: { type: "string" },
+              tags: { type: "array", items: { type: "string" } },
+            },
+            required: ["front", "back", "tags"],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ["flashcards"],
+      additionalProperties: false,
+    },
+  },
+};
+
+// Response format of a single flashcard refinement (two flashcards for "split")
+const REFINED_FLASHCARDS_RESPONSE_FORMAT = {
+  type: "json_schema" as const,
+  json_schema: {
+    ...FLASHCARDS_RESPONSE_FORMAT.json_schema,
+    name: "refined_flashcards",
+  },
+};
+
+// What the model is asked to do with the flashcard for each refine action
+const REFINE_INSTRUCTIONS: Record<SuggestionRefineAction, string> = {
+  regenerate:
+    "Write a new version of this flashcard that tests the same knowledge, with a differently phrased question and answer.",
+  shorten: "Make this flashcard more concise: shorten the question and the answer, keeping only the essential fact.",
+  harden:
+    "Make this flashcard more challenging: ask about a deeper detail, a consequence or an application instead of a simple definition.",
+  split:
+    "Split this flashcard into exactly two flashcards, each testing a single part of the knowledge covered by the original one.",
+  add_example: "Keep the question and extend the answer with a short, concrete example that illustrates it.",
+};
+
 /**
  * Error thrown when OpenRouter API call fails.
  */
@@ -56,7 +155,7 @@ export class AIGenerationService {
   /**
    * Generates flashcard suggestions from source text using the specified AI model.
    *
-   * @param params - Generation parameters (sourceText, model, count)
+   * @param params - Generation parameters (sourceText, model, count, cardType)
    * @returns Array of flashcard suggestions with generation duration
    * @throws {AIGenerationError} When API call fails or response is invalid
    */
@@ -64,16 +163,20 @@ export class AIGenerationService {
     const startTime = Date.now();
 
     try {
-      // Use mock data in development mode
-      const suggestions = this.useMock
-        ? await this.generateMockFlashcards(params.count, params.sourceText)
-        : await this.callOpenRouter(params.model, params.sourceText, params.count);
+      const sourceChunks = splitIntoChunks(params.sourceText, CHUNK_MAX_LENGTH);
+
+      if (sourceChunks.length > 1) {
+        return await this.generateChunked(params, sourceChunks, startTime);
+      }
+
+      const suggestions = await this.generateForText(params, params.sourceText, params.count);
 
       const generationDuration = Date.now() - startTime;
 
       return {
         suggestions,
         generationDuration,
+        chunks: [],
       };
     } catch (error) {
       if (error instanceof AIGenerationError) {
@@ -90,7 +193,255 @@ export class AIGenerationService {
     }
   }
 
-  private async callOpenRouter(model: string, sourceText: string, count: number): Promise<GeneratedSuggestionDto[]> {
+  /**
+   * Rewrites a single flashcard according to the refine action, using an excerpt of the
+   * source text as context when it is available.
+   *
+   * @param params - Refinement parameters (model, card, action, cardType, sourceContext)
+   * @returns The refined flashcard, or two flashcards for "split"
+   * @throws {AIGenerationError} When API call fails or response is invalid
+   */
+  async refineFlashcard(params: RefineFlashcardParams): Promise<GeneratedSuggestionDto[]> {
+    const expectedCount = params.action === "split" ? 2 : 1;
+
+    try {
+      const cards = this.useMock ? await this.refineMockFlashcard(params) : await this.callOpenRouterRefine(params);
+
+      if (cards.length < expectedCount) {
+        throw new AIGenerationError(
+          `AI response contained ${cards.length} of ${expectedCount} expected flashcards`,
+          "PARSE_ERROR"
+        );
+      }
+
+      return cards.slice(0, expectedCount);
+    } catch (error) {
+      if (error instanceof AIGenerationError) {
+        throw error;
+      }
+
+      if (error instanceof OpenRouterError) {
+        throw new AIGenerationError(error.message, error.code, error);
+      }
+
+      throw new AIGenerationError("Unexpected error during flashcard refinement", "UNEXPECTED_ERROR", error);
+    }
+  }
+
+  /**
+   * Generates flashcard suggestions as a stream: each suggestion is yielded as soon as
+   * the model has finished writing it, instead of waiting for the complete response.
+   * Long source texts are generated chunk by chunk - suggestions of a chunk are yielded
+   * together once the chunk is done.
+   *
+   * @param params - Generation parameters (sourceText, model, count, cardType)
+   * @param options - Optional callback receiving the outcome of each chunk, and an abort signal
+   * @yields Flashcard suggestions in the order produced by the model
+   * @throws {AIGenerationError} When API call fails or the stream contains no valid suggestions
+   */
+  async *streamFlashcards(
+    params: GenerateFlashcardsParams,
+    options: StreamFlashcardsOptions = {}
+  ): AsyncGenerator<GeneratedSuggestionDto> {
+    try {
+      const sourceChunks = splitIntoChunks(params.sourceText, CHUNK_MAX_LENGTH);
+
+      if (sourceChunks.length > 1) {
+        yield* this.streamChunked(params, sourceChunks, options);
+        return;
+      }
+
+      if (this.useMock) {
+        yield* this.streamMockFlashcards(params.count, params.sourceText, params.cardType);
+        return;
+      }
+
+      yield* this.streamFromOpenRouter(params.model, params.sourceText, params.count, params.cardType, options.signal);
+    } catch (error) {
+      if (error instanceof AIGenerationError) {
+        throw error;
+      }
+
+      if (error instanceof OpenRouterError) {
+        throw new AIGenerationError(error.message, error.code, error);
+      }
+
+      throw new AIGenerationError(
+        error instanceof Error ? error.message : "Unexpected error during flashcard generation",
+        "STREAM_ERROR",
+        error
+      );
+    }
+  }
+
+  /**
+   * Generates flashcards from every chunk (at most CHUNK_CONCURRENCY at a time) and merges
+   * the results in source order, dropping duplicates. Fails only when all chunks fail.
+   */
+  private async generateChunked(
+    params: GenerateFlashcardsParams,
+    sourceChunks: string[],
+    startTime: number
+  ): Promise<GenerateFlashcardsResult> {
+    const perChunk = new Map<number, GeneratedSuggestionDto[]>();
+    const chunks: GenerationChunkResult[] = [];
+    let firstError: unknown;
+
+    for await (const outcome of this.runChunks(params, sourceChunks)) {
+      chunks.push(outcome.result);
+
+      if (outcome.suggestions) {
+        perChunk.set(outcome.result.chunkIndex, outcome.suggestions);
+      } else {
+        firstError ??= outcome.error;
+      }
+    }
+
+    if (perChunk.size === 0) {
+      throw firstError;
+    }
+
+    // Merge in source order so that flashcards follow the structure of the text
+    const seen = new Set<string>();
+    const suggestions = [...perChunk.entries()]
+      .sort(([a], [b]) => a - b)
+      .flatMap(([, items]) => this.takeUnique(items, seen));
+
+    return {
+      suggestions: suggestions.slice(0, params.count),
+      generationDuration: Date.now() - startTime,
+      chunks: chunks.sort((a, b) => a.chunkIndex - b.chunkIndex),
+    };
+  }
+
+  /**
+   * Streaming counterpart of generateChunked: yields the new (non-duplicate) suggestions
+   * of each chunk as soon as it completes.
+   */
+  private async *streamChunked(
+    params: GenerateFlashcardsParams,
+    sourceChunks: string[],
+    options: StreamFlashcardsOptions
+  ): AsyncGenerator<GeneratedSuggestionDto> {
+    const seen = new Set<string>();
+    let emitted = 0;
+    let firstError: unknown;
+
+    for await (const outcome of this.runChunks(params, sourceChunks, options.signal)) {
+      options.onChunkComplete?.(outcome.result);
+
+      if (!outcome.suggestions) {
+        firstError ??= outcome.error;
+        continue;
+      }
+
+      for (const suggestion of this.takeUnique(outcome.suggestions, seen)) {
+        if (emitted >= params.count) return;
+
+        emitted++;
+        yield suggestion;
+      }
+    }
+
+    if (emitted === 0) {
+      throw firstError ?? new AIGenerationError("AI response contained no valid flashcards", "PARSE_ERROR");
+    }
+  }
+
+  /**
+   * Splits the count budget between chunks and generates each chunk with bounded concurrency.
+   * Chunks with no budget are skipped. Yields outcomes in completion order.
+   */
+  private async *runChunks(
+    params: GenerateFlashcardsParams,
+    sourceChunks: string[],
+    signal?: AbortSignal
+  ): AsyncGenerator<{ result: GenerationChunkResult; suggestions?: GeneratedSuggestionDto[]; error?: unknown }> {
+    const budget = allocateCountBudget(
+      params.count,
+      sourceChunks.map((chunk) => chunk.length)
+    );
+
+    const jobs = sourceChunks
+      .map((text, chunkIndex) => ({ text, chunkIndex, count: budget[chunkIndex] }))
+      .filter((job) => job.count > 0);
+
+    // Workers never reject - a failed chunk is reported with its error and duration
+    const outcomes = mapWithConcurrency(jobs, CHUNK_CONCURRENCY, async (job) => {
+      const startTime = Date.now();
+      const result = {
+        chunkIndex: job.chunkIndex,
+        sourceTextLength: job.text.length,
+        requestedCount: job.count,
+      };
+
+      try {
+        const suggestions = await this.generateForText(params, job.text, job.count, signal);
+        return {
+          result: { ...result, generatedCount: suggestions.length, durationMs: Date.now() - startTime },
+          suggestions,
+        };
+      } catch (error) {
+        return {
+          result: {
+            ...result,
+            generatedCount: 0,
+            durationMs: Date.now() - startTime,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          error,
+        };
+      }
+    });
+
+    for await (const outcome of outcomes) {
+      if (outcome.status === "fulfilled") {
+        yield outcome.value;
+      }
+    }
+  }
+
+  /**
+   * Generates flashcards for a single piece of text (mock data in development mode).
+   */
+  private generateForText(
+    params: GenerateFlashcardsParams,
+    sourceText: string,
+    count: number,
+    signal?: AbortSignal
+  ): Promise<GeneratedSuggestionDto[]> {
+    return this.useMock
+      ? this.generateMockFlashcards(count, sourceText, params.cardType)
+      : this.callOpenRouter(params.model, sourceText, count, params.cardType, signal);
+  }
+
+  /**
+   * Returns suggestions whose front has not been seen yet and records them in `seen`.
+   * Fronts are compared case-insensitively, ignoring punctuation and whitespace differences.
+   */
+  private takeUnique(suggestions: GeneratedSuggestionDto[], seen: Set<string>): GeneratedSuggestionDto[] {
+    return suggestions.filter((suggestion) => {
+      const key = suggestion.front
+        .normalize("NFKC")
+        .toLowerCase()
+        .replace(/[\p{P}\p{S}]+/gu, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+
+      if (seen.has(key)) return false;
+
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private async callOpenRouter(
+    model: string,
+    sourceText: string,
+    count: number,
+    cardType: FlashcardType = "basic",
+    signal?: AbortSignal
+  ): Promise<GeneratedSuggestionDto[]> {
     // Configure model and send a single conversational request using OpenRouterService
     // Set default model for this call
     console.log("[AI-Generation] Starting callOpenRouter with model:", model);
@@ -98,49 +449,9 @@ export class AIGenerationService {
       this.openRouter.setDefaultModel(model);
     }
 
-    const systemMessage = `You are an expert at creating high-quality flashcards for effective learning.
-Generate exactly ${count} flashcards from the provided text.
-Each flashcard should have a clear question (front) and answer (back).
-Focus on key concepts and facts suitable for spaced repetition.
-
-IMPORTANT: Detect the language of the source text and create ALL flashcards in that SAME language.
-For example:
-- If the source text is in Polish, write questions and answers in Polish.
-- If the source text is in English, write questions and answers in English.
-- If the source text is in German, write questions and answers in German.
-Do NOT translate or mix languages. Keep everything in the original language of the source text.`;
-
+    const systemMessage = this.buildSystemMessage(count, cardType);
     const userMessage = `Source text:\n${sourceText}`;
 
-    // Response format (JSON Schema) expected by the consumer
-    // Note: strict mode requires additionalProperties: false at all object levels
-    const responseFormat = {
-      type: "json_schema" as const,
-      json_schema: {
-        name: "flashcards",
-        strict: true,
-        schema: {
-          type: "object",
-          properties: {
-            flashcards: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  front: { type: "string" },
-                  back: { type: "string" },
-                },
-                required: ["front", "back"],
-                additionalProperties: false,
-              },
-            },
-          },
-          required: ["flashcards"],
-          additionalProperties: false,
-        },
-      },
-    };
-
     const result = await this.openRouter.sendMessage({
       model,
       systemMessage,
@@ -149,7 +460,8 @@ Do NOT translate or mix languages. Keep everything in the original language of t
         temperature: 0.7,
         top_p: 1,
       },
-      responseFormat,
+      responseFormat: FLASHCARDS_RESPONSE_FORMAT,
+      signal,
     });
 
     console.log("[AI-Generation] OpenRouter result:", {
@@ -177,7 +489,165 @@ Do NOT translate or mix languages. Keep everything in the original language of t
       throw new AIGenerationError("Invalid AI response shape: flashcards missing or not array", "PARSE_ERROR", data);
     }
 
-    return flashcardsValue as GeneratedSuggestionDto[];
+    return flashcardsValue
+      .map((item) => this.toSuggestion(item, cardType))
+      .filter((card): card is GeneratedSuggestionDto => card !== null);
+  }
+
+  private async callOpenRouterRefine(params: RefineFlashcardParams): Promise<GeneratedSuggestionDto[]> {
+    if (params.model) {
+      this.openRouter.setDefaultModel(params.model);
+    }
+
+    const context = params.sourceContext
+      ? `\n\nSource text the flashcard was created from:\n${params.sourceContext}`
+      : "";
+
+    const result = await this.openRouter.sendMessage({
+      model: params.model,
+      systemMessage: this.buildRefineSystemMessage(params.action, params.cardType),
+      userMessage: `Flashcard:\n${JSON.stringify({ front: params.card.front, back: params.card.back, tags: params.card.tags })}${context}`,
+      modelParams: {
+        temperature: 0.7,
+        top_p: 1,
+      },
+      responseFormat: REFINED_FLASHCARDS_RESPONSE_FORMAT,
+    });
+
+    if (!result.success) {
+      const err = result.error;
+      throw new AIGenerationError(err?.message || "AI refinement failed", err?.code || "AI_ERROR", err?.details);
+    }
+
+    const data = result.data as Record<string, unknown> | null;
+    const flashcardsValue = data && typeof data === "object" ? data["flashcards"] : null;
+
+    if (!Array.isArray(flashcardsValue)) {
+      throw new AIGenerationError("Invalid AI response shape: flashcards missing or not array", "PARSE_ERROR", data);
+    }
+
+    return flashcardsValue
+      .map((item) => this.toSuggestion(item, params.cardType))
+      .filter((card): card is GeneratedSuggestionDto => card !== null);
+  }
+
+  private async *streamFromOpenRouter(
+    model: string,
+    sourceText: string,
+    count: number,
+    cardType: FlashcardType = "basic",
+    signal?: AbortSignal
+  ): AsyncGenerator<GeneratedSuggestionDto> {
+    if (model) {
+      this.openRouter.setDefaultModel(model);
+    }
+
+    const parser = new JsonArrayStreamParser("flashcards");
+    let emitted = 0;
+
+    const chunks = this.openRouter.streamMessage({
+      model,
+      systemMessage: this.buildSystemMessage(count, cardType),
+      userMessage: `Source text:\n${sourceText}`,
+      modelParams: {
+        temperature: 0.7,
+        top_p: 1,
+      },
+      responseFormat: FLASHCARDS_RESPONSE_FORMAT,
+      signal,
+    });
+
+    for await (const chunk of chunks) {
+      for (const item of parser.push(chunk)) {
+        const suggestion = this.toSuggestion(item, cardType);
+        if (!suggestion) continue;
+
+        emitted++;
+        yield suggestion;
+      }
+    }
+
+    if (emitted === 0) {
+      throw new AIGenerationError("AI response contained no valid flashcards", "PARSE_ERROR");
+    }
+  }
+
+  /**
+   * Narrows a parsed array item to a flashcard suggestion, or returns null when it is malformed.
+   * Cloze suggestions need a valid cloze text; their back (extra info) may be empty.
+   * Proposed tags are normalized; invalid ones are dropped rather than rejecting the flashcard.
+   */
+  private toSuggestion(item: unknown, cardType: FlashcardType = "basic"): GeneratedSuggestionDto | null {
+    if (!item || typeof item !== "object") return null;
+
+    const { front, back, tags } = item as Record<string, unknown>;
+    if (typeof front !== "string" || typeof back !== "string" || !front.trim()) {
+      return null;
+    }
+
+    if (cardType === "cloze" ? validateClozeText(front) !== null : !back.trim()) {
+      return null;
+    }
+
+    return { front, back, tags: this.toTags(tags) };
+  }
+
+  /**
+   * Normalizes the tags proposed by the model, keeping the first MAX_SUGGESTED_TAGS valid distinct ones.
+   */
+  private toTags(value: unknown): string[] {
+    if (!Array.isArray(value)) return [];
+
+    const tags = new Set<string>();
+    for (const item of value) {
+      const parsed = tagSchema.safeParse(item);
+      if (parsed.success) tags.add(parsed.data);
+    }
+
+    return [...tags].slice(0, MAX_SUGGESTED_TAGS);
+  }
+
+  /**
+   * Builds the system prompt instructing the model how to create flashcards.
+   */
+  private buildSystemMessage(count: number, cardType: FlashcardType = "basic"): string {
+    const format =
+      cardType === "cloze"
+        ? `Each flashcard is a cloze deletion note: the front is a self-contained sentence from the text in which key terms are hidden as {{c1::term}}, {{c2::other term}} (every number becomes a separate card), and the back is optional extra information (use an empty string when there is none).
+Hide only essential terms, never whole sentences.`
+        : "Each flashcard should have a clear question (front) and answer (back).";
+
+    return `You are an expert at creating high-quality flashcards for effective learning.
+Generate exactly ${count} flashcards from the provided text.
+${format}
+Focus on key concepts and facts suitable for spaced repetition.
+Give each flashcard 1-${MAX_SUGGESTED_TAGS} short topic tags (lowercase, words joined with "-", e.g. "cell-biology"); flashcards about the same topic should share a tag.
+
+IMPORTANT: Detect the language of the source text and create ALL flashcards (including tags) in that SAME language.
+For example:
+- If the source text is in Polish, write questions and answers in Polish.
+- If the source text is in English, write questions and answers in English.
+- If the source text is in German, write questions and answers in German.
+Do NOT translate or mix languages. Keep everything in the original language of the source text.`;
+  }
+
+  /**
+   * Builds the system prompt instructing the model how to refine a single flashcard.
+   */
+  private buildRefineSystemMessage(action: SuggestionRefineAction, cardType: FlashcardType = "basic"): string {
+    const format =
+      cardType === "cloze"
+        ? `a cloze deletion flashcard (front: text with hidden terms marked as {{c1::term}}, back: optional extra information) and, when available, the source text it was created from.
+Keep the cloze format: every resulting front must contain at least one {{c1::...}} deletion`
+        : "a flashcard (front: question, back: answer) and, when available, the source text it was created from";
+
+    return `You are an expert at creating high-quality flashcards for effective learning.
+You will receive ${format}.
+${REFINE_INSTRUCTIONS[action]}
+Stay faithful to the source text and do not introduce facts that are not supported by it.
+Return the result as a list of flashcards, keeping the tags of the original flashcard unless they no longer fit.
+
+IMPORTANT: Write the result in the SAME language as the flashcard. Do NOT translate or mix languages.`;
   }
 
   /**
@@ -194,9 +664,14 @@ Do NOT translate or mix languages. Keep everything in the original language of t
    *
    * @param count - Number of flashcards to generate
    * @param sourceText - Source text (used to create contextual mocks)
+   * @param cardType - Type of the generated cards
    * @returns Array of mock flashcard suggestions
    */
-  private async generateMockFlashcards(count: number, sourceText: string): Promise<GeneratedSuggestionDto[]> {
+  private async generateMockFlashcards(
+    count: number,
+    sourceText: string,
+    cardType: FlashcardType = "basic"
+  ): Promise<GeneratedSuggestionDto[]> {
     // Simulate API delay (500-2000ms)
     const delay = 500 + Math.random() * 1500;
     await this.delay(delay);
@@ -208,15 +683,67 @@ Do NOT translate or mix languages. Keep everything in the original language of t
     const suggestions: GeneratedSuggestionDto[] = [];
 
     for (let i = 0; i < count; i++) {
+      if (cardType === "cloze") {
+        suggestions.push({
+          front: `{{c1::Concept ${i + 1}}} is a key idea of the text about {{c2::${topic}}}.`,
+          back: `Extra ${i + 1}: generated context based on the provided text.`,
+          tags: this.toTags([topic, "concepts"]),
+        });
+        continue;
+      }
+
       suggestions.push({
         front: `Question ${i + 1} about ${topic}?`,
         back: `Answer ${i + 1}: This is a generated answer based on the provided text about ${topic}. It demonstrates the flashcard format with a clear, concise response.`,
+        tags: this.toTags([topic]),
       });
     }
 
     return suggestions;
   }
 
+  /**
+   * Refines a flashcard with mock data for development and testing.
+   */
+  private async refineMockFlashcard(params: RefineFlashcardParams): Promise<GeneratedSuggestionDto[]> {
+    await this.delay(300 + Math.random() * 700);
+
+    const { front, back, tags } = params.card;
+
+    switch (params.action) {
+      case "regenerate":
+        return [{ front: `In other words: ${front}`, back, tags }];
+      case "shorten":
+        return [{ front, back: back.split(/(?<=[.!?])\s/)[0], tags }];
+      case "harden":
+        return [{ front: `Why does it matter? ${front}`, back: `${back} This has further consequences.`, tags }];
+      case "split":
+        return [
+          { front: `${front} (part 1)`, back, tags },
+          { front: `${front} (part 2)`, back, tags },
+        ];
+      case "add_example":
+        return [{ front, back: `${back} For example: a typical case from the source text.`, tags }];
+    }
+  }
+
+  /**
+   * Streams mock flashcards for development and testing, one by one with a short delay,
+   * to mimic a model writing its response.
+   */
+  private async *streamMockFlashcards(
+    count: number,
+    sourceText: string,
+    cardType?: FlashcardType
+  ): AsyncGenerator<GeneratedSuggestionDto> {
+    const suggestions = await this.generateMockFlashcards(count, sourceText, cardType);
+
+    for (const suggestion of suggestions) {
+      await this.delay(100 + Math.random() * 200);
+      yield suggestion;
+    }
+  }
+
   /**
    * Extracts a topic or keyword from the text preview for mock generation.
    */
@@ -0,0 +1,323 @@
+import crypto from "node:crypto";
+import initSqlJs from "sql.js";
+import { zipSync, strToU8 } from "fflate";
+import type { DeckExportDto, ExportedFlashcardDto } from "../../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Separator of note fields in the `notes.flds` column */
+const FIELD_SEPARATOR = "\x1f";
+
+/** Anki's built-in default deck, which must exist in every collection */
+const DEFAULT_DECK_ID = 1;
+
+/**
+ * Schema 11 of the Anki collection - the format read by all Anki versions since 2.1.
+ */
+const COLLECTION_SCHEMA = `
+  CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+    ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null,
+    models text not null, decks text not null, dconf text not null, tags text not null);
+  CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null,
+    usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null,
+    flags integer not null, data text not null);
+  CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null,
+    mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null,
+    ivl integer not null, factor integer not null, reps integer not null, lapses integer not null,
+    left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+  CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+    ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+    type integer not null);
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn ON notes (usn);
+  CREATE INDEX ix_cards_usn ON cards (usn);
+  CREATE INDEX ix_revlog_usn ON revlog (usn);
+  CREATE INDEX ix_cards_nid ON cards (nid);
+  CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid ON revlog (cid);
+  CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+const CARD_CSS = `.card {
+  font-family: arial;
+  font-size: 20px;
+  text-align: center;
+  color: black;
+  background-color: white;
+}
+.cloze {
+  font-weight: bold;
+  color: blue;
+}`;
+
+interface NoteTypeSpec {
+  id: number;
+  name: string;
+  /** 0 = standard, 1 = cloze */
+  type: 0 | 1;
+  fields: string[];
+  templates: { name: string; qfmt: string; afmt: string }[];
+}
+
+/**
+ * Builds the JSON of a note type as stored in `col.models`.
+ */
+function buildNoteType(spec: NoteTypeSpec, deckId: number, modSeconds: number) {
+  return {
+    id: spec.id,
+    name: spec.name,
+    type: spec.type,
+    mod: modSeconds,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: spec.templates.map((template, ord) => ({
+      name: template.name,
+      ord,
+      qfmt: template.qfmt,
+      afmt: template.afmt,
+      bqfmt: "",
+      bafmt: "",
+      did: null,
+    })),
+    flds: spec.fields.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: "Arial", size: 20 })),
+    css: CARD_CSS,
+    latexPre:
+      "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+    latexPost: "\\end{document}",
+    req: spec.type === 0 ? spec.templates.map((_, ord) => [ord, "any", [ord]]) : [],
+    tags: [],
+    vers: [],
+  };
+}
+
+/**
+ * Builds the JSON of a deck as stored in `col.decks`.
+ */
+function buildDeck(id: number, name: string, description: string, modSeconds: number) {
+  return {
+    id,
+    name,
+    desc: description,
+    mod: modSeconds,
+    usn: -1,
+    dyn: 0,
+    conf: 1,
+    collapsed: false,
+    browserCollapsed: false,
+    extendNew: 0,
+    extendRev: 0,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+/**
+ * Anki's default deck options.
+ */
+function buildDeckConfig(modSeconds: number) {
+  return {
+    id: 1,
+    name: "Default",
+    mod: modSeconds,
+    usn: 0,
+    dyn: false,
+    maxTaken: 60,
+    timer: 0,
+    autoplay: true,
+    replayq: true,
+    new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false },
+    rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, hardFactor: 1.2, bury: false },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 },
+  };
+}
+
+/**
+ * Converts plain text to the HTML stored in Anki fields.
+ */
+function textToField(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Checksum of the first field used by Anki for duplicate detection: the first 8 hex digits
+ * of its SHA-1 as an integer.
+ */
+function fieldChecksum(text: string): number {
+  return parseInt(crypto.createHash("sha1").update(text, "utf8").digest("hex").slice(0, 8), 16);
+}
+
+/**
+ * Tags of a note as stored in `notes.tags`: space-separated, with a space on both sides.
+ * Tags never contain whitespace (it is replaced by "-" when they are saved).
+ */
+function toAnkiTags(tags: string[]): string {
+  return tags.length > 0 ? ` ${tags.join(" ")} ` : "";
+}
+
+/**
+ * Converts the SM-2 state of a flashcard to the scheduling columns of an Anki card.
+ * Cards without successful repetitions are exported as new cards (position `newPosition`),
+ * others as review cards due on the same day as in 10xCards. Suspended cards are put
+ * in Anki's suspended queue (-1).
+ */
+function toAnkiScheduling(card: ExportedFlashcardDto, collectionCreatedAt: number, newPosition: number) {
+  if (card.repetitions <= 0) {
+    return { type: 0, queue: card.suspended ? -1 : 0, due: newPosition, ivl: 0, factor: 0, reps: 0 };
+  }
+
+  return {
+    type: 2,
+    queue: card.suspended ? -1 : 2,
+    due: Math.floor((new Date(card.next_review_at).getTime() - collectionCreatedAt * 1000) / DAY_MS),
+    ivl: Math.max(1, card.interval),
+    factor: Math.round(card.ease_factor * 1000),
+    reps: card.repetitions,
+  };
+}
+
+/**
+ * Builds an Anki package (.apkg) of a deck, readable by Anki 2.1 and newer.
+ *
+ * Basic cards use a "Basic (and reversed card)" note type - forward cards are its first,
+ * reversed cards its second template and sibling cards share one note. Cloze notes use a
+ * cloze note type with the extra info in "Back Extra". Notes carry the tags of their cards.
+ * Cards with successful repetitions keep interval, ease and due date; the rest are exported
+ * as new cards. Suspended cards stay suspended.
+ *
+ * @param deck - Deck to export with its flashcards
+ * @param now - Export time (default: current time)
+ * @returns Contents of the .apkg file
+ */
+export async function buildAnkiPackage(
+  deck: Pick<DeckExportDto, "deck" | "flashcards">,
+  now: Date = new Date()
+): Promise<Uint8Array> {
+  const nowMs = now.getTime();
+  const nowSeconds = Math.floor(nowMs / 1000);
+
+  // The collection starts on the day of the earliest due date, so that day numbers are never negative
+  const earliestMs = deck.flashcards.reduce(
+    (earliest, card) => Math.min(earliest, new Date(card.next_review_at).getTime()),
+    nowMs
+  );
+  const collectionCreatedAt = Math.floor(earliestMs / DAY_MS) * (DAY_MS / 1000);
+
+  const deckId = nowMs;
+  const basicNoteType: NoteTypeSpec = {
+    id: nowMs + 1,
+    name: "Basic (and reversed card)",
+    type: 0,
+    fields: ["Front", "Back"],
+    templates: [
+      { name: "Card 1", qfmt: "{{Front}}", afmt: '{{FrontSide}}\n\n<hr id="answer">\n\n{{Back}}' },
+      { name: "Card 2", qfmt: "{{Back}}", afmt: '{{FrontSide}}\n\n<hr id="answer">\n\n{{Front}}' },
+    ],
+  };
+  const clozeNoteType: NoteTypeSpec = {
+    id: nowMs + 2,
+    name: "Cloze",
+    type: 1,
+    fields: ["Text", "Back Extra"],
+    templates: [{ name: "Cloze", qfmt: "{{cloze:Text}}", afmt: "{{cloze:Text}}<br>\n{{Back Extra}}" }],
+  };
+
+  // Sibling cards share one Anki note
+  const notes = new Map<string, ExportedFlashcardDto[]>();
+  deck.flashcards.forEach((card, index) => {
+    const key = card.note_id ?? `card-${index}`;
+    notes.set(key, [...(notes.get(key) ?? []), card]);
+  });
+
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    db.exec(COLLECTION_SCHEMA);
+
+    const models = Object.fromEntries(
+      [basicNoteType, clozeNoteType].map((spec) => [String(spec.id), buildNoteType(spec, deckId, nowSeconds)])
+    );
+    const decks = {
+      [String(DEFAULT_DECK_ID)]: buildDeck(DEFAULT_DECK_ID, "Default", "", nowSeconds),
+      [String(deckId)]: buildDeck(deckId, deck.deck.name, deck.deck.description ?? "", nowSeconds),
+    };
+    const conf = {
+      nextPos: notes.size + 1,
+      estTimes: true,
+      activeDecks: [deckId],
+      sortType: "noteFld",
+      timeLim: 0,
+      sortBackwards: false,
+      addToCur: true,
+      curDeck: deckId,
+      newSpread: 0,
+      dueCounts: true,
+      curModel: basicNoteType.id,
+      collapseTime: 1200,
+    };
+
+    db.run("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')", [
+      collectionCreatedAt,
+      nowMs,
+      nowMs,
+      JSON.stringify(conf),
+      JSON.stringify(models),
+      JSON.stringify(decks),
+      JSON.stringify({ "1": buildDeckConfig(nowSeconds) }),
+    ]);
+
+    let noteId = nowMs;
+    let cardId = nowMs;
+    let newPosition = 1;
+
+    for (const cards of notes.values()) {
+      noteId++;
+      const [first] = cards;
+      const isCloze = first.card_type === "cloze";
+
+      db.run("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')", [
+        noteId,
+        crypto.randomUUID().replace(/-/g, "").slice(0, 10),
+        isCloze ? clozeNoteType.id : basicNoteType.id,
+        nowSeconds,
+        // Cards of a note share their tags
+        toAnkiTags(first.tags),
+        [textToField(first.front), textToField(first.back)].join(FIELD_SEPARATOR),
+        first.front,
+        fieldChecksum(first.front),
+      ]);
+
+      for (const card of cards) {
+        cardId++;
+        const scheduling = toAnkiScheduling(card, collectionCreatedAt, newPosition);
+        const ord = isCloze ? (card.cloze_index ?? 1) - 1 : card.reversed ? 1 : 0;
+
+        db.run("INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, 0, '')", [
+          cardId,
+          noteId,
+          deckId,
+          ord,
+          nowSeconds,
+          scheduling.type,
+          scheduling.queue,
+          scheduling.due,
+          scheduling.ivl,
+          scheduling.factor,
+          scheduling.reps,
+        ]);
+      }
+
+      newPosition++;
+    }
+
+    return zipSync({
+      "collection.anki2": db.export(),
+      media: strToU8("{}"),
+    });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,546 @@
+import initSqlJs, { type Database, type SqlValue } from "sql.js";
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { TablesInsert } from "../../db/database.types";
+import type {
+  AnkiImportPreviewDto,
+  AnkiImportResponseDto,
+  FlashcardType,
+  ImportSampleCardDto,
+  ImportedDeckDto,
+} from "../../types";
+import { htmlToText } from "../utils/text-normalize";
+import { unzipLimited, ZipSizeLimitError } from "../utils/zip";
+import { getClozeIndices, validateClozeText } from "../utils/cloze";
+import { MAX_BACK_LENGTH, MAX_FRONT_LENGTH } from "../validators/flashcard.validator";
+import { DEFAULT_EASE_FACTOR, MIN_EASE_FACTOR, type Sm2Schedule } from "../utils/sm2";
+import { getBuryUntil } from "./flashcard-notes.service";
+
+/** Limit of the deck name column */
+const MAX_DECK_NAME_LENGTH = 100;
+
+/** Maximum uncompressed size of the collection read from a package (200 MB) */
+export const MAX_COLLECTION_BYTES = 200 * 1024 * 1024;
+
+/** Package entries that are read - media files are only counted */
+const COLLECTION_FILES = ["collection.anki21", "collection.anki2"];
+
+/** Number of example cards per deck in the preview */
+const PREVIEW_SAMPLE_COUNT = 3;
+
+/** Flashcards are inserted in batches of this size */
+const INSERT_BATCH_SIZE = 500;
+
+/** Anki stores due dates of learning cards as epoch seconds and of review cards as day numbers */
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Separator of note fields in the `notes.flds` column */
+const FIELD_SEPARATOR = "\x1f";
+
+const MEDIA_PATTERN = /<img\b[^>]*>|\[sound:[^\]]*\]/gi;
+const HAS_MEDIA_PATTERN = /<img\b|\[sound:/i;
+const CLOZE_MARKUP_PATTERN = /\{\{c\d+::/;
+
+/**
+ * Error thrown when an Anki package cannot be read.
+ */
+export class AnkiImportError extends Error {
+  constructor(
+    message: string,
+    public readonly errorCode: "INVALID_PACKAGE" | "PACKAGE_TOO_LARGE" | "UNSUPPORTED_VERSION" | "EMPTY_PACKAGE",
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "AnkiImportError";
+  }
+}
+
+/**
+ * Scheduling columns of an Anki card.
+ * - type: 0 = new, 1 = learning, 2 = review, 3 = relearning
+ * - due: day number relative to the collection creation for review cards, epoch seconds for learning cards
+ * - ivl: interval in days, factor: ease in permille (2500 = 2.5)
+ */
+export interface AnkiScheduling {
+  type: number;
+  due: number;
+  ivl: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+}
+
+/**
+ * Anki card mapped to a flashcard, with its schedule converted to SM-2.
+ */
+export interface AnkiCard extends Sm2Schedule {
+  /** ID of the Anki note - cards of the same note become siblings */
+  ankiNoteId: string;
+  front: string;
+  back: string;
+  card_type: FlashcardType;
+  reversed: boolean;
+  cloze_index: number | null;
+  isNew: boolean;
+  /** Suspended in Anki (queue -1) */
+  suspended: boolean;
+  /** Buried in Anki (queue -2 or -3) - buried until the next day */
+  buried: boolean;
+}
+
+export interface AnkiDeck {
+  ankiId: string;
+  name: string;
+  cards: AnkiCard[];
+}
+
+/**
+ * Contents of an Anki package read into memory.
+ */
+export interface AnkiPackage {
+  decks: AnkiDeck[];
+  skippedCount: number;
+  mediaCount: number;
+  warnings: string[];
+}
+
+interface AnkiNoteType {
+  isCloze: boolean;
+}
+
+/**
+ * Converts the schedule of an Anki card to the SM-2 columns of a flashcard.
+ * New cards are due immediately with the default ease; learning and relearning cards are
+ * treated like failed cards (repetitions reset) but keep their ease and due date; review
+ * cards keep interval, ease and due date, with repetitions set so that the next successful
+ * review grows the interval by the ease factor.
+ *
+ * @param card - Scheduling columns of the Anki card
+ * @param collectionCreatedAt - Creation time of the collection (`col.crt`, epoch seconds)
+ * @param now - Import time, used as due date of new cards
+ */
+export function mapAnkiSchedule(
+  card: AnkiScheduling,
+  collectionCreatedAt: number,
+  now: Date = new Date()
+): Sm2Schedule {
+  if (card.type === 0) {
+    return { ease_factor: DEFAULT_EASE_FACTOR, interval: 0, repetitions: 0, next_review_at: now.toISOString() };
+  }
+
+  const easeFactor =
+    card.factor > 0 ? Math.max(MIN_EASE_FACTOR, Math.round(card.factor / 10) / 100) : DEFAULT_EASE_FACTOR;
+  const dueAt =
+    card.due > EPOCH_SECONDS_THRESHOLD
+      ? new Date(card.due * 1000)
+      : new Date(collectionCreatedAt * 1000 + card.due * DAY_MS);
+  const nextReviewAt = Number.isNaN(dueAt.getTime()) ? now.toISOString() : dueAt.toISOString();
+
+  if (card.type !== 2) {
+    return { ease_factor: easeFactor, interval: 0, repetitions: 0, next_review_at: nextReviewAt };
+  }
+
+  const interval = Math.max(1, card.ivl);
+
+  return {
+    ease_factor: easeFactor,
+    interval,
+    repetitions: interval >= 6 ? Math.max(2, card.reps - card.lapses) : 1,
+    next_review_at: nextReviewAt,
+  };
+}
+
+/**
+ * Converts an Anki field (HTML) to plain text. Images and sound references are dropped.
+ */
+function fieldToText(field: string): string {
+  return htmlToText(field.replace(MEDIA_PATTERN, ""));
+}
+
+/**
+ * Runs a query and returns its rows as objects.
+ */
+function queryRows(db: Database, sql: string): Record<string, SqlValue>[] {
+  const statement = db.prepare(sql);
+  const rows: Record<string, SqlValue>[] = [];
+
+  try {
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+  } finally {
+    statement.free();
+  }
+
+  return rows;
+}
+
+function hasTable(db: Database, name: string): boolean {
+  return queryRows(db, `SELECT name FROM sqlite_master WHERE type = 'table' AND name = '${name}'`).length > 0;
+}
+
+function parseJsonObject(value: SqlValue): Record<string, Record<string, unknown>> {
+  if (typeof value !== "string" || !value.trim()) return {};
+
+  const parsed: unknown = JSON.parse(value);
+  return parsed && typeof parsed === "object" ? (parsed as Record<string, Record<string, unknown>>) : {};
+}
+
+/**
+ * Reads deck names: from the `col.decks` JSON (schema 11) or the `decks` table (newer schemas,
+ * where subdeck names are separated with \x1f instead of "::").
+ */
+function readDeckNames(db: Database, decksJson: SqlValue): Map<string, string> {
+  const names = new Map<string, string>();
+
+  for (const [id, deck] of Object.entries(parseJsonObject(decksJson))) {
+    names.set(id, String(deck.name ?? id));
+  }
+
+  if (names.size === 0 && hasTable(db, "decks")) {
+    for (const row of queryRows(db, "SELECT id, name FROM decks")) {
+      names.set(String(row.id), String(row.name).split(FIELD_SEPARATOR).join("::"));
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Reads note types from the `col.models` JSON (schema 11, type 1 = cloze). Newer schemas keep
+ * note types in a binary format - their notes are detected as cloze by their markup.
+ */
+function readNoteTypes(modelsJson: SqlValue): Map<string, AnkiNoteType> {
+  const noteTypes = new Map<string, AnkiNoteType>();
+
+  for (const [id, model] of Object.entries(parseJsonObject(modelsJson))) {
+    noteTypes.set(id, { isCloze: model.type === 1 });
+  }
+
+  return noteTypes;
+}
+
+/**
+ * Picks the SQLite collection from the package files.
+ * Packages exported with "Support older Anki versions" disabled contain only a
+ * zstd-compressed `collection.anki21b` (next to a placeholder `collection.anki2`).
+ *
+ * @param entryNames - Names of all entries of the package, including those not unzipped
+ */
+function selectCollection(files: Record<string, Uint8Array>, entryNames: string[]): Uint8Array {
+  if (files["collection.anki21"]) return files["collection.anki21"];
+
+  if (entryNames.includes("collection.anki21b")) {
+    throw new AnkiImportError(
+      'This package uses the latest Anki format. Export it again with "Support older Anki versions" enabled.',
+      "UNSUPPORTED_VERSION"
+    );
+  }
+
+  if (files["collection.anki2"]) return files["collection.anki2"];
+
+  throw new AnkiImportError("The file is not an Anki package (collection not found)", "INVALID_PACKAGE");
+}
+
+/**
+ * Reads an Anki package (.apkg): a ZIP archive with an SQLite collection, a media map and
+ * numbered media files. Everything runs locally, the package is not stored.
+ *
+ * Decks are mapped to decks (cards of filtered decks go back to their original deck), notes to
+ * flashcards: the first two templates of basic note types become the forward and reversed card,
+ * cloze notes keep their `{{cN::...}}` text with the second field as extra. Fields are converted
+ * to plain text; media is not imported. Suspended cards stay suspended and buried cards are
+ * buried until the next day; only the collection is unzipped, up to MAX_COLLECTION_BYTES.
+ *
+ * @param data - Contents of the .apkg file
+ * @param now - Import time, used as due date of new cards
+ * @throws {AnkiImportError} When the file is not a supported Anki package, is too large or contains no cards
+ */
+export async function readAnkiPackage(data: Uint8Array, now: Date = new Date()): Promise<AnkiPackage> {
+  const entryNames: string[] = [];
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipLimited(data, {
+      include: (name) => {
+        entryNames.push(name);
+        return COLLECTION_FILES.includes(name);
+      },
+      maxTotalBytes: MAX_COLLECTION_BYTES,
+    });
+  } catch (error) {
+    if (error instanceof ZipSizeLimitError) {
+      throw new AnkiImportError("The Anki collection is too large to import", "PACKAGE_TOO_LARGE", error);
+    }
+    throw new AnkiImportError("The file is not a valid Anki package", "INVALID_PACKAGE", error);
+  }
+
+  const collection = selectCollection(files, entryNames);
+  const mediaCount = entryNames.filter((name) => /^\d+$/.test(name)).length;
+
+  const SQL = await initSqlJs();
+  let db: Database;
+  try {
+    db = new SQL.Database(collection);
+  } catch (error) {
+    throw new AnkiImportError("The Anki collection could not be opened", "INVALID_PACKAGE", error);
+  }
+
+  try {
+    let col: Record<string, SqlValue>;
+    let notes: Record<string, SqlValue>[];
+    let cards: Record<string, SqlValue>[];
+    let deckNames: Map<string, string>;
+    let noteTypes: Map<string, AnkiNoteType>;
+
+    try {
+      [col] = queryRows(db, "SELECT crt, models, decks FROM col LIMIT 1");
+      if (!col) throw new Error("Missing collection row");
+
+      deckNames = readDeckNames(db, col.decks);
+      noteTypes = readNoteTypes(col.models);
+      notes = queryRows(db, "SELECT id, mid, flds FROM notes");
+      cards = queryRows(
+        db,
+        "SELECT id, nid, did, odid, ord, type, queue, due, odue, ivl, factor, reps, lapses FROM cards ORDER BY nid, ord"
+      );
+    } catch (error) {
+      throw new AnkiImportError("The Anki collection could not be read", "INVALID_PACKAGE", error);
+    }
+
+    const collectionCreatedAt = Number(col.crt) || 0;
+    const notesById = new Map(notes.map((note) => [String(note.id), note]));
+    const decks = new Map<string, AnkiDeck>();
+    const mediaNoteIds = new Set<string>();
+    let skippedCount = 0;
+
+    for (const card of cards) {
+      const note = notesById.get(String(card.nid));
+      if (!note) {
+        skippedCount++;
+        continue;
+      }
+
+      const rawFields = String(note.flds ?? "").split(FIELD_SEPARATOR);
+      if (rawFields.some((field) => HAS_MEDIA_PATTERN.test(field))) {
+        mediaNoteIds.add(String(note.id));
+      }
+
+      const front = fieldToText(rawFields[0] ?? "");
+      const back = fieldToText(rawFields[1] ?? "");
+      const ord = Number(card.ord);
+      const noteType = noteTypes.get(String(note.mid));
+      const isCloze = noteType?.isCloze ?? CLOZE_MARKUP_PATTERN.test(front);
+
+      let content: Pick<AnkiCard, "front" | "back" | "card_type" | "reversed" | "cloze_index">;
+
+      if (isCloze) {
+        const clozeIndex = ord + 1;
+        if (validateClozeText(front) !== null || !getClozeIndices(front).includes(clozeIndex)) {
+          skippedCount++;
+          continue;
+        }
+        content = { front, back, card_type: "cloze", reversed: false, cloze_index: clozeIndex };
+      } else {
+        // Only the "Card 1" (front → back) and "Card 2" (back → front) templates are supported
+        if (ord > 1 || !front || !back) {
+          skippedCount++;
+          continue;
+        }
+        content = { front, back, card_type: "basic", reversed: ord === 1, cloze_index: null };
+      }
+
+      if (content.front.length > MAX_FRONT_LENGTH || content.back.length > MAX_BACK_LENGTH) {
+        skippedCount++;
+        continue;
+      }
+
+      // Cards of filtered decks are imported into their original deck, with their original due date
+      const isFiltered = Number(card.odid) > 0;
+      const deckId = String(isFiltered ? card.odid : card.did);
+      const scheduling: AnkiScheduling = {
+        type: Number(card.type),
+        due: Number(isFiltered && Number(card.odue) ? card.odue : card.due),
+        ivl: Number(card.ivl),
+        factor: Number(card.factor),
+        reps: Number(card.reps),
+        lapses: Number(card.lapses),
+      };
+
+      let deck = decks.get(deckId);
+      if (!deck) {
+        deck = { ankiId: deckId, name: deckNames.get(deckId) ?? "Imported deck", cards: [] };
+        decks.set(deckId, deck);
+      }
+
+      deck.cards.push({
+        ankiNoteId: String(note.id),
+        ...content,
+        ...mapAnkiSchedule(scheduling, collectionCreatedAt, now),
+        isNew: scheduling.type === 0,
+        suspended: Number(card.queue) === -1,
+        buried: Number(card.queue) === -2 || Number(card.queue) === -3,
+      });
+    }
+
+    if (decks.size === 0) {
+      throw new AnkiImportError("The Anki package contains no cards that can be imported", "EMPTY_PACKAGE");
+    }
+
+    const warnings: string[] = [];
+    if (mediaNoteIds.size > 0) {
+      warnings.push(`${mediaNoteIds.size} note(s) contain images or audio, which are not imported`);
+    }
+    const suspendedCount = [...decks.values()].flatMap((deck) => deck.cards).filter((card) => card.suspended).length;
+    if (suspendedCount > 0) {
+      warnings.push(`${suspendedCount} card(s) are suspended in Anki and are imported as suspended`);
+    }
+    if (skippedCount > 0) {
+      warnings.push(`${skippedCount} card(s) use unsupported templates or have empty or too long fields`);
+    }
+
+    return {
+      decks: [...decks.values()].sort((a, b) => a.name.localeCompare(b.name)),
+      skippedCount,
+      mediaCount,
+      warnings,
+    };
+  } finally {
+    db.close();
+  }
+}
+
+function toSample(card: AnkiCard): ImportSampleCardDto {
+  return {
+    front: card.front,
+    back: card.back,
+    card_type: card.card_type,
+    reversed: card.reversed,
+    cloze_index: card.cloze_index,
+  };
+}
+
+/**
+ * Summarises a package for the import preview.
+ */
+export function buildAnkiImportPreview(pkg: AnkiPackage, fileName: string): AnkiImportPreviewDto {
+  const decks = pkg.decks.map((deck) => ({
+    anki_deck_id: deck.ankiId,
+    name: deck.name,
+    card_count: deck.cards.length,
+    new_count: deck.cards.filter((card) => card.isNew).length,
+    scheduled_count: deck.cards.filter((card) => !card.isNew).length,
+    samples: deck.cards.slice(0, PREVIEW_SAMPLE_COUNT).map(toSample),
+  }));
+
+  return {
+    file_name: fileName,
+    decks,
+    total_cards: decks.reduce((sum, deck) => sum + deck.card_count, 0),
+    skipped_cards: pkg.skippedCount,
+    media_count: pkg.mediaCount,
+    warnings: pkg.warnings,
+  };
+}
+
+/**
+ * Imports decks of a package: creates a deck per Anki deck and its flashcards (source "manual")
+ * with the converted schedule. Cards of the same Anki note share a note ID, so that they are
+ * buried together like other sibling cards. When inserting flashcards fails, the created decks
+ * are removed again.
+ *
+ * @param params.deckIds - Anki deck IDs to import (default: all decks of the package)
+ * @throws {AnkiImportError} When none of the selected decks exists in the package
+ * @throws {Error} When a database operation fails
+ */
+export async function importAnkiPackage(
+  supabase: SupabaseClient,
+  params: { userId: string; pkg: AnkiPackage; deckIds?: string[]; now?: Date }
+): Promise<AnkiImportResponseDto> {
+  const { userId, pkg, deckIds, now = new Date() } = params;
+  const selectedDecks = deckIds ? pkg.decks.filter((deck) => deckIds.includes(deck.ankiId)) : pkg.decks;
+
+  if (selectedDecks.length === 0) {
+    throw new AnkiImportError("None of the selected decks exists in the package", "EMPTY_PACKAGE");
+  }
+
+  const { data: createdDecks, error: decksError } = await supabase
+    .from("decks")
+    .insert(
+      selectedDecks.map((deck) => ({
+        user_id: userId,
+        name: deck.name.slice(0, MAX_DECK_NAME_LENGTH),
+        description: "Imported from Anki",
+      }))
+    )
+    .select("id, name");
+
+  if (decksError || !createdDecks || createdDecks.length !== selectedDecks.length) {
+    throw new Error(`Failed to create decks: ${decksError?.message ?? "unexpected result"}`);
+  }
+
+  // Cards of one Anki note share a note ID (cloze notes always get one)
+  const noteCardCounts = new Map<string, number>();
+  for (const card of selectedDecks.flatMap((deck) => deck.cards)) {
+    noteCardCounts.set(card.ankiNoteId, (noteCardCounts.get(card.ankiNoteId) ?? 0) + 1);
+  }
+  const noteIds = new Map<string, string>();
+  const getNoteId = (card: AnkiCard): string | null => {
+    if (card.card_type !== "cloze" && (noteCardCounts.get(card.ankiNoteId) ?? 0) < 2) return null;
+
+    let noteId = noteIds.get(card.ankiNoteId);
+    if (!noteId) {
+      noteId = crypto.randomUUID();
+      noteIds.set(card.ankiNoteId, noteId);
+    }
+    return noteId;
+  };
+
+  const rows: TablesInsert<"flashcards">[] = selectedDecks.flatMap((deck, index) =>
+    deck.cards.map((card) => ({
+      deck_id: createdDecks[index].id,
+      user_id: userId,
+      source: "manual",
+      front: card.front,
+      back: card.back,
+      card_type: card.card_type,
+      reversed: card.reversed,
+      cloze_index: card.cloze_index,
+      note_id: getNoteId(card),
+      ease_factor: card.ease_factor,
+      interval: card.interval,
+      repetitions: card.repetitions,
+      next_review_at: card.next_review_at,
+      suspended: card.suspended,
+      buried_until: card.buried ? getBuryUntil(now) : null,
+    }))
+  );
+
+  for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+    const { error } = await supabase.from("flashcards").insert(rows.slice(start, start + INSERT_BATCH_SIZE));
+
+    if (error) {
+      // Flashcards are removed with their decks (on delete cascade)
+      await supabase
+        .from("decks")
+        .delete()
+        .in(
+          "id",
+          createdDecks.map((deck) => deck.id)
+        );
+      throw new Error(`Failed to import flashcards: ${error.message}`);
+    }
+  }
+
+  const decks: ImportedDeckDto[] = createdDecks.map((deck, index) => ({
+    id: deck.id,
+    name: deck.name,
+    flashcard_count: selectedDecks[index].cards.length,
+  }));
+
+  return {
+    decks,
+    imported_count: rows.length,
+    skipped_count: pkg.skippedCount,
+  };
+}
@@ -0,0 +1,156 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { DeckDto, DeckExportDto, DeckExportFormat, ExportedFlashcardDto } from "../../types";
+import { buildAnkiPackage } from "./anki-export.service";
+
+/** Flashcards are fetched in pages of this size */
+const FETCH_PAGE_SIZE = 1000;
+
+/**
+ * Columns of CSV/TSV exports, in order. Also the fields of flashcards in JSON exports.
+ */
+export const EXPORT_COLUMNS = [
+  "front",
+  "back",
+  "card_type",
+  "reversed",
+  "cloze_index",
+  "note_id",
+  "tags",
+  "source",
+  "generation_id",
+  "suspended",
+  "ease_factor",
+  "interval",
+  "repetitions",
+  "next_review_at",
+  "created_at",
+  "updated_at",
+] as const satisfies readonly (keyof ExportedFlashcardDto)[];
+
+/**
+ * File produced by a deck export.
+ */
+export interface DeckExportFile {
+  body: string | Uint8Array;
+  contentType: string;
+  fileName: string;
+}
+
+const CONTENT_TYPES: Record<DeckExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  tsv: "text/tab-separated-values; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  apkg: "application/octet-stream",
+};
+
+/**
+ * Loads a deck with all its flashcards for export, oldest cards first.
+ *
+ * @throws {Error} When the query fails
+ */
+export async function getDeckExport(
+  supabase: SupabaseClient,
+  deck: Pick<DeckDto, "id" | "name" | "description">,
+  now: Date = new Date()
+): Promise<DeckExportDto> {
+  const flashcards: ExportedFlashcardDto[] = [];
+
+  for (let offset = 0; ; offset += FETCH_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("flashcards")
+      .select(EXPORT_COLUMNS.join(", "))
+      .eq("deck_id", deck.id)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(offset, offset + FETCH_PAGE_SIZE - 1)
+      // Source and card type are stored as text
+      .returns<ExportedFlashcardDto[]>();
+
+    if (error) {
+      throw new Error(`Failed to fetch flashcards: ${error.message}`);
+    }
+
+    flashcards.push(...(data ?? []));
+
+    if (!data || data.length < FETCH_PAGE_SIZE) break;
+  }
+
+  return {
+    format: "10xcards-deck",
+    version: 1,
+    exported_at: now.toISOString(),
+    deck: { name: deck.name, description: deck.description },
+    flashcards,
+  };
+}
+
+/**
+ * Quotes a value when it contains the delimiter, quotes or line breaks (RFC 4180).
+ */
+function escapeDelimitedValue(value: string, delimiter: string): string {
+  if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Serialises flashcards as CSV or TSV with a header row of {@link EXPORT_COLUMNS}.
+ * Empty values (e.g. no note ID) are written as empty cells, tags as a comma-separated list.
+ */
+export function toDelimitedText(flashcards: ExportedFlashcardDto[], delimiter: "," | "\t"): string {
+  const toCell = (value: ExportedFlashcardDto[(typeof EXPORT_COLUMNS)[number]]) =>
+    escapeDelimitedValue(Array.isArray(value) ? value.join(",") : String(value ?? ""), delimiter);
+
+  const rows = [
+    EXPORT_COLUMNS.join(delimiter),
+    ...flashcards.map((card) => EXPORT_COLUMNS.map((column) => toCell(card[column])).join(delimiter)),
+  ];
+
+  return `${rows.join("\r\n")}\r\n`;
+}
+
+/**
+ * Builds a file name from the deck name, e.g. "Spanish Verbs" → "spanish-verbs.csv".
+ */
+export function getExportFileName(deckName: string, format: DeckExportFormat): string {
+  const baseName = deckName
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+  return `${baseName || "deck"}.${format}`;
+}
+
+/**
+ * Exports a deck with its flashcards as a CSV, TSV, JSON or Anki (.apkg) file.
+ *
+ * @throws {Error} When loading the flashcards fails
+ */
+export async function exportDeck(
+  supabase: SupabaseClient,
+  deck: Pick<DeckDto, "id" | "name" | "description">,
+  format: DeckExportFormat
+): Promise<DeckExportFile> {
+  const deckExport = await getDeckExport(supabase, deck);
+
+  let body: string | Uint8Array;
+  switch (format) {
+    case "csv":
+      body = toDelimitedText(deckExport.flashcards, ",");
+      break;
+    case "tsv":
+      body = toDelimitedText(deckExport.flashcards, "\t");
+      break;
+    case "json":
+      body = JSON.stringify(deckExport, null, 2);
+      break;
+    case "apkg":
+      body = await buildAnkiPackage(deckExport);
+      break;
+  }
+
+  return { body, contentType: CONTENT_TYPES[format], fileName: getExportFileName(deck.name, format) };
+}
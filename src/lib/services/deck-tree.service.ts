@@ -0,0 +1,72 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { DeckDto } from "../../types";
+import { getSubtreeDeckIds } from "../utils/deck-tree";
+
+/**
+ * Flashcard counts of a deck, including the cards of its sub-decks.
+ */
+export type DeckCounts = Pick<DeckDto, "flashcard_count" | "due_flashcard_count">;
+
+const EMPTY_COUNTS: DeckCounts = { flashcard_count: 0, due_flashcard_count: 0 };
+
+/**
+ * Counts the flashcards and due flashcards of the signed-in user's decks, rolled up through
+ * their sub-decks, done by the get_deck_counts() database function.
+ *
+ * @param deckId - Only count this deck (optional)
+ * @returns Counts by deck ID
+ * @throws {Error} When the query fails
+ */
+export async function getDeckCounts(supabase: SupabaseClient, deckId?: string): Promise<Map<string, DeckCounts>> {
+  const { data, error } = await supabase.rpc("get_deck_counts", { p_deck_id: deckId });
+
+  if (error) {
+    throw new Error(`Failed to count flashcards: ${error.message}`);
+  }
+
+  return new Map(
+    (data ?? []).map((row) => [
+      row.deck_id,
+      { flashcard_count: row.flashcard_count, due_flashcard_count: row.due_flashcard_count },
+    ])
+  );
+}
+
+/**
+ * Adds the rolled-up flashcard counts to a deck.
+ *
+ * @throws {Error} When the query fails
+ */
+export async function toDeckDto(supabase: SupabaseClient, deck: Omit<DeckDto, keyof DeckCounts>): Promise<DeckDto> {
+  const counts = await getDeckCounts(supabase, deck.id);
+
+  return { ...deck, ...(counts.get(deck.id) ?? EMPTY_COUNTS) };
+}
+
+/**
+ * Lists the positions of all decks of a user in the deck hierarchy.
+ *
+ * @throws {Error} When the query fails
+ */
+export async function getDeckHierarchy(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ id: string; parent_id: string | null }[]> {
+  const { data, error } = await supabase.from("decks").select("id, parent_id").eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to fetch decks: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * IDs of a deck and all of its sub-decks, the deck itself first - the decks studied
+ * together when the deck is studied.
+ *
+ * @throws {Error} When the query fails
+ */
+export async function getDeckSubtreeIds(supabase: SupabaseClient, userId: string, deckId: string): Promise<string[]> {
+  return getSubtreeDeckIds(await getDeckHierarchy(supabase, userId), deckId);
+}
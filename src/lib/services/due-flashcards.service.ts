@@ -0,0 +1,135 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { FlashcardDto, FlashcardSource, FlashcardType, DueFlashcardsResponseDto } from "../../types";
+import { DEFAULT_EASE_FACTOR } from "../utils/sm2";
+
+interface GetDueFlashcardsParams {
+  /** Decks the cards are taken from (a deck together with its sub-decks) */
+  deckIds: string[];
+  /** Maximum number of cards returned */
+  limit: number;
+  /** Maximum number of never-reviewed cards included (default: no separate cap) */
+  newLimit?: number;
+  /** Only cards labelled with this tag (normalized) */
+  tag?: string;
+  /** Reference time (default: now) */
+  now?: Date;
+}
+
+/**
+ * PostgREST filter matching cards that have already been reviewed.
+ * A card is "new" while it still has the initial SM-2 state (no repetitions, default ease factor);
+ * a lapsed card also has 0 repetitions but its ease factor was lowered by the failed review.
+ */
+const REVIEWED_FILTER = `repetitions.gt.0,ease_factor.neq.${DEFAULT_EASE_FACTOR}`;
+
+/**
+ * PostgREST filter matching cards that are not buried at the given time.
+ */
+function notBuriedFilter(now: string): string {
+  return `buried_until.is.null,buried_until.lte.${now}`;
+}
+
+/**
+ * Keeps only the first card of each note, so that siblings (both directions of a card,
+ * cloze numbers of a note) are not studied in the same session.
+ */
+export function excludeSiblings<T extends Pick<FlashcardDto, "note_id">>(cards: T[]): T[] {
+  const seenNotes = new Set<string>();
+
+  return cards.filter((card) => {
+    if (!card.note_id) return true;
+    if (seenNotes.has(card.note_id)) return false;
+
+    seenNotes.add(card.note_id);
+    return true;
+  });
+}
+
+/**
+ * Fetches flashcards of the given decks that are due for review, ordered by urgency.
+ *
+ * Cards that have been reviewed before come first, most overdue first.
+ * New (never reviewed) cards fill the remaining slots, oldest first, capped by `newLimit`.
+ * Suspended and buried cards are left out, and at most one card of each note is returned.
+ *
+ * @param supabase - Supabase client instance
+ * @param params - Deck IDs, limit, optional new-card cap and optional tag
+ * @returns Due flashcards and the total number of due cards in the decks
+ * @throws {Error} When a database query fails
+ */
+export async function getDueFlashcards(
+  supabase: SupabaseClient,
+  params: GetDueFlashcardsParams
+): Promise<DueFlashcardsResponseDto> {
+  const { deckIds, limit, newLimit = limit, tag } = params;
+  const now = (params.now ?? new Date()).toISOString();
+  // Without a tag every card matches: any array contains the empty array
+  const requiredTags = tag ? [tag] : [];
+
+  // Total number of due cards (regardless of limits)
+  const { count: totalDue, error: countError } = await supabase
+    .from("flashcards")
+    .select("*", { count: "exact", head: true })
+    .in("deck_id", deckIds)
+    .eq("suspended", false)
+    .contains("tags", requiredTags)
+    .lte("next_review_at", now)
+    .or(notBuriedFilter(now));
+
+  if (countError) {
+    throw new Error("Failed to count due flashcards");
+  }
+
+  // Reviewed cards - most overdue first
+  const { data: reviewCards, error: reviewError } = await supabase
+    .from("flashcards")
+    .select("*")
+    .in("deck_id", deckIds)
+    .eq("suspended", false)
+    .contains("tags", requiredTags)
+    .lte("next_review_at", now)
+    .or(notBuriedFilter(now))
+    .or(REVIEWED_FILTER)
+    .order("next_review_at", { ascending: true })
+    .limit(limit);
+
+  if (reviewError) {
+    throw new Error("Failed to fetch due flashcards");
+  }
+
+  // New cards - fill remaining slots, up to the new-card cap
+  const newSlots = Math.min(newLimit, limit - (reviewCards?.length ?? 0));
+  let newCards: typeof reviewCards = [];
+
+  if (newSlots > 0) {
+    const { data, error: newError } = await supabase
+      .from("flashcards")
+      .select("*")
+      .in("deck_id", deckIds)
+      .eq("suspended", false)
+      .contains("tags", requiredTags)
+      .lte("next_review_at", now)
+      .or(notBuriedFilter(now))
+      .eq("repetitions", 0)
+      .eq("ease_factor", DEFAULT_EASE_FACTOR)
+      .order("created_at", { ascending: true })
+      .limit(newSlots);
+
+    if (newError) {
+      throw new Error("Failed to fetch new flashcards");
+    }
+
+    newCards = data ?? [];
+  }
+
+  const data: FlashcardDto[] = excludeSiblings([...(reviewCards ?? []), ...newCards]).map((fc) => ({
+    ...fc,
+    source: fc.source as FlashcardSource,
+    card_type: fc.card_type as FlashcardType,
+  }));
+
+  return {
+    data,
+    total_due: totalDue ?? 0,
+  };
+}
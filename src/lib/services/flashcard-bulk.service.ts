@@ -0,0 +1,256 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Tables, TablesInsert, TablesUpdate } from "../../db/database.types";
+import type { BulkFlashcardOperationResponseDto, BulkFlashcardResultDto } from "../../types";
+import type { BulkFlashcardOperationInput } from "../validators/flashcard.validator";
+import { MAX_TAGS_PER_FLASHCARD } from "../validators/flashcard.validator";
+import { DEFAULT_EASE_FACTOR } from "../utils/sm2";
+
+type FlashcardRow = Tables<"flashcards">;
+
+/** Number of IDs per `in` filter, to keep request URLs short */
+const ID_FILTER_BATCH_SIZE = 100;
+
+/** Flashcards are inserted in batches of this size */
+const INSERT_BATCH_SIZE = 500;
+
+/** Operations applied to whole notes (a selected card and its siblings) */
+const NOTE_ACTIONS = new Set<BulkFlashcardOperationInput["action"]>(["delete", "move", "copy", "tag"]);
+
+/**
+ * Initial SM-2 state of a card that has never been reviewed.
+ */
+export function getResetSchedule(now: Date = new Date()): TablesUpdate<"flashcards"> {
+  return {
+    ease_factor: DEFAULT_EASE_FACTOR,
+    interval: 0,
+    repetitions: 0,
+    next_review_at: now.toISOString(),
+    buried_until: null,
+  };
+}
+
+/**
+ * Applies tag changes to the tags of a card: removed tags first, then added ones
+ * (appended in order, without duplicates).
+ */
+export function applyTagChanges(tags: string[], changes: { add: string[]; remove: string[] }): string[] {
+  const result = tags.filter((tag) => !changes.remove.includes(tag));
+
+  for (const tag of changes.add) {
+    if (!result.includes(tag)) result.push(tag);
+  }
+
+  return result;
+}
+
+/**
+ * Builds copies of cards in another deck. Copies get new IDs; copied siblings share a new
+ * note ID. The scheduling state is kept, or reset so that the copies start as new cards.
+ *
+ * @param params.createId - Generator of new IDs (default: random UUIDs)
+ * @returns Rows to insert with the ID of the card each of them copies
+ */
+export function buildFlashcardCopies(
+  cards: FlashcardRow[],
+  params: { deckId: string; resetScheduling: boolean; now?: Date; createId?: () => string }
+): { sourceId: string; row: TablesInsert<"flashcards"> }[] {
+  const { deckId, resetScheduling, now = new Date(), createId = () => crypto.randomUUID() } = params;
+  const noteIds = new Map<string, string>();
+
+  return cards.map((card) => {
+    let noteId: string | null = null;
+    if (card.note_id) {
+      noteId = noteIds.get(card.note_id) ?? createId();
+      noteIds.set(card.note_id, noteId);
+    }
+
+    const row: TablesInsert<"flashcards"> = {
+      id: createId(),
+      deck_id: deckId,
+      user_id: card.user_id,
+      front: card.front,
+      back: card.back,
+      card_type: card.card_type,
+      reversed: card.reversed,
+      cloze_index: card.cloze_index,
+      note_id: noteId,
+      source: card.source,
+      generation_id: card.generation_id,
+      suspended: card.suspended,
+      tags: card.tags,
+      ...(resetScheduling
+        ? getResetSchedule(now)
+        : {
+            ease_factor: card.ease_factor,
+            interval: card.interval,
+            repetitions: card.repetitions,
+            next_review_at: card.next_review_at,
+          }),
+    };
+
+    return { sourceId: card.id, row };
+  });
+}
+
+/**
+ * Splits a list into batches of the given size.
+ */
+function toBatches<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    batches.push(items.slice(start, start + size));
+  }
+  return batches;
+}
+
+/**
+ * Fetches flashcards of a user by ID or note ID.
+ *
+ * @throws {Error} When a query fails
+ */
+async function fetchFlashcards(
+  supabase: SupabaseClient,
+  userId: string,
+  column: "id" | "note_id",
+  values: string[]
+): Promise<FlashcardRow[]> {
+  const cards: FlashcardRow[] = [];
+
+  for (const batch of toBatches(values, ID_FILTER_BATCH_SIZE)) {
+    const { data, error } = await supabase.from("flashcards").select("*").eq("user_id", userId).in(column, batch);
+
+    if (error) {
+      throw new Error(`Failed to fetch flashcards: ${error.message}`);
+    }
+
+    cards.push(...(data ?? []));
+  }
+
+  return cards;
+}
+
+/**
+ * Runs an operation on a selection of flashcards of a user. Delete, move, copy and tag apply
+ * to whole notes, like deleting or editing a single card: the siblings of a selected card are
+ * included. Reset and suspend apply to the selected cards only, since every card has its own
+ * schedule. The target deck of move and copy must be checked by the caller.
+ *
+ * Changes are written in batches; when a batch fails, its cards are reported as failed and the
+ * remaining batches are still written.
+ *
+ * @returns A result for every requested ID ("not_found" for cards of other users)
+ * @throws {Error} When loading the selected cards fails
+ */
+export async function runBulkFlashcardOperation(
+  supabase: SupabaseClient,
+  params: { userId: string; operation: BulkFlashcardOperationInput; now?: Date }
+): Promise<BulkFlashcardOperationResponseDto> {
+  const { userId, operation, now = new Date() } = params;
+
+  const selected = await fetchFlashcards(supabase, userId, "id", operation.ids);
+  let cards = selected;
+
+  if (NOTE_ACTIONS.has(operation.action)) {
+    const noteIds = [...new Set(selected.flatMap((card) => (card.note_id ? [card.note_id] : [])))];
+    const siblings = await fetchFlashcards(supabase, userId, "note_id", noteIds);
+    const selectedIds = new Set(selected.map((card) => card.id));
+    cards = [...selected, ...siblings.filter((card) => !selectedIds.has(card.id))];
+  }
+
+  const failures = new Map<string, string>();
+  const copyIds = new Map<string, string>();
+
+  const updateInBatches = async (ids: string[], update: TablesUpdate<"flashcards">) => {
+    for (const batch of toBatches(ids, ID_FILTER_BATCH_SIZE)) {
+      const { error } = await supabase.from("flashcards").update(update).in("id", batch);
+      if (error) batch.forEach((id) => failures.set(id, error.message));
+    }
+  };
+
+  const cardIds = cards.map((card) => card.id);
+
+  switch (operation.action) {
+    case "delete":
+      for (const batch of toBatches(cardIds, ID_FILTER_BATCH_SIZE)) {
+        const { error } = await supabase.from("flashcards").delete().in("id", batch);
+        if (error) batch.forEach((id) => failures.set(id, error.message));
+      }
+      break;
+
+    case "move":
+      await updateInBatches(cardIds, { deck_id: operation.deck_id });
+      break;
+
+    case "copy": {
+      const copies = buildFlashcardCopies(cards, {
+        deckId: operation.deck_id,
+        resetScheduling: operation.reset_scheduling,
+        now,
+      });
+
+      for (const batch of toBatches(copies, INSERT_BATCH_SIZE)) {
+        const { error } = await supabase.from("flashcards").insert(batch.map((copy) => copy.row));
+
+        if (error) {
+          batch.forEach((copy) => failures.set(copy.sourceId, error.message));
+        } else {
+          batch.forEach((copy) => copyIds.set(copy.sourceId, copy.row.id as string));
+        }
+      }
+      break;
+    }
+
+    case "reset_scheduling":
+      await updateInBatches(cardIds, getResetSchedule(now));
+      break;
+
+    case "suspend":
+      await updateInBatches(cardIds, { suspended: operation.suspended });
+      break;
+
+    case "tag": {
+      // Cards ending up with the same tags are updated together
+      const groups = new Map<string, { tags: string[]; ids: string[] }>();
+
+      for (const card of cards) {
+        const tags = applyTagChanges(card.tags, operation);
+
+        if (tags.length > MAX_TAGS_PER_FLASHCARD) {
+          failures.set(card.id, `A flashcard can have at most ${MAX_TAGS_PER_FLASHCARD} tags`);
+          continue;
+        }
+
+        const key = JSON.stringify(tags);
+        const group = groups.get(key) ?? { tags, ids: [] };
+        group.ids.push(card.id);
+        groups.set(key, group);
+      }
+
+      for (const { tags, ids } of groups.values()) {
+        await updateInBatches(ids, { tags });
+      }
+      break;
+    }
+  }
+
+  const foundIds = new Set(selected.map((card) => card.id));
+  const results: BulkFlashcardResultDto[] = operation.ids.map((id) => {
+    if (!foundIds.has(id)) return { id, status: "not_found" };
+
+    const error = failures.get(id);
+    if (error) return { id, status: "failed", error };
+
+    const newId = copyIds.get(id);
+    return newId ? { id, status: "ok", new_id: newId } : { id, status: "ok" };
+  });
+
+  const succeeded = results.filter((result) => result.status === "ok").length;
+
+  return {
+    action: operation.action,
+    results,
+    succeeded,
+    failed: results.length - succeeded,
+    affected_count: cardIds.filter((id) => !failures.has(id)).length,
+  };
+}
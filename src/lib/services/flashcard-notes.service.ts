@@ -0,0 +1,294 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { TablesInsert } from "../../db/database.types";
+import type { FlashcardDirection, FlashcardDto, FlashcardSource, FlashcardType } from "../../types";
+import { getClozeIndices } from "../utils/cloze";
+import { getNextLocalMidnight } from "../utils/timezone";
+import { buildFlashcardCopies } from "./flashcard-bulk.service";
+
+type FlashcardInsert = TablesInsert<"flashcards">;
+
+interface FlashcardContent {
+  front: string;
+  back: string;
+  card_type: FlashcardType;
+  /** Basic cards only (default: "forward") */
+  direction?: FlashcardDirection;
+  /** Normalized tags, shared by all rows (default: none) */
+  tags?: string[];
+}
+
+interface FlashcardOwnership {
+  deck_id: string;
+  user_id: string;
+  source: FlashcardSource;
+  generation_id?: string | null;
+}
+
+/**
+ * Builds the rows to insert for a flashcard: a basic card is a single row (two sibling rows
+ * sharing a new note ID when studied in both directions), a cloze note becomes one row per
+ * cloze number, sharing a new note ID. The text must be validated first.
+ *
+ * @param content - Front/back (note text/extra for cloze), card type and direction
+ * @param ownership - Deck, owner and source shared by all rows
+ * @returns Rows in cloze number order, or the forward card before the reversed one
+ */
+export function buildFlashcardRows(content: FlashcardContent, ownership: FlashcardOwnership): FlashcardInsert[] {
+  const base = {
+    ...ownership,
+    front: content.front,
+    back: content.back,
+    card_type: content.card_type,
+    tags: content.tags ?? [],
+  };
+
+  if (content.card_type === "basic") {
+    switch (content.direction ?? "forward") {
+      case "forward":
+        return [base];
+      case "reverse":
+        return [{ ...base, reversed: true }];
+      case "both": {
+        const noteId = crypto.randomUUID();
+        return [
+          { ...base, note_id: noteId },
+          { ...base, note_id: noteId, reversed: true },
+        ];
+      }
+    }
+  }
+
+  const noteId = crypto.randomUUID();
+  return getClozeIndices(content.front).map((clozeIndex) => ({ ...base, note_id: noteId, cloze_index: clozeIndex }));
+}
+
+/**
+ * Time until which the siblings of a reviewed card are buried: the start of the next day
+ * in the user's timezone.
+ */
+export function getBuryUntil(now: Date = new Date(), timeZone = "UTC"): string {
+  return getNextLocalMidnight(now, timeZone).toISOString();
+}
+
+/**
+ * Buries the other cards of a note for the rest of the day, so that a card and its
+ * sibling (reverse direction or another cloze number) are not studied on the same day.
+ *
+ * @param card - The reviewed card; nothing happens when it belongs to no note
+ * @param timeZone - IANA timezone of the user, whose day the siblings are buried for
+ * @throws {Error} When the update fails
+ */
+export async function burySiblings(
+  supabase: SupabaseClient,
+  card: Pick<FlashcardDto, "id" | "note_id">,
+  timeZone = "UTC",
+  now: Date = new Date()
+): Promise<void> {
+  if (!card.note_id) return;
+
+  const { error } = await supabase
+    .from("flashcards")
+    .update({ buried_until: getBuryUntil(now, timeZone) })
+    .eq("note_id", card.note_id)
+    .neq("id", card.id);
+
+  if (error) {
+    throw new Error("Failed to bury sibling cards");
+  }
+}
+
+/**
+ * Updates the content shared by all cards of a note; existing cards keep their schedule.
+ * For a cloze note, cards are added for new cloze numbers and removed for cloze numbers
+ * no longer in the text. The text must be validated first.
+ *
+ * @param card - Any card of the note
+ * @param update - New front (note text for cloze), back (extra info for cloze) and/or tags
+ * @returns The updated card, or the first card of the note when its cloze number was removed
+ * @throws {Error} When a query fails
+ */
+export async function updateNote(
+  supabase: SupabaseClient,
+  card: FlashcardDto,
+  update: { front?: string; back?: string; tags?: string[] }
+): Promise<FlashcardDto> {
+  const noteId = card.note_id;
+  if (!noteId) {
+    throw new Error("Flashcard is not part of a note");
+  }
+
+  const { data: siblings, error: siblingsError } = await supabase
+    .from("flashcards")
+    .update(update)
+    .eq("note_id", noteId)
+    .select();
+
+  if (siblingsError || !siblings) {
+    throw new Error("Failed to update note");
+  }
+
+  if (card.card_type === "basic") {
+    return (siblings.find((sibling) => sibling.id === card.id) ?? siblings[0]) as FlashcardDto;
+  }
+
+  const existing = new Set(siblings.map((sibling) => sibling.cloze_index));
+  const wanted = getClozeIndices(update.front ?? card.front);
+
+  const removed = siblings.filter((sibling) => !wanted.includes(sibling.cloze_index ?? 0));
+  if (removed.length > 0) {
+    const { error: deleteError } = await supabase
+      .from("flashcards")
+      .delete()
+      .in(
+        "id",
+        removed.map((sibling) => sibling.id)
+      );
+
+    if (deleteError) {
+      throw new Error("Failed to remove cloze cards");
+    }
+  }
+
+  const added = wanted.filter((clozeIndex) => !existing.has(clozeIndex));
+  let inserted: typeof siblings = [];
+  if (added.length > 0) {
+    const template = siblings[0];
+    const { data, error: insertError } = await supabase
+      .from("flashcards")
+      .insert(
+        added.map((clozeIndex) => ({
+          deck_id: template.deck_id,
+          user_id: template.user_id,
+          generation_id: template.generation_id,
+          source: template.source,
+          front: template.front,
+          back: template.back,
+          tags: template.tags,
+          card_type: "cloze",
+          note_id: noteId,
+          cloze_index: clozeIndex,
+        }))
+      )
+      .select();
+
+    if (insertError || !data) {
+      throw new Error("Failed to add cloze cards");
+    }
+
+    inserted = data;
+  }
+
+  const cards = [...siblings.filter((sibling) => !removed.includes(sibling)), ...inserted].sort(
+    (a, b) => (a.cloze_index ?? 0) - (b.cloze_index ?? 0)
+  );
+  const result = cards.find((sibling) => sibling.id === card.id) ?? cards[0];
+
+  return result as FlashcardDto;
+}
+
+/**
+ * Fetches the cards of a note in order (cloze number, forward before reversed), or just the
+ * card itself when it belongs to no note.
+ *
+ * @throws {Error} When the query fails
+ */
+async function getNoteCards(supabase: SupabaseClient, card: FlashcardDto): Promise<FlashcardDto[]> {
+  if (!card.note_id) return [card];
+
+  const { data, error } = await supabase
+    .from("flashcards")
+    .select("*")
+    .eq("note_id", card.note_id)
+    .order("cloze_index", { ascending: true, nullsFirst: true })
+    .order("reversed", { ascending: true });
+
+  if (error || !data) {
+    throw new Error("Failed to fetch note cards");
+  }
+
+  return data as FlashcardDto[];
+}
+
+/**
+ * Moves a card with the other cards of its note to another deck, keeping their schedule.
+ * Ownership of both decks must be checked first.
+ *
+ * @param card - Any card of the note
+ * @returns The moved cards
+ * @throws {Error} When a query fails
+ */
+export async function moveNote(supabase: SupabaseClient, card: FlashcardDto, deckId: string): Promise<FlashcardDto[]> {
+  const cards = await getNoteCards(supabase, card);
+
+  const { data, error } = await supabase
+    .from("flashcards")
+    .update({ deck_id: deckId })
+    .in(
+      "id",
+      cards.map((noteCard) => noteCard.id)
+    )
+    .select();
+
+  if (error || !data) {
+    throw new Error("Failed to move flashcards");
+  }
+
+  return cards.map((noteCard) => (data.find((moved) => moved.id === noteCard.id) ?? noteCard) as FlashcardDto);
+}
+
+/**
+ * Copies a card with the other cards of its note to another deck. The copies form a new note;
+ * they keep the schedule of the originals unless it is reset. Ownership of both decks must be
+ * checked first.
+ *
+ * @param card - Any card of the note
+ * @returns The created copies
+ * @throws {Error} When a query fails
+ */
+export async function copyNote(
+  supabase: SupabaseClient,
+  card: FlashcardDto,
+  params: { deckId: string; resetScheduling: boolean }
+): Promise<FlashcardDto[]> {
+  const cards = await getNoteCards(supabase, card);
+  const copies = buildFlashcardCopies(cards, params);
+
+  const { data, error } = await supabase
+    .from("flashcards")
+    .insert(copies.map((copy) => copy.row))
+    .select();
+
+  if (error || !data) {
+    throw new Error("Failed to copy flashcards");
+  }
+
+  return copies.map((copy) => data.find((created) => created.id === copy.row.id) as FlashcardDto);
+}
+
+/**
+ * Replaces the tags of a card and of the other cards of its note, which share their tags.
+ * The tags must be validated first.
+ *
+ * @param card - Any card of the note
+ * @returns The updated card
+ * @throws {Error} When a query fails
+ */
+export async function setNoteTags(supabase: SupabaseClient, card: FlashcardDto, tags: string[]): Promise<FlashcardDto> {
+  const cards = await getNoteCards(supabase, card);
+
+  const { data, error } = await supabase
+    .from("flashcards")
+    .update({ tags })
+    .in(
+      "id",
+      cards.map((noteCard) => noteCard.id)
+    )
+    .select();
+
+  const updated = data?.find((noteCard) => noteCard.id === card.id);
+  if (error || !updated) {
+    throw new Error("Failed to update flashcard tags");
+  }
+
+  return updated as FlashcardDto;
+}
@@ -0,0 +1,48 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { FlashcardSearchResultDto, FlashcardType, PaginatedResponse } from "../../types";
+import { parseHighlightedSnippet } from "../utils/search";
+
+/**
+ * Full-text search of the flashcards of the signed-in user, in English and Polish, done by the
+ * search_flashcards() database function. Results are ranked by relevance (front before back)
+ * and come with snippets of the front and back with the matches marked.
+ *
+ * @param params.deckId - Only search this deck (optional)
+ * @throws {Error} When the query fails
+ */
+export async function searchFlashcards(
+  supabase: SupabaseClient,
+  params: { query: string; deckId?: string; limit: number; offset: number }
+): Promise<PaginatedResponse<FlashcardSearchResultDto>> {
+  const { query, deckId, limit, offset } = params;
+
+  const { data, error } = await supabase.rpc("search_flashcards", {
+    p_query: query,
+    p_deck_id: deckId,
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  if (error) {
+    throw new Error(`Failed to search flashcards: ${error.message}`);
+  }
+
+  const rows = data ?? [];
+
+  return {
+    data: rows.map((row) => ({
+      id: row.id,
+      deck_id: row.deck_id,
+      deck_name: row.deck_name,
+      card_type: row.card_type as FlashcardType,
+      front: parseHighlightedSnippet(row.front_snippet),
+      back: parseHighlightedSnippet(row.back_snippet),
+      rank: row.rank,
+    })),
+    pagination: {
+      limit,
+      offset,
+      total: rows[0]?.total_count ?? 0,
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { TagCountDto } from "../../types";
+
+/**
+ * Lists the tags of the signed-in user's flashcards with the number of cards per tag, done by
+ * the get_user_tags() database function. Tags are ordered alphabetically.
+ *
+ * @param deckId - Only count cards of this deck (optional)
+ * @throws {Error} When the query fails
+ */
+export async function getUserTags(supabase: SupabaseClient, deckId?: string): Promise<TagCountDto[]> {
+  const { data, error } = await supabase.rpc("get_user_tags", { p_deck_id: deckId });
+
+  if (error) {
+    throw new Error(`Failed to fetch tags: ${error.message}`);
+  }
+
+  return (data ?? []).map((row) => ({ tag: row.tag, flashcard_count: row.flashcard_count }));
+}
@@ -0,0 +1,94 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { FlashcardType, GenerateFlashcardsResponseDto, GenerationSuggestionDto } from "../../types";
+import { getGenerationSuggestions } from "./generation-suggestions.service";
+
+/** How long the suggestions of a generation can be reused for identical source text */
+export const GENERATION_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+interface FindCachedGenerationParams {
+  userId: string;
+  deckId: string;
+  sourceTextHash: string;
+  model: string;
+  count: number;
+  cardType: FlashcardType;
+  /** Reference time (default: now) */
+  now?: Date;
+}
+
+/**
+ * Generation whose suggestions can be served instead of calling the model again.
+ */
+export interface CachedGeneration {
+  id: string;
+  /** Suggestions that have not been saved as flashcards yet (pending or rejected) */
+  suggestions: GenerationSuggestionDto[];
+  generationDuration: number;
+  createdAt: string;
+}
+
+/**
+ * Finds the most recent generation for the same deck, source text (by SHA-256 hash), model,
+ * requested count and card type within GENERATION_CACHE_TTL_MS. Only suggestions that have not been saved
+ * as flashcards yet are offered again; a generation with none left is not returned.
+ *
+ * @param supabase - Supabase client instance
+ * @param params - Lookup key (user, deck, source text hash, model, count, card type)
+ * @returns The cached generation, or null when there is none
+ * @throws {Error} When the database query fails
+ */
+export async function findCachedGeneration(
+  supabase: SupabaseClient,
+  params: FindCachedGenerationParams
+): Promise<CachedGeneration | null> {
+  const { userId, deckId, sourceTextHash, model, count, cardType, now = new Date() } = params;
+  const since = new Date(now.getTime() - GENERATION_CACHE_TTL_MS).toISOString();
+
+  const { data, error } = await supabase
+    .from("generations")
+    .select("id, generation_duration, created_at")
+    .eq("user_id", userId)
+    .eq("deck_id", deckId)
+    .eq("source_text_hash", sourceTextHash)
+    .eq("model", model)
+    .eq("requested_count", count)
+    .eq("card_type", cardType)
+    .gte("created_at", since)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error("Failed to look up cached generation");
+  }
+
+  if (!data) return null;
+
+  const suggestions = await getGenerationSuggestions(supabase, data.id, ["pending", "rejected"]);
+  if (suggestions.length === 0) return null;
+
+  return {
+    id: data.id,
+    suggestions,
+    generationDuration: data.generation_duration,
+    createdAt: data.created_at,
+  };
+}
+
+/**
+ * Response of the generate endpoints for a generation served from the cache.
+ */
+export function toCachedGenerationResponse(
+  cached: CachedGeneration,
+  model: string,
+  cardType: FlashcardType
+): GenerateFlashcardsResponseDto {
+  return {
+    generation_id: cached.id,
+    suggestions: cached.suggestions,
+    model,
+    generation_duration_ms: cached.generationDuration,
+    cached_at: cached.createdAt,
+    card_type: cardType,
+  };
+}
@@ -0,0 +1,265 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  FlashcardDto,
+  GenerationDetailDto,
+  GenerationHistoryDto,
+  GenerationHistoryItemDto,
+  PaginatedResponse,
+  SuggestionStatus,
+} from "../../types";
+
+/**
+ * Columns of a generation returned by the history endpoints.
+ */
+export const GENERATION_HISTORY_COLUMNS =
+  "id, user_id, deck_id, model, source_text_hash, source_text_length, requested_count, generated_count, generation_duration, card_type, created_at";
+
+interface ListGenerationsParams {
+  userId: string;
+  limit: number;
+  offset: number;
+  /** Only generations run for this deck */
+  deckId?: string;
+  /** Only generations run with this model */
+  model?: string;
+}
+
+type GenerationOutcome = Pick<
+  GenerationHistoryItemDto,
+  "accepted_unedited_count" | "accepted_edited_count" | "rejected_count" | "pending_count"
+>;
+
+/**
+ * Summarizes how the suggestions of a generation were reviewed, based on the sources
+ * of the flashcards accepted from it. Suggestions that were not accepted count as rejected.
+ * Used for generations created before suggestions were persisted.
+ *
+ * @param generatedCount - Number of suggestions returned by the generation
+ * @param sources - Sources of the flashcards linked to the generation
+ */
+export function summarizeGenerationOutcome(generatedCount: number, sources: string[]): GenerationOutcome {
+  const acceptedUnedited = sources.filter((source) => source === "ai-full").length;
+  const acceptedEdited = sources.filter((source) => source === "ai-edited").length;
+
+  return {
+    accepted_unedited_count: acceptedUnedited,
+    accepted_edited_count: acceptedEdited,
+    rejected_count: Math.max(0, generatedCount - acceptedUnedited - acceptedEdited),
+    pending_count: 0,
+  };
+}
+
+/**
+ * Summarizes how the suggestions of a generation were reviewed, based on their persisted statuses.
+ *
+ * @param statuses - Statuses of the generation's suggestions
+ */
+export function summarizeSuggestionStatuses(statuses: string[]): GenerationOutcome {
+  const countOf = (status: SuggestionStatus) => statuses.filter((value) => value === status).length;
+
+  return {
+    accepted_unedited_count: countOf("accepted"),
+    accepted_edited_count: countOf("edited"),
+    rejected_count: countOf("rejected"),
+    pending_count: countOf("pending"),
+  };
+}
+
+/**
+ * Share of reviewed suggestions that were saved as flashcards (accepted or edited), 0-1.
+ * Pending suggestions are not taken into account.
+ */
+export function calculateAcceptanceRate(acceptedCount: number, editedCount: number, rejectedCount: number): number {
+  const reviewed = acceptedCount + editedCount + rejectedCount;
+  return reviewed > 0 ? (acceptedCount + editedCount) / reviewed : 0;
+}
+
+/**
+ * Outcome of a generation: from suggestion statuses when they were persisted,
+ * otherwise derived from the accepted flashcards.
+ */
+function resolveOutcome(generatedCount: number, statuses: string[], sources: string[]): GenerationOutcome {
+  return statuses.length > 0
+    ? summarizeSuggestionStatuses(statuses)
+    : summarizeGenerationOutcome(generatedCount, sources);
+}
+
+/**
+ * Fetches a page of the user's generation history (newest first) with deck names
+ * and the outcome of each generation.
+ *
+ * @param supabase - Supabase client instance
+ * @param params - User ID, pagination and optional deck/model filters
+ * @throws {Error} When a database query fails
+ */
+export async function listGenerations(
+  supabase: SupabaseClient,
+  params: ListGenerationsParams
+): Promise<PaginatedResponse<GenerationHistoryItemDto>> {
+  const { userId, limit, offset, deckId, model } = params;
+
+  let query = supabase
+    .from("generations")
+    .select(GENERATION_HISTORY_COLUMNS, { count: "exact" })
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (deckId) {
+    query = query.eq("deck_id", deckId);
+  }
+
+  if (model) {
+    query = query.eq("model", model);
+  }
+
+  const { data: generations, error: generationsError, count } = await query;
+
+  if (generationsError) {
+    throw new Error("Failed to fetch generations");
+  }
+
+  const rows = generations ?? [];
+  const generationIds = rows.map((generation) => generation.id);
+  const deckIds = [...new Set(rows.map((generation) => generation.deck_id).filter((id): id is string => !!id))];
+
+  const [sourcesByGeneration, statusesByGeneration, deckNames] = await Promise.all([
+    fetchAcceptedSources(supabase, generationIds),
+    fetchSuggestionStatuses(supabase, generationIds),
+    fetchDeckNames(supabase, deckIds),
+  ]);
+
+  return {
+    data: rows.map((generation) => ({
+      ...generation,
+      deck_name: generation.deck_id ? (deckNames.get(generation.deck_id) ?? null) : null,
+      ...resolveOutcome(
+        generation.generated_count,
+        statusesByGeneration.get(generation.id) ?? [],
+        sourcesByGeneration.get(generation.id) ?? []
+      ),
+    })),
+    pagination: {
+      limit,
+      offset,
+      total: count ?? 0,
+    },
+  };
+}
+
+/**
+ * Builds the details of a generation: its outcome, chunk runs and the flashcards accepted from it.
+ * Ownership of the generation must be verified by the caller.
+ *
+ * @param supabase - Supabase client instance
+ * @param generation - Generation record
+ * @throws {Error} When a database query fails
+ */
+export async function getGenerationDetail(
+  supabase: SupabaseClient,
+  generation: GenerationHistoryDto
+): Promise<GenerationDetailDto> {
+  const [flashcardsResult, chunksResult, statusesByGeneration, deckNames] = await Promise.all([
+    supabase.from("flashcards").select("*").eq("generation_id", generation.id).order("created_at", { ascending: true }),
+    supabase
+      .from("generation_chunks")
+      .select(
+        "id, generation_id, chunk_index, source_text_length, requested_count, generated_count, generation_duration, error_message, created_at"
+      )
+      .eq("generation_id", generation.id)
+      .order("chunk_index", { ascending: true }),
+    fetchSuggestionStatuses(supabase, [generation.id]),
+    fetchDeckNames(supabase, generation.deck_id ? [generation.deck_id] : []),
+  ]);
+
+  if (flashcardsResult.error) {
+    throw new Error("Failed to fetch generation flashcards");
+  }
+
+  if (chunksResult.error) {
+    throw new Error("Failed to fetch generation chunks");
+  }
+
+  const flashcards = (flashcardsResult.data ?? []) as FlashcardDto[];
+
+  return {
+    ...generation,
+    deck_name: generation.deck_id ? (deckNames.get(generation.deck_id) ?? null) : null,
+    ...resolveOutcome(
+      generation.generated_count,
+      statusesByGeneration.get(generation.id) ?? [],
+      flashcards.map((flashcard) => flashcard.source)
+    ),
+    chunks: chunksResult.data ?? [],
+    flashcards,
+  };
+}
+
+// ------------------------------------------------------------------
+// Helpers
+// ------------------------------------------------------------------
+
+/**
+ * Fetches sources of flashcards accepted from the given generations, grouped by generation ID.
+ */
+async function fetchAcceptedSources(supabase: SupabaseClient, generationIds: string[]): Promise<Map<string, string[]>> {
+  const sources = new Map<string, string[]>();
+  if (generationIds.length === 0) return sources;
+
+  const { data, error } = await supabase
+    .from("flashcards")
+    .select("generation_id, source")
+    .in("generation_id", generationIds);
+
+  if (error) {
+    throw new Error("Failed to fetch accepted flashcards");
+  }
+
+  for (const flashcard of data ?? []) {
+    if (!flashcard.generation_id) continue;
+    sources.set(flashcard.generation_id, [...(sources.get(flashcard.generation_id) ?? []), flashcard.source]);
+  }
+
+  return sources;
+}
+
+/**
+ * Fetches statuses of the persisted suggestions of the given generations, grouped by generation ID.
+ */
+async function fetchSuggestionStatuses(
+  supabase: SupabaseClient,
+  generationIds: string[]
+): Promise<Map<string, string[]>> {
+  const statuses = new Map<string, string[]>();
+  if (generationIds.length === 0) return statuses;
+
+  const { data, error } = await supabase
+    .from("generation_suggestions")
+    .select("generation_id, status")
+    .in("generation_id", generationIds);
+
+  if (error) {
+    throw new Error("Failed to fetch generation suggestions");
+  }
+
+  for (const suggestion of data ?? []) {
+    statuses.set(suggestion.generation_id, [...(statuses.get(suggestion.generation_id) ?? []), suggestion.status]);
+  }
+
+  return statuses;
+}
+
+/**
+ * Fetches names of the given decks, keyed by deck ID.
+ */
+async function fetchDeckNames(supabase: SupabaseClient, deckIds: string[]): Promise<Map<string, string>> {
+  if (deckIds.length === 0) return new Map();
+
+  const { data, error } = await supabase.from("decks").select("id, name").in("id", deckIds);
+
+  if (error) {
+    throw new Error("Failed to fetch decks");
+  }
+
+  return new Map((data ?? []).map((deck) => [deck.id, deck.name]));
+}
@@ -0,0 +1,94 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Logger } from "../logger";
+import type { FlashcardType, GeneratedSuggestionDto, GenerateFlashcardsResponseDto } from "../../types";
+import type { GenerationChunkResult } from "./ai-generation.service";
+import { saveGenerationSuggestions } from "./generation-suggestions.service";
+
+interface SaveGenerationParams {
+  userId: string;
+  deckId: string;
+  model: string;
+  /** SHA-256 hash of the source text (the cache key) */
+  sourceTextHash: string;
+  sourceTextLength: number;
+  requestedCount: number;
+  cardType: FlashcardType;
+  suggestions: GeneratedSuggestionDto[];
+  generationDuration: number;
+  /** Per-chunk runs of a long source text - empty when it fitted in a single request */
+  chunks: GenerationChunkResult[];
+  /** Reports a failed insert of the chunk records, which doesn't fail the generation */
+  logger?: Logger;
+}
+
+/**
+ * Records a finished generation: the generation row, its suggestions (as pending, so the
+ * review can be resumed and tracked) and the chunk runs of a long source text.
+ *
+ * @returns Response of the generate endpoints, with the saved suggestions
+ * @throws {Error} When the generation or its suggestions cannot be saved
+ */
+export async function saveGeneration(
+  supabase: SupabaseClient,
+  params: SaveGenerationParams
+): Promise<GenerateFlashcardsResponseDto> {
+  const { userId, deckId, model, cardType, suggestions, generationDuration, chunks, logger } = params;
+
+  const { data: generation, error: generationError } = await supabase
+    .from("generations")
+    .insert({
+      user_id: userId,
+      deck_id: deckId,
+      model,
+      source_text_hash: params.sourceTextHash,
+      source_text_length: params.sourceTextLength,
+      requested_count: params.requestedCount,
+      generated_count: suggestions.length,
+      generation_duration: generationDuration,
+      card_type: cardType,
+    })
+    .select("id")
+    .single();
+
+  if (generationError || !generation) {
+    throw new Error("Failed to create generation record");
+  }
+
+  const savedSuggestions = await saveGenerationSuggestions(supabase, {
+    generationId: generation.id,
+    userId,
+    suggestions,
+  });
+
+  if (chunks.length > 0) {
+    const { error: chunksError } = await supabase.from("generation_chunks").insert(
+      chunks.map((chunk) => ({
+        generation_id: generation.id,
+        user_id: userId,
+        chunk_index: chunk.chunkIndex,
+        source_text_length: chunk.sourceTextLength,
+        requested_count: chunk.requestedCount,
+        generated_count: chunk.generatedCount,
+        generation_duration: chunk.durationMs,
+        error_message: chunk.error ?? null,
+      }))
+    );
+
+    // Chunk records are analytics only - don't fail the generation
+    if (chunksError) {
+      logger?.error(new Error(chunksError.message), {
+        action: "insert_generation_chunks",
+        generationId: generation.id,
+      });
+    }
+  }
+
+  return {
+    generation_id: generation.id,
+    suggestions: savedSuggestions,
+    model,
+    generation_duration_ms: generationDuration,
+    cached_at: null,
+    card_type: cardType,
+  };
+}
@@ -0,0 +1,369 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  FlashcardType,
+  GeneratedSuggestionDto,
+  GenerationSuggestionDto,
+  SuggestionStatus,
+  UnfinishedGenerationDto,
+} from "../../types";
+
+const SUGGESTION_COLUMNS =
+  "id, generation_id, position, front, back, tags, status, flashcard_id, refinement_count, created_at, reviewed_at";
+
+/**
+ * Maximum number of AI refinements of a single suggestion (each one is a model call).
+ */
+export const MAX_SUGGESTION_REFINEMENTS = 5;
+
+interface SaveSuggestionsParams {
+  generationId: string;
+  userId: string;
+  suggestions: GeneratedSuggestionDto[];
+}
+
+/** Outcome of the review of a single accepted suggestion */
+export interface SuggestionReview {
+  suggestionId: string;
+  status: Extract<SuggestionStatus, "accepted" | "edited">;
+  flashcardId: string;
+}
+
+interface ApplyRefinementParams {
+  suggestion: GenerationSuggestionDto;
+  userId: string;
+  /** Refined content: one card, or two when the suggestion was split */
+  cards: GeneratedSuggestionDto[];
+}
+
+interface ListUnfinishedGenerationsParams {
+  userId: string;
+  /** Only generations run for this deck */
+  deckId?: string;
+  limit: number;
+}
+
+/**
+ * Persists the suggestions of a generation as pending, in generation order.
+ *
+ * @returns Saved suggestions (with IDs) ordered by position
+ * @throws {Error} When the insert fails
+ */
+export async function saveGenerationSuggestions(
+  supabase: SupabaseClient,
+  params: SaveSuggestionsParams
+): Promise<GenerationSuggestionDto[]> {
+  const { generationId, userId, suggestions } = params;
+  if (suggestions.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("generation_suggestions")
+    .insert(
+      suggestions.map((suggestion, position) => ({
+        generation_id: generationId,
+        user_id: userId,
+        position,
+        front: suggestion.front,
+        back: suggestion.back,
+        tags: suggestion.tags,
+      }))
+    )
+    .select(SUGGESTION_COLUMNS)
+    .order("position", { ascending: true });
+
+  if (error || !data) {
+    throw new Error("Failed to save generation suggestions");
+  }
+
+  return data as GenerationSuggestionDto[];
+}
+
+/**
+ * Fetches suggestions of a generation with the given statuses, ordered by position.
+ *
+ * @throws {Error} When the query fails
+ */
+export async function getGenerationSuggestions(
+  supabase: SupabaseClient,
+  generationId: string,
+  statuses: SuggestionStatus[]
+): Promise<GenerationSuggestionDto[]> {
+  const { data, error } = await supabase
+    .from("generation_suggestions")
+    .select(SUGGESTION_COLUMNS)
+    .eq("generation_id", generationId)
+    .in("status", statuses)
+    .order("position", { ascending: true });
+
+  if (error) {
+    throw new Error("Failed to fetch generation suggestions");
+  }
+
+  return (data ?? []) as GenerationSuggestionDto[];
+}
+
+/**
+ * Fetches a single suggestion of a generation.
+ *
+ * @returns The suggestion, or null when the generation has no suggestion with this ID
+ * @throws {Error} When the query fails
+ */
+export async function getGenerationSuggestion(
+  supabase: SupabaseClient,
+  generationId: string,
+  suggestionId: string
+): Promise<GenerationSuggestionDto | null> {
+  const { data, error } = await supabase
+    .from("generation_suggestions")
+    .select(SUGGESTION_COLUMNS)
+    .eq("generation_id", generationId)
+    .eq("id", suggestionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error("Failed to fetch generation suggestion");
+  }
+
+  return data as GenerationSuggestionDto | null;
+}
+
+/**
+ * Replaces the content of a suggestion with its AI refinement. The suggestion goes back
+ * to pending (a rejected one is revived); the second card of a split is added after
+ * the last suggestion of the generation.
+ *
+ * @returns The refined suggestion, followed by the added one for a split
+ * @throws {Error} When a query fails
+ */
+export async function applySuggestionRefinement(
+  supabase: SupabaseClient,
+  params: ApplyRefinementParams
+): Promise<GenerationSuggestionDto[]> {
+  const { suggestion, userId, cards } = params;
+  const [refined, ...added] = cards;
+  const refinementCount = suggestion.refinement_count + 1;
+
+  const { data: updated, error: updateError } = await supabase
+    .from("generation_suggestions")
+    .update({
+      front: refined.front,
+      back: refined.back,
+      tags: refined.tags,
+      status: "pending" satisfies SuggestionStatus,
+      reviewed_at: null,
+      refinement_count: refinementCount,
+    })
+    .eq("id", suggestion.id)
+    .select(SUGGESTION_COLUMNS)
+    .single();
+
+  if (updateError || !updated) {
+    throw new Error("Failed to update suggestion");
+  }
+
+  if (added.length === 0) {
+    return [updated as GenerationSuggestionDto];
+  }
+
+  const { data: last, error: lastError } = await supabase
+    .from("generation_suggestions")
+    .select("position")
+    .eq("generation_id", suggestion.generation_id)
+    .order("position", { ascending: false })
+    .limit(1)
+    .single();
+
+  if (lastError || !last) {
+    throw new Error("Failed to fetch suggestion positions");
+  }
+
+  const { data: inserted, error: insertError } = await supabase
+    .from("generation_suggestions")
+    .insert(
+      added.map((card, index) => ({
+        generation_id: suggestion.generation_id,
+        user_id: userId,
+        position: last.position + 1 + index,
+        front: card.front,
+        back: card.back,
+        tags: card.tags,
+        refinement_count: refinementCount,
+      }))
+    )
+    .select(SUGGESTION_COLUMNS)
+    .order("position", { ascending: true });
+
+  if (insertError || !inserted) {
+    throw new Error("Failed to save split suggestion");
+  }
+
+  return [updated, ...inserted] as GenerationSuggestionDto[];
+}
+
+/**
+ * Claims suggestions for acceptance: each one gets its review status only while it has not
+ * been accepted yet, so that concurrent accepts of the same suggestion cannot both succeed.
+ *
+ * @returns IDs of the claimed suggestions - those missing were accepted in the meantime
+ * @throws {Error} When an update fails
+ */
+export async function claimSuggestions(
+  supabase: SupabaseClient,
+  generationId: string,
+  reviews: Omit<SuggestionReview, "flashcardId">[]
+): Promise<string[]> {
+  const reviewedAt = new Date().toISOString();
+  const claimable: SuggestionStatus[] = ["pending", "rejected"];
+
+  const results = await Promise.all(
+    reviews.map((review) =>
+      supabase
+        .from("generation_suggestions")
+        .update({ status: review.status, reviewed_at: reviewedAt })
+        .eq("generation_id", generationId)
+        .eq("id", review.suggestionId)
+        .in("status", claimable)
+        .select("id")
+    )
+  );
+
+  if (results.some((result) => result.error)) {
+    throw new Error("Failed to claim suggestions");
+  }
+
+  return results.flatMap((result) => (result.data ?? []).map((row) => row.id));
+}
+
+/**
+ * Gives claimed suggestions back their status from before the claim, when their flashcards
+ * could not be saved.
+ *
+ * @param suggestions - The suggestions as read before they were claimed
+ * @throws {Error} When an update fails
+ */
+export async function releaseSuggestions(
+  supabase: SupabaseClient,
+  suggestions: GenerationSuggestionDto[]
+): Promise<void> {
+  const results = await Promise.all(
+    suggestions.map((suggestion) =>
+      supabase
+        .from("generation_suggestions")
+        .update({ status: suggestion.status, reviewed_at: suggestion.reviewed_at })
+        .eq("id", suggestion.id)
+        .is("flashcard_id", null)
+    )
+  );
+
+  if (results.some((result) => result.error)) {
+    throw new Error("Failed to release suggestions");
+  }
+}
+
+/**
+ * Links claimed suggestions to the flashcards created from them.
+ *
+ * @throws {Error} When an update fails
+ */
+export async function markSuggestionsReviewed(supabase: SupabaseClient, reviews: SuggestionReview[]): Promise<void> {
+  const results = await Promise.all(
+    reviews.map((review) =>
+      supabase
+        .from("generation_suggestions")
+        .update({ flashcard_id: review.flashcardId })
+        .eq("id", review.suggestionId)
+        .eq("status", review.status)
+        .is("flashcard_id", null)
+    )
+  );
+
+  if (results.some((result) => result.error)) {
+    throw new Error("Failed to update suggestion statuses");
+  }
+}
+
+/**
+ * Marks pending suggestions of a generation as rejected: the given ones, or all of them.
+ *
+ * @returns Number of rejected suggestions
+ * @throws {Error} When the update fails
+ */
+export async function rejectPendingSuggestions(
+  supabase: SupabaseClient,
+  generationId: string,
+  suggestionIds?: string[]
+): Promise<number> {
+  let query = supabase
+    .from("generation_suggestions")
+    .update({ status: "rejected" satisfies SuggestionStatus, reviewed_at: new Date().toISOString() })
+    .eq("generation_id", generationId)
+    .eq("status", "pending");
+
+  if (suggestionIds) {
+    query = query.in("id", suggestionIds);
+  }
+
+  const { data, error } = await query.select("id");
+
+  if (error) {
+    throw new Error("Failed to reject suggestions");
+  }
+
+  return data?.length ?? 0;
+}
+
+/**
+ * Fetches the user's most recent generations that still have pending suggestions,
+ * so their review can be resumed.
+ *
+ * @throws {Error} When a query fails
+ */
+export async function listUnfinishedGenerations(
+  supabase: SupabaseClient,
+  params: ListUnfinishedGenerationsParams
+): Promise<UnfinishedGenerationDto[]> {
+  const { userId, deckId, limit } = params;
+
+  const { data: pending, error: pendingError } = await supabase
+    .from("generation_suggestions")
+    .select(SUGGESTION_COLUMNS)
+    .eq("user_id", userId)
+    .eq("status", "pending")
+    .order("position", { ascending: true });
+
+  if (pendingError) {
+    throw new Error("Failed to fetch pending suggestions");
+  }
+
+  const byGeneration = new Map<string, GenerationSuggestionDto[]>();
+  for (const suggestion of (pending ?? []) as GenerationSuggestionDto[]) {
+    byGeneration.set(suggestion.generation_id, [...(byGeneration.get(suggestion.generation_id) ?? []), suggestion]);
+  }
+
+  if (byGeneration.size === 0) return [];
+
+  let query = supabase
+    .from("generations")
+    .select("id, deck_id, model, card_type, created_at")
+    .in("id", [...byGeneration.keys()])
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (deckId) {
+    query = query.eq("deck_id", deckId);
+  }
+
+  const { data: generations, error: generationsError } = await query;
+
+  if (generationsError) {
+    throw new Error("Failed to fetch unfinished generations");
+  }
+
+  return (generations ?? []).map((generation) => ({
+    generation_id: generation.id,
+    deck_id: generation.deck_id,
+    model: generation.model,
+    card_type: generation.card_type as FlashcardType,
+    created_at: generation.created_at,
+    suggestions: byGeneration.get(generation.id) ?? [],
+  }));
+}
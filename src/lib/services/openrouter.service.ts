@@ -10,6 +10,7 @@ import type { ValidateFunction } from "ajv";
 import Ajv from "ajv";
 
 import type { Logger } from "../logger";
+import { readSseEvents } from "../utils/sse";
 
 // ==================== Interfaces & Types ====================
 
@@ -129,6 +130,8 @@ export interface SendMessageParams {
   modelParams?: ModelParams;
   responseFormat?: ResponseFormatSpec;
   stream?: boolean;
+  /** Przerywa zapytanie (np. gdy klient się rozłączył) - bez ponawiania */
+  signal?: AbortSignal;
 }
 
 /**
@@ -173,6 +176,29 @@ interface OpenRouterResponse {
   model: string;
 }
 
+/**
+ * Fragment odpowiedzi strumieniowej (stream: true)
+ */
+interface OpenRouterStreamChunk {
+  id?: string;
+  choices?: {
+    delta?: {
+      role?: string;
+      content?: string | null;
+    };
+    finish_reason?: string | null;
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+  error?: {
+    code?: number | string;
+    message?: string;
+  };
+}
+
 /**
  * Rozszerzony Error z dodatkowymi polami dla błędów API
  */
@@ -277,7 +303,7 @@ export class OpenRouterService {
       console.log("[OpenRouter] Payload built, model:", payload.model);
 
       // Wywołanie API
-      const response = await this._request(payload);
+      const response = await this._request(payload, params.signal);
       console.log("[OpenRouter] API response received");
 
       // Formatowanie odpowiedzi
@@ -308,6 +334,101 @@ export class OpenRouterService {
     }
   }
 
+  /**
+   * Wysyłanie zapytania w trybie strumieniowym (SSE).
+   * Zwraca kolejne fragmenty treści odpowiedzi modelu, gdy tylko nadejdą.
+   * Walidacja response_format nie jest wykonywana - odpowiedź jest niekompletna
+   * aż do końca strumienia, więc odpowiada za nią konsument.
+   *
+   * Timeout obejmuje oczekiwanie na nagłówki odpowiedzi oraz każdą przerwę między
+   * fragmentami strumienia - nie całą generację, która może trwać kilka minut.
+   * Zakończenie iteracji przez konsumenta lub `params.signal` przerywa zapytanie do OpenRouter.
+   *
+   * @throws {Error} Gdy zapytanie się nie powiedzie lub strumień zawiera błąd
+   */
+  async *streamMessage(params: SendMessageParams): AsyncGenerator<string> {
+    this._usageMetrics.totalRequests++;
+
+    try {
+      // Walidacja podstawowa
+      if (!params.userMessage && (!params.conversation || params.conversation.length === 0)) {
+        throw new Error("Either userMessage or conversation must be provided");
+      }
+
+      const payload = this._buildPayload({ ...params, stream: true });
+
+      // Timer bezczynności - restartowany po każdym fragmencie strumienia
+      const idle = new AbortController();
+      const resetIdleTimer = () => {
+        clearTimeout(idleTimer);
+        idleTimer = setTimeout(
+          () => idle.abort(new DOMException(`No stream data received for ${this._timeoutMs} ms`, "TimeoutError")),
+          this._timeoutMs
+        );
+      };
+      let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+      try {
+        const signal = params.signal ? AbortSignal.any([params.signal, idle.signal]) : idle.signal;
+        const response = await this._fetchWithRetry(payload, { signal, bodyTimeout: false });
+
+        if (!response.body) {
+          throw new Error("OpenRouter response has no body");
+        }
+
+        resetIdleTimer();
+        yield* this._readStreamContent(response.body, resetIdleTimer);
+      } finally {
+        clearTimeout(idleTimer);
+        // Konsument przerwał iterację - zamknij zapytanie do OpenRouter (bez efektu po zakończeniu)
+        idle.abort();
+      }
+
+      this._usageMetrics.successfulRequests++;
+    } catch (error) {
+      this._usageMetrics.failedRequests++;
+      if (error instanceof Error) {
+        this._logger?.error(error, { stream: true });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Odczyt treści ze strumienia SSE OpenRouter.
+   * `onEvent` jest wywoływany po każdym zdarzeniu (np. restart timera bezczynności).
+   */
+  private async *_readStreamContent(body: ReadableStream<Uint8Array>, onEvent: () => void): AsyncGenerator<string> {
+    for await (const event of readSseEvents(body)) {
+      onEvent();
+
+      // Koniec strumienia
+      if (event.data === "[DONE]") break;
+
+      let chunk: OpenRouterStreamChunk;
+      try {
+        chunk = JSON.parse(event.data) as OpenRouterStreamChunk;
+      } catch {
+        // Pomijamy fragmenty, które nie są JSON-em
+        continue;
+      }
+
+      // Błąd zgłoszony w trakcie strumienia (np. przerwanie po stronie dostawcy)
+      if (chunk.error) {
+        throw new OpenRouterAPIError(chunk.error.message || "OpenRouter stream error", undefined, chunk.error);
+      }
+
+      if (chunk.usage) {
+        this._usageMetrics.totalTokens = (this._usageMetrics.totalTokens || 0) + chunk.usage.total_tokens;
+      }
+
+      const content = chunk.choices?.[0]?.delta?.content;
+      if (content) {
+        yield content;
+      }
+    }
+  }
+
   /**
    * Niskopoziomowe wywołanie API (bez walidacji schema)
    */
@@ -510,17 +631,38 @@ export class OpenRouterService {
   }
 
   /**
-   * Wywołanie HTTP z retry/backoff
+   * Wywołanie HTTP zwracające sparsowaną odpowiedź JSON
    */
-  private async _request(payload: OpenRouterRequestPayload): Promise<OpenRouterResponse> {
+  private async _request(payload: OpenRouterRequestPayload, signal?: AbortSignal): Promise<OpenRouterResponse> {
+    const response = await this._fetchWithRetry(payload, { signal, bodyTimeout: true });
+    return (await response.json()) as OpenRouterResponse;
+  }
+
+  /**
+   * Wywołanie HTTP z retry/backoff.
+   * Zwraca odpowiedź z poprawnym statusem - treść (JSON lub strumień SSE) czyta wywołujący.
+   * Z `bodyTimeout: false` timeout kończy się po otrzymaniu nagłówków, a czas czytania treści
+   * (strumienia) ogranicza wywołujący przez `signal`. Przerwanie przez `signal` nie jest ponawiane.
+   */
+  private async _fetchWithRetry(
+    payload: OpenRouterRequestPayload,
+    options: { signal?: AbortSignal; bodyTimeout?: boolean } = {}
+  ): Promise<Response> {
+    const { signal, bodyTimeout = true } = options;
     const apiKey = await this._resolveApiKey();
     let lastError: Error | undefined;
 
     for (let attempt = 1; attempt <= this._retryConfig.attempts; attempt++) {
+      // Timeout zapytania - przy bodyTimeout: false czyszczony po otrzymaniu nagłówków
+      const timeout = new AbortController();
+      const timeoutTimer = setTimeout(
+        () => timeout.abort(new DOMException(`Request timed out after ${this._timeoutMs} ms`, "TimeoutError")),
+        this._timeoutMs
+      );
+
       try {
         const startTime = Date.now();
 
-        // Użyj AbortSignal.timeout dla timeout
         const response = await fetch(`${this._baseUrl}/chat/completions`, {
           method: "POST",
           headers: {
@@ -530,9 +672,13 @@ export class OpenRouterService {
             "X-Title": "10xCards",
           },
           body: JSON.stringify(payload),
-          signal: AbortSignal.timeout(this._timeoutMs),
+          signal: signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal,
         });
 
+        if (!bodyTimeout) {
+          clearTimeout(timeoutTimer);
+        }
+
         const latencyMs = Date.now() - startTime;
 
         // Zapisz metadata
@@ -546,6 +692,7 @@ export class OpenRouterService {
         // Obsługa błędów HTTP
         if (!response.ok) {
           const errorBody = await response.json().catch(() => ({}));
+          clearTimeout(timeoutTimer);
 
           // Sprawdź czy błąd jest retry-able
           const shouldRetry = this._shouldRetry({ status: response.status, errorBody }, attempt);
@@ -585,10 +732,16 @@ export class OpenRouterService {
         }
 
         // Sukces - zwróć odpowiedź
-        return (await response.json()) as OpenRouterResponse;
+        return response;
       } catch (error) {
+        clearTimeout(timeoutTimer);
         lastError = error as Error;
 
+        // Przerwane przez wywołującego - nie ponawiamy
+        if (signal?.aborted) {
+          throw error;
+        }
+
         // Błąd timeoutu lub sieci
         const isNetworkError =
           error instanceof TypeError ||
@@ -0,0 +1,156 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  FlashcardDto,
+  FlashcardSource,
+  FlashcardType,
+  ReviewQueueDeckDto,
+  ReviewQueueResponseDto,
+} from "../../types";
+
+interface GetReviewQueueParams {
+  userId: string;
+  /** Maximum number of cards in the whole queue */
+  limit: number;
+  /** Maximum number of cards taken from a single deck */
+  deckLimit: number;
+  /** Maximum number of never-reviewed cards taken from a single deck */
+  newLimit?: number;
+  /** Deck priorities (deck ID -> weight), decks without an entry get DEFAULT_DECK_PRIORITY */
+  priorities?: Record<string, number>;
+  /** Only cards labelled with this tag (normalized) */
+  tag?: string;
+  /** Reference time (default: now) */
+  now?: Date;
+}
+
+/**
+ * Due cards of a single deck, already ordered by urgency.
+ */
+export interface DeckQueue {
+  deckId: string;
+  priority: number;
+  cards: FlashcardDto[];
+}
+
+export const DEFAULT_DECK_PRIORITY = 1;
+
+/**
+ * Interleaves per-deck queues into a single queue using weighted round-robin.
+ *
+ * In every round each deck contributes up to `priority` cards (in its own order), so
+ * higher-priority decks are reviewed more often, while no deck is starved.
+ * Queues are visited in the given order.
+ *
+ * @param queues - Per-deck queues, each already ordered by urgency
+ * @param limit - Maximum number of cards in the result
+ */
+export function interleaveDeckQueues(queues: DeckQueue[], limit: number): FlashcardDto[] {
+  const result: FlashcardDto[] = [];
+  const positions = queues.map(() => 0);
+  let remaining = queues.reduce((acc, q) => acc + q.cards.length, 0);
+
+  while (result.length < limit && remaining > 0) {
+    queues.forEach((queue, index) => {
+      const take = Math.max(1, Math.round(queue.priority));
+
+      for (let i = 0; i < take && positions[index] < queue.cards.length && result.length < limit; i++) {
+        result.push(queue.cards[positions[index]]);
+        positions[index]++;
+        remaining--;
+      }
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Builds the cross-deck review queue: due cards from all user's decks, interleaved by deck priority.
+ *
+ * Decks are ordered by priority (highest first), then by their most overdue card.
+ * Each deck is capped by `deckLimit` (and `newLimit` for new cards), the whole queue by `limit`.
+ * With a tag, only cards labelled with it are queued. Due cards of all decks are loaded at once
+ * (get_review_queue_cards() and get_due_counts() database functions), whatever the number of decks.
+ * At most one card of each note is queued; siblings are left out before the limits are applied.
+ *
+ * @param supabase - Supabase client instance
+ * @param params - User ID, limits, optional deck priorities and optional tag
+ * @returns Interleaved due flashcards, total due count and per-deck breakdown
+ * @throws {Error} When a database query fails
+ */
+export async function getReviewQueue(
+  supabase: SupabaseClient,
+  params: GetReviewQueueParams
+): Promise<ReviewQueueResponseDto> {
+  const { userId, limit, deckLimit, newLimit, priorities = {}, tag, now = new Date() } = params;
+
+  const { data: decks, error: decksError } = await supabase.from("decks").select("id, name").eq("user_id", userId);
+
+  if (decksError) {
+    throw new Error("Failed to fetch decks");
+  }
+
+  const [cardsResult, countsResult] = await Promise.all([
+    supabase.rpc("get_review_queue_cards", {
+      p_deck_limit: deckLimit,
+      p_new_limit: newLimit ?? deckLimit,
+      p_tag: tag,
+      p_now: now.toISOString(),
+    }),
+    supabase.rpc("get_due_counts", { p_tag: tag, p_now: now.toISOString() }),
+  ]);
+
+  if (cardsResult.error) {
+    throw new Error("Failed to fetch due flashcards");
+  }
+
+  if (countsResult.error) {
+    throw new Error("Failed to count due flashcards");
+  }
+
+  // Cards come ordered by deck, then by urgency, without siblings
+  const cardsByDeck = new Map<string, FlashcardDto[]>();
+  for (const card of cardsResult.data ?? []) {
+    const cards = cardsByDeck.get(card.deck_id) ?? [];
+    cards.push({ ...card, source: card.source as FlashcardSource, card_type: card.card_type as FlashcardType });
+    cardsByDeck.set(card.deck_id, cards);
+  }
+
+  const totalDueByDeck = new Map((countsResult.data ?? []).map((row) => [row.deck_id, row.total_due]));
+
+  const dueByDeck = (decks ?? []).map((deck) => ({
+    deck,
+    priority: priorities[deck.id] ?? DEFAULT_DECK_PRIORITY,
+    due: {
+      data: cardsByDeck.get(deck.id) ?? [],
+      total_due: totalDueByDeck.get(deck.id) ?? 0,
+    },
+  }));
+
+  const withDueCards = dueByDeck
+    .filter(({ due }) => due.total_due > 0)
+    .sort((a, b) => {
+      if (a.priority !== b.priority) return b.priority - a.priority;
+      // Most overdue deck first (first card is the most overdue one)
+      return (a.due.data[0]?.next_review_at ?? "").localeCompare(b.due.data[0]?.next_review_at ?? "");
+    });
+
+  const data = interleaveDeckQueues(
+    withDueCards.map(({ deck, priority, due }) => ({ deckId: deck.id, priority, cards: due.data })),
+    limit
+  );
+
+  const deckSummaries: ReviewQueueDeckDto[] = withDueCards.map(({ deck, priority, due }) => ({
+    deck_id: deck.id,
+    deck_name: deck.name,
+    priority,
+    total_due: due.total_due,
+    queued_count: data.filter((card) => card.deck_id === deck.id).length,
+  }));
+
+  return {
+    data,
+    total_due: withDueCards.reduce((acc, { due }) => acc + due.total_due, 0),
+    decks: deckSummaries,
+  };
+}
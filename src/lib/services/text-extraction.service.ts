@@ -0,0 +1,188 @@
+import { strFromU8 } from "fflate";
+import { extractText as extractPdfText, getDocumentProxy } from "unpdf";
+import { decodeEntities, htmlToText, markdownToText, normalizeText } from "../utils/text-normalize";
+import { unzipLimited, ZipSizeLimitError } from "../utils/zip";
+import type { SourceFileFormat } from "../../types";
+
+interface SourceFile {
+  name: string;
+  /** MIME type reported by the browser (may be empty) */
+  type: string;
+  data: Uint8Array;
+}
+
+interface ExtractTextResult {
+  text: string;
+  format: SourceFileFormat;
+}
+
+/**
+ * Supported file extensions and MIME types per format.
+ */
+export const SOURCE_FILE_FORMATS: Record<SourceFileFormat, { extensions: string[]; mimeTypes: string[] }> = {
+  pdf: { extensions: [".pdf"], mimeTypes: ["application/pdf"] },
+  docx: {
+    extensions: [".docx"],
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  },
+  epub: { extensions: [".epub"], mimeTypes: ["application/epub+zip"] },
+  markdown: { extensions: [".md", ".markdown"], mimeTypes: ["text/markdown", "text/x-markdown"] },
+  html: { extensions: [".html", ".htm", ".xhtml"], mimeTypes: ["text/html", "application/xhtml+xml"] },
+  text: { extensions: [".txt"], mimeTypes: ["text/plain"] },
+};
+
+/**
+ * Maximum uncompressed size of the entries read from a DOCX or EPUB container (50 MB).
+ */
+export const MAX_UNZIPPED_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Error thrown when text cannot be extracted from an uploaded file.
+ */
+export class TextExtractionError extends Error {
+  constructor(
+    message: string,
+    public readonly errorCode: "UNSUPPORTED_FILE_TYPE" | "CONTENT_TOO_LARGE" | "EXTRACTION_FAILED" | "EMPTY_CONTENT",
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "TextExtractionError";
+  }
+}
+
+/**
+ * Detects the file format by extension, falling back to the MIME type.
+ *
+ * @returns Detected format or null when the file type is not supported
+ */
+export function detectFileFormat(fileName: string, mimeType: string): SourceFileFormat | null {
+  const lowerName = fileName.toLowerCase();
+  const formats = Object.entries(SOURCE_FILE_FORMATS) as [
+    SourceFileFormat,
+    { extensions: string[]; mimeTypes: string[] },
+  ][];
+
+  const byExtension = formats.find(([, spec]) => spec.extensions.some((ext) => lowerName.endsWith(ext)));
+  if (byExtension) return byExtension[0];
+
+  const byMimeType = formats.find(([, spec]) => spec.mimeTypes.includes(mimeType));
+  return byMimeType ? byMimeType[0] : null;
+}
+
+/**
+ * Extracts normalised plain text from an uploaded document.
+ * Everything runs locally: PDF via pdf.js (unpdf), DOCX and EPUB by reading their ZIP containers.
+ *
+ * @param file - Uploaded file (name, MIME type and contents)
+ * @returns Normalised text and detected format
+ * @throws {TextExtractionError} When the format is unsupported, the file is corrupt, unpacks to more
+ *   than MAX_UNZIPPED_BYTES or contains no text
+ */
+export async function extractTextFromFile(file: SourceFile): Promise<ExtractTextResult> {
+  const format = detectFileFormat(file.name, file.type);
+
+  if (!format) {
+    throw new TextExtractionError(`Unsupported file type: ${file.name}`, "UNSUPPORTED_FILE_TYPE");
+  }
+
+  let text: string;
+  try {
+    text = await EXTRACTORS[format](file.data);
+  } catch (error) {
+    if (error instanceof ZipSizeLimitError) {
+      throw new TextExtractionError(`${format.toUpperCase()} file contents are too large`, "CONTENT_TOO_LARGE", error);
+    }
+
+    throw new TextExtractionError(`Failed to read ${format.toUpperCase()} file`, "EXTRACTION_FAILED", error);
+  }
+
+  if (!text) {
+    throw new TextExtractionError("No text found in the file", "EMPTY_CONTENT");
+  }
+
+  return { text, format };
+}
+
+// ------------------------------------------------------------------
+// Format Extractors
+// ------------------------------------------------------------------
+
+const EXTRACTORS: Record<SourceFileFormat, (data: Uint8Array) => Promise<string> | string> = {
+  pdf: extractFromPdf,
+  docx: extractFromDocx,
+  epub: extractFromEpub,
+  markdown: (data) => markdownToText(decodeUtf8(data)),
+  html: (data) => htmlToText(decodeUtf8(data)),
+  text: (data) => normalizeText(decodeUtf8(data)),
+};
+
+function decodeUtf8(data: Uint8Array): string {
+  return new TextDecoder("utf-8").decode(data);
+}
+
+async function extractFromPdf(data: Uint8Array): Promise<string> {
+  const pdf = await getDocumentProxy(data);
+  const { text } = await extractPdfText(pdf, { mergePages: false });
+
+  // Pages as separate paragraphs, words hyphenated at line breaks joined back
+  return normalizeText(text.join("\n\n").replace(/(\p{L})-\n(\p{Ll})/gu, "$1$2"));
+}
+
+function extractFromDocx(data: Uint8Array): string {
+  const files = unzipLimited(data, {
+    include: (name) => name === "word/document.xml",
+    maxTotalBytes: MAX_UNZIPPED_BYTES,
+  });
+  const documentXml = files["word/document.xml"];
+
+  if (!documentXml) {
+    throw new Error("word/document.xml not found");
+  }
+
+  const text = strFromU8(documentXml)
+    .replace(/<w:tab\/>/g, "\t")
+    .replace(/<w:(br|cr)\b[^>]*\/>/g, "\n")
+    .replace(/<\/w:p>/g, "\n\n")
+    // Only visible text runs - skip deleted revisions and field instructions
+    .replace(/<w:(delText|instrText)\b[^>]*>[\s\S]*?<\/w:\1>/g, "")
+    .replace(/<[^>]+>/g, "");
+
+  return normalizeText(decodeEntities(text));
+}
+
+function extractFromEpub(data: Uint8Array): string {
+  // Only XML and (X)HTML documents are needed - images, fonts and styles are not decompressed
+  const files = unzipLimited(data, {
+    include: (name) => /\.(xml|opf|xhtml|html?)$/i.test(name),
+    maxTotalBytes: MAX_UNZIPPED_BYTES,
+  });
+  const readFile = (path: string) => (files[path] ? strFromU8(files[path]) : null);
+
+  // container.xml points to the package document (OPF)
+  const container = readFile("META-INF/container.xml");
+  const opfPath = container?.match(/full-path="([^"]+)"/)?.[1];
+  const opf = opfPath ? readFile(opfPath) : null;
+
+  if (!opfPath || !opf) {
+    throw new Error("EPUB package document not found");
+  }
+
+  const baseDir = opfPath.includes("/") ? opfPath.slice(0, opfPath.lastIndexOf("/") + 1) : "";
+
+  // Manifest: id -> href
+  const manifest = new Map<string, string>();
+  for (const [item] of opf.matchAll(/<item\b[^>]*>/g)) {
+    const id = item.match(/\bid="([^"]+)"/)?.[1];
+    const href = item.match(/\bhref="([^"]+)"/)?.[1];
+    if (id && href) manifest.set(id, href);
+  }
+
+  // Spine defines the reading order
+  const chapters = [...opf.matchAll(/<itemref\b[^>]*\bidref="([^"]+)"/g)]
+    .map(([, idref]) => manifest.get(idref))
+    .filter((href): href is string => href !== undefined)
+    .map((href) => readFile(baseDir + decodeURIComponent(href)))
+    .filter((html): html is string => html !== null);
+
+  return normalizeText(chapters.map(htmlToText).join("\n\n"));
+}
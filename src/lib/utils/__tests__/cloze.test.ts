@@ -0,0 +1,77 @@
+/**
+ * Testy jednostkowe dla cloze.ts
+ * Testują obsługę luk (cloze): getClozeIndices, validateClozeText, parseClozeText, renderClozeText
+ */
+
+import { describe, it, expect } from "vitest";
+import { getClozeIndices, validateClozeText, parseClozeText, renderClozeText } from "../cloze";
+
+const NOTE = "{{c1::Warsaw}} is the capital of {{c2::Poland::country}}, on the {{c1::Vistula}}.";
+
+// ------------------------------------------------------------------
+// getClozeIndices
+// ------------------------------------------------------------------
+
+describe("getClozeIndices", () => {
+  it("returns distinct cloze numbers in ascending order", () => {
+    expect(getClozeIndices("{{c3::a}} {{c1::b}} {{c3::c}}")).toEqual([1, 3]);
+  });
+
+  it("returns an empty list for text without deletions", () => {
+    expect(getClozeIndices("Plain text {c1::not a cloze}")).toEqual([]);
+  });
+});
+
+// ------------------------------------------------------------------
+// validateClozeText
+// ------------------------------------------------------------------
+
+describe("validateClozeText", () => {
+  it("accepts text with deletions and hints", () => {
+    expect(validateClozeText(NOTE)).toBeNull();
+  });
+
+  it("rejects text without deletions", () => {
+    expect(validateClozeText("Warsaw is the capital of Poland.")).toMatch(/at least one cloze/);
+  });
+
+  it("rejects empty deletions and numbers out of range", () => {
+    expect(validateClozeText("{{c1::  }} text")).toMatch(/cannot be empty/);
+    expect(validateClozeText("{{c0::a}} text")).toMatch(/between 1 and/);
+    expect(validateClozeText("{{c51::a}} text")).toMatch(/between 1 and/);
+  });
+});
+
+// ------------------------------------------------------------------
+// parseClozeText / renderClozeText
+// ------------------------------------------------------------------
+
+describe("parseClozeText", () => {
+  it("hides deletions of the card and shows the others as plain text", () => {
+    expect(parseClozeText(NOTE, 2, false)).toEqual([
+      { kind: "text", text: "Warsaw is the capital of " },
+      { kind: "hidden", text: "country" },
+      { kind: "text", text: ", on the Vistula." },
+    ]);
+  });
+
+  it("marks deletions of the card as answers once revealed", () => {
+    expect(parseClozeText(NOTE, 1, true)).toEqual([
+      { kind: "answer", text: "Warsaw" },
+      { kind: "text", text: " is the capital of Poland, on the " },
+      { kind: "answer", text: "Vistula" },
+      { kind: "text", text: "." },
+    ]);
+  });
+});
+
+describe("renderClozeText", () => {
+  it("renders hidden deletions as brackets with the hint or an ellipsis", () => {
+    expect(renderClozeText(NOTE, 1, false)).toBe("[...] is the capital of Poland, on the [...].");
+    expect(renderClozeText(NOTE, 2, false)).toBe("Warsaw is the capital of [country], on the Vistula.");
+  });
+
+  it("renders the full text once revealed", () => {
+    expect(renderClozeText(NOTE, 2, true)).toBe("Warsaw is the capital of Poland, on the Vistula.");
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Testy jednostkowe dla deck-tree.ts
+ * Testują hierarchię talii: poddrzewa talii, zapobieganie cyklom i budowanie drzewa
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildDeckTree, canNestDeck, flattenDeckTree, getSubtreeDeckIds } from "../deck-tree";
+
+// Biology › Cell › Mitochondria, Biology › Genetics, Chemistry
+const DECKS = [
+  { id: "biology", parent_id: null },
+  { id: "cell", parent_id: "biology" },
+  { id: "chemistry", parent_id: null },
+  { id: "mitochondria", parent_id: "cell" },
+  { id: "genetics", parent_id: "biology" },
+];
+
+// ------------------------------------------------------------------
+// getSubtreeDeckIds
+// ------------------------------------------------------------------
+
+describe("getSubtreeDeckIds", () => {
+  it("returns the deck first, followed by its sub-decks at any depth", () => {
+    expect(getSubtreeDeckIds(DECKS, "biology")).toEqual(["biology", "cell", "genetics", "mitochondria"]);
+  });
+
+  it("returns only the deck itself when it has no sub-decks", () => {
+    expect(getSubtreeDeckIds(DECKS, "chemistry")).toEqual(["chemistry"]);
+  });
+
+  it("stops at decks that were already visited", () => {
+    const cyclic = [
+      { id: "a", parent_id: "b" },
+      { id: "b", parent_id: "a" },
+    ];
+
+    expect(getSubtreeDeckIds(cyclic, "a")).toEqual(["a", "b"]);
+  });
+});
+
+// ------------------------------------------------------------------
+// canNestDeck
+// ------------------------------------------------------------------
+
+describe("canNestDeck", () => {
+  it("allows moving a deck under an unrelated deck or to the top level", () => {
+    expect(canNestDeck(DECKS, "cell", "chemistry")).toBe(true);
+    expect(canNestDeck(DECKS, "cell", null)).toBe(true);
+  });
+
+  it("rejects moving a deck under itself or its own sub-deck", () => {
+    expect(canNestDeck(DECKS, "biology", "biology")).toBe(false);
+    expect(canNestDeck(DECKS, "biology", "mitochondria")).toBe(false);
+  });
+});
+
+// ------------------------------------------------------------------
+// buildDeckTree / flattenDeckTree
+// ------------------------------------------------------------------
+
+describe("buildDeckTree", () => {
+  it("nests sub-decks under their parents, keeping the order of siblings", () => {
+    const tree = buildDeckTree(DECKS);
+
+    expect(tree.map((node) => node.deck.id)).toEqual(["biology", "chemistry"]);
+    expect(tree[0].children.map((node) => node.deck.id)).toEqual(["cell", "genetics"]);
+    expect(tree[0].children[0].children.map((node) => node.deck.id)).toEqual(["mitochondria"]);
+  });
+
+  it("shows decks whose parent is not in the list at the top level", () => {
+    const tree = buildDeckTree([{ id: "cell", parent_id: "biology" }]);
+
+    expect(tree.map((node) => node.deck.id)).toEqual(["cell"]);
+  });
+
+  it("lists the tree in display order with depths", () => {
+    expect(flattenDeckTree(buildDeckTree(DECKS)).map(({ deck, depth }) => [deck.id, depth])).toEqual([
+      ["biology", 0],
+      ["cell", 1],
+      ["mitochondria", 2],
+      ["genetics", 1],
+      ["chemistry", 0],
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Testy jednostkowe dla delimited-import.ts
+ * Testują parsowanie CSV/TSV i tekstu z Quizletu: separatory, cudzysłowy, nagłówki i walidację wierszy
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseDelimitedCards } from "../delimited-import";
+
+const TAB_LINES = { termSeparator: "\t", rowSeparator: "\n" };
+const CSV = { termSeparator: ",", rowSeparator: "\n" };
+
+describe("parseDelimitedCards", () => {
+  it("parses Quizlet exports with tab and new line separators", () => {
+    const { rows, hasHeader } = parseDelimitedCards("perro\tdog\r\n\r\ngato\tcat\n", TAB_LINES);
+
+    expect(hasHeader).toBe(false);
+    expect(rows).toEqual([
+      { row: 1, front: "perro", back: "dog", errors: [] },
+      { row: 3, front: "gato", back: "cat", errors: [] },
+    ]);
+  });
+
+  it("supports custom separators of any length", () => {
+    const { rows } = parseDelimitedCards("perro :: dog ;; gato :: cat", { termSeparator: "::", rowSeparator: ";;" });
+
+    expect(rows.map(({ front, back }) => [front, back])).toEqual([
+      ["perro", "dog"],
+      ["gato", "cat"],
+    ]);
+  });
+
+  it("reads quoted CSV fields with separators, quotes and line breaks", () => {
+    const { rows } = parseDelimitedCards('"Say ""hi""","Line 1\nLine 2, still back"\n"Plain" text,x', CSV);
+
+    expect(rows.map(({ front, back }) => [front, back])).toEqual([
+      ['Say "hi"', "Line 1\nLine 2, still back"],
+      ['"Plain" text', "x"],
+    ]);
+  });
+
+  it("keeps extra fields in the back when there is no header", () => {
+    const { rows } = parseDelimitedCards("capital of Spain,Madrid, not Barcelona", CSV);
+
+    expect(rows[0]).toMatchObject({ front: "capital of Spain", back: "Madrid, not Barcelona" });
+  });
+
+  it("uses a header row to pick the front and back columns", () => {
+    const text = "note_id,back,front,source\n1,dog,perro,manual";
+    const { rows, hasHeader } = parseDelimitedCards(text, CSV);
+
+    expect(hasHeader).toBe(true);
+    expect(rows).toEqual([{ row: 2, front: "perro", back: "dog", errors: [] }]);
+  });
+
+  it("reports validation errors per row", () => {
+    const { rows } = parseDelimitedCards(`only a term\n${"x".repeat(5001)}\tback`, TAB_LINES);
+
+    expect(rows[0].errors).toEqual(["Back is required"]);
+    expect(rows[1].errors).toEqual(["Front must be at most 5000 characters"]);
+  });
+
+  it("rejects equal or empty separators", () => {
+    expect(() => parseDelimitedCards("a,b", { termSeparator: ",", rowSeparator: "," })).toThrow(RangeError);
+    expect(() => parseDelimitedCards("a,b", { termSeparator: "", rowSeparator: "\n" })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Testy jednostkowe dla json-stream.ts
+ * Testują przyrostowe wyodrębnianie elementów tablicy JSON: JsonArrayStreamParser
+ */
+
+import { describe, it, expect } from "vitest";
+import { JsonArrayStreamParser } from "../json-stream";
+
+// ------------------------------------------------------------------
+// Test Fixtures & Helpers
+// ------------------------------------------------------------------
+
+const DOCUMENT = JSON.stringify({
+  flashcards: [
+    { front: "What is {SM-2}?", back: 'An algorithm with "ease factor" \\ intervals' },
+    { front: "Q2", back: "A2 [with brackets]" },
+  ],
+});
+
+function pushInChunks(parser: JsonArrayStreamParser, text: string, size: number): unknown[] {
+  const items: unknown[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    items.push(...parser.push(text.slice(i, i + size)));
+  }
+  return items;
+}
+
+// ------------------------------------------------------------------
+// JsonArrayStreamParser
+// ------------------------------------------------------------------
+
+describe("JsonArrayStreamParser", () => {
+  it("extracts all items from a complete document", () => {
+    const parser = new JsonArrayStreamParser("flashcards");
+
+    expect(parser.push(DOCUMENT)).toEqual(JSON.parse(DOCUMENT).flashcards);
+    expect(parser.isDone).toBe(true);
+  });
+
+  it.each([1, 3, 7])("extracts the same items when fed in chunks of %i characters", (size) => {
+    const parser = new JsonArrayStreamParser("flashcards");
+
+    expect(pushInChunks(parser, DOCUMENT, size)).toEqual(JSON.parse(DOCUMENT).flashcards);
+  });
+
+  it("emits an item as soon as its closing brace arrives", () => {
+    const parser = new JsonArrayStreamParser("flashcards");
+
+    expect(parser.push('{"flashcards": [{"front": "Q1", "ba')).toEqual([]);
+    expect(parser.push('ck": "A1"}, {"front"')).toEqual([{ front: "Q1", back: "A1" }]);
+    expect(parser.isDone).toBe(false);
+  });
+
+  it("ignores text before the array, such as markdown code fences", () => {
+    const parser = new JsonArrayStreamParser("flashcards");
+
+    expect(parser.push('```json\n{ "flashcards" : [ {"front": "Q", "back": "A"} ] }\n```')).toEqual([
+      { front: "Q", back: "A" },
+    ]);
+  });
+
+  it("ignores input after the end of the array", () => {
+    const parser = new JsonArrayStreamParser("flashcards");
+
+    parser.push('{"flashcards": []}');
+
+    expect(parser.isDone).toBe(true);
+    expect(parser.push('{"front": "Q", "back": "A"}')).toEqual([]);
+  });
+
+  it("returns nothing when the key never appears", () => {
+    const parser = new JsonArrayStreamParser("flashcards");
+
+    expect(parser.push('{"cards": [{"front": "Q", "back": "A"}]}')).toEqual([]);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Testy jednostkowe dla search.ts
+ * Testują podział fragmentów wyników wyszukiwania na zwykły tekst i wyróżnione dopasowania
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseHighlightedSnippet } from "../search";
+
+// ------------------------------------------------------------------
+// parseHighlightedSnippet
+// ------------------------------------------------------------------
+
+describe("parseHighlightedSnippet", () => {
+  it("splits a snippet into plain and matched segments", () => {
+    expect(parseHighlightedSnippet("The ⟦cat⟧ sat on the ⟦mat⟧")).toEqual([
+      { text: "The ", match: false },
+      { text: "cat", match: true },
+      { text: " sat on the ", match: false },
+      { text: "mat", match: true },
+    ]);
+  });
+
+  it("keeps markup in the card text as plain text", () => {
+    expect(parseHighlightedSnippet("<b>⟦kot⟧</b>")).toEqual([
+      { text: "<b>", match: false },
+      { text: "kot", match: true },
+      { text: "</b>", match: false },
+    ]);
+  });
+
+  it("returns no segments for an empty snippet", () => {
+    expect(parseHighlightedSnippet("")).toEqual([]);
+  });
+});
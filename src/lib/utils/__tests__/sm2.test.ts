@@ -0,0 +1,146 @@
+/**
+ * Testy jednostkowe dla sm2.ts
+ * Testują algorytm SM-2: calculateEaseFactor, scheduleReview
+ */
+
+import { describe, it, expect } from "vitest";
+import { calculateEaseFactor, scheduleReview, DEFAULT_EASE_FACTOR, MIN_EASE_FACTOR, type Sm2State } from "../sm2";
+
+// ------------------------------------------------------------------
+// Test Fixtures & Helpers
+// ------------------------------------------------------------------
+
+const NOW = new Date("2026-03-01T10:00:00.000Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createState(overrides: Partial<Sm2State> = {}): Sm2State {
+  return {
+    ease_factor: DEFAULT_EASE_FACTOR,
+    interval: 0,
+    repetitions: 0,
+    ...overrides,
+  };
+}
+
+function daysFromNow(days: number): string {
+  return new Date(NOW.getTime() + days * DAY_MS).toISOString();
+}
+
+// ------------------------------------------------------------------
+// calculateEaseFactor
+// ------------------------------------------------------------------
+
+describe("calculateEaseFactor", () => {
+  it.each([
+    [5, 2.6],
+    [4, 2.5],
+    [3, 2.36],
+    [2, 2.18],
+    [1, 1.96],
+    [0, 1.7],
+  ])("should update ease factor 2.5 for quality %i to %f", (quality, expected) => {
+    expect(calculateEaseFactor(2.5, quality)).toBeCloseTo(expected, 5);
+  });
+
+  it("should never drop below the minimum ease factor", () => {
+    expect(calculateEaseFactor(1.3, 0)).toBe(MIN_EASE_FACTOR);
+    expect(calculateEaseFactor(1.4, 1)).toBe(MIN_EASE_FACTOR);
+  });
+
+  it("should round to two decimals", () => {
+    const result = calculateEaseFactor(2.123456, 5);
+    expect(result).toBe(2.22);
+  });
+});
+
+// ------------------------------------------------------------------
+// scheduleReview
+// ------------------------------------------------------------------
+
+describe("scheduleReview", () => {
+  describe("Correct responses (quality >= 3)", () => {
+    it("should schedule a new card for tomorrow", () => {
+      const result = scheduleReview(createState(), 4, NOW);
+
+      expect(result).toEqual({
+        ease_factor: 2.5,
+        interval: 1,
+        repetitions: 1,
+        next_review_at: daysFromNow(1),
+      });
+    });
+
+    it("should use a 6 day interval on the second repetition", () => {
+      const result = scheduleReview(createState({ interval: 1, repetitions: 1 }), 4, NOW);
+
+      expect(result.interval).toBe(6);
+      expect(result.repetitions).toBe(2);
+      expect(result.next_review_at).toBe(daysFromNow(6));
+    });
+
+    it("should multiply the previous interval by the ease factor after that", () => {
+      const result = scheduleReview(createState({ interval: 6, repetitions: 2, ease_factor: 2.5 }), 5, NOW);
+
+      expect(result.interval).toBe(15);
+      expect(result.repetitions).toBe(3);
+      expect(result.ease_factor).toBeCloseTo(2.6, 5);
+    });
+
+    it("should round the interval to whole days", () => {
+      const result = scheduleReview(createState({ interval: 7, repetitions: 3, ease_factor: 1.7 }), 3, NOW);
+
+      expect(result.interval).toBe(12);
+      expect(Number.isInteger(result.interval)).toBe(true);
+    });
+
+    it("should lower the ease factor for a hard but correct answer", () => {
+      const result = scheduleReview(createState(), 3, NOW);
+
+      expect(result.ease_factor).toBeCloseTo(2.36, 5);
+      expect(result.repetitions).toBe(1);
+    });
+  });
+
+  describe("Incorrect responses (quality < 3)", () => {
+    it.each([0, 1, 2])("should reset repetitions and interval for quality %i", (quality) => {
+      const result = scheduleReview(createState({ interval: 15, repetitions: 3 }), quality, NOW);
+
+      expect(result.repetitions).toBe(0);
+      expect(result.interval).toBe(0);
+    });
+
+    it("should make the card due immediately", () => {
+      const result = scheduleReview(createState({ interval: 15, repetitions: 3 }), 1, NOW);
+
+      expect(result.next_review_at).toBe(NOW.toISOString());
+    });
+
+    it("should still lower the ease factor down to the minimum", () => {
+      const result = scheduleReview(createState({ ease_factor: 1.4 }), 0, NOW);
+
+      expect(result.ease_factor).toBe(MIN_EASE_FACTOR);
+    });
+  });
+
+  describe("Input handling", () => {
+    it.each([-1, 6, 2.5, Number.NaN])("should reject invalid quality %s", (quality) => {
+      expect(() => scheduleReview(createState(), quality, NOW)).toThrow(RangeError);
+    });
+
+    it("should treat a corrupted ease factor below the minimum as the minimum", () => {
+      const result = scheduleReview(createState({ ease_factor: 0.5, interval: 10, repetitions: 4 }), 4, NOW);
+
+      expect(result.interval).toBe(13);
+      expect(result.ease_factor).toBe(MIN_EASE_FACTOR);
+    });
+
+    it("should not mutate the input state", () => {
+      const state = createState({ interval: 6, repetitions: 2 });
+      const snapshot = { ...state };
+
+      scheduleReview(state, 5, NOW);
+
+      expect(state).toEqual(snapshot);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Testy jednostkowe dla text-chunking.ts
+ * Testują podział długich tekstów na fragmenty (splitIntoChunks)
+ * oraz rozdział liczby fiszek między fragmenty (allocateCountBudget)
+ * i wybór fragmentu najbliższego fiszce (selectRelevantChunk)
+ */
+
+import { describe, it, expect } from "vitest";
+import { allocateCountBudget, selectRelevantChunk, splitIntoChunks } from "../text-chunking";
+
+// ------------------------------------------------------------------
+// Test Fixtures & Helpers
+// ------------------------------------------------------------------
+
+function paragraph(words: number, seed = "word"): string {
+  return Array.from({ length: words }, (_, i) => `${seed}${i}`).join(" ") + ".";
+}
+
+// ------------------------------------------------------------------
+// splitIntoChunks
+// ------------------------------------------------------------------
+
+describe("splitIntoChunks", () => {
+  it("should return short text unchanged as a single chunk", () => {
+    const text = "First paragraph.\n\nSecond paragraph.";
+
+    expect(splitIntoChunks(text, 100)).toEqual([text]);
+  });
+
+  it("should split on paragraph boundaries without exceeding the limit", () => {
+    const paragraphs = Array.from({ length: 6 }, (_, i) => paragraph(8, `p${i}w`));
+    const chunks = splitIntoChunks(paragraphs.join("\n\n"), 120);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(120);
+    }
+    expect(chunks.join("\n\n")).toBe(paragraphs.join("\n\n"));
+  });
+
+  it("should start a new chunk at a heading once the current chunk is half full", () => {
+    const text = ["# Part one", paragraph(10, "a"), "# Part two", paragraph(10, "b")].join("\n\n");
+    const chunks = splitIntoChunks(text, 80);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].startsWith("# Part one")).toBe(true);
+    expect(chunks[1].startsWith("# Part two")).toBe(true);
+  });
+
+  it("should split an oversized paragraph on sentence boundaries", () => {
+    const sentences = Array.from({ length: 10 }, (_, i) => `Sentence number ${i} ends here.`);
+    const chunks = splitIntoChunks(sentences.join(" "), 70);
+
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(70);
+      expect(chunk.endsWith(".")).toBe(true);
+    }
+    expect(chunks.join(" ")).toBe(sentences.join(" "));
+  });
+
+  it("should hard-split text without sentence boundaries on whitespace", () => {
+    const text = paragraph(100).slice(0, -1);
+    const chunks = splitIntoChunks(text, 50);
+
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(50);
+    }
+    expect(chunks.join(" ")).toBe(text);
+  });
+});
+
+// ------------------------------------------------------------------
+// allocateCountBudget
+// ------------------------------------------------------------------
+
+describe("allocateCountBudget", () => {
+  it("should split the count proportionally to chunk length", () => {
+    expect(allocateCountBudget(10, [8000, 8000])).toEqual([5, 5]);
+    expect(allocateCountBudget(10, [6000, 2000])).toEqual([7, 3]);
+  });
+
+  it("should always sum up to the total", () => {
+    const counts = allocateCountBudget(17, [8000, 7999, 3000, 120]);
+
+    expect(counts.reduce((sum, count) => sum + count, 0)).toBe(17);
+  });
+
+  it("should give every chunk at least one flashcard when the budget allows it", () => {
+    expect(allocateCountBudget(5, [8000, 8000, 8000, 100])).toEqual([2, 1, 1, 1]);
+  });
+
+  it("should leave the shortest chunks without flashcards when there are more chunks than flashcards", () => {
+    expect(allocateCountBudget(2, [8000, 100, 7000])).toEqual([1, 0, 1]);
+  });
+
+  it("should return an empty list for no chunks", () => {
+    expect(allocateCountBudget(10, [])).toEqual([]);
+  });
+});
+
+// ------------------------------------------------------------------
+// selectRelevantChunk
+// ------------------------------------------------------------------
+
+describe("selectRelevantChunk", () => {
+  const text = [
+    "Photosynthesis converts light energy into chemical energy stored in glucose.",
+    "Mitochondria produce most of the cell's energy through cellular respiration.",
+    "Ribosomes assemble proteins from amino acids according to messenger RNA.",
+  ].join("\n\n");
+
+  it("should return the chunk sharing the most words with the query", () => {
+    expect(selectRelevantChunk(text, "Which organelle assembles proteins? Ribosomes", 90)).toContain("Ribosomes");
+  });
+
+  it("should return the first chunk when nothing matches", () => {
+    expect(selectRelevantChunk(text, "Unrelated question", 90)).toContain("Photosynthesis");
+  });
+
+  it("should return the whole text when it fits in a single chunk", () => {
+    expect(selectRelevantChunk(text, "Ribosomes")).toBe(text);
+  });
+});
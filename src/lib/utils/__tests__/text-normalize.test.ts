@@ -0,0 +1,88 @@
+/**
+ * Testy jednostkowe dla text-normalize.ts
+ * Testują normalizację tekstu źródłowego: normalizeText, decodeEntities, htmlToText, markdownToText
+ */
+
+import { describe, it, expect } from "vitest";
+import { normalizeText, decodeEntities, htmlToText, markdownToText } from "../text-normalize";
+
+// ------------------------------------------------------------------
+// normalizeText
+// ------------------------------------------------------------------
+
+describe("normalizeText", () => {
+  it("unifies line endings and collapses whitespace within lines", () => {
+    expect(normalizeText("Title\r\n\r\n\r\n  Some   text\t here ")).toBe("Title\n\nSome text here");
+  });
+
+  it("removes control characters and byte order marks", () => {
+    expect(normalizeText("\ufeffZa\u0000żółć\u200b gęślą")).toBe("Zażółć gęślą");
+  });
+
+  it("composes Unicode characters (NFC)", () => {
+    expect(normalizeText("z\u0307")).toBe("\u017c");
+  });
+});
+
+// ------------------------------------------------------------------
+// decodeEntities
+// ------------------------------------------------------------------
+
+describe("decodeEntities", () => {
+  it("decodes named, decimal and hexadecimal entities", () => {
+    expect(decodeEntities("&lt;a&gt; &amp; &#261; &#x17C;")).toBe("<a> & ą ż");
+  });
+
+  it("leaves unknown entities untouched", () => {
+    expect(decodeEntities("&unknown;")).toBe("&unknown;");
+  });
+});
+
+// ------------------------------------------------------------------
+// htmlToText
+// ------------------------------------------------------------------
+
+describe("htmlToText", () => {
+  it("keeps paragraphs and list items, drops markup", () => {
+    const html = "<h1>Title</h1><p>First <b>bold</b> paragraph.</p><ul><li>One</li><li>Two</li></ul>";
+
+    expect(htmlToText(html)).toBe("Title\n\nFirst bold paragraph.\n\n- One\n\n- Two");
+  });
+
+  it("removes head, scripts, styles and comments", () => {
+    const html =
+      "<html><head><title>T</title></head><body><!-- note --><script>x()</script><style>p{}</style><p>Body</p></body></html>";
+
+    expect(htmlToText(html)).toBe("Body");
+  });
+
+  it("converts line breaks and entities", () => {
+    expect(htmlToText("Line&nbsp;1<br/>Line 2")).toBe("Line 1\nLine 2");
+  });
+});
+
+// ------------------------------------------------------------------
+// markdownToText
+// ------------------------------------------------------------------
+
+describe("markdownToText", () => {
+  it("strips headings, emphasis and inline code", () => {
+    expect(markdownToText("# Title\n\nSome **bold**, _italic_ and `code`.")).toBe(
+      "Title\n\nSome bold, italic and code."
+    );
+  });
+
+  it("keeps link and image text without targets", () => {
+    expect(markdownToText("See [docs](https://example.com) and ![diagram](img.png).")).toBe("See docs and diagram.");
+  });
+
+  it("removes front matter, code fences and blockquote markers", () => {
+    const markdown = "---\ntitle: Notes\n---\n> Quote\n\n```js\nconst a = 1;\n```";
+
+    expect(markdownToText(markdown)).toBe("Quote\n\nconst a = 1;");
+  });
+
+  it("normalises list markers", () => {
+    expect(markdownToText("* one\n+ two\n- three")).toBe("- one\n- two\n- three");
+  });
+});
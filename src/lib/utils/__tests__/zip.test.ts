@@ -0,0 +1,62 @@
+/**
+ * Testy jednostkowe dla zip.ts
+ * Testują rozpakowywanie wybranych plików archiwum z limitem rozmiaru: unzipLimited
+ */
+
+import { describe, it, expect } from "vitest";
+import { zipSync, strToU8 } from "fflate";
+import { unzipLimited, ZipSizeLimitError } from "../zip";
+
+// ------------------------------------------------------------------
+// Test Fixtures & Helpers
+// ------------------------------------------------------------------
+
+const ARCHIVE = zipSync({
+  "a.xml": strToU8("a".repeat(100)),
+  "b.xml": strToU8("b".repeat(100)),
+  "image.png": strToU8("x".repeat(1000)),
+});
+
+/**
+ * Overwrites the uncompressed size declared in the central directory, as a ZIP bomb would.
+ */
+function declareOriginalSize(archive: Uint8Array, size: number): Uint8Array {
+  const data = archive.slice();
+  const view = new DataView(data.buffer);
+
+  for (let offset = 0; offset < data.length - 4; offset++) {
+    if (view.getUint32(offset, true) === 0x02014b50) {
+      view.setUint32(offset + 24, size, true);
+    }
+  }
+
+  return data;
+}
+
+// ------------------------------------------------------------------
+// unzipLimited
+// ------------------------------------------------------------------
+
+describe("unzipLimited", () => {
+  it("decompresses only the included entries", () => {
+    const files = unzipLimited(ARCHIVE, { include: (name) => name.endsWith(".xml"), maxTotalBytes: 1000 });
+
+    expect(Object.keys(files).sort()).toEqual(["a.xml", "b.xml"]);
+  });
+
+  it("does not count excluded entries towards the limit", () => {
+    expect(() => unzipLimited(ARCHIVE, { include: (name) => name === "a.xml", maxTotalBytes: 100 })).not.toThrow();
+  });
+
+  it("rejects archives whose included entries together exceed the limit", () => {
+    expect(() => unzipLimited(ARCHIVE, { include: (name) => name.endsWith(".xml"), maxTotalBytes: 150 })).toThrow(
+      ZipSizeLimitError
+    );
+  });
+
+  it("rejects entries declaring a huge uncompressed size before decompressing them", () => {
+    const bomb = declareOriginalSize(ARCHIVE, 0xfffffff0);
+
+    expect(() => unzipLimited(bomb, { include: () => true, maxTotalBytes: 1024 * 1024 })).toThrow(ZipSizeLimitError);
+  });
+});
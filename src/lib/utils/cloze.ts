@@ -0,0 +1,119 @@
+/**
+ * Cloze deletions: `{{c1::hidden text}}` or `{{c1::hidden text::hint}}`.
+ *
+ * A cloze note is a single text with one or more numbered deletions. Every distinct
+ * number becomes a separate card: on card N the deletions numbered N are hidden
+ * and all other deletions are shown as plain text.
+ */
+
+/** Highest supported cloze number */
+export const MAX_CLOZE_INDEX = 50;
+
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+/**
+ * Part of a cloze text prepared for display on a card.
+ * - text: plain text
+ * - hidden: a deletion of the current card before the answer is revealed (shows the hint, if any)
+ * - answer: a deletion of the current card after the answer is revealed
+ */
+export interface ClozeSegment {
+  kind: "text" | "hidden" | "answer";
+  text: string;
+}
+
+/**
+ * Returns the distinct cloze numbers used in a text, in ascending order.
+ */
+export function getClozeIndices(text: string): number[] {
+  const indices = new Set<number>();
+
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    indices.add(Number(match[1]));
+  }
+
+  return [...indices].sort((a, b) => a - b);
+}
+
+/**
+ * Checks that a text is a valid cloze note.
+ *
+ * @returns Error message, or null when the text is valid
+ */
+export function validateClozeText(text: string): string | null {
+  const matches = [...text.matchAll(CLOZE_PATTERN)];
+
+  if (matches.length === 0) {
+    return "Add at least one cloze deletion, e.g. {{c1::answer}}";
+  }
+
+  for (const match of matches) {
+    const index = Number(match[1]);
+
+    if (index < 1 || index > MAX_CLOZE_INDEX) {
+      return `Cloze numbers must be between 1 and ${MAX_CLOZE_INDEX}`;
+    }
+
+    if (!match[2].trim()) {
+      return "Cloze deletions cannot be empty";
+    }
+
+    if (match[2].includes("{{")) {
+      return "Cloze deletions cannot be nested";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Splits a cloze text into segments for the card with the given cloze number.
+ * Deletions of other cards are merged into the surrounding plain text.
+ *
+ * @param text - Cloze note text
+ * @param clozeIndex - Number of the card's deletions
+ * @param revealed - Whether the answer is shown
+ */
+export function parseClozeText(text: string, clozeIndex: number, revealed: boolean): ClozeSegment[] {
+  const segments: ClozeSegment[] = [];
+  let lastIndex = 0;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+
+    const previous = segments[segments.length - 1];
+    if (previous?.kind === "text") {
+      previous.text += value;
+    } else {
+      segments.push({ kind: "text", text: value });
+    }
+  };
+
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const [full, index, answer, hint] = match;
+    pushText(text.slice(lastIndex, match.index));
+    lastIndex = (match.index ?? 0) + full.length;
+
+    if (Number(index) !== clozeIndex) {
+      pushText(answer);
+    } else if (revealed) {
+      segments.push({ kind: "answer", text: answer });
+    } else {
+      segments.push({ kind: "hidden", text: hint?.trim() || "..." });
+    }
+  }
+
+  pushText(text.slice(lastIndex));
+
+  return segments;
+}
+
+/**
+ * Renders the card with the given cloze number as plain text: hidden deletions
+ * become `[...]` (or `[hint]`), revealed ones are shown as-is.
+ */
+export function renderClozeText(text: string, clozeIndex: number, revealed: boolean): string {
+  return parseClozeText(text, clozeIndex, revealed)
+    .map((segment) => (segment.kind === "hidden" ? `[${segment.text}]` : segment.text))
+    .join("");
+}
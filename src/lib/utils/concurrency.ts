@@ -0,0 +1,55 @@
+/**
+ * Outcome of a single task run by mapWithConcurrency.
+ */
+export type SettledTask<R> =
+  | { index: number; status: "fulfilled"; value: R }
+  | { index: number; status: "rejected"; reason: unknown };
+
+/**
+ * Runs `worker` for every item with at most `limit` tasks in flight and yields the outcomes
+ * in completion order. A failing task does not stop the others - its error is yielded as
+ * a rejected outcome.
+ *
+ * The next task is started before an outcome is yielded, so a slow consumer does not
+ * hold back the pool. Tasks still running when the consumer stops iterating are left
+ * to finish and their outcomes are discarded.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrently running tasks (at least 1)
+ * @param worker - Async function processing a single item
+ */
+export async function* mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): AsyncGenerator<SettledTask<R>> {
+  const running = new Map<number, Promise<SettledTask<R>>>();
+  let next = 0;
+
+  const launch = (index: number) => {
+    const task = Promise.resolve()
+      .then(() => worker(items[index], index))
+      .then(
+        (value): SettledTask<R> => ({ index, status: "fulfilled", value }),
+        (reason): SettledTask<R> => ({ index, status: "rejected", reason })
+      );
+    running.set(index, task);
+  };
+
+  const poolSize = Math.max(1, limit);
+
+  while (next < items.length && running.size < poolSize) {
+    launch(next++);
+  }
+
+  while (running.size > 0) {
+    const settled = await Promise.race(running.values());
+    running.delete(settled.index);
+
+    if (next < items.length) {
+      launch(next++);
+    }
+
+    yield settled;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Position of a deck in the deck hierarchy.
+ */
+interface DeckTreeEntry {
+  id: string;
+  parent_id: string | null;
+}
+
+/**
+ * A deck with its sub-decks, as rendered in the deck tree.
+ */
+export interface DeckTreeNode<T extends DeckTreeEntry> {
+  deck: T;
+  children: DeckTreeNode<T>[];
+}
+
+/**
+ * IDs of a deck and all of its sub-decks (at any depth), the deck itself first.
+ * Decks are visited once, so broken data cannot loop forever.
+ */
+export function getSubtreeDeckIds(decks: DeckTreeEntry[], rootId: string): string[] {
+  const childrenByParent = new Map<string, string[]>();
+
+  for (const deck of decks) {
+    if (!deck.parent_id) continue;
+    childrenByParent.set(deck.parent_id, [...(childrenByParent.get(deck.parent_id) ?? []), deck.id]);
+  }
+
+  const ids = [rootId];
+  const visited = new Set(ids);
+
+  // Sub-decks appended while iterating are visited too
+  for (const id of ids) {
+    for (const childId of childrenByParent.get(id) ?? []) {
+      if (visited.has(childId)) continue;
+      visited.add(childId);
+      ids.push(childId);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Whether a deck can be moved under the given parent: not under itself and not under any
+ * of its own sub-decks. A null parent (top level) is always allowed.
+ */
+export function canNestDeck(decks: DeckTreeEntry[], deckId: string, parentId: string | null): boolean {
+  return parentId === null || !getSubtreeDeckIds(decks, deckId).includes(parentId);
+}
+
+/**
+ * Arranges decks into a tree. Decks keep their order among siblings; a deck whose parent
+ * is not in the list is shown at the top level.
+ */
+export function buildDeckTree<T extends DeckTreeEntry>(decks: T[]): DeckTreeNode<T>[] {
+  const nodes = new Map(decks.map((deck) => [deck.id, { deck, children: [] } as DeckTreeNode<T>]));
+  const roots: DeckTreeNode<T>[] = [];
+
+  for (const deck of decks) {
+    const node = nodes.get(deck.id) as DeckTreeNode<T>;
+    const parent = deck.parent_id ? nodes.get(deck.parent_id) : undefined;
+
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Lists the decks of a tree in display order (each deck followed by its sub-decks),
+ * with their depth - 0 for top-level decks.
+ */
+export function flattenDeckTree<T extends DeckTreeEntry>(
+  nodes: DeckTreeNode<T>[],
+  depth = 0
+): { deck: T; depth: number }[] {
+  return nodes.flatMap((node) => [{ deck: node.deck, depth }, ...flattenDeckTree(node.children, depth + 1)]);
+}
@@ -0,0 +1,162 @@
+import { bulkImportCardSchema } from "../validators/flashcard.validator";
+
+/**
+ * Separators of a delimited text: between the term (front) and definition (back), and between
+ * cards. Quizlet exports use a tab or comma between term and definition and a new line or
+ * semicolon between cards; custom separators of any length are supported as well.
+ */
+export interface DelimitedImportOptions {
+  termSeparator: string;
+  rowSeparator: string;
+}
+
+/**
+ * Card parsed from a row of delimited text, with its validation errors (if any).
+ */
+export interface ParsedImportRow {
+  /** 1-based number of the row in the text (the header counts as row 1) */
+  row: number;
+  front: string;
+  back: string;
+  errors: string[];
+}
+
+export interface ParsedImport {
+  rows: ParsedImportRow[];
+  /** Whether the first row was recognised as a header (e.g. "front,back" or "term,definition") */
+  hasHeader: boolean;
+}
+
+const FRONT_HEADERS = ["front", "term", "question"];
+const BACK_HEADERS = ["back", "definition", "answer"];
+
+/**
+ * Reads a quoted field (RFC 4180: `"..."` with `""` as an escaped quote) starting at `start`.
+ * Returns null when the field is not quoted or the closing quote is not followed by a separator,
+ * so that plain values starting with a quote are read as-is.
+ */
+function readQuotedField(
+  text: string,
+  start: number,
+  options: DelimitedImportOptions
+): { value: string; end: number } | null {
+  if (text[start] !== '"') return null;
+
+  let value = "";
+  let position = start + 1;
+
+  while (position < text.length) {
+    if (text[position] === '"') {
+      if (text[position + 1] === '"') {
+        value += '"';
+        position += 2;
+        continue;
+      }
+
+      const end = position + 1;
+      const atSeparator =
+        end === text.length ||
+        text.startsWith(options.termSeparator, end) ||
+        text.startsWith(options.rowSeparator, end);
+      return atSeparator ? { value, end } : null;
+    }
+
+    value += text[position];
+    position++;
+  }
+
+  return null;
+}
+
+/**
+ * Splits delimited text into records of fields.
+ */
+function splitRecords(text: string, options: DelimitedImportOptions): string[][] {
+  const { termSeparator, rowSeparator } = options;
+  const records: string[][] = [];
+  let fields: string[] = [];
+  let position = 0;
+
+  for (;;) {
+    const quoted = readQuotedField(text, position, options);
+    let end: number;
+
+    if (quoted) {
+      fields.push(quoted.value);
+      end = quoted.end;
+    } else {
+      const candidates = [text.indexOf(termSeparator, position), text.indexOf(rowSeparator, position)].filter(
+        (index) => index >= 0
+      );
+      end = candidates.length > 0 ? Math.min(...candidates) : text.length;
+      fields.push(text.slice(position, end));
+    }
+
+    if (end >= text.length) {
+      records.push(fields);
+      return records;
+    }
+
+    // When both separators match (e.g. "\n" and "\n\n"), the longer one wins
+    const atTerm = text.startsWith(termSeparator, end);
+    const atRow = text.startsWith(rowSeparator, end);
+
+    if (atRow && (!atTerm || rowSeparator.length >= termSeparator.length)) {
+      records.push(fields);
+      fields = [];
+      position = end + rowSeparator.length;
+    } else {
+      position = end + termSeparator.length;
+    }
+  }
+}
+
+/**
+ * Parses cards from delimited text: CSV/TSV files or terms exported from Quizlet.
+ *
+ * - Quoted fields may contain separators and line breaks
+ * - A first row naming the columns (front/term/question and back/definition/answer) is used as
+ *   a header, other columns are ignored; without a header the first field is the front and the
+ *   rest is the back
+ * - Empty rows are skipped; every row is validated like a manually created card
+ *
+ * @param text - Pasted text or contents of the uploaded file
+ * @param options - Separators between term and definition and between cards
+ */
+export function parseDelimitedCards(text: string, options: DelimitedImportOptions): ParsedImport {
+  if (!options.termSeparator || !options.rowSeparator || options.termSeparator === options.rowSeparator) {
+    throw new RangeError("Term and row separators must be different and non-empty");
+  }
+
+  const records = splitRecords(text.replace(/\r\n?/g, "\n"), options)
+    .map((fields, index) => ({ row: index + 1, fields }))
+    .filter((record) => record.fields.some((field) => field.trim()));
+
+  let frontIndex = 0;
+  let backIndex: number | null = null;
+  let hasHeader = false;
+
+  const header = records[0]?.fields.map((field) => field.trim().toLowerCase());
+  if (header) {
+    const headerFront = header.findIndex((field) => FRONT_HEADERS.includes(field));
+    const headerBack = header.findIndex((field) => BACK_HEADERS.includes(field));
+
+    if (headerFront >= 0 && headerBack >= 0) {
+      frontIndex = headerFront;
+      backIndex = headerBack;
+      hasHeader = true;
+    }
+  }
+
+  const rows = (hasHeader ? records.slice(1) : records).map(({ row, fields }) => {
+    const front = fields[frontIndex] ?? "";
+    const back = backIndex === null ? fields.slice(1).join(options.termSeparator) : (fields[backIndex] ?? "");
+    const result = bulkImportCardSchema.safeParse({ front, back });
+
+    return result.success
+      ? { row, ...result.data, errors: [] }
+      : { row, front: front.trim(), back: back.trim(), errors: result.error.issues.map((issue) => issue.message) };
+  });
+
+  return { rows, hasHeader };
+}
@@ -0,0 +1,107 @@
+/**
+ * Incremental parser that extracts complete items of a JSON array from a text stream.
+ *
+ * Used for streamed AI responses: the model emits `{"flashcards": [{...}, {...}]}` token
+ * by token, and every array item can be used as soon as its closing brace arrives,
+ * long before the whole document is complete.
+ *
+ * Only object items are extracted; anything before the array (including markdown code
+ * fences) and after its closing bracket is ignored.
+ *
+ * @example
+ * const parser = new JsonArrayStreamParser("flashcards");
+ * parser.push('{"flashcards": [{"front": "Q1", "ba');  // Returns: []
+ * parser.push('ck": "A1"}, {"front"');                 // Returns: [{ front: "Q1", back: "A1" }]
+ */
+export class JsonArrayStreamParser {
+  private readonly arrayStartPattern: RegExp;
+  private phase: "seeking" | "array" | "done" = "seeking";
+  private pending = "";
+  private item = "";
+  private depth = 0;
+  private inString = false;
+  private isEscaped = false;
+
+  constructor(arrayKey: string) {
+    const escapedKey = arrayKey.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    this.arrayStartPattern = new RegExp(`"${escapedKey}"\\s*:\\s*\\[`);
+  }
+
+  /**
+   * Whether the closing bracket of the array has been reached.
+   */
+  get isDone(): boolean {
+    return this.phase === "done";
+  }
+
+  /**
+   * Feeds the next chunk of text.
+   *
+   * @param chunk - Next part of the streamed document
+   * @returns Array items completed by this chunk (possibly none)
+   */
+  push(chunk: string): unknown[] {
+    if (this.phase === "done") return [];
+
+    let text = chunk;
+
+    if (this.phase === "seeking") {
+      this.pending += text;
+      const match = this.arrayStartPattern.exec(this.pending);
+      if (!match) return [];
+
+      text = this.pending.slice(match.index + match[0].length);
+      this.pending = "";
+      this.phase = "array";
+    }
+
+    return this.consume(text);
+  }
+
+  private consume(text: string): unknown[] {
+    const items: unknown[] = [];
+
+    for (const char of text) {
+      // Outside of any item: skip separators, stop at the end of the array
+      if (this.depth === 0) {
+        if (char === "]") {
+          this.phase = "done";
+          break;
+        }
+        if (char !== "{") continue;
+      }
+
+      this.item += char;
+
+      if (this.inString) {
+        if (this.isEscaped) {
+          this.isEscaped = false;
+        } else if (char === "\\") {
+          this.isEscaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === "{" || char === "[") {
+        this.depth++;
+      } else if (char === "}" || char === "]") {
+        this.depth--;
+
+        if (this.depth === 0) {
+          try {
+            items.push(JSON.parse(this.item));
+          } catch {
+            // Malformed item - skip it, the rest of the stream may still be usable
+          }
+          this.item = "";
+        }
+      }
+    }
+
+    return items;
+  }
+}
@@ -1,8 +1,14 @@
 import type { SupabaseClient } from "../../db/supabase.client";
 
+/**
+ * Kind of a model call counted by the rate limits.
+ */
+export type AIRequestKind = "generation" | "refinement";
+
 /**
  * Checks if a user has exceeded the rate limit for flashcard generation.
- * Rate limit is based on the number of generation requests within the last hour.
+ * Rate limit is based on the number of generation requests within the last hour
+ * (recorded with recordAIRequest when the model call starts, see the ai_requests table).
  *
  * @param supabase - Supabase client instance
  * @param userId - UUID of the user to check
@@ -19,13 +25,44 @@ export async function checkGenerationRateLimit(
   supabase: SupabaseClient,
   userId: string,
   limitPerHour = 10
+): Promise<boolean> {
+  return isWithinHourlyLimit(supabase, userId, "generation", limitPerHour);
+}
+
+/**
+ * Checks if a user has exceeded the rate limit for AI refinements of suggestions.
+ * Works like checkGenerationRateLimit, with a separate limit: a generation yields up to
+ * 20 suggestions, each of which may be refined a few times.
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - UUID of the user to check
+ * @param limitPerHour - Maximum number of refinements allowed per hour (default: 60)
+ * @returns True if the user is within the rate limit, false if exceeded
+ */
+export async function checkRefinementRateLimit(
+  supabase: SupabaseClient,
+  userId: string,
+  limitPerHour = 60
+): Promise<boolean> {
+  return isWithinHourlyLimit(supabase, userId, "refinement", limitPerHour);
+}
+
+/**
+ * Checks whether the user made fewer than `limitPerHour` model calls of a kind within the last hour.
+ */
+async function isWithinHourlyLimit(
+  supabase: SupabaseClient,
+  userId: string,
+  kind: AIRequestKind,
+  limitPerHour: number
 ): Promise<boolean> {
   const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
 
   const { count, error } = await supabase
-    .from("generations")
+    .from("ai_requests")
     .select("*", { count: "exact", head: true })
     .eq("user_id", userId)
+    .eq("kind", kind)
     .gte("created_at", oneHourAgo);
 
   if (error) {
@@ -37,3 +74,20 @@ export async function checkGenerationRateLimit(
 
   return (count ?? 0) < limitPerHour;
 }
+
+/**
+ * Records a model call for the rate limits. Call it before the model is called, so that
+ * requests aborted by the client are counted too.
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - UUID of the user making the request
+ * @param kind - Kind of the model call
+ * @throws {Error} When the record cannot be saved
+ */
+export async function recordAIRequest(supabase: SupabaseClient, userId: string, kind: AIRequestKind): Promise<void> {
+  const { error } = await supabase.from("ai_requests").insert({ user_id: userId, kind });
+
+  if (error) {
+    throw new Error(`Failed to record AI request: ${error.message}`);
+  }
+}
@@ -0,0 +1,26 @@
+import type { HighlightSegmentDto } from "../../types";
+
+/** Marks the start of a match in snippets returned by the search_flashcards() function */
+export const HIGHLIGHT_START = "⟦";
+
+/** Marks the end of a match in snippets returned by the search_flashcards() function */
+export const HIGHLIGHT_END = "⟧";
+
+/**
+ * Splits a snippet with marked matches into plain and matched segments, so that the client
+ * can highlight matches without rendering the card text as HTML.
+ */
+export function parseHighlightedSnippet(snippet: string): HighlightSegmentDto[] {
+  const segments: HighlightSegmentDto[] = [];
+  let match = false;
+
+  for (const part of snippet.split(new RegExp(`(${HIGHLIGHT_START}|${HIGHLIGHT_END})`))) {
+    if (part === HIGHLIGHT_START || part === HIGHLIGHT_END) {
+      match = part === HIGHLIGHT_START;
+      continue;
+    }
+    if (part) segments.push({ text: part, match });
+  }
+
+  return segments;
+}
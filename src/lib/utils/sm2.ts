@@ -0,0 +1,98 @@
+/**
+ * Spaced repetition state stored on every flashcard.
+ */
+export interface Sm2State {
+  ease_factor: number;
+  interval: number;
+  repetitions: number;
+}
+
+/**
+ * Result of scheduling a review - the new SM-2 state plus the next due date.
+ */
+export interface Sm2Schedule extends Sm2State {
+  next_review_at: string;
+}
+
+/** Lowest grade on the 0-5 scale */
+export const MIN_QUALITY = 0;
+
+/** Highest grade on the 0-5 scale */
+export const MAX_QUALITY = 5;
+
+/** Grades at or above this value count as a correct response */
+export const PASSING_QUALITY = 3;
+
+/** Ease factor assigned to new cards */
+export const DEFAULT_EASE_FACTOR = 2.5;
+
+/** Ease factor never drops below this value */
+export const MIN_EASE_FACTOR = 1.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calculates the new ease factor for a review grade.
+ * EF' = EF + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)), clamped at 1.3.
+ *
+ * @param easeFactor - Current ease factor
+ * @param quality - Review grade (0-5)
+ * @returns Updated ease factor rounded to two decimals
+ */
+export function calculateEaseFactor(easeFactor: number, quality: number): number {
+  const delta = 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02);
+  const next = Math.max(MIN_EASE_FACTOR, easeFactor + delta);
+  return Math.round(next * 100) / 100;
+}
+
+/**
+ * Schedules the next review of a flashcard using the SM-2 (SuperMemo 2) algorithm.
+ *
+ * - quality >= 3: interval grows 1 → 6 → previous interval * ease factor, repetitions increment
+ * - quality < 3: repetitions and interval reset, the card is due again immediately
+ * - the ease factor is updated after every review (minimum 1.3)
+ *
+ * Pure function - the current time is passed in so results are deterministic.
+ *
+ * @param state - Current SM-2 state of the flashcard
+ * @param quality - Review grade (integer 0-5)
+ * @param now - Review time (default: current time)
+ * @returns New SM-2 state with the next review date
+ * @throws {RangeError} When quality is not an integer between 0 and 5
+ *
+ * @example
+ * const schedule = scheduleReview({ ease_factor: 2.5, interval: 0, repetitions: 0 }, 4);
+ * // { ease_factor: 2.5, interval: 1, repetitions: 1, next_review_at: <now + 1 day> }
+ */
+export function scheduleReview(state: Sm2State, quality: number, now: Date = new Date()): Sm2Schedule {
+  if (!Number.isInteger(quality) || quality < MIN_QUALITY || quality > MAX_QUALITY) {
+    throw new RangeError(`Quality must be an integer between ${MIN_QUALITY} and ${MAX_QUALITY}`);
+  }
+
+  const easeFactor = Math.max(MIN_EASE_FACTOR, state.ease_factor || DEFAULT_EASE_FACTOR);
+
+  let interval: number;
+  let repetitions: number;
+
+  if (quality >= PASSING_QUALITY) {
+    if (state.repetitions <= 0) {
+      interval = 1;
+    } else if (state.repetitions === 1) {
+      interval = 6;
+    } else {
+      // Interval grows with the ease factor from before this review
+      interval = Math.round(Math.max(state.interval, 1) * easeFactor);
+    }
+    repetitions = state.repetitions + 1;
+  } else {
+    interval = 0;
+    repetitions = 0;
+  }
+
+  return {
+    ease_factor: calculateEaseFactor(easeFactor, quality),
+    interval,
+    repetitions,
+    next_review_at: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+  };
+}
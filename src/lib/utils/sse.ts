@@ -0,0 +1,84 @@
+/**
+ * Single Server-Sent Event.
+ */
+export interface SseEvent {
+  /** Event name ("message" when the `event:` field is missing) */
+  event: string;
+  /** Event payload (multiple `data:` lines joined with a newline) */
+  data: string;
+}
+
+/**
+ * Serializes an event in the Server-Sent Events wire format.
+ *
+ * @param event - Event name
+ * @param data - Payload, serialized as JSON
+ * @returns Text block terminated with a blank line
+ *
+ * @example
+ * formatSseEvent("suggestion", { front: "Q", back: "A" });
+ * // Returns: 'event: suggestion\ndata: {"front":"Q","back":"A"}\n\n'
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parses a single event block (lines between blank lines).
+ * Returns null for blocks without data (e.g. comment-only keep-alive blocks).
+ */
+function parseEventBlock(block: string): SseEvent | null {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    // Lines starting with a colon are comments (used for keep-alive)
+    if (line === "" || line.startsWith(":")) continue;
+
+    const separatorIndex = line.indexOf(":");
+    const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+    const value = separatorIndex === -1 ? "" : line.slice(separatorIndex + 1).replace(/^ /, "");
+
+    if (field === "event") event = value;
+    if (field === "data") dataLines.push(value);
+  }
+
+  return dataLines.length > 0 ? { event, data: dataLines.join("\n") } : null;
+}
+
+/**
+ * Reads a Server-Sent Events stream and yields events as soon as they are complete.
+ * Works both with responses of our own endpoints and with upstream providers (OpenRouter).
+ *
+ * @param stream - Response body
+ */
+export async function* readSseEvents(stream: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? "";
+
+      for (const block of blocks) {
+        const event = parseEventBlock(block);
+        if (event) yield event;
+      }
+    }
+
+    // Flush the last event if the stream did not end with a blank line
+    buffer += decoder.decode();
+    const event = parseEventBlock(buffer);
+    if (event) yield event;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Splits a comma-separated list of tags, as typed by the user. Tags are normalized by the server.
+ */
+export function parseTagList(value: string): string[] {
+  return value
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
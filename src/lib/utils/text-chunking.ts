@@ -0,0 +1,193 @@
+/**
+ * Splitting long source texts into chunks for AI generation.
+ *
+ * A chunk is built from whole blocks (paragraphs separated by blank lines). Markdown headings
+ * are preferred break points, so a chunk tends to cover a single section. Blocks longer than
+ * the chunk size are split into sentences, and sentences longer than the chunk size are split
+ * on whitespace as a last resort.
+ */
+
+/** Default maximum length of a single chunk in characters */
+export const DEFAULT_CHUNK_LENGTH = 8000;
+
+const HEADING_PATTERN = /^#{1,6}\s+\S/;
+const SENTENCE_PATTERN = /[^.!?…]*[.!?…]+["'”’)\]]*\s*|[^.!?…]+$/g;
+
+/**
+ * Splits text into chunks no longer than `maxLength`, breaking on headings, paragraphs
+ * and sentences. Text that fits in a single chunk is returned unchanged as the only chunk.
+ *
+ * @param text - Source text
+ * @param maxLength - Maximum chunk length in characters
+ * @returns Non-empty list of chunks in source order
+ */
+export function splitIntoChunks(text: string, maxLength = DEFAULT_CHUNK_LENGTH): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  const blocks = text
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .flatMap((block) => (block.length > maxLength ? splitBlock(block, maxLength) : [block]));
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      chunks.push(current.join("\n\n"));
+      current = [];
+      currentLength = 0;
+    }
+  };
+
+  for (const block of blocks) {
+    const lengthWithBlock = currentLength + (current.length > 0 ? 2 : 0) + block.length;
+
+    // Start a new section at a heading once the current chunk is reasonably filled,
+    // so that sections are not cut in the middle when it can be avoided
+    const startsSection = HEADING_PATTERN.test(block) && currentLength >= maxLength / 2;
+
+    if (lengthWithBlock > maxLength || startsSection) {
+      flush();
+    }
+
+    currentLength += (current.length > 0 ? 2 : 0) + block.length;
+    current.push(block);
+  }
+
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Splits a single oversized block into pieces no longer than `maxLength`,
+ * packing whole sentences together where possible.
+ */
+function splitBlock(block: string, maxLength: number): string[] {
+  const sentences = (block.match(SENTENCE_PATTERN) ?? [block]).filter((sentence) => sentence.trim());
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const sentence of sentences) {
+    if (sentence.length > maxLength) {
+      if (current.trim()) pieces.push(current.trim());
+      current = "";
+      pieces.push(...hardSplit(sentence, maxLength));
+      continue;
+    }
+
+    if (current.length + sentence.length > maxLength) {
+      pieces.push(current.trim());
+      current = "";
+    }
+
+    current += sentence;
+  }
+
+  if (current.trim()) {
+    pieces.push(current.trim());
+  }
+
+  return pieces;
+}
+
+/**
+ * Splits text into pieces no longer than `maxLength`, on the last whitespace before
+ * the limit or exactly at the limit when there is none.
+ */
+function hardSplit(text: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let rest = text.trim();
+
+  while (rest.length > maxLength) {
+    const breakAt = rest.lastIndexOf(" ", maxLength);
+    const end = breakAt > 0 ? breakAt : maxLength;
+
+    pieces.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+
+  if (rest) {
+    pieces.push(rest);
+  }
+
+  return pieces;
+}
+
+/**
+ * Splits a flashcard count between chunks proportionally to their length
+ * (largest remainder method). When the budget allows it, every chunk gets at least one flashcard;
+ * otherwise the shortest chunks may get none and should be skipped.
+ *
+ * @param total - Total number of flashcards to generate
+ * @param lengths - Lengths of the chunks
+ * @returns Flashcard count per chunk, summing up to `total`
+ */
+export function allocateCountBudget(total: number, lengths: number[]): number[] {
+  if (lengths.length === 0) {
+    return [];
+  }
+
+  const guaranteed = total >= lengths.length ? 1 : 0;
+  const remaining = total - guaranteed * lengths.length;
+  const totalLength = lengths.reduce((sum, length) => sum + length, 0);
+
+  const shares = lengths.map((length) => (totalLength > 0 ? (remaining * length) / totalLength : 0));
+  const counts = shares.map((share) => guaranteed + Math.floor(share));
+
+  let leftover = total - counts.reduce((sum, count) => sum + count, 0);
+  const byRemainder = shares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    counts[index]++;
+    leftover--;
+  }
+
+  return counts;
+}
+
+/**
+ * Picks the chunk of a source text that is most relevant to a query (e.g. a flashcard),
+ * scored by the number of distinct query words it contains. Used to give the model
+ * the context of a single flashcard without sending the whole text.
+ *
+ * @param text - Source text
+ * @param query - Text to match against (words shorter than 4 characters are ignored)
+ * @param maxLength - Maximum length of the returned excerpt
+ * @returns The best matching chunk (the first one when nothing matches)
+ */
+export function selectRelevantChunk(text: string, query: string, maxLength = DEFAULT_CHUNK_LENGTH): string {
+  const chunks = splitIntoChunks(text, maxLength);
+  if (chunks.length === 1) {
+    return chunks[0];
+  }
+
+  const queryWords = new Set(toWords(query));
+  let best = chunks[0];
+  let bestScore = 0;
+
+  for (const chunk of chunks) {
+    const score = new Set(toWords(chunk).filter((word) => queryWords.has(word))).size;
+    if (score > bestScore) {
+      best = chunk;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Lowercased words of at least 4 letters or digits.
+ */
+function toWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]{4,}/gu) ?? [];
+}
@@ -0,0 +1,135 @@
+/**
+ * Named HTML entities decoded by htmlToText (numeric entities are always decoded).
+ */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  laquo: "«",
+  raquo: "»",
+  bdquo: "„",
+  ldquo: "“",
+  rdquo: "”",
+  lsquo: "‘",
+  rsquo: "’",
+  bull: "•",
+  middot: "·",
+  copy: "©",
+  reg: "®",
+  deg: "°",
+  times: "×",
+  shy: "",
+};
+
+/**
+ * Block-level elements that start a new line in the extracted text.
+ */
+const BLOCK_TAGS =
+  "address|article|aside|blockquote|dd|div|dl|dt|figcaption|figure|footer|h[1-6]|header|hr|li|main|nav|ol|p|pre|section|table|tbody|thead|tfoot|tr|ul";
+
+/**
+ * Decodes named and numeric HTML/XML entities.
+ *
+ * @param text - Text containing entities
+ * @returns Text with entities replaced by characters (unknown entities are left as-is)
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const codePoint = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Normalises extracted text into clean source text for generation.
+ * Unifies line endings and Unicode form, removes control characters, collapses
+ * whitespace within lines and limits blank lines between paragraphs to one.
+ *
+ * @param text - Raw extracted text
+ * @returns Normalised text
+ *
+ * @example
+ * normalizeText("Title\r\n\r\n\r\n  Some   text\t here ");
+ * // Returns: "Title\n\nSome text here"
+ */
+export function normalizeText(text: string): string {
+  return (
+    text
+      .normalize("NFC")
+      .replace(/\r\n?/g, "\n")
+      // Control characters except tab and newline
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000b-\u001f\u007f\u200b\ufeff]/g, "")
+      // Soft hyphens
+      .replace(/\u00ad/g, "")
+      .split("\n")
+      .map((line) => line.replace(/[\t \u00a0]+/g, " ").trim())
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+  );
+}
+
+/**
+ * Converts an HTML (or XHTML) document to plain text.
+ * Drops scripts, styles and markup, keeps paragraph structure and list items.
+ *
+ * @param html - HTML source
+ * @returns Normalised plain text
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(head|script|style|noscript|template|svg)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/(td|th)>/gi, "\t")
+    .replace(new RegExp(`</?(${BLOCK_TAGS})\\b[^>]*>`, "gi"), "\n\n")
+    .replace(/<[^>]+>/g, "");
+
+  return normalizeText(decodeEntities(text));
+}
+
+/**
+ * Converts Markdown to plain text by removing formatting syntax.
+ * Headings, list items and paragraphs are kept as separate lines; link and image
+ * targets are dropped in favour of their text.
+ *
+ * @param markdown - Markdown source
+ * @returns Normalised plain text
+ */
+export function markdownToText(markdown: string): string {
+  const text = markdown
+    // YAML front matter
+    .replace(/^---\n[\s\S]*?\n---\n/, "")
+    // Code fences (keep the code itself)
+    .replace(/^\s*(```|~~~).*$/gm, "")
+    // Images and links
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^\s*\[[^\]]+\]:\s*\S+.*$/gm, "")
+    // Headings, blockquotes, horizontal rules
+    .replace(/^\s{0,3}#{1,6}\s+/gm, "")
+    .replace(/^\s*>\s?/gm, "")
+    .replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, "")
+    // List markers
+    .replace(/^(\s*)[*+]\s+/gm, "$1- ")
+    // Emphasis, strikethrough and inline code
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(\*|_)(\S.*?\S|\S)\1/g, "$2")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    // Inline HTML
+    .replace(/<[^>]+>/g, "");
+
+  return normalizeText(decodeEntities(text));
+}
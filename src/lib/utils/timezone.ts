@@ -0,0 +1,50 @@
+/**
+ * Checks whether the given string is a valid IANA timezone name.
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of the timezone from UTC at the given moment, in milliseconds (positive east of UTC).
+ */
+function getTimezoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, Number(part.value)])
+  );
+
+  const wallClockAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The start of the next day in the given timezone. Daylight saving time changes are taken
+ * into account; where midnight is skipped, the first moment of the day is returned.
+ *
+ * @param now - Reference time
+ * @param timeZone - IANA timezone name, e.g. "Europe/Warsaw"
+ */
+export function getNextLocalMidnight(now: Date, timeZone: string): Date {
+  const wallClock = new Date(now.getTime() + getTimezoneOffsetMs(now, timeZone));
+  const nextMidnight = Date.UTC(wallClock.getUTCFullYear(), wallClock.getUTCMonth(), wallClock.getUTCDate() + 1);
+
+  // The offset at midnight may differ from the current one (DST change during the day)
+  const estimate = nextMidnight - getTimezoneOffsetMs(now, timeZone);
+  return new Date(nextMidnight - getTimezoneOffsetMs(new Date(estimate), timeZone));
+}
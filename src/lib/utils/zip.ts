@@ -0,0 +1,45 @@
+import { unzipSync, type Unzipped } from "fflate";
+
+interface UnzipLimitedOptions {
+  /** Whether an entry is needed - other entries are not decompressed */
+  include: (name: string) => boolean;
+  /** Maximum uncompressed size of all included entries together, in bytes */
+  maxTotalBytes: number;
+}
+
+/**
+ * Error thrown when the uncompressed contents of a ZIP archive exceed the allowed size.
+ */
+export class ZipSizeLimitError extends Error {
+  constructor(public readonly maxTotalBytes: number) {
+    super(`Uncompressed archive contents exceed ${maxTotalBytes} bytes`);
+    this.name = "ZipSizeLimitError";
+  }
+}
+
+/**
+ * Unzips only the needed entries of an archive, rejecting archives whose uncompressed size
+ * would exceed the limit (e.g. ZIP bombs) before anything is decompressed.
+ * Entries are checked against the sizes declared in the archive, which also cap the output
+ * buffers - an entry cannot decompress to more than it declares.
+ *
+ * @throws {ZipSizeLimitError} When an entry or all included entries together exceed the limit
+ * @throws {Error} When the archive is corrupt
+ */
+export function unzipLimited(data: Uint8Array, options: UnzipLimitedOptions): Unzipped {
+  const { include, maxTotalBytes } = options;
+  let totalBytes = 0;
+
+  return unzipSync(data, {
+    filter: (file) => {
+      if (!include(file.name)) return false;
+
+      totalBytes += file.originalSize;
+      if (file.originalSize > maxTotalBytes || totalBytes > maxTotalBytes) {
+        throw new ZipSizeLimitError(maxTotalBytes);
+      }
+
+      return true;
+    },
+  });
+}
@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { MAX_BACK_LENGTH, MAX_FRONT_LENGTH, MAX_TAGS_PER_FLASHCARD, tagSchema } from "./flashcard.validator";
+import { buildDeckTree, flattenDeckTree } from "../utils/deck-tree";
+import type { AccountBackupV1, AccountBackupV2, AccountBackupV3 } from "../../types";
+
+/** Value of the `format` field of account backup files */
+export const ACCOUNT_BACKUP_FORMAT = "10xcards-backup";
+
+/** Newest backup version written and restored by this app */
+export const ACCOUNT_BACKUP_VERSION = 3;
+
+/** Conflict strategies accepted by the restore endpoint */
+export const BACKUP_CONFLICT_STRATEGIES = ["rename", "skip", "merge"] as const;
+
+const id = z.string().uuid();
+const timestamp = z.string().datetime({ offset: true });
+const cardType = z.enum(["basic", "cloze"]);
+
+const backupDeckSchema = z.object({
+  id,
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).nullable(),
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+const backupFlashcardSchema = z.object({
+  id,
+  deck_id: id,
+  front: z.string().min(1).max(MAX_FRONT_LENGTH),
+  back: z.string().max(MAX_BACK_LENGTH),
+  card_type: cardType,
+  reversed: z.boolean(),
+  cloze_index: z.number().int().min(1).nullable(),
+  note_id: id.nullable(),
+  source: z.enum(["ai-full", "ai-edited", "manual"]),
+  generation_id: id.nullable(),
+  ease_factor: z.number().positive(),
+  interval: z.number().int().min(0),
+  repetitions: z.number().int().min(0),
+  next_review_at: timestamp,
+  buried_until: timestamp.nullable(),
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+const backupFlashcardV2Schema = backupFlashcardSchema.extend({
+  suspended: z.boolean(),
+  tags: z.array(tagSchema).max(MAX_TAGS_PER_FLASHCARD),
+});
+
+const backupSuggestionSchema = z.object({
+  position: z.number().int().min(0),
+  front: z.string(),
+  back: z.string(),
+  status: z.enum(["pending", "accepted", "edited", "rejected"]),
+  refinement_count: z.number().int().min(0),
+  flashcard_id: id.nullable(),
+  created_at: timestamp,
+  reviewed_at: timestamp.nullable(),
+});
+
+const backupGenerationSchema = z.object({
+  id,
+  deck_id: id.nullable(),
+  model: z.string().min(1),
+  card_type: cardType,
+  requested_count: z.number().int().positive().nullable(),
+  generated_count: z.number().int().min(0),
+  generation_duration: z.number().int().min(0),
+  source_text_hash: z.string().min(1),
+  source_text_length: z.number().int().min(0),
+  created_at: timestamp,
+  chunks: z.array(
+    z.object({
+      chunk_index: z.number().int().min(0),
+      requested_count: z.number().int().min(0),
+      generated_count: z.number().int().min(0),
+      generation_duration: z.number().int().min(0),
+      source_text_length: z.number().int().min(0),
+      error_message: z.string().nullable(),
+      created_at: timestamp,
+    })
+  ),
+  suggestions: z.array(backupSuggestionSchema),
+});
+
+const backupReviewLogSchema = z.object({
+  id,
+  flashcard_id: id,
+  deck_id: id.nullable(),
+  quality: z.number().int().min(0).max(5),
+  review_duration_ms: z.number().int().min(0).nullable(),
+  previous_interval: z.number().int(),
+  previous_ease_factor: z.number(),
+  previous_repetitions: z.number().int(),
+  new_interval: z.number().int(),
+  new_ease_factor: z.number(),
+  new_repetitions: z.number().int(),
+  next_review_at: timestamp,
+  reviewed_at: timestamp,
+});
+
+/**
+ * Validation schema for an account backup file (version 1).
+ * Checked against AccountBackupV1, so that the schema and the frozen types cannot drift apart.
+ */
+export const accountBackupV1Schema = z.object({
+  format: z.literal(ACCOUNT_BACKUP_FORMAT),
+  version: z.literal(1),
+  exported_at: timestamp,
+  decks: z.array(backupDeckSchema),
+  flashcards: z.array(backupFlashcardSchema),
+  generations: z.array(backupGenerationSchema),
+  review_logs: z.array(backupReviewLogSchema),
+}) satisfies z.ZodType<AccountBackupV1>;
+
+/**
+ * Validation schema for an account backup file (version 2).
+ */
+export const accountBackupV2Schema = accountBackupV1Schema.extend({
+  version: z.literal(2),
+  flashcards: z.array(backupFlashcardV2Schema),
+}) satisfies z.ZodType<AccountBackupV2>;
+
+/**
+ * Validation schema for an account backup file (version 3).
+ * Parents of decks must not form a cycle (a deck cannot be nested under its own sub-deck).
+ */
+export const accountBackupV3Schema = accountBackupV2Schema
+  .extend({
+    version: z.literal(3),
+    decks: z.array(backupDeckSchema.extend({ parent_id: id.nullable() })),
+    generations: z.array(
+      backupGenerationSchema.extend({
+        suggestions: z.array(backupSuggestionSchema.extend({ tags: z.array(tagSchema).max(MAX_TAGS_PER_FLASHCARD) })),
+      })
+    ),
+  })
+  .superRefine((data, ctx) => {
+    // Decks in a cycle have no top-level ancestor, so they are missing from the tree
+    if (flattenDeckTree(buildDeckTree(data.decks)).length < data.decks.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["decks"], message: "Deck parents must not form a cycle" });
+    }
+  }) satisfies z.ZodType<AccountBackupV3>;
+
+/**
+ * Validation schema for the options of a restore.
+ */
+export const restoreAccountBackupSchema = z.object({
+  conflict_strategy: z.enum(BACKUP_CONFLICT_STRATEGIES).default("rename"),
+});
+
+export type RestoreAccountBackupInput = z.infer<typeof restoreAccountBackupSchema>;
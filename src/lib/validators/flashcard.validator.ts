@@ -0,0 +1,167 @@
+import { z } from "zod";
+import { validateClozeText } from "../utils/cloze";
+
+/** Maximum length of the front of a flashcard (the note text of cloze notes) */
+export const MAX_FRONT_LENGTH = 5000;
+
+/** Maximum length of the back of a flashcard (the extra info of cloze notes) */
+export const MAX_BACK_LENGTH = 10000;
+
+/** Maximum number of cards in a single bulk import */
+export const MAX_BULK_IMPORT_CARDS = 2000;
+
+/** Maximum number of selected cards in a single bulk operation */
+export const MAX_BULK_OPERATION_IDS = 500;
+
+/** Maximum length of a tag */
+export const MAX_TAG_LENGTH = 50;
+
+/** Maximum number of tags of a flashcard (also enforced by the database) */
+export const MAX_TAGS_PER_FLASHCARD = 20;
+
+/**
+ * Validation schema for a tag. Tags are normalized to lowercase, with whitespace replaced by "-",
+ * so that "Irregular verbs" and "irregular-verbs" are the same tag.
+ */
+export const tagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .transform((tag) => tag.replace(/\s+/g, "-"))
+  .pipe(
+    z
+      .string()
+      .min(1, "Tag must not be empty")
+      .max(MAX_TAG_LENGTH, `Tag must be at most ${MAX_TAG_LENGTH} characters`)
+      .regex(/^[^,]+$/, "Tag must not contain commas")
+  );
+
+/**
+ * Validation schema for a list of tags; duplicates (after normalization) are removed.
+ */
+export const tagListSchema = z
+  .array(tagSchema)
+  .max(MAX_TAGS_PER_FLASHCARD, `A flashcard can have at most ${MAX_TAGS_PER_FLASHCARD} tags`)
+  .transform((tags) => [...new Set(tags)]);
+
+/**
+ * Validation schema for creating a flashcard manually.
+ * For cloze notes, front is the note text and back the optional extra info.
+ */
+export const createFlashcardSchema = z
+  .object({
+    front: z
+      .string()
+      .min(1, "Front is required")
+      .max(MAX_FRONT_LENGTH, `Front must be at most ${MAX_FRONT_LENGTH} characters`),
+    back: z.string().max(MAX_BACK_LENGTH, `Back must be at most ${MAX_BACK_LENGTH} characters`),
+    card_type: z.enum(["basic", "cloze"]).default("basic"),
+    direction: z.enum(["forward", "reverse", "both"]).default("forward"),
+    tags: tagListSchema.default([]),
+  })
+  .superRefine((data, ctx) => {
+    if (data.card_type === "cloze") {
+      const clozeError = validateClozeText(data.front);
+      if (clozeError) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["front"], message: clozeError });
+      }
+      if (data.direction !== "forward") {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["direction"], message: "Cloze notes cannot be reversed" });
+      }
+    } else if (!data.back) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["back"], message: "Back is required" });
+    }
+  });
+
+/**
+ * Validation schema for a single basic card of a bulk import (e.g. a row of a CSV file).
+ */
+export const bulkImportCardSchema = z.object({
+  front: z
+    .string()
+    .trim()
+    .min(1, "Front is required")
+    .max(MAX_FRONT_LENGTH, `Front must be at most ${MAX_FRONT_LENGTH} characters`),
+  back: z
+    .string()
+    .trim()
+    .min(1, "Back is required")
+    .max(MAX_BACK_LENGTH, `Back must be at most ${MAX_BACK_LENGTH} characters`),
+});
+
+/**
+ * Validation schema for a bulk import of basic cards into a deck.
+ */
+export const bulkImportFlashcardsSchema = z.object({
+  cards: z
+    .array(bulkImportCardSchema)
+    .min(1, "At least one card is required")
+    .max(MAX_BULK_IMPORT_CARDS, `At most ${MAX_BULK_IMPORT_CARDS} cards can be imported at once`),
+});
+
+const bulkIdsSchema = z
+  .array(z.string().uuid("Invalid flashcard ID"))
+  .min(1, "Select at least one flashcard")
+  .max(MAX_BULK_OPERATION_IDS, `At most ${MAX_BULK_OPERATION_IDS} flashcards can be changed at once`)
+  .transform((ids) => [...new Set(ids)]);
+
+/**
+ * Validation schema for an operation on a selection of flashcards.
+ */
+export const bulkFlashcardOperationSchema = z
+  .discriminatedUnion("action", [
+    z.object({ action: z.literal("delete"), ids: bulkIdsSchema }),
+    z.object({ action: z.literal("move"), ids: bulkIdsSchema, deck_id: z.string().uuid("Invalid deck ID") }),
+    z.object({
+      action: z.literal("copy"),
+      ids: bulkIdsSchema,
+      deck_id: z.string().uuid("Invalid deck ID"),
+      reset_scheduling: z.boolean().default(false),
+    }),
+    z.object({ action: z.literal("reset_scheduling"), ids: bulkIdsSchema }),
+    z.object({ action: z.literal("suspend"), ids: bulkIdsSchema, suspended: z.boolean().default(true) }),
+    z.object({
+      action: z.literal("tag"),
+      ids: bulkIdsSchema,
+      add: tagListSchema.default([]),
+      remove: tagListSchema.default([]),
+    }),
+  ])
+  .superRefine((data, ctx) => {
+    if (data.action === "tag" && data.add.length === 0 && data.remove.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["add"], message: "Add or remove at least one tag" });
+    }
+  });
+
+/**
+ * Validation schema for moving a flashcard to another deck.
+ */
+export const moveFlashcardSchema = z.object({
+  deck_id: z.string().uuid("Invalid deck ID"),
+});
+
+/**
+ * Validation schema for copying a flashcard to another deck.
+ */
+export const copyFlashcardSchema = moveFlashcardSchema.extend({
+  reset_scheduling: z.boolean().default(false),
+});
+
+/**
+ * Validation schema for adding and/or removing tags of a flashcard.
+ */
+export const updateFlashcardTagsSchema = z
+  .object({
+    add: tagListSchema.default([]),
+    remove: tagListSchema.default([]),
+  })
+  .refine((data) => data.add.length > 0 || data.remove.length > 0, {
+    message: "Add or remove at least one tag",
+    path: ["add"],
+  });
+
+export type CreateFlashcardInput = z.infer<typeof createFlashcardSchema>;
+export type BulkImportFlashcardsInput = z.infer<typeof bulkImportFlashcardsSchema>;
+export type BulkFlashcardOperationInput = z.infer<typeof bulkFlashcardOperationSchema>;
+export type CopyFlashcardInput = z.infer<typeof copyFlashcardSchema>;
+export type UpdateFlashcardTagsInput = z.infer<typeof updateFlashcardTagsSchema>;
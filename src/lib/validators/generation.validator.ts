@@ -1,10 +1,11 @@
 import { z } from "zod";
+import { tagListSchema } from "./flashcard.validator";
 
 /**
  * Allowed AI models for flashcard generation.
  * Add more models as needed based on OpenRouter availability and testing.
  */
-const ALLOWED_MODELS = [
+export const ALLOWED_MODELS = [
   "openai/gpt-4o-mini", // $0.15/$0.60 per million tokens - reliable JSON Schema support
   "deepseek/deepseek-chat-v3-0324", // $0.14/$0.28 per million tokens
   "openai/gpt-4o",
@@ -13,16 +14,22 @@ const ALLOWED_MODELS = [
   "meta-llama/llama-3.1-8b-instruct:free", // Free model (lower quality)
 ] as const;
 
+/**
+ * Maximum source text length. Texts longer than a single model request are split
+ * into chunks by AIGenerationService.
+ */
+export const MAX_SOURCE_TEXT_LENGTH = 100000;
+
 /**
  * Validation schema for flashcard generation request.
- * Validates source text length, model selection, and flashcard count.
+ * Validates source text length, model selection, flashcard count and card type.
  */
 export const generateFlashcardsSchema = z.object({
   source_text: z
     .string()
     .trim()
     .min(1000, "Source text must be at least 1000 characters long")
-    .max(10000, "Source text must not exceed 10000 characters"),
+    .max(MAX_SOURCE_TEXT_LENGTH, `Source text must not exceed ${MAX_SOURCE_TEXT_LENGTH} characters`),
 
   model: z.enum(ALLOWED_MODELS).optional().default("arcee-ai/trinity-large-preview:free"),
 
@@ -33,6 +40,31 @@ export const generateFlashcardsSchema = z.object({
     .max(20, "Count must not exceed 20")
     .optional()
     .default(10),
+
+  card_type: z.enum(["basic", "cloze"]).optional().default("basic"),
+
+  force_regenerate: z.boolean().optional().default(false),
 });
 
 export type GenerateFlashcardsInput = z.infer<typeof generateFlashcardsSchema>;
+
+/**
+ * AI actions available for a single suggestion in the review step.
+ */
+export const SUGGESTION_REFINE_ACTIONS = ["regenerate", "shorten", "harden", "split", "add_example"] as const;
+
+/**
+ * Validation schema for refining a single suggestion.
+ * The source text is optional - without it the card is refined without the original context.
+ */
+export const refineSuggestionSchema = z.object({
+  action: z.enum(SUGGESTION_REFINE_ACTIONS),
+  front: z.string().trim().min(1).max(5000),
+  // The back (extra info) of a cloze note may be empty
+  back: z.string().trim().max(10000),
+  // Current tags of the card (default: the stored tags of the suggestion)
+  tags: tagListSchema.optional(),
+  source_text: z.string().trim().max(MAX_SOURCE_TEXT_LENGTH).optional(),
+});
+
+export type RefineSuggestionInput = z.infer<typeof refineSuggestionSchema>;
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { MIN_QUALITY, MAX_QUALITY } from "../utils/sm2";
+import { isValidTimezone } from "../utils/timezone";
+
+/**
+ * Validation schema for a spaced repetition review submission.
+ * Quality follows the SM-2 0-5 scale.
+ */
+export const reviewFlashcardSchema = z.object({
+  quality: z
+    .number()
+    .int("Quality must be an integer")
+    .min(MIN_QUALITY, `Quality must be at least ${MIN_QUALITY}`)
+    .max(MAX_QUALITY, `Quality must not exceed ${MAX_QUALITY}`),
+
+  review_duration_ms: z
+    .number()
+    .int("Review duration must be an integer")
+    .min(0, "Review duration must not be negative")
+    .optional(),
+
+  // IANA timezone of the user - sibling cards are buried until its next midnight
+  tz: z.string().max(64).refine(isValidTimezone, "Invalid timezone").default("UTC"),
+});
+
+export type ReviewFlashcardInput = z.infer<typeof reviewFlashcardSchema>;
@@ -21,7 +21,7 @@ export const onRequest = defineMiddleware(async (context, next) => {
   context.locals.user = user;
 
   // Protected routes - require authentication
-  const protectedRoutes = ["/generate", "/dashboard", "/decks"];
+  const protectedRoutes = ["/generate", "/generations", "/dashboard", "/decks", "/review"];
   const isProtectedRoute = protectedRoutes.some((route) => context.url.pathname.startsWith(route));
 
   if (isProtectedRoute && !user) {
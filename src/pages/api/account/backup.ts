@@ -0,0 +1,68 @@
+import type { APIRoute } from "astro";
+import { getAccountBackup } from "../../../lib/services/account-backup.service";
+import { Logger } from "../../../lib/logger";
+import type { ApiError } from "../../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/account/backup");
+
+/**
+ * GET /api/account/backup
+ *
+ * Downloads a backup of the whole account as a single versioned JSON file: every deck,
+ * flashcard (with its scheduling state), generation record (with chunks and suggestions)
+ * and review log. The file can be restored with POST /api/account/restore.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * @returns 200 - The backup file (as an attachment)
+ * @returns 401 - Authentication error
+ * @returns 403 - Feature disabled
+ * @returns 500 - Internal server error
+ */
+export const GET: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const backup = await getAccountBackup(supabase, user.id);
+    const fileName = `10xcards-backup-${backup.exported_at.slice(0, 10)}.json`;
+
+    return new Response(JSON.stringify(backup), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "backup_account" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
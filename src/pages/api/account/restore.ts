@@ -0,0 +1,152 @@
+import type { APIRoute } from "astro";
+import {
+  AccountBackupError,
+  getBackupIssues,
+  parseAccountBackup,
+  restoreAccountBackup,
+} from "../../../lib/services/account-backup.service";
+import { restoreAccountBackupSchema } from "../../../lib/validators/backup.validator";
+import { Logger } from "../../../lib/logger";
+import type { ApiError, RestoreAccountBackupResponseDto } from "../../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/account/restore");
+
+/** Maximum accepted upload size (50 MB) */
+const MAX_FILE_SIZE_BYTES = 50 * 1024 * 1024;
+
+/**
+ * POST /api/account/restore
+ *
+ * Restores a backup created by GET /api/account/backup into the current account, which may be
+ * empty or already contain decks. Everything is restored with new IDs, so the same backup can be
+ * restored into another account or more than once. Generations that still exist in the account
+ * are not duplicated.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * @body multipart/form-data with a `file` field (backup JSON, max 50 MB) and an optional
+ *       `conflict_strategy` field for decks whose name is already taken:
+ *       "rename" (default) | "skip" | "merge"
+ *
+ * @returns 201 - Restore summary with the restored decks and restored/skipped counts
+ * @returns 400 - Validation error (missing file, too large, invalid conflict strategy)
+ * @returns 401 - Authentication error
+ * @returns 403 - Feature disabled
+ * @returns 422 - File is not a valid backup or was created by a newer version
+ * @returns 500 - Internal server error
+ */
+export const POST: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    // Step 1: Authenticate user via Supabase
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Step 2: Read the uploaded file and options
+    let formData: FormData;
+    try {
+      formData = await context.request.formData();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: { code: "VALIDATION_ERROR", message: "Request body must be multipart/form-data" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const file = formData.get("file");
+
+    if (!(file instanceof File) || file.size === 0) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "VALIDATION_ERROR", message: "A non-empty backup file is required" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (file.size > MAX_FILE_SIZE_BYTES) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "File must be 50 MB or smaller",
+            details: { size: file.size, max_size: MAX_FILE_SIZE_BYTES },
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const validationResult = restoreAccountBackupSchema.safeParse({
+      conflict_strategy: formData.get("conflict_strategy") ?? undefined,
+    });
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid conflict strategy",
+            details: validationResult.error.flatten(),
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Step 3: Validate the backup and restore it
+    const backup = parseAccountBackup(await file.text());
+    const response: RestoreAccountBackupResponseDto = await restoreAccountBackup(supabase, {
+      userId: user.id,
+      backup,
+      strategy: validationResult.data.conflict_strategy,
+    });
+
+    return new Response(JSON.stringify(response), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    if (error instanceof AccountBackupError) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "RESTORE_FAILED",
+            message: error.message,
+            details: { errorCode: error.errorCode, issues: getBackupIssues(error) },
+          },
+        } satisfies ApiError),
+        { status: 422, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "restore_account" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
@@ -0,0 +1,146 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { getDueFlashcards } from "../../../../lib/services/due-flashcards.service";
+import { getDeckSubtreeIds } from "../../../../lib/services/deck-tree.service";
+import { tagSchema } from "../../../../lib/validators/flashcard.validator";
+import { Logger } from "../../../../lib/logger";
+import type { DueFlashcardsResponseDto, ApiError } from "../../../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/decks/due");
+
+// Query params validation schema
+const dueQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  new_limit: z.coerce.number().int().min(0).max(100).optional(),
+  tag: tagSchema.optional(),
+});
+
+/**
+ * GET /api/decks/:deckId/due
+ *
+ * Fetches flashcards of the deck and its sub-decks due for review (next_review_at has passed),
+ * ordered by urgency: previously reviewed cards first (most overdue first), then new cards
+ * (oldest first).
+ * Suspended cards and cards buried after a review of their sibling (until the next day) are left
+ * out, and at most one card of each note (both directions, cloze numbers) is returned.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * Query params:
+ * - limit: number (1-100, default 20)
+ * - new_limit: number (0-100, optional) - maximum number of new cards included
+ * - tag: string (optional) - only cards labelled with this tag (total_due counts them only)
+ *
+ * @returns 200 - Success with due flashcards and total_due count
+ * @returns 400 - Validation error
+ * @returns 401 - Authentication error
+ * @returns 403 - Authorization error (deck belongs to another user) or Feature disabled
+ * @returns 404 - Deck not found
+ * @returns 500 - Internal server error
+ */
+export const GET: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    const deckId = context.params.deckId;
+
+    if (!deckId) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "VALIDATION_ERROR", message: "Deck ID is required" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate query params
+    const url = new URL(context.request.url);
+    const queryParams = Object.fromEntries(url.searchParams.entries());
+    const validationResult = dueQuerySchema.safeParse(queryParams);
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: validationResult.error.flatten(),
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const { limit, new_limit, tag } = validationResult.data;
+
+    // Verify deck exists and belongs to user
+    const { data: deck, error: deckError } = await supabase
+      .from("decks")
+      .select("id, user_id")
+      .eq("id", deckId)
+      .single();
+
+    if (deckError || !deck) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "DECK_NOT_FOUND", message: "Deck not found" },
+        } satisfies ApiError),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (deck.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "FORBIDDEN", message: "You do not have access to this deck" },
+        } satisfies ApiError),
+        { status: 403, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Studying a deck includes the cards of its sub-decks
+    const deckIds = await getDeckSubtreeIds(supabase, user.id, deckId);
+
+    const response: DueFlashcardsResponseDto = await getDueFlashcards(supabase, {
+      deckIds,
+      limit,
+      newLimit: new_limit,
+      tag,
+    });
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "fetch_due_flashcards" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
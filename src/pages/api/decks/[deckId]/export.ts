@@ -0,0 +1,133 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { exportDeck } from "../../../../lib/services/deck-export.service";
+import { Logger } from "../../../../lib/logger";
+import type { ApiError } from "../../../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/decks/[deckId]/export");
+
+const exportQuerySchema = z.object({
+  format: z.enum(["csv", "tsv", "json", "apkg"]).default("csv"),
+});
+
+/**
+ * GET /api/decks/:deckId/export
+ *
+ * Downloads a deck with all its flashcards, including scheduling fields (ease factor,
+ * interval, repetitions, next review) and source metadata (source, generation ID, dates).
+ * - csv / tsv: one row per card with a header row
+ * - json: deck name and description with the list of cards
+ * - apkg: Anki package; basic cards with their reversed siblings and cloze notes become Anki notes
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * @param deckId - UUID of the deck
+ * @query format - "csv" | "tsv" | "json" | "apkg" (default "csv")
+ *
+ * @returns 200 - The export file (as an attachment)
+ * @returns 400 - Validation error
+ * @returns 401 - Authentication error
+ * @returns 403 - Authorization error (deck belongs to another user) or Feature disabled
+ * @returns 404 - Deck not found
+ * @returns 500 - Internal server error
+ */
+export const GET: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    const deckId = context.params.deckId;
+
+    if (!deckId) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "VALIDATION_ERROR", message: "Deck ID is required" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate query params
+    const validationResult = exportQuerySchema.safeParse(Object.fromEntries(context.url.searchParams.entries()));
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: validationResult.error.flatten(),
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const { format } = validationResult.data;
+
+    // Verify deck exists and belongs to user
+    const { data: deck, error: deckError } = await supabase
+      .from("decks")
+      .select("id, user_id, name, description")
+      .eq("id", deckId)
+      .single();
+
+    if (deckError || !deck) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "DECK_NOT_FOUND", message: "Deck not found" },
+        } satisfies ApiError),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (deck.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "FORBIDDEN", message: "You do not have access to this deck" },
+        } satisfies ApiError),
+        { status: 403, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const file = await exportDeck(supabase, deck, format);
+
+    return new Response(file.body, {
+      status: 200,
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "export_deck" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
@@ -6,7 +6,10 @@ import type {
   CreateFlashcardCommand,
   ApiError,
   FlashcardSource,
+  FlashcardType,
 } from "../../../../types";
+import { buildFlashcardRows } from "../../../../lib/services/flashcard-notes.service";
+import { createFlashcardSchema, tagSchema } from "../../../../lib/validators/flashcard.validator";
 import { isFeatureEnabled, featureDisabledResponse } from "../../../../features";
 
 export const prerender = false;
@@ -22,12 +25,7 @@ const flashcardsQuerySchema = z.object({
     .transform((val) => (val === "true" ? true : val === "false" ? false : undefined)),
   sort: z.enum(["created_at", "next_review_at"]).default("created_at"),
   order: z.enum(["asc", "desc"]).default("desc"),
-});
-
-// Create flashcard validation schema
-const createFlashcardSchema = z.object({
-  front: z.string().min(1, "Front is required").max(5000, "Front must be at most 5000 characters"),
-  back: z.string().min(1, "Back is required").max(10000, "Back must be at most 10000 characters"),
+  tag: tagSchema.optional(),
 });
 
 /**
@@ -42,6 +40,7 @@ const createFlashcardSchema = z.object({
  * - due: "true" | "false" (optional)
  * - sort: "created_at" | "next_review_at" (default "created_at")
  * - order: "asc" | "desc" (default "desc")
+ * - tag: string (optional) - only cards labelled with this tag
  */
 export const GET: APIRoute = async (context) => {
   // Check feature flag
@@ -95,7 +94,7 @@ export const GET: APIRoute = async (context) => {
       );
     }
 
-    const { limit, offset, source, due, sort, order } = validationResult.data;
+    const { limit, offset, source, due, sort, order, tag } = validationResult.data;
 
     // Verify deck exists and belongs to user
     const { data: deck, error: deckError } = await supabase
@@ -130,10 +129,15 @@ export const GET: APIRoute = async (context) => {
       query = query.eq("source", source);
     }
 
+    if (tag) {
+      query = query.contains("tags", [tag]);
+    }
+
+    // Suspended cards are never due
     if (due === true) {
-      query = query.lte("next_review_at", new Date().toISOString());
+      query = query.lte("next_review_at", new Date().toISOString()).eq("suspended", false);
     } else if (due === false) {
-      query = query.gt("next_review_at", new Date().toISOString());
+      query = query.or(`next_review_at.gt.${new Date().toISOString()},suspended.is.true`);
     }
 
     // Apply sorting and pagination
@@ -150,6 +154,7 @@ export const GET: APIRoute = async (context) => {
       data: (flashcards ?? []).map((fc) => ({
         ...fc,
         source: fc.source as FlashcardSource,
+        card_type: fc.card_type as FlashcardType,
       })),
       pagination: {
         limit,
@@ -176,6 +181,9 @@ export const GET: APIRoute = async (context) => {
  * POST /api/decks/:deckId/flashcards
  *
  * Creates a new flashcard manually.
+ * A cloze note is expanded into one card per cloze number and a card studied in both directions
+ * into two sibling cards (front→back and back→front); the first card is returned.
+ * Tags are normalized and shared by all cards of the note.
  */
 export const POST: APIRoute = async (context) => {
   // Check feature flag
@@ -228,7 +236,7 @@ export const POST: APIRoute = async (context) => {
       );
     }
 
-    const { front, back }: CreateFlashcardCommand = validationResult.data;
+    const { front, back, card_type, direction, tags }: CreateFlashcardCommand = validationResult.data;
 
     // Verify deck exists and belongs to user
     const { data: deck, error: deckError } = await supabase
@@ -255,19 +263,18 @@ export const POST: APIRoute = async (context) => {
       );
     }
 
-    // Create flashcard
-    const { data: flashcard, error: createError } = await supabase
+    // Create flashcard (one card per cloze number for cloze notes, one per direction for bidirectional cards)
+    const { data: flashcards, error: createError } = await supabase
       .from("flashcards")
-      .insert({
-        deck_id: deckId,
-        user_id: user.id,
-        front,
-        back,
-        source: "manual",
-      })
-      .select()
-      .single();
-
+      .insert(
+        buildFlashcardRows(
+          { front, back, card_type: card_type ?? "basic", direction, tags },
+          { deck_id: deckId, user_id: user.id, source: "manual" }
+        )
+      )
+      .select();
+
+    const flashcard = flashcards?.[0];
     if (createError || !flashcard) {
       throw new Error("Failed to create flashcard");
     }
@@ -275,6 +282,7 @@ export const POST: APIRoute = async (context) => {
     const response: FlashcardDto = {
       ...flashcard,
       source: flashcard.source as FlashcardSource,
+      card_type: flashcard.card_type as FlashcardType,
     };
 
     return new Response(JSON.stringify(response), {
@@ -1,10 +1,16 @@
 import type { APIRoute } from "astro";
 import { generateFlashcardsSchema } from "../../../../lib/validators/generation.validator";
 import { AIGenerationService, AIGenerationError } from "../../../../lib/services/ai-generation.service";
+import {
+  findCachedGeneration,
+  toCachedGenerationResponse,
+  type CachedGeneration,
+} from "../../../../lib/services/generation-cache.service";
+import { saveGeneration } from "../../../../lib/services/generation-record.service";
 import { calculateSHA256 } from "../../../../lib/utils/hash";
-import { checkGenerationRateLimit } from "../../../../lib/utils/rate-limit";
+import { checkGenerationRateLimit, recordAIRequest } from "../../../../lib/utils/rate-limit";
 import { Logger } from "../../../../lib/logger";
-import type { GenerateFlashcardsResponseDto, ApiError } from "../../../../types";
+import type { ApiError } from "../../../../types";
 import { isFeatureEnabled, featureDisabledResponse } from "../../../../features";
 
 export const prerender = false;
@@ -21,9 +27,18 @@ const logger = new Logger("api/decks/generate");
  * Rate Limit: 10 requests per hour per user
  *
  * @param deckId - UUID of the deck (must belong to authenticated user)
- * @param body.source_text - Text to generate flashcards from (1000-10000 chars)
+ * @param body.source_text - Text to generate flashcards from (1000-100000 chars, long texts are generated in chunks)
  * @param body.model - AI model to use (optional, default: "openai/gpt-4o")
  * @param body.count - Number of flashcards to generate (optional, 5-20, default: 10)
+ * @param body.card_type - Type of the generated cards: "basic" or "cloze" (optional, default: "basic")
+ * @param body.force_regenerate - Skip the cache and always call the model (optional, default: false)
+ *
+ * If the same source text was generated for this deck with the same model and count within
+ * the last 7 days, the earlier suggestions not saved yet and generation_id are returned
+ * (cached_at is set) without calling the model or counting towards the rate limit.
+ *
+ * Suggestions are persisted as pending; the review is finished via the accept endpoint
+ * (or the reject endpoint) and can be resumed until then.
  *
  * @returns 200 - Success with generation_id and suggestions
  * @returns 400 - Validation error (invalid input)
@@ -92,7 +107,7 @@ export const POST: APIRoute = async (context) => {
       );
     }
 
-    const { source_text, model, count } = validationResult.data;
+    const { source_text, model, count, card_type, force_regenerate } = validationResult.data;
 
     // Step 4: Verify deck exists and belongs to authenticated user
     const { data: deck, error: deckError } = await supabase
@@ -125,7 +140,38 @@ export const POST: APIRoute = async (context) => {
       );
     }
 
-    // Step 5: Check rate limit (10 generations per hour)
+    // Step 5: Calculate source text metadata for analytics and caching
+    const sourceTextHash = calculateSHA256(source_text);
+    const sourceTextLength = source_text.length;
+
+    // Step 6: Serve identical recent requests from the cache
+    if (!force_regenerate) {
+      let cached: CachedGeneration | null = null;
+      try {
+        cached = await findCachedGeneration(supabase, {
+          userId: user.id,
+          deckId,
+          sourceTextHash,
+          model,
+          count,
+          cardType: card_type,
+        });
+      } catch (cacheError) {
+        // A failed lookup only costs a model call - don't block the generation
+        logger.error(cacheError instanceof Error ? cacheError : new Error(String(cacheError)), {
+          action: "find_cached_generation",
+        });
+      }
+
+      if (cached) {
+        return new Response(JSON.stringify(toCachedGenerationResponse(cached, model, card_type)), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    // Step 7: Check rate limit (10 generations per hour)
     const withinRateLimit = await checkGenerationRateLimit(supabase, user.id);
 
     if (!withinRateLimit) {
@@ -140,11 +186,10 @@ export const POST: APIRoute = async (context) => {
       );
     }
 
-    // Step 6: Calculate source text metadata for analytics
-    const sourceTextHash = calculateSHA256(source_text);
-    const sourceTextLength = source_text.length;
+    // Count the model call before it starts - a client that disconnects early is counted too
+    await recordAIRequest(supabase, user.id, "generation");
 
-    // Step 7: Generate flashcards using AI service (with mocks in development/testing)
+    // Step 8: Generate flashcards using AI service (with mocks in development/testing)
     // Check both import.meta.env and process.env for USE_MOCK_AI (CI may use process.env)
     const useMockAIEnv = import.meta.env.USE_MOCK_AI ?? process.env.USE_MOCK_AI;
     const useMockAI = useMockAIEnv !== "false";
@@ -152,38 +197,29 @@ export const POST: APIRoute = async (context) => {
     const apiKey = import.meta.env.OPENROUTER_API_KEY || process.env.OPENROUTER_API_KEY || "";
     const aiService = new AIGenerationService(apiKey, useMockAI);
 
-    const { suggestions, generationDuration } = await aiService.generateFlashcards({
+    const { suggestions, generationDuration, chunks } = await aiService.generateFlashcards({
       sourceText: source_text,
       model,
       count,
+      cardType: card_type,
     });
 
-    // Step 8: Log successful generation to database
-    const { data: generation, error: generationError } = await supabase
-      .from("generations")
-      .insert({
-        user_id: user.id,
-        model,
-        source_text_hash: sourceTextHash,
-        source_text_length: sourceTextLength,
-        generated_count: suggestions.length,
-        generation_duration: generationDuration,
-      })
-      .select("id")
-      .single();
-
-    if (generationError || !generation) {
-      throw new Error("Failed to create generation record");
-    }
-
-    // Step 9: Return success response with suggestions
-    const response: GenerateFlashcardsResponseDto = {
-      generation_id: generation.id,
-      suggestions,
+    // Step 9: Record the generation with its suggestions (pending until reviewed)
+    const response = await saveGeneration(supabase, {
+      userId: user.id,
+      deckId,
       model,
-      generation_duration_ms: generationDuration,
-    };
+      sourceTextHash,
+      sourceTextLength,
+      requestedCount: count,
+      cardType: card_type,
+      suggestions,
+      generationDuration,
+      chunks,
+      logger,
+    });
 
+    // Step 10: Return success response with suggestions
     return new Response(JSON.stringify(response), {
       status: 200,
       headers: { "Content-Type": "application/json" },
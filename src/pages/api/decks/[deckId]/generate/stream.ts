@@ -0,0 +1,355 @@
+import type { APIRoute } from "astro";
+import { generateFlashcardsSchema } from "../../../../../lib/validators/generation.validator";
+import {
+  AIGenerationService,
+  AIGenerationError,
+  type GenerationChunkResult,
+} from "../../../../../lib/services/ai-generation.service";
+import {
+  findCachedGeneration,
+  toCachedGenerationResponse,
+  type CachedGeneration,
+} from "../../../../../lib/services/generation-cache.service";
+import { saveGeneration } from "../../../../../lib/services/generation-record.service";
+import { calculateSHA256 } from "../../../../../lib/utils/hash";
+import { checkGenerationRateLimit, recordAIRequest } from "../../../../../lib/utils/rate-limit";
+import { formatSseEvent } from "../../../../../lib/utils/sse";
+import { Logger } from "../../../../../lib/logger";
+import type { GeneratedSuggestionDto, GenerationStreamSuggestionDto, ApiError } from "../../../../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../../../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/decks/generate/stream");
+
+/**
+ * POST /api/decks/:deckId/generate/stream
+ *
+ * Streaming variant of POST /api/decks/:deckId/generate. Request validation, authorization
+ * and rate limiting are identical and reported as regular JSON errors. Once generation starts,
+ * the response is a Server-Sent Events stream:
+ *
+ * - `suggestion` - GenerationStreamSuggestionDto, sent as soon as the model finishes a flashcard
+ * - `done` - GenerateFlashcardsResponseDto, sent after the generation record is saved
+ * - `error` - ApiError (AI_GENERATION_FAILED or INTERNAL_SERVER_ERROR), ends the stream
+ *
+ * Cached results (identical source text, see POST /api/decks/:deckId/generate) are sent
+ * as the same sequence of events at once, with `cached_at` set in the `done` event.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ * Rate Limit: 10 requests per hour per user (shared with the non-streaming endpoint)
+ *
+ * @param deckId - UUID of the deck (must belong to authenticated user)
+ * @param body.source_text - Text to generate flashcards from (1000-100000 chars, long texts are generated in chunks)
+ * @param body.model - AI model to use (optional)
+ * @param body.count - Number of flashcards to generate (optional, 5-20, default: 10)
+ * @param body.card_type - Type of the generated cards: "basic" or "cloze" (optional, default: "basic")
+ * @param body.force_regenerate - Skip the cache and always call the model (optional, default: false)
+ *
+ * @returns 200 - text/event-stream with suggestion/done/error events
+ * @returns 400 - Validation error (invalid input)
+ * @returns 401 - Authentication error (invalid/expired token)
+ * @returns 403 - Authorization error (deck belongs to another user) or Feature disabled
+ * @returns 404 - Deck not found
+ * @returns 429 - Rate limit exceeded
+ * @returns 500 - Internal server error
+ */
+export const POST: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    // Step 1: Extract and validate deck ID from URL params
+    const deckId = context.params.deckId;
+
+    if (!deckId) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Deck ID is required",
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Step 2: Authenticate user via Supabase
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "UNAUTHORIZED",
+            message: "Invalid or expired access token",
+          },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Step 3: Parse and validate request body
+    let body: unknown;
+    try {
+      body = await context.request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "INVALID_JSON",
+            message: "Request body must be valid JSON",
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const validationResult = generateFlashcardsSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid request body",
+            details: validationResult.error.flatten(),
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const { source_text, model, count, card_type, force_regenerate } = validationResult.data;
+
+    // Step 4: Verify deck exists and belongs to authenticated user
+    const { data: deck, error: deckError } = await supabase
+      .from("decks")
+      .select("id, user_id")
+      .eq("id", deckId)
+      .single();
+
+    if (deckError || !deck) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "DECK_NOT_FOUND",
+            message: "Deck not found",
+          },
+        } satisfies ApiError),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (deck.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "FORBIDDEN",
+            message: "You do not have access to this deck",
+          },
+        } satisfies ApiError),
+        { status: 403, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Step 5: Serve identical recent requests from the cache
+    const sourceTextHash = calculateSHA256(source_text);
+
+    if (!force_regenerate) {
+      let cached: CachedGeneration | null = null;
+      try {
+        cached = await findCachedGeneration(supabase, {
+          userId: user.id,
+          deckId,
+          sourceTextHash,
+          model,
+          count,
+          cardType: card_type,
+        });
+      } catch (cacheError) {
+        // A failed lookup only costs a model call - don't block the generation
+        logger.error(cacheError instanceof Error ? cacheError : new Error(String(cacheError)), {
+          action: "find_cached_generation",
+        });
+      }
+
+      if (cached) {
+        const events = cached.suggestions.map((suggestion, index) =>
+          formatSseEvent("suggestion", {
+            front: suggestion.front,
+            back: suggestion.back,
+            tags: suggestion.tags,
+            index,
+          } satisfies GenerationStreamSuggestionDto)
+        );
+        events.push(formatSseEvent("done", toCachedGenerationResponse(cached, model, card_type)));
+
+        return new Response(events.join(""), {
+          status: 200,
+          headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+          },
+        });
+      }
+    }
+
+    // Step 6: Check rate limit (10 generations per hour)
+    const withinRateLimit = await checkGenerationRateLimit(supabase, user.id);
+
+    if (!withinRateLimit) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "RATE_LIMIT_EXCEEDED",
+            message: "Generation rate limit exceeded. Please try again later.",
+          },
+        } satisfies ApiError),
+        { status: 429, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Count the model call before it starts - a client that disconnects early is counted too
+    await recordAIRequest(supabase, user.id, "generation");
+
+    // Step 7: Prepare AI service (with mocks in development/testing)
+    const useMockAIEnv = import.meta.env.USE_MOCK_AI ?? process.env.USE_MOCK_AI;
+    const useMockAI = useMockAIEnv !== "false";
+    const apiKey = import.meta.env.OPENROUTER_API_KEY || process.env.OPENROUTER_API_KEY || "";
+    const aiService = new AIGenerationService(apiKey, useMockAI);
+
+    // Step 8: Stream suggestions as Server-Sent Events
+    const encoder = new TextEncoder();
+    let isCancelled = false;
+    // Aborts the AI provider requests when the client disconnects
+    const abortController = new AbortController();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (!isCancelled) {
+            controller.enqueue(encoder.encode(formatSseEvent(event, data)));
+          }
+        };
+
+        const startTime = Date.now();
+        const suggestions: GeneratedSuggestionDto[] = [];
+        const chunks: GenerationChunkResult[] = [];
+
+        try {
+          const generated = aiService.streamFlashcards(
+            { sourceText: source_text, model, count, cardType: card_type },
+            { onChunkComplete: (chunk) => chunks.push(chunk), signal: abortController.signal }
+          );
+
+          for await (const suggestion of generated) {
+            // Client disconnected - stop consuming the model response
+            if (isCancelled) return;
+
+            send("suggestion", { ...suggestion, index: suggestions.length } satisfies GenerationStreamSuggestionDto);
+            suggestions.push(suggestion);
+          }
+
+          const generationDuration = Date.now() - startTime;
+
+          // Record the generation with its suggestions (pending until reviewed)
+          const response = await saveGeneration(supabase, {
+            userId: user.id,
+            deckId,
+            model,
+            sourceTextHash,
+            sourceTextLength: source_text.length,
+            requestedCount: count,
+            cardType: card_type,
+            suggestions,
+            generationDuration,
+            chunks,
+            logger,
+          });
+
+          send("done", response);
+        } catch (error) {
+          // Aborted because the client disconnected - nothing to report
+          if (isCancelled) return;
+
+          if (error instanceof AIGenerationError) {
+            logger.error(error, {
+              errorCode: error.errorCode,
+              cause: error.cause instanceof Error ? error.cause.message : String(error.cause),
+            });
+
+            // Log error to database - don't block the error event
+            try {
+              await supabase.from("generation_error_logs").insert({
+                user_id: user.id,
+                model,
+                error_code: error.errorCode || "UNKNOWN_ERROR",
+                error_message: error.message,
+              });
+            } catch {
+              // Silently fail
+            }
+
+            send("error", {
+              error: {
+                code: "AI_GENERATION_FAILED",
+                message: "Failed to generate flashcards from the provided text",
+                details: {
+                  error: error.message,
+                  errorCode: error.errorCode,
+                },
+              },
+            } satisfies ApiError);
+          } else {
+            logger.error(error instanceof Error ? error : new Error(String(error)), { endpoint: "generate/stream" });
+
+            send("error", {
+              error: {
+                code: "INTERNAL_SERVER_ERROR",
+                message: "An unexpected error occurred",
+              },
+            } satisfies ApiError);
+          }
+        } finally {
+          if (!isCancelled) {
+            controller.close();
+          }
+        }
+      },
+      cancel() {
+        isCancelled = true;
+        abortController.abort();
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    // Handle unexpected errors before the stream started
+    const unexpectedError = error instanceof Error ? error : new Error(String(error));
+    logger.error(unexpectedError, { endpoint: "generate/stream" });
+
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred",
+        },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
@@ -0,0 +1,156 @@
+import type { APIRoute } from "astro";
+import { bulkImportFlashcardsSchema } from "../../../../lib/validators/flashcard.validator";
+import { buildFlashcardRows } from "../../../../lib/services/flashcard-notes.service";
+import { Logger } from "../../../../lib/logger";
+import type { ApiError, BulkImportFlashcardsResponseDto } from "../../../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/decks/[deckId]/import");
+
+/**
+ * POST /api/decks/:deckId/import
+ *
+ * Imports basic cards into a deck in one batch - rows of a CSV/TSV file or terms pasted
+ * from Quizlet, parsed and previewed on the client. Every card is validated like a manually
+ * created one; when any card is invalid nothing is imported.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * @param deckId - UUID of the deck
+ * @param body.cards - Cards to import (1-2000), each with a front (max 5000) and back (max 10000)
+ *
+ * @returns 201 - Number of imported cards
+ * @returns 400 - Invalid JSON or validation error; `details.row_errors` lists the errors per card index
+ * @returns 401 - Authentication error
+ * @returns 403 - Authorization error (deck belongs to another user) or Feature disabled
+ * @returns 404 - Deck not found
+ * @returns 500 - Internal server error
+ */
+export const POST: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    const deckId = context.params.deckId;
+
+    if (!deckId) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "VALIDATION_ERROR", message: "Deck ID is required" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate body
+    let body: unknown;
+    try {
+      body = await context.request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: { code: "INVALID_JSON", message: "Request body must be valid JSON" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const validationResult = bulkImportFlashcardsSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const rowErrors = new Map<number, string[]>();
+      for (const issue of validationResult.error.issues) {
+        const [field, index] = issue.path;
+        if (field === "cards" && typeof index === "number") {
+          rowErrors.set(index, [...(rowErrors.get(index) ?? []), issue.message]);
+        }
+      }
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid request body",
+            details: {
+              ...validationResult.error.flatten(),
+              row_errors: [...rowErrors].map(([index, errors]) => ({ index, errors })),
+            },
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const { cards } = validationResult.data;
+
+    // Verify deck exists and belongs to user
+    const { data: deck, error: deckError } = await supabase
+      .from("decks")
+      .select("id, user_id")
+      .eq("id", deckId)
+      .single();
+
+    if (deckError || !deck) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "DECK_NOT_FOUND", message: "Deck not found" },
+        } satisfies ApiError),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (deck.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "FORBIDDEN", message: "You do not have access to this deck" },
+        } satisfies ApiError),
+        { status: 403, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Insert all cards in a single statement (all or nothing)
+    const ownership = { deck_id: deckId, user_id: user.id, source: "manual" as const };
+    const { error: insertError } = await supabase
+      .from("flashcards")
+      .insert(cards.flatMap((card) => buildFlashcardRows({ ...card, card_type: "basic" }, ownership)));
+
+    if (insertError) {
+      throw new Error(`Failed to import flashcards: ${insertError.message}`);
+    }
+
+    const response: BulkImportFlashcardsResponseDto = { imported_count: cards.length };
+
+    return new Response(JSON.stringify(response), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "bulk_import_flashcards" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
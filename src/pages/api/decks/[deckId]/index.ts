@@ -1,13 +1,30 @@
 import type { APIRoute } from "astro";
-import type { DeckDto, ApiError } from "../../../../types";
+import { z } from "zod";
+import type { DeckDto, UpdateDeckCommand, ApiError } from "../../../../types";
+import { Logger } from "../../../../lib/logger";
+import { getDeckHierarchy, toDeckDto } from "../../../../lib/services/deck-tree.service";
+import { canNestDeck } from "../../../../lib/utils/deck-tree";
 import { isFeatureEnabled, featureDisabledResponse } from "../../../../features";
 
 export const prerender = false;
 
+const logger = new Logger("api/decks/[deckId]");
+
+// Validation schema for updating a deck
+const updateDeckSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100, "Name must be 100 characters or less").optional(),
+    description: z.string().max(500, "Description must be 500 characters or less").nullable().optional(),
+    parent_id: z.string().uuid("Invalid parent deck ID").nullable().optional(),
+  })
+  .refine((data) => data.name !== undefined || data.description !== undefined || data.parent_id !== undefined, {
+    message: "At least one field (name, description or parent_id) must be provided",
+  });
+
 /**
  * GET /api/decks/:deckId
  *
- * Fetches a single deck by ID with flashcard counts.
+ * Fetches a single deck by ID with flashcard counts (including the cards of its sub-decks).
  *
  * Authentication: Required (JWT token via Supabase)
  *
@@ -88,39 +105,315 @@ export const GET: APIRoute = async (context) => {
       );
     }
 
-    // Step 5: Count total flashcards
-    const { count: flashcardCount, error: countError } = await supabase
-      .from("flashcards")
-      .select("*", { count: "exact", head: true })
-      .eq("deck_id", deckId);
+    // Step 5: Count flashcards and due flashcards (next_review_at <= now, not suspended),
+    // rolled up through sub-decks
+    const response: DeckDto = await toDeckDto(supabase, deck);
 
-    if (countError) {
-      throw new Error("Failed to count flashcards");
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch {
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred",
+        },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
+
+/**
+ * PATCH /api/decks/:deckId
+ *
+ * Updates the name, description and/or parent deck of a deck.
+ * A deck cannot be moved under itself or any of its sub-decks.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * @param deckId - UUID of the deck
+ * @body name - New deck name (optional)
+ * @body description - New deck description, null clears it (optional)
+ * @body parent_id - New parent deck, null makes it a top-level deck (optional)
+ *
+ * @returns 200 - Success with updated deck data
+ * @returns 400 - Validation error
+ * @returns 401 - Authentication error
+ * @returns 403 - Authorization error (deck belongs to another user) or Feature disabled
+ * @returns 404 - Deck not found
+ * @returns 500 - Internal server error
+ */
+export const PATCH: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    // Step 1: Extract and validate deck ID from URL params
+    const deckId = context.params.deckId;
+
+    if (!deckId) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Deck ID is required",
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
     }
 
-    // Step 6: Count due flashcards (next_review_at <= now)
-    const { count: dueCount, error: dueError } = await supabase
-      .from("flashcards")
-      .select("*", { count: "exact", head: true })
-      .eq("deck_id", deckId)
-      .lte("next_review_at", new Date().toISOString());
+    // Step 2: Authenticate user via Supabase
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "UNAUTHORIZED",
+            message: "Invalid or expired access token",
+          },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
 
-    if (dueError) {
-      throw new Error("Failed to count due flashcards");
+    // Step 3: Parse and validate request body
+    let body: UpdateDeckCommand;
+    try {
+      body = await context.request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "INVALID_JSON",
+            message: "Request body must be valid JSON",
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const validation = updateDeckSchema.safeParse(body);
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: validation.error.errors[0]?.message || "Invalid input",
+            details: validation.error.flatten().fieldErrors,
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
     }
 
-    // Step 7: Build and return response
-    const response: DeckDto = {
-      ...deck,
-      flashcard_count: flashcardCount ?? 0,
-      due_flashcard_count: dueCount ?? 0,
-    };
+    // Step 4: Verify deck exists and belongs to authenticated user
+    const { data: existingDeck, error: deckError } = await supabase
+      .from("decks")
+      .select("id, user_id")
+      .eq("id", deckId)
+      .single();
+
+    if (deckError || !existingDeck) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "DECK_NOT_FOUND",
+            message: "Deck not found",
+          },
+        } satisfies ApiError),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (existingDeck.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "FORBIDDEN",
+            message: "You do not have access to this deck",
+          },
+        } satisfies ApiError),
+        { status: 403, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Step 5: Verify the new parent deck belongs to the user and does not create a cycle
+    const { name, description, parent_id: parentId } = validation.data;
+
+    if (parentId) {
+      const hierarchy = await getDeckHierarchy(supabase, user.id);
+
+      if (!hierarchy.some((entry) => entry.id === parentId)) {
+        return new Response(
+          JSON.stringify({
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Parent deck not found",
+            },
+          } satisfies ApiError),
+          { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!canNestDeck(hierarchy, deckId, parentId)) {
+        return new Response(
+          JSON.stringify({
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "A deck cannot be moved into itself or one of its sub-decks",
+            },
+          } satisfies ApiError),
+          { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // Step 6: Update the deck
+    const { data: deck, error: updateError } = await supabase
+      .from("decks")
+      .update({
+        ...(name !== undefined ? { name } : {}),
+        ...(description !== undefined ? { description: description?.trim() || null } : {}),
+        ...(parentId !== undefined ? { parent_id: parentId } : {}),
+      })
+      .eq("id", deckId)
+      .select()
+      .single();
+
+    if (updateError || !deck) {
+      throw new Error(`Failed to update deck: ${updateError?.message || "No data returned"}`);
+    }
+
+    // Step 7: Count flashcards for the response
+    const response: DeckDto = await toDeckDto(supabase, deck);
 
     return new Response(JSON.stringify(response), {
       status: 200,
       headers: { "Content-Type": "application/json" },
     });
-  } catch {
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "update_deck" });
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred",
+        },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
+
+/**
+ * DELETE /api/decks/:deckId
+ *
+ * Deletes a deck. Its sub-decks and the flashcards of all of them are removed by the
+ * database cascade, generation records are kept for analytics.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * @param deckId - UUID of the deck
+ *
+ * @returns 204 - Deck deleted
+ * @returns 401 - Authentication error
+ * @returns 403 - Authorization error (deck belongs to another user) or Feature disabled
+ * @returns 404 - Deck not found
+ * @returns 500 - Internal server error
+ */
+export const DELETE: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    // Step 1: Extract and validate deck ID from URL params
+    const deckId = context.params.deckId;
+
+    if (!deckId) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Deck ID is required",
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Step 2: Authenticate user via Supabase
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "UNAUTHORIZED",
+            message: "Invalid or expired access token",
+          },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Step 3: Verify deck exists and belongs to authenticated user
+    const { data: deck, error: deckError } = await supabase
+      .from("decks")
+      .select("id, user_id")
+      .eq("id", deckId)
+      .single();
+
+    if (deckError || !deck) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "DECK_NOT_FOUND",
+            message: "Deck not found",
+          },
+        } satisfies ApiError),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (deck.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "FORBIDDEN",
+            message: "You do not have access to this deck",
+          },
+        } satisfies ApiError),
+        { status: 403, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Step 4: Delete the deck (sub-decks and flashcards cascade via FK)
+    const { error: deleteError } = await supabase.from("decks").delete().eq("id", deckId);
+
+    if (deleteError) {
+      throw new Error(`Failed to delete deck: ${deleteError.message}`);
+    }
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "delete_deck" });
     return new Response(
       JSON.stringify({
         error: {
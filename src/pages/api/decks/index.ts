@@ -2,6 +2,7 @@ import type { APIRoute } from "astro";
 import type { DeckDto, CreateDeckCommand, PaginatedResponse, ApiError } from "../../../types";
 import { z } from "zod";
 import { Logger } from "../../../lib/logger";
+import { getDeckCounts } from "../../../lib/services/deck-tree.service";
 import { isFeatureEnabled, featureDisabledResponse } from "../../../features";
 
 export const prerender = false;
@@ -12,12 +13,14 @@ const logger = new Logger("api/decks");
 const createDeckSchema = z.object({
   name: z.string().min(1, "Name is required").max(100, "Name must be 100 characters or less"),
   description: z.string().max(500, "Description must be 500 characters or less").nullable().optional(),
+  parent_id: z.string().uuid("Invalid parent deck ID").nullable().optional(),
 });
 
 /**
  * GET /api/decks
  *
  * Fetches all decks for the authenticated user with flashcard counts.
+ * Counts include the cards of sub-decks (decks nested under the deck via parent_id).
  *
  * Authentication: Required
  *
@@ -73,29 +76,14 @@ export const GET: APIRoute = async (context) => {
       throw new Error("Failed to fetch decks");
     }
 
-    // For each deck, get flashcard counts
-    const decksWithCounts: DeckDto[] = await Promise.all(
-      (decks || []).map(async (deck) => {
-        // Count total flashcards
-        const { count: flashcardCount } = await supabase
-          .from("flashcards")
-          .select("*", { count: "exact", head: true })
-          .eq("deck_id", deck.id);
-
-        // Count due flashcards
-        const { count: dueCount } = await supabase
-          .from("flashcards")
-          .select("*", { count: "exact", head: true })
-          .eq("deck_id", deck.id)
-          .lte("next_review_at", new Date().toISOString());
-
-        return {
-          ...deck,
-          flashcard_count: flashcardCount || 0,
-          due_flashcard_count: dueCount || 0,
-        };
-      })
-    );
+    // Flashcard counts of all decks, rolled up through sub-decks
+    const counts = await getDeckCounts(supabase);
+
+    const decksWithCounts: DeckDto[] = (decks || []).map((deck) => ({
+      ...deck,
+      flashcard_count: counts.get(deck.id)?.flashcard_count ?? 0,
+      due_flashcard_count: counts.get(deck.id)?.due_flashcard_count ?? 0,
+    }));
 
     const response: PaginatedResponse<DeckDto> = {
       data: decksWithCounts,
@@ -133,6 +121,7 @@ export const GET: APIRoute = async (context) => {
  *
  * @body name - Required deck name
  * @body description - Optional deck description
+ * @body parent_id - Optional parent deck, makes the new deck its sub-deck
  *
  * @returns 201 - Success with created deck data
  * @returns 400 - Validation error
@@ -196,12 +185,32 @@ export const POST: APIRoute = async (context) => {
       );
     }
 
+    // Verify the parent deck belongs to the user
+    const parentId = validation.data.parent_id ?? null;
+
+    if (parentId) {
+      const { data: parent } = await supabase.from("decks").select("id, user_id").eq("id", parentId).single();
+
+      if (!parent || parent.user_id !== user.id) {
+        return new Response(
+          JSON.stringify({
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Parent deck not found",
+            },
+          } satisfies ApiError),
+          { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+      }
+    }
+
     // Create the deck
     const { data: deck, error: createError } = await supabase
       .from("decks")
       .insert({
         name: validation.data.name,
         description: validation.data.description || null,
+        parent_id: parentId,
         user_id: user.id,
       })
       .select()
@@ -1,23 +1,30 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
-import type { FlashcardDto, ApiError, FlashcardSource } from "../../../types";
+import type { FlashcardDto, ApiError, FlashcardSource, FlashcardType } from "../../../types";
+import { updateNote } from "../../../lib/services/flashcard-notes.service";
+import { validateClozeText } from "../../../lib/utils/cloze";
+import { tagListSchema } from "../../../lib/validators/flashcard.validator";
 
 export const prerender = false;
 
-// Update flashcard validation schema
+// Update flashcard validation schema (the back may only be empty for cloze notes, checked after fetching the card)
 const updateFlashcardSchema = z
   .object({
     front: z.string().min(1).max(5000).optional(),
-    back: z.string().min(1).max(10000).optional(),
+    back: z.string().max(10000).optional(),
+    tags: tagListSchema.optional(),
   })
-  .refine((data) => data.front !== undefined || data.back !== undefined, {
-    message: "At least one field (front or back) must be provided",
+  .refine((data) => data.front !== undefined || data.back !== undefined || data.tags !== undefined, {
+    message: "At least one field (front, back or tags) must be provided",
   });
 
 /**
  * PATCH /api/flashcards/:flashcardId
  *
- * Updates an existing flashcard's content.
+ * Updates an existing flashcard's content and/or replaces its tags.
+ * The content and tags of a note are shared by all of its cards (cloze numbers or both directions);
+ * for a cloze note, cards are added or removed when cloze numbers change.
+ * The card type and direction cannot be changed.
  */
 export const PATCH: APIRoute = async (context) => {
   try {
@@ -70,7 +77,7 @@ export const PATCH: APIRoute = async (context) => {
     // Verify flashcard exists and belongs to user
     const { data: existingFlashcard, error: fetchError } = await supabase
       .from("flashcards")
-      .select("id, user_id")
+      .select("*")
       .eq("id", flashcardId)
       .single();
 
@@ -92,6 +99,42 @@ export const PATCH: APIRoute = async (context) => {
       );
     }
 
+    // Validate content against the card type
+    const contentError =
+      existingFlashcard.card_type === "cloze"
+        ? updateData.front !== undefined && validateClozeText(updateData.front)
+        : updateData.back === "" && "Back is required";
+
+    if (contentError) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid request body",
+            details: { fieldErrors: { [existingFlashcard.card_type === "cloze" ? "front" : "back"]: [contentError] } },
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (existingFlashcard.note_id) {
+      const response = await updateNote(
+        supabase,
+        {
+          ...existingFlashcard,
+          source: existingFlashcard.source as FlashcardSource,
+          card_type: existingFlashcard.card_type as FlashcardType,
+        },
+        updateData
+      );
+
+      return new Response(JSON.stringify(response), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     // Update flashcard
     const { data: flashcard, error: updateError } = await supabase
       .from("flashcards")
@@ -107,6 +150,7 @@ export const PATCH: APIRoute = async (context) => {
     const response: FlashcardDto = {
       ...flashcard,
       source: flashcard.source as FlashcardSource,
+      card_type: flashcard.card_type as FlashcardType,
     };
 
     return new Response(JSON.stringify(response), {
@@ -126,7 +170,7 @@ export const PATCH: APIRoute = async (context) => {
 /**
  * DELETE /api/flashcards/:flashcardId
  *
- * Deletes a flashcard.
+ * Deletes a flashcard. Deleting a card of a note (cloze or bidirectional) deletes all of its cards.
  */
 export const DELETE: APIRoute = async (context) => {
   try {
@@ -160,7 +204,7 @@ export const DELETE: APIRoute = async (context) => {
     // Verify flashcard exists and belongs to user
     const { data: existingFlashcard, error: fetchError } = await supabase
       .from("flashcards")
-      .select("id, user_id")
+      .select("id, user_id, note_id")
       .eq("id", flashcardId)
       .single();
 
@@ -182,8 +226,10 @@ export const DELETE: APIRoute = async (context) => {
       );
     }
 
-    // Delete flashcard
-    const { error: deleteError } = await supabase.from("flashcards").delete().eq("id", flashcardId);
+    // Delete flashcard (with the other cards of its note)
+    const { error: deleteError } = existingFlashcard.note_id
+      ? await supabase.from("flashcards").delete().eq("note_id", existingFlashcard.note_id)
+      : await supabase.from("flashcards").delete().eq("id", flashcardId);
 
     if (deleteError) {
       throw new Error("Failed to delete flashcard");
@@ -0,0 +1,173 @@
+import type { APIRoute } from "astro";
+import { copyFlashcardSchema } from "../../../../lib/validators/flashcard.validator";
+import { copyNote } from "../../../../lib/services/flashcard-notes.service";
+import { Logger } from "../../../../lib/logger";
+import type { ApiError, FlashcardDto, TransferFlashcardResponseDto } from "../../../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/flashcards/copy");
+
+/**
+ * POST /api/flashcards/:flashcardId/copy
+ *
+ * Copies a flashcard to a deck of the user. The other cards of its note (cloze numbers,
+ * the reverse direction) are copied with it as a new note. The copies keep the review
+ * progress of the originals unless `reset_scheduling` is true.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * @param flashcardId - UUID of the flashcard
+ * @param body.deck_id - UUID of the target deck
+ * @param body.reset_scheduling - Start the copies as new cards (optional, default: false)
+ *
+ * @returns 201 - Success with the created copies
+ * @returns 400 - Validation error or invalid JSON
+ * @returns 401 - Authentication error
+ * @returns 403 - Authorization error (flashcard or a deck belongs to another user) or Feature disabled
+ * @returns 404 - Flashcard or target deck not found
+ * @returns 500 - Internal server error
+ */
+export const POST: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    const flashcardId = context.params.flashcardId;
+
+    if (!flashcardId) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "VALIDATION_ERROR", message: "Flashcard ID is required" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate body
+    let body: unknown;
+    try {
+      body = await context.request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: { code: "INVALID_JSON", message: "Request body must be valid JSON" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const validationResult = copyFlashcardSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid request body",
+            details: validationResult.error.flatten(),
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const { deck_id: targetDeckId, reset_scheduling: resetScheduling } = validationResult.data;
+
+    // Verify flashcard exists and belongs to user
+    const { data: flashcard, error: fetchError } = await supabase
+      .from("flashcards")
+      .select("*")
+      .eq("id", flashcardId)
+      .single();
+
+    if (fetchError || !flashcard) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "FLASHCARD_NOT_FOUND", message: "Flashcard not found" },
+        } satisfies ApiError),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (flashcard.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "FORBIDDEN", message: "You do not have access to this flashcard" },
+        } satisfies ApiError),
+        { status: 403, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Verify both decks exist and belong to user
+    const { data: decks, error: decksError } = await supabase
+      .from("decks")
+      .select("id, user_id")
+      .in("id", [flashcard.deck_id, targetDeckId]);
+
+    if (decksError) {
+      throw new Error("Failed to fetch decks");
+    }
+
+    const sourceDeck = decks.find((deck) => deck.id === flashcard.deck_id);
+    const targetDeck = decks.find((deck) => deck.id === targetDeckId);
+
+    if (!targetDeck) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "DECK_NOT_FOUND", message: "Target deck not found" },
+        } satisfies ApiError),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (sourceDeck?.user_id !== user.id || targetDeck.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "FORBIDDEN", message: "You do not have access to this deck" },
+        } satisfies ApiError),
+        { status: 403, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const flashcards = await copyNote(supabase, flashcard as FlashcardDto, { deckId: targetDeckId, resetScheduling });
+
+    const response: TransferFlashcardResponseDto = {
+      source_deck_id: flashcard.deck_id,
+      deck_id: targetDeckId,
+      flashcards,
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "copy_flashcard" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
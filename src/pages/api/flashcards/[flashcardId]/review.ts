@@ -0,0 +1,189 @@
+import type { APIRoute } from "astro";
+import { reviewFlashcardSchema } from "../../../../lib/validators/review.validator";
+import { scheduleReview } from "../../../../lib/utils/sm2";
+import { burySiblings } from "../../../../lib/services/flashcard-notes.service";
+import { Logger } from "../../../../lib/logger";
+import type { FlashcardDto, ApiError, FlashcardSource, FlashcardType } from "../../../../types";
+
+export const prerender = false;
+
+const logger = new Logger("api/flashcards/review");
+
+/** SQLSTATE raised by record_flashcard_review when the card changed since it was read */
+const SERIALIZATION_FAILURE = "40001";
+
+/**
+ * POST /api/flashcards/:flashcardId/review
+ *
+ * Submits a spaced repetition review and reschedules the flashcard using SM-2.
+ * Every review is recorded in review_logs together with the SM-2 state before and after it,
+ * in the same transaction as the new schedule (record_flashcard_review() database function).
+ * A review is rejected when the card was rescheduled after its state was read (concurrent review).
+ * Sibling cards of the same note are buried until the end of the day in the user's timezone.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * @param flashcardId - UUID of the flashcard
+ * @param body.quality - Recall grade (integer 0-5)
+ * @param body.review_duration_ms - Time spent on the card in milliseconds (optional)
+ * @param body.tz - IANA timezone of the user (optional, default "UTC")
+ *
+ * @returns 200 - Success with the updated flashcard
+ * @returns 400 - Validation error (invalid quality value or timezone)
+ * @returns 401 - Authentication error
+ * @returns 403 - Authorization error (flashcard belongs to another user)
+ * @returns 404 - Flashcard not found
+ * @returns 409 - Flashcard was reviewed concurrently
+ * @returns 500 - Internal server error
+ */
+export const POST: APIRoute = async (context) => {
+  try {
+    const flashcardId = context.params.flashcardId;
+
+    if (!flashcardId) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "VALIDATION_ERROR", message: "Flashcard ID is required" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate body
+    let body: unknown;
+    try {
+      body = await context.request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: { code: "INVALID_JSON", message: "Request body must be valid JSON" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const validationResult = reviewFlashcardSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid request body",
+            details: validationResult.error.flatten(),
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const { quality, review_duration_ms, tz } = validationResult.data;
+
+    // Verify flashcard exists and belongs to user
+    const { data: existingFlashcard, error: fetchError } = await supabase
+      .from("flashcards")
+      .select("id, user_id, ease_factor, interval, repetitions")
+      .eq("id", flashcardId)
+      .single();
+
+    if (fetchError || !existingFlashcard) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "FLASHCARD_NOT_FOUND", message: "Flashcard not found" },
+        } satisfies ApiError),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (existingFlashcard.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "FORBIDDEN", message: "You do not have access to this flashcard" },
+        } satisfies ApiError),
+        { status: 403, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Calculate the new schedule, then persist it together with the review log entry
+    // (one transaction - a review is either fully recorded or not at all). The state the schedule
+    // is calculated from is checked against the locked card, so concurrent reviews can't overwrite it.
+    const schedule = scheduleReview(existingFlashcard, quality);
+
+    const { data: flashcard, error: reviewError } = await supabase
+      .rpc("record_flashcard_review", {
+        p_flashcard_id: flashcardId,
+        p_quality: quality,
+        p_review_duration_ms: review_duration_ms ?? null,
+        p_previous_interval: existingFlashcard.interval,
+        p_previous_ease_factor: existingFlashcard.ease_factor,
+        p_previous_repetitions: existingFlashcard.repetitions,
+        p_interval: schedule.interval,
+        p_ease_factor: schedule.ease_factor,
+        p_repetitions: schedule.repetitions,
+        p_next_review_at: schedule.next_review_at,
+      })
+      .single();
+
+    if (reviewError?.code === SERIALIZATION_FAILURE) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "REVIEW_CONFLICT",
+            message: "The flashcard was reviewed concurrently, reload it and try again",
+          },
+        } satisfies ApiError),
+        { status: 409, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (reviewError || !flashcard) {
+      throw new Error(`Failed to record review: ${reviewError?.message || "No data returned"}`);
+    }
+
+    // Keep the siblings (other direction, other cloze numbers) out of today's queue
+    try {
+      await burySiblings(supabase, flashcard, tz);
+    } catch (buryError) {
+      // Burying only spreads siblings apart - don't fail the review
+      logger.error(buryError instanceof Error ? buryError : new Error(String(buryError)), {
+        action: "bury_siblings",
+        flashcardId: flashcard.id,
+      });
+    }
+
+    const response: FlashcardDto = {
+      ...flashcard,
+      source: flashcard.source as FlashcardSource,
+      card_type: flashcard.card_type as FlashcardType,
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "review_flashcard" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
@@ -0,0 +1,146 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { Logger } from "../../../../lib/logger";
+import type { PaginatedResponse, ReviewLogDto, ApiError } from "../../../../types";
+
+export const prerender = false;
+
+const logger = new Logger("api/flashcards/reviews");
+
+// Query params validation schema
+const reviewsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * GET /api/flashcards/:flashcardId/reviews
+ *
+ * Fetches the review history of a flashcard, newest first.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * Query params:
+ * - limit: number (1-100, default 50)
+ * - offset: number (min 0, default 0)
+ *
+ * @returns 200 - Success with paginated review logs
+ * @returns 400 - Validation error
+ * @returns 401 - Authentication error
+ * @returns 403 - Authorization error (flashcard belongs to another user)
+ * @returns 404 - Flashcard not found
+ * @returns 500 - Internal server error
+ */
+export const GET: APIRoute = async (context) => {
+  try {
+    const flashcardId = context.params.flashcardId;
+
+    if (!flashcardId) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "VALIDATION_ERROR", message: "Flashcard ID is required" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate query params
+    const url = new URL(context.request.url);
+    const queryParams = Object.fromEntries(url.searchParams.entries());
+    const validationResult = reviewsQuerySchema.safeParse(queryParams);
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: validationResult.error.flatten(),
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const { limit, offset } = validationResult.data;
+
+    // Verify flashcard exists and belongs to user
+    const { data: flashcard, error: fetchError } = await supabase
+      .from("flashcards")
+      .select("id, user_id")
+      .eq("id", flashcardId)
+      .single();
+
+    if (fetchError || !flashcard) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "FLASHCARD_NOT_FOUND", message: "Flashcard not found" },
+        } satisfies ApiError),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (flashcard.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "FORBIDDEN", message: "You do not have access to this flashcard" },
+        } satisfies ApiError),
+        { status: 403, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Fetch review history
+    const {
+      data: reviews,
+      error: reviewsError,
+      count,
+    } = await supabase
+      .from("review_logs")
+      .select("*", { count: "exact" })
+      .eq("flashcard_id", flashcardId)
+      .order("reviewed_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (reviewsError) {
+      throw new Error("Failed to fetch review history");
+    }
+
+    const response: PaginatedResponse<ReviewLogDto> = {
+      data: reviews ?? [],
+      pagination: {
+        limit,
+        offset,
+        total: count ?? 0,
+      },
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "fetch_review_history" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
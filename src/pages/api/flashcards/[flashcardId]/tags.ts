@@ -0,0 +1,149 @@
+import type { APIRoute } from "astro";
+import { MAX_TAGS_PER_FLASHCARD, updateFlashcardTagsSchema } from "../../../../lib/validators/flashcard.validator";
+import { applyTagChanges } from "../../../../lib/services/flashcard-bulk.service";
+import { setNoteTags } from "../../../../lib/services/flashcard-notes.service";
+import { Logger } from "../../../../lib/logger";
+import type { ApiError, FlashcardDto } from "../../../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/flashcards/tags");
+
+/**
+ * POST /api/flashcards/:flashcardId/tags
+ *
+ * Adds and/or removes tags of a flashcard. Tags are normalized (lowercase, whitespace
+ * replaced by "-"); the other cards of its note (cloze numbers, the reverse direction)
+ * get the same tags.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * @param flashcardId - UUID of the flashcard
+ * @param body.add - Tags to add (optional)
+ * @param body.remove - Tags to remove (optional)
+ *
+ * @returns 200 - Success with the updated flashcard
+ * @returns 400 - Validation error or invalid JSON (or the flashcard would have too many tags)
+ * @returns 401 - Authentication error
+ * @returns 403 - Authorization error (flashcard belongs to another user) or Feature disabled
+ * @returns 404 - Flashcard not found
+ * @returns 500 - Internal server error
+ */
+export const POST: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    const flashcardId = context.params.flashcardId;
+
+    if (!flashcardId) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "VALIDATION_ERROR", message: "Flashcard ID is required" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate body
+    let body: unknown;
+    try {
+      body = await context.request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: { code: "INVALID_JSON", message: "Request body must be valid JSON" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const validationResult = updateFlashcardTagsSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid request body",
+            details: validationResult.error.flatten(),
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Verify flashcard exists and belongs to user
+    const { data: flashcard, error: fetchError } = await supabase
+      .from("flashcards")
+      .select("*")
+      .eq("id", flashcardId)
+      .single();
+
+    if (fetchError || !flashcard) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "FLASHCARD_NOT_FOUND", message: "Flashcard not found" },
+        } satisfies ApiError),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (flashcard.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "FORBIDDEN", message: "You do not have access to this flashcard" },
+        } satisfies ApiError),
+        { status: 403, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const tags = applyTagChanges(flashcard.tags, validationResult.data);
+
+    if (tags.length > MAX_TAGS_PER_FLASHCARD) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: `A flashcard can have at most ${MAX_TAGS_PER_FLASHCARD} tags`,
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const response = await setNoteTags(supabase, flashcard as FlashcardDto, tags);
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "update_flashcard_tags" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
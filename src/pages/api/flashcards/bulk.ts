@@ -0,0 +1,145 @@
+import type { APIRoute } from "astro";
+import { bulkFlashcardOperationSchema } from "../../../lib/validators/flashcard.validator";
+import { runBulkFlashcardOperation } from "../../../lib/services/flashcard-bulk.service";
+import { Logger } from "../../../lib/logger";
+import type { ApiError, BulkFlashcardOperationResponseDto } from "../../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/flashcards/bulk");
+
+/**
+ * POST /api/flashcards/bulk
+ *
+ * Runs an operation on a selection of flashcards (up to 500 IDs, possibly from different decks):
+ * - delete: deletes the cards
+ * - move: moves the cards to `deck_id`
+ * - copy: copies the cards to `deck_id`, keeping their schedule unless `reset_scheduling` is true
+ * - reset_scheduling: starts the cards over as new cards
+ * - suspend: suspends the cards (or unsuspends them with `suspended: false`)
+ * - tag: adds the `add` tags and removes the `remove` tags
+ *
+ * Delete, move, copy and tag include the sibling cards of a selected card (other cloze numbers,
+ * the reverse direction), so that a note is never split up.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * @param body.action - Operation to run
+ * @param body.ids - IDs of the selected flashcards
+ *
+ * @returns 200 - A result per requested ID ("ok", "not_found" or "failed") with totals
+ * @returns 400 - Validation error or invalid JSON
+ * @returns 401 - Authentication error
+ * @returns 403 - Authorization error (target deck belongs to another user) or Feature disabled
+ * @returns 404 - Target deck not found
+ * @returns 500 - Internal server error
+ */
+export const POST: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate body
+    let body: unknown;
+    try {
+      body = await context.request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: { code: "INVALID_JSON", message: "Request body must be valid JSON" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const validationResult = bulkFlashcardOperationSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid request body",
+            details: validationResult.error.flatten(),
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const operation = validationResult.data;
+
+    // Verify the target deck exists and belongs to user
+    if (operation.action === "move" || operation.action === "copy") {
+      const { data: deck, error: deckError } = await supabase
+        .from("decks")
+        .select("id, user_id")
+        .eq("id", operation.deck_id)
+        .single();
+
+      if (deckError || !deck) {
+        return new Response(
+          JSON.stringify({
+            error: { code: "DECK_NOT_FOUND", message: "Target deck not found" },
+          } satisfies ApiError),
+          { status: 404, headers: { "Content-Type": "application/json" } }
+        );
+      }
+
+      if (deck.user_id !== user.id) {
+        return new Response(
+          JSON.stringify({
+            error: { code: "FORBIDDEN", message: "You do not have access to the target deck" },
+          } satisfies ApiError),
+          { status: 403, headers: { "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    const response: BulkFlashcardOperationResponseDto = await runBulkFlashcardOperation(supabase, {
+      userId: user.id,
+      operation,
+    });
+
+    const failedResult = response.results.find((result) => result.status === "failed");
+    if (failedResult) {
+      logger.warn(failedResult.error ?? "Bulk operation failed for some flashcards", {
+        action: "bulk_flashcard_operation",
+        operation: operation.action,
+        failed: response.failed,
+      });
+    }
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "bulk_flashcard_operation" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
@@ -1,17 +1,41 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
-import type { AcceptFlashcardsResponseDto, FlashcardDto, ApiError, FlashcardSource } from "../../../../types";
+import {
+  claimSuggestions,
+  getGenerationSuggestions,
+  markSuggestionsReviewed,
+  rejectPendingSuggestions,
+  releaseSuggestions,
+} from "../../../../lib/services/generation-suggestions.service";
+import { buildFlashcardRows } from "../../../../lib/services/flashcard-notes.service";
+import { validateClozeText } from "../../../../lib/utils/cloze";
+import { tagListSchema } from "../../../../lib/validators/flashcard.validator";
+import { Logger } from "../../../../lib/logger";
+import type {
+  AcceptFlashcardsResponseDto,
+  FlashcardDto,
+  ApiError,
+  FlashcardSource,
+  FlashcardType,
+} from "../../../../types";
 
 export const prerender = false;
 
+const logger = new Logger("api/generations/[generationId]/accept");
+
 // Accept flashcards validation schema
 const acceptFlashcardsSchema = z.object({
   flashcards: z
     .array(
       z.object({
+        suggestion_id: z.string().uuid("Invalid suggestion ID format"),
         front: z.string().min(1).max(5000),
-        back: z.string().min(1).max(10000),
-        was_edited: z.boolean(),
+        // May be empty for cloze generations (extra info), checked against the generation's card type
+        back: z.string().max(10000),
+        // Tags proposed by the model, possibly changed by the user; not compared with the suggestion
+        tags: tagListSchema.default([]),
+        // Ignored: whether a suggestion was edited is determined by comparing it with the stored one
+        was_edited: z.boolean().optional(),
       })
     )
     .min(1, "At least one flashcard must be provided")
@@ -23,9 +47,17 @@ const acceptFlashcardsSchema = z.object({
  *
  * Accepts and saves selected AI-generated flashcards.
  * This endpoint creates actual flashcard records from generation suggestions.
+ * Every flashcard must reference a stored suggestion of the generation that has not been
+ * accepted yet; it is saved as 'edited' when its content differs from the suggestion.
+ * Pending suggestions that were not accepted are marked as rejected.
+ * Suggestions of a cloze generation are saved as cloze notes (one card per cloze number).
+ * The cards get the tags sent with each flashcard (normally the ones proposed by the model).
  *
  * @param generationId - UUID of the generation record
  * @param body.flashcards - Array of flashcards to accept
+ * @returns 201 - Flashcards created
+ * @returns 400 - Invalid body, content not matching the card type or unknown suggestion
+ * @returns 409 - Suggestion already accepted
  */
 export const POST: APIRoute = async (context) => {
   try {
@@ -78,7 +110,7 @@ export const POST: APIRoute = async (context) => {
     // Verify generation exists and belongs to user
     const { data: generation, error: generationError } = await supabase
       .from("generations")
-      .select("id, user_id")
+      .select("id, user_id, deck_id, card_type")
       .eq("id", generationId)
       .single();
 
@@ -100,9 +132,81 @@ export const POST: APIRoute = async (context) => {
       );
     }
 
-    // Get the deck_id from URL query param or find from existing flashcards with this generation
+    const cardType = generation.card_type as FlashcardType;
+
+    // Validate the content against the card type of the generation
+    const invalidIds = flashcardsToAccept
+      .filter((fc) => (cardType === "cloze" ? validateClozeText(fc.front) !== null : !fc.back))
+      .map((fc) => fc.suggestion_id);
+    if (invalidIds.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message:
+              cardType === "cloze"
+                ? "Cloze flashcards need at least one valid cloze deletion"
+                : "Flashcards need a non-empty back",
+            details: { suggestion_ids: invalidIds },
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Validate the flashcards against the stored suggestions
+    const suggestions = await getGenerationSuggestions(supabase, generationId, [
+      "pending",
+      "accepted",
+      "edited",
+      "rejected",
+    ]);
+    const suggestionsById = new Map(suggestions.map((suggestion) => [suggestion.id, suggestion]));
+    const suggestionIds = flashcardsToAccept.map((fc) => fc.suggestion_id);
+
+    if (new Set(suggestionIds).size !== suggestionIds.length) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "VALIDATION_ERROR", message: "Each suggestion can only be accepted once" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const unknownIds = suggestionIds.filter((id) => !suggestionsById.has(id));
+    if (unknownIds.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "SUGGESTION_NOT_FOUND",
+            message: "Some flashcards do not match a suggestion of this generation",
+            details: { suggestion_ids: unknownIds },
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const reviewedIds = suggestionIds.filter((id) => {
+      const status = suggestionsById.get(id)?.status;
+      return status === "accepted" || status === "edited";
+    });
+    if (reviewedIds.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "SUGGESTION_ALREADY_REVIEWED",
+            message: "Some suggestions have already been accepted",
+            details: { suggestion_ids: reviewedIds },
+          },
+        } satisfies ApiError),
+        { status: 409, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Get the deck_id from URL query param, the generation record, or existing flashcards with this generation
     const url = new URL(context.request.url);
-    let deckId = url.searchParams.get("deck_id");
+    let deckId = url.searchParams.get("deck_id") ?? generation.deck_id;
 
     if (!deckId) {
       // Try to find deck_id from existing flashcards with this generation_id
@@ -171,14 +275,48 @@ export const POST: APIRoute = async (context) => {
     const finalDeckId = deckId;
 
     // Prepare flashcards for insertion
-    const flashcardsToInsert = flashcardsToAccept.map((fc) => ({
-      deck_id: finalDeckId,
-      user_id: user.id,
-      generation_id: generationId,
-      front: fc.front,
-      back: fc.back,
-      source: fc.was_edited ? "ai-edited" : "ai-full",
+    const wasEdited = flashcardsToAccept.map((fc) => {
+      const suggestion = suggestionsById.get(fc.suggestion_id);
+      return fc.front !== suggestion?.front || fc.back !== suggestion?.back;
+    });
+    // The first card of each suggestion gets a known ID, so the suggestion can link to it
+    const primaryIds = flashcardsToAccept.map(() => crypto.randomUUID());
+    const flashcardsToInsert = flashcardsToAccept.flatMap((fc, index) =>
+      buildFlashcardRows(
+        { front: fc.front, back: fc.back, card_type: cardType, tags: fc.tags },
+        {
+          deck_id: finalDeckId,
+          user_id: user.id,
+          generation_id: generationId,
+          source: wasEdited[index] ? "ai-edited" : "ai-full",
+        }
+      ).map((row, rowIndex) => (rowIndex === 0 ? { ...row, id: primaryIds[index] } : row))
+    );
+
+    // Claim the suggestions first, so that a concurrent accept of the same suggestions
+    // cannot create their flashcards a second time
+    const reviews = flashcardsToAccept.map((fc, index) => ({
+      suggestionId: fc.suggestion_id,
+      status: wasEdited[index] ? ("edited" as const) : ("accepted" as const),
+      flashcardId: primaryIds[index],
     }));
+    const claimedIds = new Set(await claimSuggestions(supabase, generationId, reviews));
+    const claimedSuggestions = suggestions.filter((suggestion) => claimedIds.has(suggestion.id));
+
+    if (claimedIds.size < reviews.length) {
+      await releaseSuggestions(supabase, claimedSuggestions);
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "SUGGESTION_ALREADY_REVIEWED",
+            message: "Some suggestions have already been accepted",
+            details: { suggestion_ids: suggestionIds.filter((id) => !claimedIds.has(id)) },
+          },
+        } satisfies ApiError),
+        { status: 409, headers: { "Content-Type": "application/json" } }
+      );
+    }
 
     // Insert flashcards
     const { data: createdFlashcards, error: insertError } = await supabase
@@ -187,15 +325,22 @@ export const POST: APIRoute = async (context) => {
       .select();
 
     if (insertError || !createdFlashcards) {
+      await releaseSuggestions(supabase, claimedSuggestions);
       throw new Error("Failed to create flashcards");
     }
 
+    // Record the review: accepted suggestions link to their flashcards, the remaining ones are rejected
+    await markSuggestionsReviewed(supabase, reviews);
+    const rejectedCount = await rejectPendingSuggestions(supabase, generationId);
+
     // Build response
     const response: AcceptFlashcardsResponseDto = {
       created_count: createdFlashcards.length,
+      rejected_count: rejectedCount,
       flashcards: createdFlashcards.map((fc) => ({
         ...fc,
         source: fc.source as FlashcardSource,
+        card_type: fc.card_type as FlashcardType,
       })) as FlashcardDto[],
     };
 
@@ -203,7 +348,8 @@ export const POST: APIRoute = async (context) => {
       status: 201,
       headers: { "Content-Type": "application/json" },
     });
-  } catch {
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "accept_flashcards" });
     return new Response(
       JSON.stringify({
         error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
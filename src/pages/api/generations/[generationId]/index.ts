@@ -0,0 +1,99 @@
+import type { APIRoute } from "astro";
+import { GENERATION_HISTORY_COLUMNS, getGenerationDetail } from "../../../../lib/services/generation-history.service";
+import { Logger } from "../../../../lib/logger";
+import type { GenerationDetailDto, ApiError } from "../../../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/generations/[generationId]");
+
+/**
+ * GET /api/generations/:generationId
+ *
+ * Fetches a single generation with the outcome of its review (accepted, edited, rejected),
+ * its chunk runs (for long source texts) and the flashcards accepted from it.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * @returns 200 - Success with generation details
+ * @returns 401 - Authentication error
+ * @returns 403 - Generation belongs to another user or Feature disabled
+ * @returns 404 - Generation not found
+ * @returns 500 - Internal server error
+ */
+export const GET: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    const generationId = context.params.generationId;
+
+    if (!generationId) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "VALIDATION_ERROR", message: "Generation ID is required" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Verify generation exists and belongs to user
+    const { data: generation, error: generationError } = await supabase
+      .from("generations")
+      .select(GENERATION_HISTORY_COLUMNS)
+      .eq("id", generationId)
+      .single();
+
+    if (generationError || !generation) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "GENERATION_NOT_FOUND", message: "Generation not found" },
+        } satisfies ApiError),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (generation.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "FORBIDDEN", message: "You do not have access to this generation" },
+        } satisfies ApiError),
+        { status: 403, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const response: GenerationDetailDto = await getGenerationDetail(supabase, generation);
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "fetch_generation" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
@@ -0,0 +1,132 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { rejectPendingSuggestions } from "../../../../lib/services/generation-suggestions.service";
+import { Logger } from "../../../../lib/logger";
+import type { RejectSuggestionsResponseDto, ApiError } from "../../../../types";
+
+export const prerender = false;
+
+const logger = new Logger("api/generations/[generationId]/reject");
+
+// Reject suggestions validation schema
+const rejectSuggestionsSchema = z.object({
+  suggestion_ids: z.array(z.string().uuid("Invalid suggestion ID format")).min(1).max(100).optional(),
+});
+
+/**
+ * POST /api/generations/:generationId/reject
+ *
+ * Rejects pending suggestions of a generation: the given ones, or all of them when
+ * no IDs are provided (discarding an unfinished review). Suggestions that were
+ * already reviewed are left unchanged.
+ *
+ * @param generationId - UUID of the generation record
+ * @param body.suggestion_ids - Optional IDs of the suggestions to reject
+ * @returns 200 - Number of rejected suggestions
+ * @returns 400 - Validation error
+ * @returns 401 - Authentication error
+ * @returns 403 - Generation belongs to another user
+ * @returns 404 - Generation not found
+ * @returns 500 - Internal server error
+ */
+export const POST: APIRoute = async (context) => {
+  try {
+    const generationId = context.params.generationId;
+
+    if (!generationId) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "VALIDATION_ERROR", message: "Generation ID is required" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate body (an empty body rejects all pending suggestions)
+    const rawBody = await context.request.text();
+    let body: unknown = {};
+    try {
+      body = rawBody ? JSON.parse(rawBody) : {};
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: { code: "VALIDATION_ERROR", message: "Invalid JSON body" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const validationResult = rejectSuggestionsSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid request body",
+            details: validationResult.error.flatten(),
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Verify generation exists and belongs to user
+    const { data: generation, error: generationError } = await supabase
+      .from("generations")
+      .select("id, user_id")
+      .eq("id", generationId)
+      .single();
+
+    if (generationError || !generation) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "GENERATION_NOT_FOUND", message: "Generation not found" },
+        } satisfies ApiError),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (generation.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "FORBIDDEN", message: "You do not have access to this generation" },
+        } satisfies ApiError),
+        { status: 403, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const response: RejectSuggestionsResponseDto = {
+      rejected_count: await rejectPendingSuggestions(supabase, generationId, validationResult.data.suggestion_ids),
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "reject_suggestions" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
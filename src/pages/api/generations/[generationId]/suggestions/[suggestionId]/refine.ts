@@ -0,0 +1,249 @@
+import type { APIRoute } from "astro";
+import { refineSuggestionSchema } from "../../../../../../lib/validators/generation.validator";
+import { AIGenerationService, AIGenerationError } from "../../../../../../lib/services/ai-generation.service";
+import {
+  MAX_SUGGESTION_REFINEMENTS,
+  applySuggestionRefinement,
+  getGenerationSuggestion,
+} from "../../../../../../lib/services/generation-suggestions.service";
+import { calculateSHA256 } from "../../../../../../lib/utils/hash";
+import { checkRefinementRateLimit, recordAIRequest } from "../../../../../../lib/utils/rate-limit";
+import { selectRelevantChunk } from "../../../../../../lib/utils/text-chunking";
+import { Logger } from "../../../../../../lib/logger";
+import type { RefineSuggestionResponseDto, ApiError, FlashcardType } from "../../../../../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../../../../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/generations/suggestions/refine");
+
+/**
+ * POST /api/generations/:generationId/suggestions/:suggestionId/refine
+ *
+ * Rewrites a single suggestion with AI, using the model of its generation:
+ * "regenerate", "shorten", "harden", "split" (into two suggestions) or "add_example".
+ * The refined content replaces the suggestion (which goes back to pending); the second
+ * part of a split is added as a new pending suggestion.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ * Rate Limit: 60 refinements per hour per user
+ *
+ * @param generationId - UUID of the generation record
+ * @param suggestionId - UUID of the suggestion to refine
+ * @param body.action - Refine action
+ * @param body.front - Current front of the card (may include the user's edits)
+ * @param body.back - Current back of the card (may include the user's edits)
+ * @param body.tags - Current tags of the card (optional, default: the stored tags of the suggestion)
+ * @param body.source_text - Source text of the generation (optional); the excerpt most relevant
+ *                           to the card is sent to the model when it matches the generation's source
+ *
+ * @returns 200 - Success with the refined suggestion(s)
+ * @returns 400 - Validation error or invalid JSON
+ * @returns 401 - Authentication error
+ * @returns 403 - Generation belongs to another user or Feature disabled
+ * @returns 404 - Generation or suggestion not found
+ * @returns 409 - Suggestion already accepted
+ * @returns 422 - AI refinement failed
+ * @returns 429 - Refinement limit of the suggestion reached or refinement rate limit exceeded
+ * @returns 500 - Internal server error
+ */
+export const POST: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    const { generationId, suggestionId } = context.params;
+
+    if (!generationId || !suggestionId) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "VALIDATION_ERROR", message: "Generation ID and suggestion ID are required" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate body
+    let body: unknown;
+    try {
+      body = await context.request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: { code: "INVALID_JSON", message: "Request body must be valid JSON" },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const validationResult = refineSuggestionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid request body",
+            details: validationResult.error.flatten(),
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const { action, front, back, tags, source_text } = validationResult.data;
+
+    // Verify generation exists and belongs to user
+    const { data: generation, error: generationError } = await supabase
+      .from("generations")
+      .select("id, user_id, model, card_type, source_text_hash")
+      .eq("id", generationId)
+      .single();
+
+    if (generationError || !generation) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "GENERATION_NOT_FOUND", message: "Generation not found" },
+        } satisfies ApiError),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (generation.user_id !== user.id) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "FORBIDDEN", message: "You do not have access to this generation" },
+        } satisfies ApiError),
+        { status: 403, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Verify the suggestion can still be refined
+    const suggestion = await getGenerationSuggestion(supabase, generationId, suggestionId);
+
+    if (!suggestion) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "SUGGESTION_NOT_FOUND", message: "Suggestion not found" },
+        } satisfies ApiError),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (suggestion.status === "accepted" || suggestion.status === "edited") {
+      return new Response(
+        JSON.stringify({
+          error: { code: "SUGGESTION_ALREADY_REVIEWED", message: "The suggestion has already been accepted" },
+        } satisfies ApiError),
+        { status: 409, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (suggestion.refinement_count >= MAX_SUGGESTION_REFINEMENTS) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "REFINEMENT_LIMIT_EXCEEDED",
+            message: `A suggestion can be refined at most ${MAX_SUGGESTION_REFINEMENTS} times`,
+          },
+        } satisfies ApiError),
+        { status: 429, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Refinements are paid model calls too - they have their own hourly limit
+    const withinRateLimit = await checkRefinementRateLimit(supabase, user.id);
+
+    if (!withinRateLimit) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "RATE_LIMIT_EXCEEDED",
+            message: "Refinement rate limit exceeded. Please try again later.",
+          },
+        } satisfies ApiError),
+        { status: 429, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Count the model call before it starts, also when it fails
+    await recordAIRequest(supabase, user.id, "refinement");
+
+    // Only the original source text is trusted as context
+    const sourceContext =
+      source_text && calculateSHA256(source_text) === generation.source_text_hash
+        ? selectRelevantChunk(source_text, `${front}\n${back}`)
+        : undefined;
+
+    // Refine the card using AI service (with mocks in development/testing)
+    const useMockAIEnv = import.meta.env.USE_MOCK_AI ?? process.env.USE_MOCK_AI;
+    const useMockAI = useMockAIEnv !== "false";
+    const apiKey = import.meta.env.OPENROUTER_API_KEY || process.env.OPENROUTER_API_KEY || "";
+    const aiService = new AIGenerationService(apiKey, useMockAI);
+
+    const cards = await aiService.refineFlashcard({
+      model: generation.model,
+      card: { front, back, tags: tags ?? suggestion.tags },
+      action,
+      cardType: generation.card_type as FlashcardType,
+      sourceContext,
+    });
+
+    const response: RefineSuggestionResponseDto = {
+      suggestions: await applySuggestionRefinement(supabase, { suggestion, userId: user.id, cards }),
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    if (error instanceof AIGenerationError) {
+      logger.error(error, {
+        action: "refine_suggestion",
+        errorCode: error.errorCode,
+        cause: error.cause instanceof Error ? error.cause.message : String(error.cause),
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "AI_GENERATION_FAILED",
+            message: "Failed to refine the suggestion",
+            details: {
+              error: error.message,
+              errorCode: error.errorCode,
+            },
+          },
+        } satisfies ApiError),
+        { status: 422, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "refine_suggestion" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
@@ -0,0 +1,104 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { listGenerations } from "../../../lib/services/generation-history.service";
+import { Logger } from "../../../lib/logger";
+import type { GenerationHistoryItemDto, PaginatedResponse, ApiError } from "../../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/generations");
+
+// Query params validation schema
+const listGenerationsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+  deck_id: z.string().uuid("Invalid deck ID").optional(),
+  model: z.string().min(1).max(100).optional(),
+});
+
+/**
+ * GET /api/generations
+ *
+ * Fetches the user's AI generation history (newest first). Each entry includes the deck name
+ * and how its suggestions were reviewed: accepted as-is, accepted after editing, or rejected.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * Query params:
+ * - limit: number (1-100, default 20)
+ * - offset: number (default 0)
+ * - deck_id: string (optional) - only generations run for this deck
+ * - model: string (optional) - only generations run with this model
+ *
+ * @returns 200 - Success with paginated generation history
+ * @returns 400 - Validation error
+ * @returns 401 - Authentication error
+ * @returns 403 - Feature disabled
+ * @returns 500 - Internal server error
+ */
+export const GET: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate query params
+    const url = new URL(context.request.url);
+    const queryParams = Object.fromEntries(url.searchParams.entries());
+    const validationResult = listGenerationsQuerySchema.safeParse(queryParams);
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: validationResult.error.flatten(),
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const { limit, offset, deck_id, model } = validationResult.data;
+
+    const response: PaginatedResponse<GenerationHistoryItemDto> = await listGenerations(supabase, {
+      userId: user.id,
+      limit,
+      offset,
+      deckId: deck_id,
+      model,
+    });
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "fetch_generations" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
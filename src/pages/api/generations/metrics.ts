@@ -0,0 +1,74 @@
+import type { APIRoute } from "astro";
+import { calculateAcceptanceRate } from "../../../lib/services/generation-history.service";
+import { Logger } from "../../../lib/logger";
+import type { ModelAcceptanceStatsResponseDto, ApiError } from "../../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/generations/metrics");
+
+/**
+ * GET /api/generations/metrics
+ *
+ * Fetches acceptance metrics of the user's AI suggestions per model: how many suggestions
+ * were accepted as-is, edited, rejected or are still pending, and the acceptance rate.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * @returns 200 - Success with per-model metrics (most used models first)
+ * @returns 401 - Authentication error
+ * @returns 403 - Feature disabled
+ * @returns 500 - Internal server error
+ */
+export const GET: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Aggregate suggestion statuses in the database
+    const { data, error: statsError } = await supabase.rpc("get_model_acceptance_stats");
+
+    if (statsError) {
+      throw new Error(`Failed to fetch model acceptance stats: ${statsError.message}`);
+    }
+
+    const response: ModelAcceptanceStatsResponseDto = {
+      data: (data ?? []).map((stats) => ({
+        ...stats,
+        acceptance_rate: calculateAcceptanceRate(stats.accepted_count, stats.edited_count, stats.rejected_count),
+      })),
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "fetch_generation_metrics" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
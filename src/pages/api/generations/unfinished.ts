@@ -0,0 +1,91 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { listUnfinishedGenerations } from "../../../lib/services/generation-suggestions.service";
+import { Logger } from "../../../lib/logger";
+import type { UnfinishedGenerationsResponseDto, ApiError } from "../../../types";
+
+export const prerender = false;
+
+const logger = new Logger("api/generations/unfinished");
+
+// Query params validation schema
+const unfinishedGenerationsQuerySchema = z.object({
+  deck_id: z.string().uuid("Invalid deck ID").optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+/**
+ * GET /api/generations/unfinished
+ *
+ * Fetches the user's generations whose review was not finished (newest first),
+ * with their pending suggestions, so the review can be resumed.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * Query params:
+ * - deck_id: string (optional) - only generations run for this deck
+ * - limit: number (1-50, default 10)
+ *
+ * @returns 200 - Success with unfinished generations
+ * @returns 400 - Validation error
+ * @returns 401 - Authentication error
+ * @returns 500 - Internal server error
+ */
+export const GET: APIRoute = async (context) => {
+  try {
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate query params
+    const url = new URL(context.request.url);
+    const queryParams = Object.fromEntries(url.searchParams.entries());
+    const validationResult = unfinishedGenerationsQuerySchema.safeParse(queryParams);
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: validationResult.error.flatten(),
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const { deck_id, limit } = validationResult.data;
+
+    const response: UnfinishedGenerationsResponseDto = {
+      data: await listUnfinishedGenerations(supabase, { userId: user.id, deckId: deck_id, limit }),
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), {
+      action: "fetch_unfinished_generations",
+    });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
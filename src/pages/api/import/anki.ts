@@ -0,0 +1,192 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import {
+  AnkiImportError,
+  buildAnkiImportPreview,
+  importAnkiPackage,
+  readAnkiPackage,
+} from "../../../lib/services/anki-import.service";
+import { Logger } from "../../../lib/logger";
+import type { AnkiImportPreviewDto, AnkiImportResponseDto, ApiError } from "../../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/import/anki");
+
+/** Maximum accepted upload size (50 MB) */
+const MAX_FILE_SIZE_BYTES = 50 * 1024 * 1024;
+
+const deckIdsSchema = z.array(z.string().min(1)).min(1, "Select at least one deck");
+
+/**
+ * POST /api/import/anki
+ *
+ * Imports an Anki package (.apkg). The package is read locally on the server and not stored.
+ * With `?preview=true` nothing is saved and the decks found in the package are returned, so
+ * that the user can review them before importing.
+ *
+ * Every imported Anki deck becomes a new deck; notes become flashcards with source "manual",
+ * keeping interval, ease and due date of their Anki schedule. Media is not imported.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * @query preview - When "true", only returns the package preview
+ * @body multipart/form-data with a `file` field (max 50 MB) and an optional `deck_ids` field
+ *       (JSON array of `anki_deck_id` values from the preview; default: all decks)
+ *
+ * @returns 200 - Preview of the package
+ * @returns 201 - Import summary with the created decks
+ * @returns 400 - Validation error (missing file, too large, invalid deck_ids)
+ * @returns 401 - Authentication error
+ * @returns 403 - Feature disabled
+ * @returns 422 - File is not a supported Anki package or contains no cards
+ * @returns 500 - Internal server error
+ */
+export const POST: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    // Step 1: Authenticate user via Supabase
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "UNAUTHORIZED",
+            message: "Invalid or expired access token",
+          },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Step 2: Read the uploaded file and selected decks
+    let file: FormDataEntryValue | null;
+    let deckIdsField: FormDataEntryValue | null;
+    try {
+      const formData = await context.request.formData();
+      file = formData.get("file");
+      deckIdsField = formData.get("deck_ids");
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request body must be multipart/form-data",
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!(file instanceof File) || file.size === 0) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "A non-empty .apkg file is required",
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (file.size > MAX_FILE_SIZE_BYTES) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "File must be 50 MB or smaller",
+            details: { size: file.size, max_size: MAX_FILE_SIZE_BYTES },
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    let deckIds: string[] | undefined;
+    if (typeof deckIdsField === "string" && deckIdsField) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(deckIdsField);
+      } catch {
+        parsed = null;
+      }
+
+      const validationResult = deckIdsSchema.safeParse(parsed);
+      if (!validationResult.success) {
+        return new Response(
+          JSON.stringify({
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "deck_ids must be a non-empty JSON array of deck IDs",
+              details: validationResult.error.flatten(),
+            },
+          } satisfies ApiError),
+          { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+      }
+      deckIds = validationResult.data;
+    }
+
+    // Step 3: Read the package
+    const pkg = await readAnkiPackage(new Uint8Array(await file.arrayBuffer()));
+
+    if (context.url.searchParams.get("preview") === "true") {
+      const response: AnkiImportPreviewDto = buildAnkiImportPreview(pkg, file.name);
+
+      return new Response(JSON.stringify(response), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Step 4: Import the selected decks
+    const response: AnkiImportResponseDto = await importAnkiPackage(supabase, { userId: user.id, pkg, deckIds });
+
+    return new Response(JSON.stringify(response), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    if (error instanceof AnkiImportError) {
+      if (error.errorCode === "INVALID_PACKAGE") {
+        logger.warn(error.message, {
+          action: "import_anki",
+          cause: error.cause instanceof Error ? error.cause.message : String(error.cause),
+        });
+      }
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "IMPORT_FAILED",
+            message: error.message,
+            details: { errorCode: error.errorCode },
+          },
+        } satisfies ApiError),
+        { status: 422, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "import_anki" });
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred",
+        },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
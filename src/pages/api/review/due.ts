@@ -0,0 +1,136 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { getReviewQueue } from "../../../lib/services/review-queue.service";
+import { tagSchema } from "../../../lib/validators/flashcard.validator";
+import { Logger } from "../../../lib/logger";
+import type { ReviewQueueResponseDto, ApiError } from "../../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/review/due");
+
+// Single "deckId:weight" entry of the priorities param
+const priorityEntrySchema = z.tuple([
+  z.string().uuid("Invalid deck ID in priorities"),
+  z.coerce.number().int().min(1).max(10),
+]);
+
+// Query params validation schema
+const reviewQueueQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  deck_limit: z.coerce.number().int().min(1).max(100).default(50),
+  new_limit: z.coerce.number().int().min(0).max(100).optional(),
+  priorities: z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) return undefined;
+
+      const priorities: Record<string, number> = {};
+      for (const entry of value.split(",")) {
+        const parsed = priorityEntrySchema.safeParse(entry.split(":"));
+        if (!parsed.success) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Priorities must be a comma-separated list of deckId:weight pairs (weight 1-10)",
+          });
+          return z.NEVER;
+        }
+        priorities[parsed.data[0]] = parsed.data[1];
+      }
+      return priorities;
+    }),
+  tag: tagSchema.optional(),
+});
+
+/**
+ * GET /api/review/due
+ *
+ * Fetches the cross-deck review queue: due cards from all of the user's decks,
+ * interleaved by deck priority, so a single session clears everything due today.
+ * Within a deck, cards keep the order of the per-deck due endpoint
+ * (previously reviewed cards first, then new cards).
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * Query params:
+ * - limit: number (1-500, default 100) - maximum number of cards in the queue
+ * - deck_limit: number (1-100, default 50) - maximum number of cards from a single deck
+ * - new_limit: number (0-100, optional) - maximum number of new cards from a single deck
+ * - priorities: string (optional) - comma-separated deckId:weight pairs (weight 1-10, default 1);
+ *   in every round of the interleave a deck contributes as many cards as its weight
+ * - tag: string (optional) - only cards labelled with this tag, from any deck
+ *
+ * @returns 200 - Success with queued flashcards, total_due count and per-deck breakdown
+ * @returns 400 - Validation error
+ * @returns 401 - Authentication error
+ * @returns 403 - Feature disabled
+ * @returns 500 - Internal server error
+ */
+export const GET: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate query params
+    const url = new URL(context.request.url);
+    const queryParams = Object.fromEntries(url.searchParams.entries());
+    const validationResult = reviewQueueQuerySchema.safeParse(queryParams);
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: validationResult.error.flatten(),
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const { limit, deck_limit, new_limit, priorities, tag } = validationResult.data;
+
+    const response: ReviewQueueResponseDto = await getReviewQueue(supabase, {
+      userId: user.id,
+      limit,
+      deckLimit: deck_limit,
+      newLimit: new_limit,
+      priorities,
+      tag,
+    });
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "fetch_review_queue" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
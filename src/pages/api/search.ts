@@ -0,0 +1,106 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { searchFlashcards } from "../../lib/services/flashcard-search.service";
+import { Logger } from "../../lib/logger";
+import type { FlashcardSearchResultDto, PaginatedResponse, ApiError } from "../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/search");
+
+// Query params validation schema
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(2, "Search text must be at least 2 characters").max(200),
+  deck_id: z.string().uuid("Invalid deck ID").optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * GET /api/search
+ *
+ * Full-text search across the front and back of all of the user's flashcards.
+ * English words are matched by their stem ("running" finds "run"); every word is also matched
+ * as a prefix without diacritics, which covers Polish inflection ("kot" finds "kota").
+ * Results are ranked by relevance and include the deck name and snippets of the front and back
+ * split into segments, with the matching words marked.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * Query params:
+ * - q: string (2-200 characters) - search text
+ * - deck_id: string (optional) - only search this deck
+ * - limit: number (1-50, default 20)
+ * - offset: number (default 0)
+ *
+ * @returns 200 - Success with paginated search results
+ * @returns 400 - Validation error
+ * @returns 401 - Authentication error
+ * @returns 403 - Feature disabled
+ * @returns 500 - Internal server error
+ */
+export const GET: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate query params
+    const url = new URL(context.request.url);
+    const queryParams = Object.fromEntries(url.searchParams.entries());
+    const validationResult = searchQuerySchema.safeParse(queryParams);
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: validationResult.error.flatten(),
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const { q, deck_id, limit, offset } = validationResult.data;
+
+    const response: PaginatedResponse<FlashcardSearchResultDto> = await searchFlashcards(supabase, {
+      query: q,
+      deckId: deck_id,
+      limit,
+      offset,
+    });
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "search_flashcards" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
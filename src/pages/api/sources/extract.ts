@@ -0,0 +1,171 @@
+import type { APIRoute } from "astro";
+import {
+  extractTextFromFile,
+  MAX_UNZIPPED_BYTES,
+  TextExtractionError,
+} from "../../../lib/services/text-extraction.service";
+import { Logger } from "../../../lib/logger";
+import type { ExtractTextResponseDto, ApiError } from "../../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/sources/extract");
+
+/** Maximum accepted upload size (10 MB) */
+const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * POST /api/sources/extract
+ *
+ * Extracts normalised plain text from an uploaded document, to be used as `source_text`
+ * for AI generation. Supported formats: PDF, DOCX, EPUB, Markdown, HTML and plain text.
+ * Extraction runs locally on the server - files are not stored nor sent to third parties.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * @body multipart/form-data with a single `file` field (max 10 MB)
+ *
+ * @returns 200 - Success with extracted text and its length
+ * @returns 400 - Validation error (missing file, unsupported type, too large - also when unpacked)
+ * @returns 401 - Authentication error
+ * @returns 403 - Feature disabled
+ * @returns 422 - File could not be read or contains no text
+ * @returns 500 - Internal server error
+ */
+export const POST: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    // Step 1: Authenticate user via Supabase
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "UNAUTHORIZED",
+            message: "Invalid or expired access token",
+          },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Step 2: Read the uploaded file
+    let file: FormDataEntryValue | null;
+    try {
+      const formData = await context.request.formData();
+      file = formData.get("file");
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request body must be multipart/form-data",
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!(file instanceof File) || file.size === 0) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "A non-empty file is required",
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (file.size > MAX_FILE_SIZE_BYTES) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "File must be 10 MB or smaller",
+            details: { size: file.size, max_size: MAX_FILE_SIZE_BYTES },
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Step 3: Extract text
+    const { text, format } = await extractTextFromFile({
+      name: file.name,
+      type: file.type,
+      data: new Uint8Array(await file.arrayBuffer()),
+    });
+
+    const response: ExtractTextResponseDto = {
+      text,
+      file_name: file.name,
+      format,
+      char_count: text.length,
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    if (error instanceof TextExtractionError && error.errorCode === "CONTENT_TOO_LARGE") {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Uncompressed file contents must be 50 MB or smaller",
+            details: { errorCode: error.errorCode, max_size: MAX_UNZIPPED_BYTES },
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (error instanceof TextExtractionError) {
+      const isUnsupported = error.errorCode === "UNSUPPORTED_FILE_TYPE";
+
+      if (!isUnsupported) {
+        logger.error(error, {
+          errorCode: error.errorCode,
+          cause: error.cause instanceof Error ? error.cause.message : String(error.cause),
+        });
+      }
+
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: isUnsupported ? "VALIDATION_ERROR" : "EXTRACTION_FAILED",
+            message: isUnsupported
+              ? "Unsupported file type. Use PDF, DOCX, EPUB, Markdown, HTML or TXT."
+              : error.message,
+            details: { errorCode: error.errorCode },
+          },
+        } satisfies ApiError),
+        { status: isUnsupported ? 400 : 422, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "extract_text" });
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred",
+        },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
@@ -0,0 +1,119 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { Logger } from "../../lib/logger";
+import { isValidTimezone } from "../../lib/utils/timezone";
+import type { UserStatsDto, ApiError } from "../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/stats");
+
+// Query params validation schema
+const statsQuerySchema = z.object({
+  tz: z.string().max(64).refine(isValidTimezone, "Invalid timezone").default("UTC"),
+});
+
+/**
+ * GET /api/stats
+ *
+ * Fetches aggregated statistics for the authenticated user.
+ * Aggregation is done in the database by the get_user_stats() function.
+ *
+ * Authentication: Required
+ *
+ * Query params:
+ * - tz: IANA timezone used to count study streak days (default "UTC")
+ *
+ * @returns 200 - Success with user statistics
+ * @returns 400 - Validation error (invalid timezone)
+ * @returns 401 - Authentication error
+ * @returns 403 - Feature disabled
+ * @returns 500 - Internal server error
+ */
+export const GET: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    // Authenticate user via Supabase
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "UNAUTHORIZED",
+            message: "Invalid or expired access token",
+          },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate query params
+    const url = new URL(context.request.url);
+    const queryParams = Object.fromEntries(url.searchParams.entries());
+    const validationResult = statsQuerySchema.safeParse(queryParams);
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: validationResult.error.flatten(),
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Aggregate statistics in the database
+    const { data, error: statsError } = await supabase.rpc("get_user_stats", {
+      p_timezone: validationResult.data.tz,
+    });
+
+    if (statsError) {
+      throw new Error(`Failed to fetch user stats: ${statsError.message}`);
+    }
+
+    const stats = data?.[0];
+
+    const response: UserStatsDto = {
+      total_decks: stats?.total_decks ?? 0,
+      total_flashcards: stats?.total_flashcards ?? 0,
+      flashcards_by_source: {
+        "ai-full": stats?.ai_full_count ?? 0,
+        "ai-edited": stats?.ai_edited_count ?? 0,
+        manual: stats?.manual_count ?? 0,
+      },
+      total_due: stats?.total_due ?? 0,
+      total_generations: stats?.total_generations ?? 0,
+      avg_generation_duration_ms: stats?.avg_generation_duration_ms ?? 0,
+      study_streak_days: stats?.study_streak_days ?? 0,
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "fetch_stats" });
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "An unexpected error occurred",
+        },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
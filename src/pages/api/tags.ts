@@ -0,0 +1,92 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { getUserTags } from "../../lib/services/flashcard-tags.service";
+import { Logger } from "../../lib/logger";
+import type { TagsListResponseDto, ApiError } from "../../types";
+import { isFeatureEnabled, featureDisabledResponse } from "../../features";
+
+export const prerender = false;
+
+const logger = new Logger("api/tags");
+
+// Query params validation schema
+const tagsQuerySchema = z.object({
+  deck_id: z.string().uuid("Invalid deck ID").optional(),
+});
+
+/**
+ * GET /api/tags
+ *
+ * Lists the tags of the user's flashcards with the number of cards labelled with each tag,
+ * ordered alphabetically. Used for tag filters and tag suggestions.
+ *
+ * Authentication: Required (JWT token via Supabase)
+ *
+ * Query params:
+ * - deck_id: string (optional) - only count cards of this deck
+ *
+ * @returns 200 - Success with tags and their card counts
+ * @returns 400 - Validation error
+ * @returns 401 - Authentication error
+ * @returns 403 - Feature disabled
+ * @returns 500 - Internal server error
+ */
+export const GET: APIRoute = async (context) => {
+  // Check feature flag
+  if (!isFeatureEnabled("collections")) {
+    return featureDisabledResponse("Collections");
+  }
+
+  try {
+    // Authenticate user
+    const supabase = context.locals.supabase;
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({
+          error: { code: "UNAUTHORIZED", message: "Invalid or expired access token" },
+        } satisfies ApiError),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate query params
+    const url = new URL(context.request.url);
+    const queryParams = Object.fromEntries(url.searchParams.entries());
+    const validationResult = tagsQuerySchema.safeParse(queryParams);
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: validationResult.error.flatten(),
+          },
+        } satisfies ApiError),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const response: TagsListResponseDto = {
+      data: await getUserTags(supabase, validationResult.data.deck_id),
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    logger.error(error instanceof Error ? error : new Error("Unknown error"), { action: "list_tags" });
+    return new Response(
+      JSON.stringify({
+        error: { code: "INTERNAL_SERVER_ERROR", message: "An unexpected error occurred" },
+      } satisfies ApiError),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
@@ -11,6 +11,18 @@ type TableRow<T extends keyof Database["public"]["Tables"]> = Database["public"]
  */
 export type FlashcardSource = "ai-full" | "ai-edited" | "manual";
 
+/**
+ * Flashcard types: basic (front/back) or cloze (text with {{c1::...}} deletions).
+ * Used to type the 'card_type' field more strictly than the database 'string'.
+ */
+export type FlashcardType = "basic" | "cloze";
+
+/**
+ * Directions in which a basic flashcard is studied: front→back, back→front,
+ * or both (two sibling cards with their own schedules).
+ */
+export type FlashcardDirection = "forward" | "reverse" | "both";
+
 // ------------------------------------------------------------------
 // Shared Types
 // ------------------------------------------------------------------
@@ -40,7 +52,7 @@ export interface ApiError {
 
 /**
  * Data Transfer Object for a Deck.
- * Extends the database entity with computed counts.
+ * Extends the database entity with computed counts, which include the cards of its sub-decks.
  */
 export type DeckDto = TableRow<"decks"> & {
   flashcard_count: number;
@@ -49,10 +61,12 @@ export type DeckDto = TableRow<"decks"> & {
 
 /**
  * Command to create a new deck.
- * 'name' is required, 'description' is optional/nullable.
+ * 'name' is required, 'description' and 'parent_id' are optional/nullable.
+ * A deck with a parent is a sub-deck; null makes it a top-level deck.
  */
 export type CreateDeckCommand = Pick<TableRow<"decks">, "name"> & {
   description?: string | null;
+  parent_id?: string | null;
 };
 
 /**
@@ -67,22 +81,130 @@ export type UpdateDeckCommand = Partial<CreateDeckCommand>;
 
 /**
  * Data Transfer Object for a Flashcard.
- * Overrides the 'source' field to use the specific union type.
+ * Overrides the 'source' and 'card_type' fields to use the specific union types.
+ * A cloze note is stored as one flashcard per cloze number: its cards share the note text
+ * (front), the extra info (back) and note_id, and cloze_index tells which deletions are hidden.
+ * A reversed card is studied back→front; both directions of a basic note share note_id.
+ * A card whose sibling was reviewed is buried (left out of the study queue) until buried_until;
+ * a suspended card is left out of studying until it is unsuspended.
  */
-export type FlashcardDto = Omit<TableRow<"flashcards">, "source"> & {
+export type FlashcardDto = Omit<TableRow<"flashcards">, "source" | "card_type"> & {
   source: FlashcardSource;
+  card_type: FlashcardType;
 };
 
 /**
  * Command to manually create a new flashcard.
- * Only requires content fields.
+ * Requires content fields; for cloze notes 'back' holds the optional extra info.
+ */
+export type CreateFlashcardCommand = Pick<TableRow<"flashcards">, "front" | "back"> & {
+  /** Defaults to "basic" */
+  card_type?: FlashcardType;
+  /** Basic cards only, defaults to "forward" */
+  direction?: FlashcardDirection;
+  /** Shared by all cards of the note */
+  tags?: string[];
+};
+
+/**
+ * Command to update flashcard content and/or replace its tags.
+ * The card type and direction cannot be changed; updating a card of a note (cloze or
+ * bidirectional) updates all of its cards.
+ */
+export type UpdateFlashcardCommand = Partial<Pick<TableRow<"flashcards">, "front" | "back" | "tags">>;
+
+/**
+ * Operations available on a selection of flashcards.
+ * Delete, move, copy and tag apply to whole notes: sibling cards of a selected card are included.
+ */
+export type BulkFlashcardOperation =
+  | { action: "delete" }
+  | { action: "move"; deck_id: string }
+  /** `reset_scheduling` starts the copies as new cards (default: keep the SM-2 state) */
+  | { action: "copy"; deck_id: string; reset_scheduling?: boolean }
+  | { action: "reset_scheduling" }
+  /** `suspended: false` unsuspends the cards (default: true) */
+  | { action: "suspend"; suspended?: boolean }
+  | { action: "tag"; add?: string[]; remove?: string[] };
+
+export type BulkFlashcardAction = BulkFlashcardOperation["action"];
+
+/**
+ * Command to run an operation on a selection of flashcards.
+ */
+export type BulkFlashcardOperationCommand = { ids: string[] } & BulkFlashcardOperation;
+
+/**
+ * Result of a bulk operation for one of the requested flashcards.
+ */
+export interface BulkFlashcardResultDto {
+  id: string;
+  status: "ok" | "not_found" | "failed";
+  error?: string;
+  /** ID of the copy (copy only) */
+  new_id?: string;
+}
+
+/**
+ * Response returned after a bulk operation on flashcards.
+ */
+export interface BulkFlashcardOperationResponseDto {
+  action: BulkFlashcardAction;
+  results: BulkFlashcardResultDto[];
+  succeeded: number;
+  failed: number;
+  /** Number of cards changed, including siblings of the requested cards */
+  affected_count: number;
+}
+
+/**
+ * Command to move a flashcard (with the other cards of its note) to another deck.
+ * The review progress is kept.
+ */
+export interface MoveFlashcardCommand {
+  deck_id: string;
+}
+
+/**
+ * Command to copy a flashcard (with the other cards of its note) to another deck.
+ * `reset_scheduling` starts the copies as new cards (default: keep the SM-2 state).
+ */
+export interface CopyFlashcardCommand {
+  deck_id: string;
+  reset_scheduling?: boolean;
+}
+
+/**
+ * Response returned after moving or copying a flashcard: the moved cards or the created copies.
  */
-export type CreateFlashcardCommand = Pick<TableRow<"flashcards">, "front" | "back">;
+export interface TransferFlashcardResponseDto {
+  source_deck_id: string;
+  deck_id: string;
+  flashcards: FlashcardDto[];
+}
 
 /**
- * Command to update flashcard content.
+ * Command to add and/or remove tags of a flashcard (and the other cards of its note).
  */
-export type UpdateFlashcardCommand = Partial<CreateFlashcardCommand>;
+export interface UpdateFlashcardTagsCommand {
+  add?: string[];
+  remove?: string[];
+}
+
+/**
+ * A tag of the user's flashcards with the number of cards labelled with it.
+ */
+export interface TagCountDto {
+  tag: string;
+  flashcard_count: number;
+}
+
+/**
+ * Response shape for the "list tags" endpoint, ordered by tag.
+ */
+export interface TagsListResponseDto {
+  data: TagCountDto[];
+}
 
 /**
  * Command to submit a spaced repetition review.
@@ -91,8 +213,16 @@ export type UpdateFlashcardCommand = Partial<CreateFlashcardCommand>;
 export interface ReviewFlashcardCommand {
   quality: number;
   review_duration_ms?: number;
+  /** IANA timezone of the user (default "UTC") */
+  tz?: string;
 }
 
+/**
+ * DTO for a single entry of a flashcard's review history.
+ * Maps directly to the database entity.
+ */
+export type ReviewLogDto = TableRow<"review_logs">;
+
 /**
  * Special response shape for "Get Due Flashcards" endpoint.
  */
@@ -101,6 +231,28 @@ export interface DueFlashcardsResponseDto {
   total_due: number;
 }
 
+/**
+ * Per-deck breakdown of the cross-deck review queue.
+ */
+export interface ReviewQueueDeckDto {
+  deck_id: string;
+  deck_name: string;
+  priority: number;
+  /** Number of due cards in the deck (regardless of limits) */
+  total_due: number;
+  /** Number of the deck's cards included in the queue */
+  queued_count: number;
+}
+
+/**
+ * Response shape for the cross-deck "Review all" queue endpoint.
+ */
+export interface ReviewQueueResponseDto {
+  data: FlashcardDto[];
+  total_due: number;
+  decks: ReviewQueueDeckDto[];
+}
+
 // ------------------------------------------------------------------
 // AI Generations
 // ------------------------------------------------------------------
@@ -111,6 +263,35 @@ export interface DueFlashcardsResponseDto {
  */
 export type GenerationHistoryDto = TableRow<"generations">;
 
+/**
+ * Generation history entry with the outcome of the review of its suggestions.
+ * Counts come from the statuses of the persisted suggestions; for generations created
+ * before suggestions were persisted, accepted counts come from flashcards linked via
+ * generation_id (by source) and rejected suggestions are the remainder of generated_count.
+ */
+export interface GenerationHistoryItemDto extends GenerationHistoryDto {
+  /** Name of the deck, null when the deck has been deleted */
+  deck_name: string | null;
+  accepted_unedited_count: number;
+  accepted_edited_count: number;
+  rejected_count: number;
+  /** Suggestions not reviewed yet (the review can be resumed) */
+  pending_count: number;
+}
+
+/**
+ * DTO for a single chunk run of a long source text generation.
+ */
+export type GenerationChunkDto = Omit<TableRow<"generation_chunks">, "user_id">;
+
+/**
+ * Generation details: history entry with its chunk runs and the flashcards accepted from it.
+ */
+export interface GenerationDetailDto extends GenerationHistoryItemDto {
+  chunks: GenerationChunkDto[];
+  flashcards: FlashcardDto[];
+}
+
 /**
  * Command to initiate AI flashcard generation.
  */
@@ -118,14 +299,61 @@ export interface GenerateFlashcardsCommand {
   source_text: string;
   model?: string;
   count?: number;
+  /** Skip the cache and always call the model */
+  force_regenerate?: boolean;
+  /** Type of the generated flashcards, defaults to "basic" */
+  card_type?: FlashcardType;
 }
 
 /**
  * Represents a single generated suggestion before it is saved to DB.
+ * For cloze generations 'front' holds the note text and 'back' the extra info.
  */
 export interface GeneratedSuggestionDto {
   front: string;
   back: string;
+  /** Topic tags proposed by the model (normalized, may be empty) */
+  tags: string[];
+}
+
+/**
+ * Review status of a persisted suggestion.
+ */
+export type SuggestionStatus = "pending" | "accepted" | "edited" | "rejected";
+
+/**
+ * DTO for a suggestion persisted with its generation.
+ * Overrides the 'status' field to use the specific union type.
+ */
+export type GenerationSuggestionDto = Omit<TableRow<"generation_suggestions">, "user_id" | "status"> & {
+  status: SuggestionStatus;
+};
+
+/**
+ * AI actions that rewrite a single suggestion during the review.
+ */
+export type SuggestionRefineAction = "regenerate" | "shorten" | "harden" | "split" | "add_example";
+
+/**
+ * Command to rewrite a single suggestion with AI.
+ * `front` and `back` are the current content of the card, including the user's edits.
+ */
+export interface RefineSuggestionCommand {
+  action: SuggestionRefineAction;
+  front: string;
+  back: string;
+  /** Current tags of the card (default: the stored tags of the suggestion) */
+  tags?: string[];
+  /** Source text of the generation, used as context when it matches the generation's source */
+  source_text?: string;
+}
+
+/**
+ * Response after refining a suggestion: the rewritten suggestion,
+ * followed by the newly added second part when it was split.
+ */
+export interface RefineSuggestionResponseDto {
+  suggestions: GenerationSuggestionDto[];
 }
 
 /**
@@ -133,15 +361,48 @@ export interface GeneratedSuggestionDto {
  */
 export interface GenerateFlashcardsResponseDto {
   generation_id: string;
-  suggestions: GeneratedSuggestionDto[];
+  suggestions: GenerationSuggestionDto[];
   model: string;
   generation_duration_ms: number;
+  /**
+   * Creation time of the earlier generation whose suggestions were reused for identical
+   * source text, or null when the suggestions were freshly generated.
+   */
+  cached_at: string | null;
+  card_type: FlashcardType;
+}
+
+/**
+ * Payload of the "suggestion" event sent by the streaming generation endpoint.
+ * The final "done" event carries a full GenerateFlashcardsResponseDto, "error" an ApiError.
+ */
+export interface GenerationStreamSuggestionDto extends GeneratedSuggestionDto {
+  /** Position of the suggestion in the generated set */
+  index: number;
+}
+
+/**
+ * File formats accepted as a source for AI generation.
+ */
+export type SourceFileFormat = "pdf" | "docx" | "epub" | "markdown" | "html" | "text";
+
+/**
+ * Response returned after extracting source text from an uploaded file.
+ */
+export interface ExtractTextResponseDto {
+  text: string;
+  file_name: string;
+  format: SourceFileFormat;
+  char_count: number;
 }
 
 /**
  * Item structure for the acceptance command.
+ * Whether a suggestion was edited is determined by the server by comparing the content
+ * with the stored suggestion; `was_edited` only reflects the client's view.
  */
 export interface AcceptFlashcardItem extends GeneratedSuggestionDto {
+  suggestion_id: string;
   was_edited: boolean;
 }
 
@@ -154,12 +415,61 @@ export interface AcceptFlashcardsCommand {
 
 /**
  * Response after accepting flashcards, returning the created entities.
+ * Pending suggestions that were not accepted are marked as rejected.
  */
 export interface AcceptFlashcardsResponseDto {
   created_count: number;
+  rejected_count: number;
   flashcards: FlashcardDto[];
 }
 
+/**
+ * Command to reject pending suggestions of a generation (all of them when no IDs are given).
+ */
+export interface RejectSuggestionsCommand {
+  suggestion_ids?: string[];
+}
+
+export interface RejectSuggestionsResponseDto {
+  rejected_count: number;
+}
+
+/**
+ * Generation whose review was not finished: it still has pending suggestions.
+ */
+export interface UnfinishedGenerationDto {
+  generation_id: string;
+  deck_id: string | null;
+  model: string;
+  card_type: FlashcardType;
+  created_at: string;
+  /** Pending suggestions, in generation order */
+  suggestions: GenerationSuggestionDto[];
+}
+
+/**
+ * Response shape for the "unfinished reviews" endpoint.
+ */
+export interface UnfinishedGenerationsResponseDto {
+  data: UnfinishedGenerationDto[];
+}
+
+/**
+ * Acceptance of AI suggestions for a single model.
+ */
+export type ModelAcceptanceStatsDto =
+  Database["public"]["Functions"]["get_model_acceptance_stats"]["Returns"][number] & {
+    /** Share of reviewed suggestions that were saved (accepted or edited), 0-1 */
+    acceptance_rate: number;
+  };
+
+/**
+ * Response shape for the per-model acceptance metrics endpoint.
+ */
+export interface ModelAcceptanceStatsResponseDto {
+  data: ModelAcceptanceStatsDto[];
+}
+
 // ------------------------------------------------------------------
 // Statistics
 // ------------------------------------------------------------------
@@ -177,3 +487,348 @@ export interface UserStatsDto {
   avg_generation_duration_ms: number;
   study_streak_days: number;
 }
+
+// ------------------------------------------------------------------
+// Import & Export
+// ------------------------------------------------------------------
+
+/**
+ * Example card shown in an import preview.
+ */
+export interface ImportSampleCardDto {
+  front: string;
+  back: string;
+  card_type: FlashcardType;
+  reversed: boolean;
+  cloze_index: number | null;
+}
+
+/**
+ * Deck found in an Anki package, as shown in the import preview.
+ * `anki_deck_id` identifies the deck when choosing which decks to import.
+ */
+export interface AnkiDeckPreviewDto {
+  anki_deck_id: string;
+  name: string;
+  card_count: number;
+  /** Cards never studied in Anki */
+  new_count: number;
+  /** Cards that keep their Anki schedule (interval, ease, due date) */
+  scheduled_count: number;
+  samples: ImportSampleCardDto[];
+}
+
+/**
+ * Contents of an Anki package (.apkg) before it is imported.
+ */
+export interface AnkiImportPreviewDto {
+  file_name: string;
+  decks: AnkiDeckPreviewDto[];
+  total_cards: number;
+  /** Cards that cannot be imported (unsupported templates, empty or invalid fields) */
+  skipped_cards: number;
+  /** Number of media files in the package (media is not imported) */
+  media_count: number;
+  warnings: string[];
+}
+
+/**
+ * Deck created by an import.
+ */
+export interface ImportedDeckDto {
+  id: string;
+  name: string;
+  flashcard_count: number;
+}
+
+/**
+ * Response returned after importing an Anki package.
+ */
+export interface AnkiImportResponseDto {
+  decks: ImportedDeckDto[];
+  imported_count: number;
+  skipped_count: number;
+}
+
+/**
+ * File formats of a deck export.
+ */
+export type DeckExportFormat = "csv" | "tsv" | "json" | "apkg";
+
+/**
+ * Flashcard in a deck export: content, tags, scheduling fields and source metadata.
+ * `note_id` groups sibling cards (cloze numbers, both directions of a basic card).
+ */
+export type ExportedFlashcardDto = Pick<
+  FlashcardDto,
+  | "front"
+  | "back"
+  | "card_type"
+  | "reversed"
+  | "cloze_index"
+  | "note_id"
+  | "tags"
+  | "source"
+  | "generation_id"
+  | "suspended"
+  | "ease_factor"
+  | "interval"
+  | "repetitions"
+  | "next_review_at"
+  | "created_at"
+  | "updated_at"
+>;
+
+/**
+ * Contents of a JSON deck export.
+ */
+export interface DeckExportDto {
+  format: "10xcards-deck";
+  version: 1;
+  exported_at: string;
+  deck: Pick<DeckDto, "name" | "description">;
+  flashcards: ExportedFlashcardDto[];
+}
+
+/**
+ * Command to import basic cards into a deck in one batch (e.g. rows of a CSV file or
+ * terms pasted from Quizlet).
+ */
+export interface BulkImportFlashcardsCommand {
+  cards: Pick<CreateFlashcardCommand, "front" | "back">[];
+}
+
+/**
+ * Response returned after a bulk import.
+ */
+export interface BulkImportFlashcardsResponseDto {
+  imported_count: number;
+}
+
+// ------------------------------------------------------------------
+// Account Backup
+// ------------------------------------------------------------------
+// The Backup*V1 types describe version 1 of the backup file. They are written out instead of
+// derived from the database types, so that schema changes cannot silently change the format:
+// when a table changes, add a new version next to them and keep restoring older files.
+// Version 2 adds the suspended flag and tags of flashcards, version 3 the tags of AI suggestions
+// and parents of nested decks.
+
+/**
+ * Deck in an account backup (version 1).
+ */
+export interface BackupDeckV1 {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Flashcard in an account backup (version 1), with its scheduling state.
+ * `deck_id`, `note_id` and `generation_id` refer to IDs within the same backup.
+ */
+export interface BackupFlashcardV1 {
+  id: string;
+  deck_id: string;
+  front: string;
+  back: string;
+  card_type: FlashcardType;
+  reversed: boolean;
+  cloze_index: number | null;
+  note_id: string | null;
+  source: FlashcardSource;
+  generation_id: string | null;
+  ease_factor: number;
+  interval: number;
+  repetitions: number;
+  next_review_at: string;
+  buried_until: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Chunk of a generation in an account backup (version 1).
+ */
+export interface BackupGenerationChunkV1 {
+  chunk_index: number;
+  requested_count: number;
+  generated_count: number;
+  generation_duration: number;
+  source_text_length: number;
+  error_message: string | null;
+  created_at: string;
+}
+
+/**
+ * AI suggestion of a generation in an account backup (version 1).
+ */
+export interface BackupGenerationSuggestionV1 {
+  position: number;
+  front: string;
+  back: string;
+  status: SuggestionStatus;
+  refinement_count: number;
+  flashcard_id: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+/**
+ * Generation record in an account backup (version 1), with its chunks and suggestions.
+ */
+export interface BackupGenerationV1 {
+  id: string;
+  deck_id: string | null;
+  model: string;
+  card_type: FlashcardType;
+  requested_count: number | null;
+  generated_count: number;
+  generation_duration: number;
+  source_text_hash: string;
+  source_text_length: number;
+  created_at: string;
+  chunks: BackupGenerationChunkV1[];
+  suggestions: BackupGenerationSuggestionV1[];
+}
+
+/**
+ * Review log entry in an account backup (version 1).
+ */
+export interface BackupReviewLogV1 {
+  id: string;
+  flashcard_id: string;
+  deck_id: string | null;
+  quality: number;
+  review_duration_ms: number | null;
+  previous_interval: number;
+  previous_ease_factor: number;
+  previous_repetitions: number;
+  new_interval: number;
+  new_ease_factor: number;
+  new_repetitions: number;
+  next_review_at: string;
+  reviewed_at: string;
+}
+
+/**
+ * Account backup file, version 1: every deck, flashcard, generation and review log of a user.
+ */
+export interface AccountBackupV1 {
+  format: "10xcards-backup";
+  version: 1;
+  exported_at: string;
+  decks: BackupDeckV1[];
+  flashcards: BackupFlashcardV1[];
+  generations: BackupGenerationV1[];
+  review_logs: BackupReviewLogV1[];
+}
+
+/**
+ * Flashcard in an account backup (version 2).
+ */
+export interface BackupFlashcardV2 extends BackupFlashcardV1 {
+  suspended: boolean;
+  tags: string[];
+}
+
+/**
+ * Account backup file, version 2: version 1 with suspended flags and tags of flashcards.
+ */
+export interface AccountBackupV2 extends Omit<AccountBackupV1, "version" | "flashcards"> {
+  version: 2;
+  flashcards: BackupFlashcardV2[];
+}
+
+/**
+ * Deck in an account backup (version 3). `parent_id` refers to a deck within the same backup.
+ */
+export interface BackupDeckV3 extends BackupDeckV1 {
+  parent_id: string | null;
+}
+
+/**
+ * AI suggestion of a generation in an account backup (version 3).
+ */
+export interface BackupGenerationSuggestionV3 extends BackupGenerationSuggestionV1 {
+  tags: string[];
+}
+
+/**
+ * Generation record in an account backup (version 3).
+ */
+export interface BackupGenerationV3 extends Omit<BackupGenerationV1, "suggestions"> {
+  suggestions: BackupGenerationSuggestionV3[];
+}
+
+/**
+ * Account backup file, version 3: version 2 with tags of AI suggestions and parents of decks.
+ */
+export interface AccountBackupV3 extends Omit<AccountBackupV2, "version" | "decks" | "generations"> {
+  version: 3;
+  decks: BackupDeckV3[];
+  generations: BackupGenerationV3[];
+}
+
+/**
+ * What to do with a backed up deck when the account already has a deck with the same name.
+ * - rename: restore it as a new deck with a "(restored)" suffix
+ * - skip: keep the existing deck and skip the backed up one with its flashcards
+ * - merge: add its flashcards to the existing deck, skipping cards the deck already has
+ */
+export type BackupConflictStrategy = "rename" | "skip" | "merge";
+
+/**
+ * Number of records per type, restored or skipped during a restore.
+ */
+export interface AccountBackupCountsDto {
+  decks: number;
+  flashcards: number;
+  generations: number;
+  review_logs: number;
+}
+
+/**
+ * Deck restored from a backup and how its name conflict was resolved.
+ */
+export interface RestoredDeckDto extends ImportedDeckDto {
+  original_name: string;
+  resolution: "created" | "renamed" | "merged";
+}
+
+/**
+ * Response returned after restoring an account backup.
+ */
+export interface RestoreAccountBackupResponseDto {
+  decks: RestoredDeckDto[];
+  restored: AccountBackupCountsDto;
+  skipped: AccountBackupCountsDto;
+}
+
+// ------------------------------------------------------------------
+// Search
+// ------------------------------------------------------------------
+
+/**
+ * Part of a search snippet; `match` marks words that matched the query.
+ */
+export interface HighlightSegmentDto {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Flashcard found by a full-text search, with snippets of its front and back.
+ * Cards of a note share their text, so a note is returned once, as its first card.
+ */
+export interface FlashcardSearchResultDto {
+  id: string;
+  deck_id: string;
+  deck_name: string;
+  card_type: FlashcardType;
+  front: HighlightSegmentDto[];
+  back: HighlightSegmentDto[];
+  rank: number;
+}
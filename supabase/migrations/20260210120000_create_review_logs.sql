@@ -0,0 +1,76 @@
+-- =====================================================================
+-- Migration: Create review_logs table
+-- Purpose: Keep the full spaced repetition history of every flashcard review
+-- Tables: review_logs
+-- Features: RLS policies, indexes
+-- Date: 2026-02-10
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: REVIEW LOGS TABLE
+-- Purpose: One immutable row per submitted review with SM-2 state before and after
+-- =====================================================================
+
+create table public.review_logs (
+  id uuid primary key default gen_random_uuid(),
+  flashcard_id uuid not null references public.flashcards(id) on delete cascade,
+  deck_id uuid references public.decks(id) on delete set null,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  quality smallint not null check (quality between 0 and 5),
+  review_duration_ms integer check (review_duration_ms >= 0),
+  -- SM-2 state before the review
+  previous_interval integer not null,
+  previous_ease_factor real not null,
+  previous_repetitions integer not null,
+  -- SM-2 state after the review
+  new_interval integer not null,
+  new_ease_factor real not null,
+  new_repetitions integer not null,
+  next_review_at timestamptz not null,
+  reviewed_at timestamptz not null default now()
+);
+
+-- Add comments to table and columns
+comment on table public.review_logs is 'History of flashcard reviews. Source data for streaks, retention statistics and algorithm tuning.';
+comment on column public.review_logs.deck_id is 'Deck of the flashcard at review time (kept even if the card is moved later)';
+comment on column public.review_logs.quality is 'Recall grade on the SM-2 0-5 scale';
+comment on column public.review_logs.review_duration_ms is 'Time spent on the card before grading in milliseconds';
+comment on column public.review_logs.next_review_at is 'Next review date scheduled by this review';
+
+-- Enable Row Level Security
+alter table public.review_logs enable row level security;
+
+-- Index: Optimize loading the review history of a single flashcard
+create index idx_review_logs_flashcard_reviewed on public.review_logs(flashcard_id, reviewed_at desc);
+
+-- Index: Optimize per-user statistics (streaks, retention)
+create index idx_review_logs_user_reviewed on public.review_logs(user_id, reviewed_at desc);
+
+-- Index: Optimize per-deck statistics
+create index idx_review_logs_deck_id on public.review_logs(deck_id);
+
+-- =====================================================================
+-- SECTION 2: REVIEW LOGS TABLE POLICIES
+-- Note: Logs are append-only - no update or delete policies
+-- =====================================================================
+
+-- Policy: Users can view their own review logs
+create policy "Users can view own review logs"
+  on public.review_logs
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Policy: Users can create their own review logs
+create policy "Users can create own review logs"
+  on public.review_logs
+  for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Tables created: review_logs
+-- RLS policies added: SELECT and INSERT for authenticated users on own records
+-- =====================================================================
@@ -0,0 +1,100 @@
+-- =====================================================================
+-- Migration: Create get_user_stats function
+-- Purpose: Aggregate per-user statistics in a single database round trip
+-- Functions: get_user_stats
+-- Date: 2026-02-12
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: USER STATISTICS FUNCTION
+-- Purpose: Counts decks, flashcards (by source), due cards, generations
+--          and the current study streak for the calling user
+-- Note: security invoker - RLS policies still apply, auth.uid() scopes all queries
+-- =====================================================================
+
+create or replace function public.get_user_stats(p_timezone text default 'UTC')
+returns table (
+  total_decks bigint,
+  total_flashcards bigint,
+  ai_full_count bigint,
+  ai_edited_count bigint,
+  manual_count bigint,
+  total_due bigint,
+  total_generations bigint,
+  avg_generation_duration_ms integer,
+  study_streak_days integer
+)
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  with
+  flashcard_stats as (
+    select
+      count(*) as total,
+      count(*) filter (where source = 'ai-full') as ai_full,
+      count(*) filter (where source = 'ai-edited') as ai_edited,
+      count(*) filter (where source = 'manual') as manual,
+      count(*) filter (where next_review_at <= now()) as due
+    from public.flashcards
+    where user_id = auth.uid()
+  ),
+  generation_stats as (
+    select
+      count(*) as total,
+      coalesce(round(avg(generation_duration)), 0)::integer as avg_duration
+    from public.generations
+    where user_id = auth.uid()
+  ),
+  -- Distinct calendar days (in the user's timezone) with at least one review
+  review_days as (
+    select distinct (reviewed_at at time zone p_timezone)::date as day
+    from public.review_logs
+    where user_id = auth.uid()
+  ),
+  today as (
+    select (now() at time zone p_timezone)::date as day
+  ),
+  -- The streak counts from today, or from yesterday if there was no review today yet
+  streak_start as (
+    select case
+      when exists (select 1 from review_days rd, today t where rd.day = t.day) then t.day
+      else t.day - 1
+    end as day
+    from today t
+  ),
+  ranked_days as (
+    select rd.day, row_number() over (order by rd.day desc) as rn
+    from review_days rd, streak_start s
+    where rd.day <= s.day
+  ),
+  streak as (
+    -- Distinct days sorted descending match "start - (rn - 1)" only for the unbroken run
+    select count(*)::integer as days
+    from ranked_days rd, streak_start s
+    where rd.day = s.day - (rd.rn - 1)::integer
+  )
+  select
+    (select count(*) from public.decks where user_id = auth.uid()),
+    fs.total,
+    fs.ai_full,
+    fs.ai_edited,
+    fs.manual,
+    fs.due,
+    gs.total,
+    gs.avg_duration,
+    st.days
+  from flashcard_stats fs, generation_stats gs, streak st;
+$$;
+
+comment on function public.get_user_stats(text) is 'Aggregated statistics (decks, flashcards by source, due cards, generations, study streak) for the calling user';
+
+-- Allow authenticated users to call the function
+grant execute on function public.get_user_stats(text) to authenticated;
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Functions created: get_user_stats
+-- =====================================================================
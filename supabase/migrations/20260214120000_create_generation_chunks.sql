@@ -0,0 +1,79 @@
+-- =====================================================================
+-- Migration: Chunked generation for long sources
+-- Purpose: Allow long source texts and record per-chunk runs of a single generation
+-- Tables: generations (altered), generation_chunks
+-- Features: RLS policies, indexes
+-- Date: 2026-02-14
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: GENERATIONS - SOURCE TEXT LIMIT
+-- Purpose: Long sources (book chapters, lecture transcripts) are split into chunks,
+--          the generation record keeps the length of the whole source
+-- =====================================================================
+
+alter table public.generations
+  drop constraint if exists generations_source_text_length_check;
+
+alter table public.generations
+  add constraint generations_source_text_length_check check (source_text_length between 10 and 100000);
+
+-- =====================================================================
+-- SECTION 2: GENERATION CHUNKS TABLE
+-- Purpose: One row per chunk run, linked to the single generation record of the request
+-- =====================================================================
+
+create table public.generation_chunks (
+  id uuid primary key default gen_random_uuid(),
+  generation_id uuid not null references public.generations(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  chunk_index integer not null check (chunk_index >= 0),
+  source_text_length integer not null check (source_text_length > 0),
+  requested_count integer not null check (requested_count >= 0),
+  generated_count integer not null default 0,
+  generation_duration integer not null,
+  error_message text,
+  created_at timestamptz not null default now(),
+  unique (generation_id, chunk_index)
+);
+
+-- Add comments to table and columns
+comment on table public.generation_chunks is 'Per-chunk runs of a chunked AI generation. Sum of generated_count may exceed generations.generated_count because of de-duplication.';
+comment on column public.generation_chunks.chunk_index is 'Position of the chunk in the source text (0-based)';
+comment on column public.generation_chunks.requested_count is 'Share of the requested flashcard count assigned to this chunk';
+comment on column public.generation_chunks.generation_duration is 'Time taken to generate flashcards for this chunk in milliseconds';
+comment on column public.generation_chunks.error_message is 'Error of a failed chunk run (the generation succeeds if at least one chunk does)';
+
+-- Enable Row Level Security
+alter table public.generation_chunks enable row level security;
+
+-- Index: Optimize loading chunks of a generation (unique constraint covers generation_id lookups)
+-- Index: Optimize per-user queries
+create index idx_generation_chunks_user_id on public.generation_chunks(user_id);
+
+-- =====================================================================
+-- SECTION 3: GENERATION CHUNKS TABLE POLICIES
+-- Note: Like generations, chunk records are append-only
+-- =====================================================================
+
+-- Policy: Users can view their own generation chunks
+create policy "Users can view own generation chunks"
+  on public.generation_chunks
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Policy: Users can create their own generation chunks
+create policy "Users can create own generation chunks"
+  on public.generation_chunks
+  for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Tables altered: generations (source_text_length limit raised to 100000)
+-- Tables created: generation_chunks
+-- RLS policies added: SELECT and INSERT for authenticated users on own records
+-- =====================================================================
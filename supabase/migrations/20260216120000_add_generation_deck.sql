@@ -0,0 +1,39 @@
+-- =====================================================================
+-- Migration: Link generations to decks
+-- Purpose: Allow filtering the generation history by deck
+-- Tables: generations (altered)
+-- Features: backfill, indexes
+-- Date: 2026-02-16
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: GENERATIONS - DECK REFERENCE
+-- Purpose: Deck the generation was run for (null when the deck has been deleted)
+-- =====================================================================
+
+alter table public.generations
+  add column deck_id uuid references public.decks(id) on delete set null;
+
+comment on column public.generations.deck_id is 'Deck the flashcards were generated for; null for generations of deleted decks';
+
+-- Backfill: existing generations get the deck of their accepted flashcards
+update public.generations g
+set deck_id = f.deck_id
+from (
+  select distinct on (generation_id) generation_id, deck_id
+  from public.flashcards
+  where generation_id is not null
+  order by generation_id, created_at
+) f
+where f.generation_id = g.id
+  and g.deck_id is null;
+
+-- Index: Optimize generation history filtered by deck (sorted by date)
+create index idx_generations_user_deck_created on public.generations(user_id, deck_id, created_at desc);
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Tables altered: generations (deck_id column, backfilled from flashcards)
+-- Indexes added: idx_generations_user_deck_created
+-- =====================================================================
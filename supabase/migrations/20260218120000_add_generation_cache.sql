@@ -0,0 +1,32 @@
+-- =====================================================================
+-- Migration: Cache generation results
+-- Purpose: Reuse suggestions of a recent generation for identical source text
+--          instead of calling the model again
+-- Tables: generations (altered)
+-- Features: indexes
+-- Date: 2026-02-18
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: GENERATIONS - CACHED RESULTS
+-- Purpose: Keep the raw suggestions and the requested count, so that a request with
+--          the same source_text_hash, model and count can be answered from the cache
+-- =====================================================================
+
+alter table public.generations
+  add column requested_count integer check (requested_count > 0),
+  add column suggestions jsonb check (suggestions is null or jsonb_typeof(suggestions) = 'array');
+
+comment on column public.generations.requested_count is 'Number of flashcards requested by the user (generated_count may differ)';
+comment on column public.generations.suggestions is 'Raw suggestions returned by the model ([{front, back}]), used to serve repeated requests for the same source text';
+
+-- Index: Optimize cache lookups (same user, source text and model, newest first)
+create index idx_generations_cache_lookup on public.generations(user_id, source_text_hash, model, created_at desc);
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Tables altered: generations (requested_count, suggestions columns)
+-- Indexes added: idx_generations_cache_lookup
+-- Note: generations created before this migration have no suggestions and are never served from the cache
+-- =====================================================================
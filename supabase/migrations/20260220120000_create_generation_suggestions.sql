@@ -0,0 +1,150 @@
+-- =====================================================================
+-- Migration: Create generation_suggestions table
+-- Purpose: Persist every AI suggestion with its review status, so that reviews
+--          can be resumed and acceptance rates measured per model
+-- Tables: generation_suggestions, generations (altered)
+-- Functions: get_model_acceptance_stats
+-- Features: RLS policies, indexes, backfill
+-- Date: 2026-02-20
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: GENERATION SUGGESTIONS TABLE
+-- Purpose: One row per suggestion returned by the model, in the order it was generated
+-- Note: front/back keep the original model output; edits are stored on the flashcard
+-- =====================================================================
+
+create table public.generation_suggestions (
+  id uuid primary key default gen_random_uuid(),
+  generation_id uuid not null references public.generations(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  position integer not null check (position >= 0),
+  front text not null,
+  back text not null,
+  status varchar not null default 'pending' check (status in ('pending', 'accepted', 'edited', 'rejected')),
+  flashcard_id uuid references public.flashcards(id) on delete set null,
+  created_at timestamptz not null default now(),
+  reviewed_at timestamptz,
+  unique (generation_id, position)
+);
+
+-- Add comments to table and columns
+comment on table public.generation_suggestions is 'AI suggestions of a generation with their review status. Pending suggestions can be reviewed later.';
+comment on column public.generation_suggestions.status is 'pending (not reviewed yet), accepted (saved as-is), edited (saved after editing), rejected';
+comment on column public.generation_suggestions.flashcard_id is 'Flashcard created from an accepted or edited suggestion';
+comment on column public.generation_suggestions.reviewed_at is 'When the suggestion was accepted or rejected';
+
+-- Enable Row Level Security
+alter table public.generation_suggestions enable row level security;
+
+-- Index: Optimize finding unfinished reviews of a user
+create index idx_generation_suggestions_user_pending on public.generation_suggestions(user_id, generation_id) where status = 'pending';
+
+-- =====================================================================
+-- SECTION 2: GENERATION SUGGESTIONS TABLE POLICIES
+-- =====================================================================
+
+-- Policy: Users can view their own suggestions
+create policy "Users can view own generation suggestions"
+  on public.generation_suggestions
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Policy: Users can create their own suggestions
+create policy "Users can create own generation suggestions"
+  on public.generation_suggestions
+  for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+-- Policy: Users can update (review) their own suggestions
+create policy "Users can update own generation suggestions"
+  on public.generation_suggestions
+  for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- =====================================================================
+-- SECTION 3: BACKFILL AND CLEANUP
+-- Purpose: Move cached suggestions from generations.suggestions to the new table;
+--          the cache now reads suggestions from generation_suggestions
+-- =====================================================================
+
+insert into public.generation_suggestions (generation_id, user_id, position, front, back, created_at)
+select g.id, g.user_id, (s.ordinality - 1)::integer, s.item ->> 'front', s.item ->> 'back', g.created_at
+from public.generations g
+cross join lateral jsonb_array_elements(g.suggestions) with ordinality as s(item, ordinality)
+where g.suggestions is not null
+  and s.item ->> 'front' is not null
+  and s.item ->> 'back' is not null;
+
+-- Suggestions saved unchanged can be matched to their flashcards by content
+update public.generation_suggestions gs
+set status = 'accepted', flashcard_id = f.id, reviewed_at = f.created_at
+from public.flashcards f
+where f.generation_id = gs.generation_id
+  and f.source = 'ai-full'
+  and f.front = gs.front
+  and f.back = gs.back;
+
+-- The rest of an already reviewed generation was rejected or edited (edits cannot be matched)
+update public.generation_suggestions gs
+set status = 'rejected', reviewed_at = now()
+where gs.status = 'pending'
+  and exists (
+    select 1 from public.flashcards f where f.generation_id = gs.generation_id
+  );
+
+alter table public.generations drop column suggestions;
+
+-- =====================================================================
+-- SECTION 4: MODEL ACCEPTANCE STATISTICS FUNCTION
+-- Purpose: Acceptance rates of suggestions per model for the calling user
+-- Note: security invoker - RLS policies still apply, auth.uid() scopes all queries
+-- =====================================================================
+
+create or replace function public.get_model_acceptance_stats()
+returns table (
+  model varchar,
+  generation_count bigint,
+  suggestion_count bigint,
+  accepted_count bigint,
+  edited_count bigint,
+  rejected_count bigint,
+  pending_count bigint
+)
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select
+    g.model,
+    count(distinct g.id),
+    count(s.id),
+    count(s.id) filter (where s.status = 'accepted'),
+    count(s.id) filter (where s.status = 'edited'),
+    count(s.id) filter (where s.status = 'rejected'),
+    count(s.id) filter (where s.status = 'pending')
+  from public.generations g
+  join public.generation_suggestions s on s.generation_id = g.id
+  where g.user_id = auth.uid()
+  group by g.model
+  order by count(s.id) desc;
+$$;
+
+comment on function public.get_model_acceptance_stats() is 'Per-model counts of accepted, edited, rejected and pending AI suggestions for the calling user';
+
+-- Allow authenticated users to call the function
+grant execute on function public.get_model_acceptance_stats() to authenticated;
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Tables created: generation_suggestions
+-- Tables altered: generations (suggestions column moved to generation_suggestions)
+-- Functions created: get_model_acceptance_stats
+-- RLS policies added: SELECT, INSERT and UPDATE for authenticated users on own records
+-- =====================================================================
@@ -0,0 +1,24 @@
+-- =====================================================================
+-- Migration: Refine single suggestions with AI
+-- Purpose: Track how many times a suggestion was rewritten by the model
+--          (regenerate, shorten, harden, split, add example)
+-- Tables: generation_suggestions (altered)
+-- Date: 2026-02-22
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: GENERATION_SUGGESTIONS - REFINEMENT COUNT
+-- Purpose: Refining replaces the content of a suggestion in place (a split adds a second
+--          suggestion); the count limits the number of model calls per suggestion
+-- =====================================================================
+
+alter table public.generation_suggestions
+  add column refinement_count integer not null default 0 check (refinement_count >= 0);
+
+comment on column public.generation_suggestions.refinement_count is 'Number of AI refinements applied to the suggestion (inherited by the second part of a split)';
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Tables altered: generation_suggestions (refinement_count column)
+-- =====================================================================
@@ -0,0 +1,52 @@
+-- =====================================================================
+-- Migration: Cloze deletion cards
+-- Purpose: Support cloze notes ({{c1::...}}) next to basic front/back flashcards.
+--          A cloze note is stored as one flashcard per cloze number, so that every
+--          card keeps its own spaced repetition schedule
+-- Tables: flashcards (altered), generations (altered)
+-- Features: constraints, indexes
+-- Date: 2026-02-24
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: FLASHCARDS - CARD TYPE
+-- Purpose: Cards of a cloze note share the note text (front), the extra info (back)
+--          and a note_id; cloze_index tells which deletions the card hides
+-- =====================================================================
+
+alter table public.flashcards
+  add column card_type varchar not null default 'basic' check (card_type in ('basic', 'cloze')),
+  add column note_id uuid,
+  add column cloze_index smallint check (cloze_index between 1 and 50);
+
+-- Basic cards belong to no note; every cloze card belongs to a note and hides one cloze number
+alter table public.flashcards
+  add constraint flashcards_cloze_fields_check check (
+    (card_type = 'basic' and note_id is null and cloze_index is null)
+    or (card_type = 'cloze' and note_id is not null and cloze_index is not null)
+  );
+
+comment on column public.flashcards.card_type is 'basic (front/back) or cloze (front holds the note text with {{cN::...}} deletions, back the optional extra info)';
+comment on column public.flashcards.note_id is 'Groups the cards of a cloze note (null for basic cards)';
+comment on column public.flashcards.cloze_index is 'Cloze number hidden by the card (null for basic cards)';
+
+-- Index: One card per cloze number of a note; also used to load the cards of a note
+create unique index idx_flashcards_note_cloze on public.flashcards(note_id, cloze_index) where note_id is not null;
+
+-- =====================================================================
+-- SECTION 2: GENERATIONS - CARD TYPE
+-- Purpose: AI generation can produce cloze notes; suggestions of a generation share its card type
+-- =====================================================================
+
+alter table public.generations
+  add column card_type varchar not null default 'basic' check (card_type in ('basic', 'cloze'));
+
+comment on column public.generations.card_type is 'Type of the generated suggestions: basic (question/answer) or cloze (text with deletions/extra info)';
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Tables altered: flashcards (card_type, note_id, cloze_index columns), generations (card_type column)
+-- Indexes added: idx_flashcards_note_cloze
+-- Note: existing flashcards and generations become basic
+-- =====================================================================
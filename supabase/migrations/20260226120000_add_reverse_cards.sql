@@ -0,0 +1,54 @@
+-- =====================================================================
+-- Migration: Reverse cards and sibling burying
+-- Purpose: Basic flashcards can be studied back→front, or in both directions as
+--          two sibling cards sharing a note; a card whose sibling was reviewed
+--          is buried (left out of the study queue) for the rest of the day
+-- Tables: flashcards (altered)
+-- Features: constraints, indexes
+-- Date: 2026-02-26
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: FLASHCARDS - DIRECTION
+-- Purpose: A reversed card asks with the back and answers with the front; the two
+--          cards of a bidirectional note share front, back and note_id, but each
+--          keeps its own spaced repetition state
+-- =====================================================================
+
+alter table public.flashcards
+  add column reversed boolean not null default false;
+
+-- Basic cards may now belong to a note (bidirectional pair); cloze cards are never reversed
+alter table public.flashcards
+  drop constraint flashcards_cloze_fields_check;
+
+alter table public.flashcards
+  add constraint flashcards_cloze_fields_check check (
+    (card_type = 'basic' and cloze_index is null)
+    or (card_type = 'cloze' and note_id is not null and cloze_index is not null and not reversed)
+  );
+
+comment on column public.flashcards.reversed is 'Card is studied back→front (basic cards only)';
+comment on column public.flashcards.note_id is 'Groups sibling cards: the cards of a cloze note or both directions of a basic note (null for single cards)';
+
+-- Index: One card per direction of a basic note
+create unique index idx_flashcards_note_direction on public.flashcards(note_id, reversed)
+  where note_id is not null and card_type = 'basic';
+
+-- =====================================================================
+-- SECTION 2: FLASHCARDS - BURYING
+-- Purpose: Reviewing a card buries its siblings until the end of the day
+-- =====================================================================
+
+alter table public.flashcards
+  add column buried_until timestamptz;
+
+comment on column public.flashcards.buried_until is 'Card is left out of the study queue until this time (set when a sibling card is reviewed)';
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Tables altered: flashcards (reversed, buried_until columns; cloze fields check relaxed for basic notes)
+-- Indexes added: idx_flashcards_note_direction
+-- Note: existing flashcards are front→back and not buried
+-- =====================================================================
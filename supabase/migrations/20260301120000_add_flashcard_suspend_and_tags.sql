@@ -0,0 +1,125 @@
+-- =====================================================================
+-- Migration: Suspended flashcards and flashcard tags
+-- Purpose: Cards can be suspended (kept, but left out of studying) and
+--          labelled with tags, e.g. from bulk operations on selected cards
+-- Tables: flashcards (altered)
+-- Functions: get_user_stats (replaced)
+-- Features: constraints, indexes
+-- Date: 2026-03-01
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: FLASHCARDS - SUSPENDING
+-- Purpose: A suspended card keeps its spaced repetition state but is never due
+-- =====================================================================
+
+alter table public.flashcards
+  add column suspended boolean not null default false;
+
+comment on column public.flashcards.suspended is 'Card is left out of studying and due counts until it is unsuspended';
+
+-- =====================================================================
+-- SECTION 2: FLASHCARDS - TAGS
+-- Purpose: Free-form labels (lowercase, no whitespace); all cards of a note share their tags
+-- =====================================================================
+
+alter table public.flashcards
+  add column tags text[] not null default '{}';
+
+alter table public.flashcards
+  add constraint flashcards_tags_check check (cardinality(tags) <= 20);
+
+comment on column public.flashcards.tags is 'Tags of the card (at most 20, normalized to lowercase by the API)';
+
+-- Index: Optimize filtering flashcards by tag (tags @> array[...])
+create index idx_flashcards_tags on public.flashcards using gin (tags);
+
+-- =====================================================================
+-- SECTION 3: USER STATISTICS FUNCTION
+-- Purpose: Suspended cards are not counted as due
+-- =====================================================================
+
+create or replace function public.get_user_stats(p_timezone text default 'UTC')
+returns table (
+  total_decks bigint,
+  total_flashcards bigint,
+  ai_full_count bigint,
+  ai_edited_count bigint,
+  manual_count bigint,
+  total_due bigint,
+  total_generations bigint,
+  avg_generation_duration_ms integer,
+  study_streak_days integer
+)
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  with
+  flashcard_stats as (
+    select
+      count(*) as total,
+      count(*) filter (where source = 'ai-full') as ai_full,
+      count(*) filter (where source = 'ai-edited') as ai_edited,
+      count(*) filter (where source = 'manual') as manual,
+      count(*) filter (where next_review_at <= now() and not suspended) as due
+    from public.flashcards
+    where user_id = auth.uid()
+  ),
+  generation_stats as (
+    select
+      count(*) as total,
+      coalesce(round(avg(generation_duration)), 0)::integer as avg_duration
+    from public.generations
+    where user_id = auth.uid()
+  ),
+  -- Distinct calendar days (in the user's timezone) with at least one review
+  review_days as (
+    select distinct (reviewed_at at time zone p_timezone)::date as day
+    from public.review_logs
+    where user_id = auth.uid()
+  ),
+  today as (
+    select (now() at time zone p_timezone)::date as day
+  ),
+  -- The streak counts from today, or from yesterday if there was no review today yet
+  streak_start as (
+    select case
+      when exists (select 1 from review_days rd, today t where rd.day = t.day) then t.day
+      else t.day - 1
+    end as day
+    from today t
+  ),
+  ranked_days as (
+    select rd.day, row_number() over (order by rd.day desc) as rn
+    from review_days rd, streak_start s
+    where rd.day <= s.day
+  ),
+  streak as (
+    -- Distinct days sorted descending match "start - (rn - 1)" only for the unbroken run
+    select count(*)::integer as days
+    from ranked_days rd, streak_start s
+    where rd.day = s.day - (rd.rn - 1)::integer
+  )
+  select
+    (select count(*) from public.decks where user_id = auth.uid()),
+    fs.total,
+    fs.ai_full,
+    fs.ai_edited,
+    fs.manual,
+    fs.due,
+    gs.total,
+    gs.avg_duration,
+    st.days
+  from flashcard_stats fs, generation_stats gs, streak st;
+$$;
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Tables altered: flashcards (suspended, tags columns)
+-- Indexes added: idx_flashcards_tags (GIN)
+-- Functions replaced: get_user_stats (due count skips suspended cards)
+-- Note: existing flashcards are not suspended and have no tags
+-- =====================================================================
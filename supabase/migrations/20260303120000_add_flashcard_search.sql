@@ -0,0 +1,170 @@
+-- =====================================================================
+-- Migration: Full-text search of flashcards
+-- Purpose: Search the front and back of all flashcards of a user, in English
+--          and Polish (AI generation keeps the language of the source text)
+-- Extensions: unaccent
+-- Text search configurations: polish
+-- Functions: flashcard_search_vector, flashcard_search_query, search_flashcards
+-- Features: expression index
+-- Date: 2026-03-03
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: TEXT SEARCH CONFIGURATION
+-- Purpose: Postgres ships no Polish stemmer - Polish words are indexed
+--          unstemmed and without diacritics, and searched by prefix
+--          ("kot" finds "kota", "zolw" finds "żółw")
+-- =====================================================================
+
+create extension if not exists unaccent with schema extensions;
+
+create text search configuration public.polish (copy = pg_catalog.simple);
+
+alter text search configuration public.polish
+  alter mapping for hword, hword_part, word with extensions.unaccent, pg_catalog.simple;
+
+comment on text search configuration public.polish is 'Unstemmed, unaccented words for searching Polish text';
+
+-- =====================================================================
+-- SECTION 2: SEARCH VECTOR
+-- Purpose: Every card is indexed with both configurations, since its
+--          language is not stored; front words rank above back words
+-- Note: an expression index instead of a generated column, so that
+--       select * on flashcards does not return the vector
+-- =====================================================================
+
+create or replace function public.flashcard_search_vector(p_front text, p_back text)
+returns tsvector
+language sql
+immutable
+parallel safe
+set search_path = ''
+as $$
+  select
+    setweight(to_tsvector('pg_catalog.english', p_front), 'A') ||
+    setweight(to_tsvector('public.polish', p_front), 'A') ||
+    setweight(to_tsvector('pg_catalog.english', p_back), 'B') ||
+    setweight(to_tsvector('public.polish', p_back), 'B');
+$$;
+
+comment on function public.flashcard_search_vector(text, text) is 'Search vector of a flashcard (English stems and unaccented Polish words)';
+
+-- Index: Optimize full-text search of flashcards
+create index idx_flashcards_search on public.flashcards
+  using gin (public.flashcard_search_vector(front, back));
+
+-- =====================================================================
+-- SECTION 3: SEARCH QUERY
+-- Purpose: Matches the English stems of the search text, or all of its
+--          words as unaccented prefixes; any input is accepted (parsed
+--          like a web search, never raises a syntax error)
+-- =====================================================================
+
+create or replace function public.flashcard_search_query(p_query text)
+returns tsquery
+language sql
+immutable
+parallel safe
+set search_path = ''
+as $$
+  select case
+    when prefixes.query is null then english.query
+    else english.query || prefixes.query
+  end
+  from
+    (select websearch_to_tsquery('pg_catalog.english', p_query) as query) as english,
+    (
+      select to_tsquery('public.polish', string_agg(quote_literal(word) || ':*', ' & ')) as query
+      from unnest(tsvector_to_array(to_tsvector('public.polish', p_query))) as word
+    ) as prefixes;
+$$;
+
+comment on function public.flashcard_search_query(text) is 'Search query for flashcard_search_vector (English stems or unaccented word prefixes)';
+
+-- =====================================================================
+-- SECTION 4: SEARCH FUNCTION
+-- Purpose: Ranked search results with highlighted snippets and deck names
+-- Note: security invoker - RLS policies still apply, auth.uid() scopes the search
+-- Note: cards of a note (cloze numbers, both directions) share their text -
+--       a note is returned once, as its first card
+-- Note: matches in snippets are wrapped in ⟦ ⟧, which the API turns into
+--       highlighted segments (the text is not HTML-escaped)
+-- =====================================================================
+
+create or replace function public.search_flashcards(
+  p_query text,
+  p_deck_id uuid default null,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  id uuid,
+  deck_id uuid,
+  deck_name text,
+  card_type text,
+  front_snippet text,
+  back_snippet text,
+  rank real,
+  total_count bigint
+)
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  with
+  query as (
+    select public.flashcard_search_query(p_query) as tsq
+  ),
+  matches as (
+    select distinct on (coalesce(f.note_id, f.id))
+      f.id,
+      f.deck_id,
+      f.card_type,
+      -- Cloze markup is shown as plain text: {{c1::answer::hint}} -> answer
+      regexp_replace(f.front, '\{\{c\d+::(.*?)(::.*?)?\}\}', '\1', 'g') as front,
+      f.back,
+      ts_rank(public.flashcard_search_vector(f.front, f.back), q.tsq) as rank
+    from public.flashcards f, query q
+    where f.user_id = auth.uid()
+      and (p_deck_id is null or f.deck_id = p_deck_id)
+      and public.flashcard_search_vector(f.front, f.back) @@ q.tsq
+    order by coalesce(f.note_id, f.id), f.cloze_index nulls first, f.reversed
+  ),
+  page as (
+    select m.*, count(*) over () as total_count
+    from matches m
+    order by m.rank desc, m.id
+    limit p_limit
+    offset p_offset
+  )
+  select
+    p.id,
+    p.deck_id,
+    d.name,
+    p.card_type::text,
+    ts_headline('pg_catalog.english', p.front, q.tsq,
+      'StartSel="⟦", StopSel="⟧", MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'),
+    ts_headline('pg_catalog.english', p.back, q.tsq,
+      'StartSel="⟦", StopSel="⟧", MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'),
+    p.rank,
+    p.total_count
+  from page p
+  join public.decks d on d.id = p.deck_id
+  cross join query q
+  order by p.rank desc, p.id;
+$$;
+
+comment on function public.search_flashcards(text, uuid, integer, integer) is 'Full-text search of the flashcards of the calling user, with highlighted snippets';
+
+-- Allow authenticated users to call the function
+grant execute on function public.search_flashcards(text, uuid, integer, integer) to authenticated;
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Extensions enabled: unaccent
+-- Text search configurations created: polish
+-- Functions created: flashcard_search_vector, flashcard_search_query, search_flashcards
+-- Indexes added: idx_flashcards_search (GIN, expression)
+-- =====================================================================
@@ -0,0 +1,62 @@
+-- =====================================================================
+-- Migration: Tag counts and tags of AI suggestions
+-- Purpose: List the tags of a user with the number of cards per tag (for
+--          tag filters), and keep the tags proposed by the model with each
+--          suggestion until it is accepted
+-- Tables: generation_suggestions (altered)
+-- Functions: get_user_tags
+-- Features: constraints
+-- Date: 2026-03-05
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: GENERATION SUGGESTIONS - TAGS
+-- Purpose: Tags proposed by the model, given to the flashcards created
+--          from the suggestion
+-- =====================================================================
+
+alter table public.generation_suggestions
+  add column tags text[] not null default '{}';
+
+alter table public.generation_suggestions
+  add constraint generation_suggestions_tags_check check (cardinality(tags) <= 20);
+
+comment on column public.generation_suggestions.tags is 'Tags proposed by the model (normalized to lowercase by the API)';
+
+-- =====================================================================
+-- SECTION 2: TAG COUNTS FUNCTION
+-- Purpose: Distinct tags of the calling user's cards (optionally of one
+--          deck) with the number of cards per tag
+-- Note: security invoker - RLS policies still apply, auth.uid() scopes the counts
+-- =====================================================================
+
+create or replace function public.get_user_tags(p_deck_id uuid default null)
+returns table (
+  tag text,
+  flashcard_count bigint
+)
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select t.tag, count(*) as flashcard_count
+  from public.flashcards f
+  cross join lateral unnest(f.tags) as t(tag)
+  where f.user_id = auth.uid()
+    and (p_deck_id is null or f.deck_id = p_deck_id)
+  group by t.tag
+  order by t.tag;
+$$;
+
+comment on function public.get_user_tags(uuid) is 'Tags of the flashcards of the calling user with the number of cards per tag';
+
+-- Allow authenticated users to call the function
+grant execute on function public.get_user_tags(uuid) to authenticated;
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Tables altered: generation_suggestions (tags)
+-- Functions created: get_user_tags
+-- =====================================================================
@@ -0,0 +1,130 @@
+-- =====================================================================
+-- Migration: Nested decks
+-- Purpose: Let decks contain sub-decks (e.g. Biology › Cell › Mitochondria),
+--          with flashcard counts rolled up through the sub-decks
+-- Tables: decks (altered)
+-- Functions: check_deck_parent, get_deck_counts
+-- Features: self-referencing foreign key, trigger, recursive queries
+-- Date: 2026-03-07
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: DECKS - PARENT DECK
+-- Purpose: A deck without a parent is a top-level deck; deleting a deck
+--          deletes its sub-decks (and their flashcards) with it
+-- =====================================================================
+
+alter table public.decks
+  add column parent_id uuid references public.decks(id) on delete cascade;
+
+alter table public.decks
+  add constraint decks_parent_not_self_check check (parent_id <> id);
+
+comment on column public.decks.parent_id is 'Parent deck; null for top-level decks';
+
+-- Index: Optimize lookups of sub-decks
+create index idx_decks_parent_id on public.decks(parent_id);
+
+-- =====================================================================
+-- SECTION 2: CYCLE PREVENTION
+-- Purpose: The parent must be a deck of the same user, and a deck cannot
+--          be nested under itself or any of its sub-decks
+-- Note: decks of a user are checked one at a time (advisory lock), so that
+--       two concurrent moves cannot create a cycle together
+-- =====================================================================
+
+create or replace function public.check_deck_parent()
+returns trigger
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('decks:' || new.user_id::text));
+
+  if not exists (
+    select 1 from public.decks d where d.id = new.parent_id and d.user_id = new.user_id
+  ) then
+    raise exception 'Parent deck % not found', new.parent_id
+      using errcode = 'foreign_key_violation';
+  end if;
+
+  if exists (
+    with recursive ancestors as (
+      select d.id, d.parent_id from public.decks d where d.id = new.parent_id
+      union
+      select d.id, d.parent_id from public.decks d join ancestors a on d.id = a.parent_id
+    )
+    select 1 from ancestors where id = new.id
+  ) then
+    raise exception 'Deck % cannot be nested under itself or its sub-deck', new.id
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+comment on function public.check_deck_parent() is 'Rejects parent decks of other users and nesting that would create a cycle';
+
+create trigger check_deck_parent
+  before insert or update of parent_id on public.decks
+  for each row
+  execute function public.check_deck_parent();
+
+-- =====================================================================
+-- SECTION 3: DECK COUNTS FUNCTION
+-- Purpose: Number of flashcards and due flashcards of each deck of the
+--          calling user (optionally of one deck), including the cards of
+--          all its sub-decks
+-- Note: security invoker - RLS policies still apply, auth.uid() scopes the counts
+-- Note: due cards match the deck endpoints - not suspended, next_review_at passed
+-- =====================================================================
+
+create or replace function public.get_deck_counts(p_deck_id uuid default null)
+returns table (
+  deck_id uuid,
+  flashcard_count bigint,
+  due_flashcard_count bigint
+)
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  with recursive subtree as (
+    select d.id as root_id, d.id as deck_id
+    from public.decks d
+    where d.user_id = auth.uid()
+      and (p_deck_id is null or d.id = p_deck_id)
+    union all
+    select s.root_id, child.id
+    from subtree s
+    join public.decks child on child.parent_id = s.deck_id
+  )
+  select
+    s.root_id,
+    count(f.id) as flashcard_count,
+    count(f.id) filter (where not f.suspended and f.next_review_at <= now()) as due_flashcard_count
+  from subtree s
+  left join public.flashcards f on f.deck_id = s.deck_id
+  group by s.root_id;
+$$;
+
+comment on function public.get_deck_counts(uuid) is 'Flashcard and due flashcard counts of the decks of the calling user, including their sub-decks';
+
+-- Allow authenticated users to call the function
+grant execute on function public.get_deck_counts(uuid) to authenticated;
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Tables altered: decks (parent_id)
+-- Functions created: check_deck_parent, get_deck_counts
+-- Triggers created: check_deck_parent
+-- Indexes added: idx_decks_parent_id
+-- =====================================================================
@@ -0,0 +1,97 @@
+-- =====================================================================
+-- Migration: Atomic flashcard reviews
+-- Purpose: Reschedule a flashcard and record the review in review_logs in
+--          one transaction, so that the review history (and statistics
+--          built on it) never misses a review that changed the schedule
+-- Functions: record_flashcard_review
+-- Date: 2026-03-09
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: RECORD REVIEW FUNCTION
+-- Purpose: Stores the new SM-2 state (calculated by the API) and the log
+--          row with the state before and after the review
+-- Note: security invoker - RLS policies still apply, auth.uid() scopes the card
+-- Note: the card is locked while reviewed, so the logged previous state is
+--       the one the new state replaced, even for concurrent reviews
+-- =====================================================================
+
+create or replace function public.record_flashcard_review(
+  p_flashcard_id uuid,
+  p_quality smallint,
+  p_review_duration_ms integer,
+  p_interval integer,
+  p_ease_factor real,
+  p_repetitions integer,
+  p_next_review_at timestamptz
+)
+returns setof public.flashcards
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  v_previous public.flashcards;
+  v_updated public.flashcards;
+begin
+  select * into v_previous
+  from public.flashcards f
+  where f.id = p_flashcard_id and f.user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Flashcard % not found', p_flashcard_id
+      using errcode = 'no_data_found';
+  end if;
+
+  update public.flashcards
+  set
+    interval = p_interval,
+    ease_factor = p_ease_factor,
+    repetitions = p_repetitions,
+    next_review_at = p_next_review_at
+  where id = p_flashcard_id
+  returning * into v_updated;
+
+  insert into public.review_logs (
+    flashcard_id,
+    deck_id,
+    user_id,
+    quality,
+    review_duration_ms,
+    previous_interval,
+    previous_ease_factor,
+    previous_repetitions,
+    new_interval,
+    new_ease_factor,
+    new_repetitions,
+    next_review_at
+  ) values (
+    v_updated.id,
+    v_updated.deck_id,
+    v_updated.user_id,
+    p_quality,
+    p_review_duration_ms,
+    v_previous.interval,
+    v_previous.ease_factor,
+    v_previous.repetitions,
+    p_interval,
+    p_ease_factor,
+    p_repetitions,
+    p_next_review_at
+  );
+
+  return next v_updated;
+end;
+$$;
+
+comment on function public.record_flashcard_review(uuid, smallint, integer, integer, real, integer, timestamptz) is 'Reschedules a flashcard of the calling user and logs the review in one transaction';
+
+-- Allow authenticated users to call the function
+grant execute on function public.record_flashcard_review(uuid, smallint, integer, integer, real, integer, timestamptz) to authenticated;
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Functions created: record_flashcard_review
+-- =====================================================================
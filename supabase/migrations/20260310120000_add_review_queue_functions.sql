@@ -0,0 +1,114 @@
+-- =====================================================================
+-- Migration: Review queue functions
+-- Purpose: Load the due cards of all decks of a user for the cross-deck
+--          "Review all" queue in a constant number of queries, instead of
+--          separate queries for every deck
+-- Functions: get_review_queue_cards, get_due_counts
+-- Date: 2026-03-10
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: REVIEW QUEUE CARDS FUNCTION
+-- Purpose: Due cards of every deck, capped per deck - reviewed cards first
+--          (most overdue first), then new cards (oldest first) in the
+--          remaining slots, capped by the new-card limit
+-- Note: matches the per-deck due query of the API: suspended cards and
+--       cards buried at p_now are left out
+-- Note: a card is new while it has the initial SM-2 state (0 repetitions,
+--       ease factor 2.5)
+-- Note: security invoker - RLS policies still apply, auth.uid() scopes the cards
+-- =====================================================================
+
+create or replace function public.get_review_queue_cards(
+  p_deck_limit integer,
+  p_new_limit integer,
+  p_tag text default null,
+  p_now timestamptz default now()
+)
+returns setof public.flashcards
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  with
+  due as (
+    select
+      f.id,
+      f.deck_id,
+      f.next_review_at,
+      f.created_at,
+      (f.repetitions = 0 and f.ease_factor = 2.5) as is_new
+    from public.flashcards f
+    where f.user_id = auth.uid()
+      and not f.suspended
+      and f.next_review_at <= p_now
+      and (f.buried_until is null or f.buried_until <= p_now)
+      and (p_tag is null or f.tags @> array[p_tag])
+  ),
+  ranked as (
+    select
+      d.*,
+      row_number() over (
+        partition by d.deck_id, d.is_new
+        order by case when d.is_new then d.created_at else d.next_review_at end, d.id
+      ) as position,
+      count(*) filter (where not d.is_new) over (partition by d.deck_id) as reviewed_count
+    from due d
+  ),
+  picked as (
+    select r.*
+    from ranked r
+    where (not r.is_new and r.position <= p_deck_limit)
+       or (r.is_new and r.position <= least(p_new_limit, p_deck_limit - least(r.reviewed_count, p_deck_limit)))
+  )
+  select f.*
+  from picked p
+  join public.flashcards f on f.id = p.id
+  order by p.deck_id, p.is_new, p.position;
+$$;
+
+comment on function public.get_review_queue_cards(integer, integer, text, timestamptz) is 'Due flashcards of all decks of the calling user, capped per deck and ordered by urgency';
+
+-- Allow authenticated users to call the function
+grant execute on function public.get_review_queue_cards(integer, integer, text, timestamptz) to authenticated;
+
+-- =====================================================================
+-- SECTION 2: DUE COUNTS FUNCTION
+-- Purpose: Number of due cards of every deck (regardless of limits), with
+--          the same filters as get_review_queue_cards
+-- =====================================================================
+
+create or replace function public.get_due_counts(
+  p_tag text default null,
+  p_now timestamptz default now()
+)
+returns table (
+  deck_id uuid,
+  total_due bigint
+)
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select f.deck_id, count(*) as total_due
+  from public.flashcards f
+  where f.user_id = auth.uid()
+    and not f.suspended
+    and f.next_review_at <= p_now
+    and (f.buried_until is null or f.buried_until <= p_now)
+    and (p_tag is null or f.tags @> array[p_tag])
+  group by f.deck_id;
+$$;
+
+comment on function public.get_due_counts(text, timestamptz) is 'Number of due flashcards per deck of the calling user';
+
+-- Allow authenticated users to call the function
+grant execute on function public.get_due_counts(text, timestamptz) to authenticated;
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Functions created: get_review_queue_cards, get_due_counts
+-- =====================================================================
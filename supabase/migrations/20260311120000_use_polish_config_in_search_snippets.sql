@@ -0,0 +1,88 @@
+-- =====================================================================
+-- Migration: Search snippets in the search configuration
+-- Purpose: Highlight matches in search snippets with the unaccented
+--          Polish configuration used for matching, so that words found
+--          without diacritics or by prefix ("zolw" -> "żółw", "kot" ->
+--          "kota") are highlighted too, not only English stems
+-- Functions: search_flashcards (replaced)
+-- Date: 2026-03-11
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: SEARCH FUNCTION
+-- Purpose: Same results as before; only the snippets change
+-- Note: the search query matches every word as an unaccented prefix, so
+--       snippets parsed with public.polish highlight every matched word
+-- =====================================================================
+
+create or replace function public.search_flashcards(
+  p_query text,
+  p_deck_id uuid default null,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  id uuid,
+  deck_id uuid,
+  deck_name text,
+  card_type text,
+  front_snippet text,
+  back_snippet text,
+  rank real,
+  total_count bigint
+)
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  with
+  query as (
+    select public.flashcard_search_query(p_query) as tsq
+  ),
+  matches as (
+    select distinct on (coalesce(f.note_id, f.id))
+      f.id,
+      f.deck_id,
+      f.card_type,
+      -- Cloze markup is shown as plain text: {{c1::answer::hint}} -> answer
+      regexp_replace(f.front, '\{\{c\d+::(.*?)(::.*?)?\}\}', '\1', 'g') as front,
+      f.back,
+      ts_rank(public.flashcard_search_vector(f.front, f.back), q.tsq) as rank
+    from public.flashcards f, query q
+    where f.user_id = auth.uid()
+      and (p_deck_id is null or f.deck_id = p_deck_id)
+      and public.flashcard_search_vector(f.front, f.back) @@ q.tsq
+    order by coalesce(f.note_id, f.id), f.cloze_index nulls first, f.reversed
+  ),
+  page as (
+    select m.*, count(*) over () as total_count
+    from matches m
+    order by m.rank desc, m.id
+    limit p_limit
+    offset p_offset
+  )
+  select
+    p.id,
+    p.deck_id,
+    d.name,
+    p.card_type::text,
+    ts_headline('public.polish', p.front, q.tsq,
+      'StartSel="⟦", StopSel="⟧", MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'),
+    ts_headline('public.polish', p.back, q.tsq,
+      'StartSel="⟦", StopSel="⟧", MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'),
+    p.rank,
+    p.total_count
+  from page p
+  join public.decks d on d.id = p.deck_id
+  cross join query q
+  order by p.rank desc, p.id;
+$$;
+
+comment on function public.search_flashcards(text, uuid, integer, integer) is 'Full-text search of the flashcards of the calling user, with highlighted snippets';
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Functions replaced: search_flashcards
+-- =====================================================================
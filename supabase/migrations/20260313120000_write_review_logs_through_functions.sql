@@ -0,0 +1,183 @@
+-- =====================================================================
+-- Migration: Write review logs only through functions
+-- Purpose: Streaks and the review history are built from review_logs, so
+--          clients must not be able to insert arbitrary rows into it
+--          through the API. The insert policy is dropped; reviews are
+--          logged by record_flashcard_review and restored backups by
+--          restore_review_logs, both running with the owner's rights and
+--          checking that the flashcards belong to the calling user.
+-- Functions: record_flashcard_review (replaced), restore_review_logs
+-- Policies: "Users can create own review logs" (dropped)
+-- Date: 2026-03-13
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: REVIEW LOGS TABLE POLICIES
+-- Note: Logs stay readable by their owner; they are only written by the
+--       functions below
+-- =====================================================================
+
+drop policy if exists "Users can create own review logs" on public.review_logs;
+
+-- =====================================================================
+-- SECTION 2: RECORD REVIEW FUNCTION
+-- Purpose: Same as before (see 20260312120000), but able to insert the log
+--          row without the insert policy
+-- Note: security definer - RLS policies do not apply, so the card is
+--       selected by the ID and auth.uid() of the caller
+-- =====================================================================
+
+create or replace function public.record_flashcard_review(
+  p_flashcard_id uuid,
+  p_quality smallint,
+  p_review_duration_ms integer,
+  p_previous_interval integer,
+  p_previous_ease_factor real,
+  p_previous_repetitions integer,
+  p_interval integer,
+  p_ease_factor real,
+  p_repetitions integer,
+  p_next_review_at timestamptz
+)
+returns setof public.flashcards
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_previous public.flashcards;
+  v_updated public.flashcards;
+begin
+  select * into v_previous
+  from public.flashcards f
+  where f.id = p_flashcard_id and f.user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Flashcard % not found', p_flashcard_id
+      using errcode = 'no_data_found';
+  end if;
+
+  if v_previous.interval <> p_previous_interval
+    or v_previous.ease_factor <> p_previous_ease_factor
+    or v_previous.repetitions <> p_previous_repetitions then
+    raise exception 'Flashcard % was reviewed concurrently', p_flashcard_id
+      using errcode = 'serialization_failure';
+  end if;
+
+  update public.flashcards
+  set
+    interval = p_interval,
+    ease_factor = p_ease_factor,
+    repetitions = p_repetitions,
+    next_review_at = p_next_review_at
+  where id = p_flashcard_id
+  returning * into v_updated;
+
+  insert into public.review_logs (
+    flashcard_id,
+    deck_id,
+    user_id,
+    quality,
+    review_duration_ms,
+    previous_interval,
+    previous_ease_factor,
+    previous_repetitions,
+    new_interval,
+    new_ease_factor,
+    new_repetitions,
+    next_review_at
+  ) values (
+    v_updated.id,
+    v_updated.deck_id,
+    v_updated.user_id,
+    p_quality,
+    p_review_duration_ms,
+    v_previous.interval,
+    v_previous.ease_factor,
+    v_previous.repetitions,
+    p_interval,
+    p_ease_factor,
+    p_repetitions,
+    p_next_review_at
+  );
+
+  return next v_updated;
+end;
+$$;
+
+-- Only signed in users may call it (functions are executable by everyone by default)
+revoke execute on function public.record_flashcard_review(uuid, smallint, integer, integer, real, integer, integer, real, integer, timestamptz) from public, anon;
+grant execute on function public.record_flashcard_review(uuid, smallint, integer, integer, real, integer, integer, real, integer, timestamptz) to authenticated;
+
+-- =====================================================================
+-- SECTION 3: RESTORE REVIEW LOGS FUNCTION
+-- Purpose: Inserts the review logs of a restored account backup
+-- Note: security definer - rows of flashcards that don't belong to the
+--       calling user are skipped, user_id is always the caller, and a
+--       deck_id of another user's deck is cleared
+-- Note: the restore inserts the flashcards first and passes their new IDs
+-- =====================================================================
+
+create or replace function public.restore_review_logs(p_logs jsonb)
+returns integer
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_count integer;
+begin
+  insert into public.review_logs (
+    id,
+    flashcard_id,
+    deck_id,
+    user_id,
+    quality,
+    review_duration_ms,
+    previous_interval,
+    previous_ease_factor,
+    previous_repetitions,
+    new_interval,
+    new_ease_factor,
+    new_repetitions,
+    next_review_at,
+    reviewed_at
+  )
+  select
+    coalesce(l.id, gen_random_uuid()),
+    l.flashcard_id,
+    d.id,
+    auth.uid(),
+    l.quality,
+    l.review_duration_ms,
+    l.previous_interval,
+    l.previous_ease_factor,
+    l.previous_repetitions,
+    l.new_interval,
+    l.new_ease_factor,
+    l.new_repetitions,
+    l.next_review_at,
+    coalesce(l.reviewed_at, now())
+  from jsonb_populate_recordset(null::public.review_logs, p_logs) l
+  join public.flashcards f on f.id = l.flashcard_id and f.user_id = auth.uid()
+  left join public.decks d on d.id = l.deck_id and d.user_id = auth.uid();
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+comment on function public.restore_review_logs(jsonb) is 'Inserts review logs of a restored backup for flashcards of the calling user; returns the number of inserted logs';
+
+-- Only signed in users may call it (functions are executable by everyone by default)
+revoke execute on function public.restore_review_logs(jsonb) from public, anon;
+grant execute on function public.restore_review_logs(jsonb) to authenticated;
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Policies dropped: "Users can create own review logs"
+-- Functions replaced: record_flashcard_review
+-- Functions created: restore_review_logs
+-- =====================================================================
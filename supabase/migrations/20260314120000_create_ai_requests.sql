@@ -0,0 +1,59 @@
+-- =====================================================================
+-- Migration: AI request records for rate limiting
+-- Purpose: Count every paid model call towards the hourly limit when it
+--          starts. Generation records are only saved once the model
+--          finishes, so a client that disconnected from the streaming
+--          endpoint before the end was never counted.
+-- Tables: ai_requests
+-- Features: RLS policies, indexes
+-- Date: 2026-03-14
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: AI REQUESTS TABLE
+-- Purpose: One row per model call, written before the call is made
+-- =====================================================================
+
+create table public.ai_requests (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  kind text not null check (kind in ('generation')),
+  created_at timestamptz not null default now()
+);
+
+-- Add comments to table and columns
+comment on table public.ai_requests is 'Model calls made for a user, counted by the hourly rate limits. Written before the call, so aborted calls count too.';
+comment on column public.ai_requests.kind is 'Kind of the call: generation';
+
+-- Enable Row Level Security
+alter table public.ai_requests enable row level security;
+
+-- Index: Optimize counting the recent requests of a user
+create index idx_ai_requests_user_id_created_at on public.ai_requests(user_id, created_at);
+
+-- =====================================================================
+-- SECTION 2: AI REQUESTS TABLE POLICIES
+-- Note: Append-only - no update or delete policies, so records cannot be
+--       removed to get around the limit
+-- =====================================================================
+
+-- Policy: Users can view their own AI requests
+create policy "Users can view own AI requests"
+  on public.ai_requests
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Policy: Users can create their own AI requests
+create policy "Users can create own AI requests"
+  on public.ai_requests
+  for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Tables created: ai_requests
+-- RLS policies added: SELECT and INSERT for authenticated users on own records
+-- =====================================================================
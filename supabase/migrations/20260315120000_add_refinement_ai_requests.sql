@@ -0,0 +1,27 @@
+-- =====================================================================
+-- Migration: Refinement AI requests
+-- Purpose: Suggestion refinements are paid model calls too, but were not
+--          recorded anywhere, so they could be made without limit. They
+--          are now recorded in ai_requests and counted by their own
+--          hourly limit.
+-- Tables: ai_requests (altered)
+-- Date: 2026-03-15
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: AI REQUEST KINDS
+-- =====================================================================
+
+alter table public.ai_requests
+  drop constraint if exists ai_requests_kind_check;
+
+alter table public.ai_requests
+  add constraint ai_requests_kind_check check (kind in ('generation', 'refinement'));
+
+comment on column public.ai_requests.kind is 'Kind of the call: generation or refinement (of a suggestion)';
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Tables altered: ai_requests (kind accepts refinement)
+-- =====================================================================
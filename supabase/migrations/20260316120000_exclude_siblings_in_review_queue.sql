@@ -0,0 +1,85 @@
+-- =====================================================================
+-- Migration: Siblings in the review queue
+-- Purpose: Leave out siblings (other directions and cloze numbers of a
+--          note) before the per-deck limits are applied. The API removed
+--          them after the limits, so decks with reverse or cloze notes got
+--          fewer cards than the limit although more cards were due.
+-- Functions: get_review_queue_cards (replaced)
+-- Date: 2026-03-16
+-- =====================================================================
+
+-- =====================================================================
+-- SECTION 1: REVIEW QUEUE CARDS FUNCTION
+-- Purpose: Same as before (see 20260310120000), with one card per note
+-- Note: of the due cards of a note, the one that would be queued first is
+--       kept - the most overdue reviewed card, otherwise the oldest new one
+-- =====================================================================
+
+create or replace function public.get_review_queue_cards(
+  p_deck_limit integer,
+  p_new_limit integer,
+  p_tag text default null,
+  p_now timestamptz default now()
+)
+returns setof public.flashcards
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  with
+  due as (
+    select
+      f.id,
+      f.deck_id,
+      f.note_id,
+      f.next_review_at,
+      f.created_at,
+      (f.repetitions = 0 and f.ease_factor = 2.5) as is_new
+    from public.flashcards f
+    where f.user_id = auth.uid()
+      and not f.suspended
+      and f.next_review_at <= p_now
+      and (f.buried_until is null or f.buried_until <= p_now)
+      and (p_tag is null or f.tags @> array[p_tag])
+  ),
+  first_of_note as (
+    select d.*
+    from (
+      select
+        d.*,
+        row_number() over (
+          partition by coalesce(d.note_id, d.id)
+          order by d.is_new, case when d.is_new then d.created_at else d.next_review_at end, d.id
+        ) as note_position
+      from due d
+    ) d
+    where d.note_position = 1
+  ),
+  ranked as (
+    select
+      d.*,
+      row_number() over (
+        partition by d.deck_id, d.is_new
+        order by case when d.is_new then d.created_at else d.next_review_at end, d.id
+      ) as position,
+      count(*) filter (where not d.is_new) over (partition by d.deck_id) as reviewed_count
+    from first_of_note d
+  ),
+  picked as (
+    select r.*
+    from ranked r
+    where (not r.is_new and r.position <= p_deck_limit)
+       or (r.is_new and r.position <= least(p_new_limit, p_deck_limit - least(r.reviewed_count, p_deck_limit)))
+  )
+  select f.*
+  from picked p
+  join public.flashcards f on f.id = p.id
+  order by p.deck_id, p.is_new, p.position;
+$$;
+
+-- =====================================================================
+-- MIGRATION COMPLETE
+-- =====================================================================
+-- Functions replaced: get_review_queue_cards
+-- =====================================================================